@@ -0,0 +1,70 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { editorStyles } from '../styles/spreadsheet'
+
+// 確定後にカーソルを移動する方向
+export type CommitDirection = 'up' | 'down' | 'left' | 'right' | null
+
+interface CellEditorProps {
+  value: string
+  onChange: (value: string) => void
+  onCommit: (direction: CommitDirection) => void
+  onCancel: () => void
+  className?: string
+}
+
+export default function CellEditor({
+  value,
+  onChange,
+  onCommit,
+  onCancel,
+  className,
+}: CellEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // マウント時にフォーカスし、キャレットを末尾に置く
+  useEffect(() => {
+    const input = inputRef.current
+    if (!input) return
+    input.focus()
+    input.setSelectionRange(input.value.length, input.value.length)
+  }, [])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+
+    // IMEの変換中は確定・キャンセルとして扱わない
+    if (e.nativeEvent.isComposing) return
+
+    switch (e.key) {
+      case 'Enter':
+        e.preventDefault()
+        onCommit(e.shiftKey ? 'up' : 'down')
+        break
+      case 'Tab':
+        e.preventDefault()
+        onCommit(e.shiftKey ? 'left' : 'right')
+        break
+      case 'Escape':
+        e.preventDefault()
+        onCancel()
+        break
+    }
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      className={cn(editorStyles.input, className)}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => onCommit(null)}
+      onMouseDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    />
+  )
+}
@@ -0,0 +1,317 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { columnMenuStyles, layoutStyles } from '../styles/spreadsheet'
+import { DEFAULT_DATE_FORMAT, DEFAULT_LOCALE, formatCellValue, parseCellInput } from '../lib/format'
+import type {
+  DateFilterOperator,
+  FilterCondition,
+  NumberFilterOperator,
+  TextFilterOperator,
+} from '../lib/filter'
+import type { SortDirection } from '../lib/sort'
+
+type FilterMode = FilterCondition['type']
+
+// 値の一覧に表示する件数の上限（検索で絞り込める）
+const MAX_LISTED_VALUES = 1000
+
+const TEXT_OPERATORS: [TextFilterOperator, string][] = [
+  ['contains', 'を含む'],
+  ['notContains', 'を含まない'],
+  ['equals', 'と等しい'],
+  ['notEquals', 'と等しくない'],
+  ['beginsWith', 'で始まる'],
+  ['endsWith', 'で終わる'],
+]
+
+const NUMBER_OPERATORS: [NumberFilterOperator, string][] = [
+  ['=', 'と等しい'],
+  ['<>', 'と等しくない'],
+  ['>', 'より大きい'],
+  ['>=', '以上'],
+  ['<', 'より小さい'],
+  ['<=', '以下'],
+  ['between', 'の範囲内'],
+]
+
+const DATE_OPERATORS: [DateFilterOperator, string][] = [
+  ['equals', 'と等しい'],
+  ['before', 'より前'],
+  ['after', 'より後'],
+  ['between', 'の範囲内'],
+]
+
+const OPERATORS: Record<Exclude<FilterMode, 'values'>, [string, string][]> = {
+  text: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS,
+  date: DATE_OPERATORS,
+}
+
+const MODE_LABELS: Record<FilterMode, string> = {
+  values: '値で絞り込む',
+  text: 'テキストの条件',
+  number: '数値の条件',
+  date: '日付の条件',
+}
+
+// 入力された数値・日付をシリアル値にする（解釈できない場合は null）
+function parseConditionValue(input: string): number | null {
+  const content = parseCellInput(input)
+  if (content.type !== 'number' && content.type !== 'date') return null
+  return Number(content.value)
+}
+
+function formatConditionValue(condition: FilterCondition | undefined, value: number | undefined, locale: string): string {
+  if (value === undefined) return ''
+  return condition?.type === 'date'
+    ? formatCellValue(value, { type: 'date', format: DEFAULT_DATE_FORMAT }, locale)
+    : String(value)
+}
+
+interface ColumnMenuProps {
+  // コンテナの左上からの表示位置
+  position: { x: number; y: number }
+  // 列の値の一覧（空白のセルは ''）
+  values: string[]
+  // 列に設定されている絞り込みの条件
+  condition?: FilterCondition
+  // 既存の並べ替えに条件を追加できるかどうか
+  canAddSortKey?: boolean
+  locale?: string
+  onSort: (direction: SortDirection, addKey: boolean) => void
+  // null の場合は列の絞り込みを解除する
+  onFilter: (condition: FilterCondition | null) => void
+  onClose: () => void
+}
+
+export default function ColumnMenu({
+  position,
+  values,
+  condition,
+  canAddSortKey = false,
+  locale = DEFAULT_LOCALE,
+  onSort,
+  onFilter,
+  onClose,
+}: ColumnMenuProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [mode, setMode] = useState<FilterMode>(condition?.type ?? 'values')
+  const [search, setSearch] = useState('')
+  const [checkedValues, setCheckedValues] = useState(
+    () => new Set(condition?.type === 'values' ? condition.values : values)
+  )
+  const [operator, setOperator] = useState<string>(
+    condition && condition.type !== 'values' ? condition.operator : OPERATORS.text[0][0]
+  )
+  const [input, setInput] = useState(() => {
+    if (!condition || condition.type === 'values') return ''
+    return condition.type === 'text' ? condition.value : formatConditionValue(condition, condition.value, locale)
+  })
+  const [input2, setInput2] = useState(() => {
+    if (condition?.type !== 'number' && condition?.type !== 'date') return ''
+    return formatConditionValue(condition, condition.value2, locale)
+  })
+
+  // メニューの外をクリックしたら閉じる
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [onClose])
+
+  const listedValues = useMemo(() => {
+    const query = search.toLowerCase()
+    return values.filter(value => value.toLowerCase().includes(query)).slice(0, MAX_LISTED_VALUES)
+  }, [values, search])
+
+  const handleModeChange = (nextMode: FilterMode) => {
+    setMode(nextMode)
+    if (nextMode !== 'values') setOperator(OPERATORS[nextMode][0][0])
+  }
+
+  const toggleValue = (value: string) => {
+    setCheckedValues(prev => {
+      const next = new Set(prev)
+      if (next.has(value)) next.delete(value)
+      else next.add(value)
+      return next
+    })
+  }
+
+  // 表示中の値をまとめて選択・解除
+  const isAllChecked = listedValues.every(value => checkedValues.has(value))
+  const toggleAll = () => {
+    setCheckedValues(prev => {
+      const next = new Set(prev)
+      listedValues.forEach(value => (isAllChecked ? next.delete(value) : next.add(value)))
+      return next
+    })
+  }
+
+  // 入力中の内容から条件を作る（不完全な場合は undefined、すべて表示する場合は null）
+  const buildCondition = (): FilterCondition | null | undefined => {
+    switch (mode) {
+      case 'values':
+        if (values.every(value => checkedValues.has(value))) return null
+        return { type: 'values', values: values.filter(value => checkedValues.has(value)) }
+      case 'text':
+        return input === '' ? undefined : { type: 'text', operator: operator as TextFilterOperator, value: input }
+      case 'number':
+      case 'date': {
+        const value = parseConditionValue(input)
+        if (value === null) return undefined
+        if (operator !== 'between') return mode === 'number'
+          ? { type: 'number', operator: operator as NumberFilterOperator, value }
+          : { type: 'date', operator: operator as DateFilterOperator, value }
+        const value2 = parseConditionValue(input2)
+        if (value2 === null) return undefined
+        return mode === 'number'
+          ? { type: 'number', operator: 'between', value, value2 }
+          : { type: 'date', operator: 'between', value, value2 }
+      }
+    }
+  }
+  const nextCondition = buildCondition()
+
+  const handleApply = () => {
+    if (nextCondition === undefined) return
+    onFilter(nextCondition)
+    onClose()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+    if (e.nativeEvent.isComposing) return
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'Enter' && e.target instanceof HTMLInputElement && e.target.type !== 'checkbox') {
+      e.preventDefault()
+      handleApply()
+    }
+  }
+
+  const sortItem = (direction: SortDirection, addKey: boolean, label: string) => (
+    <button
+      type="button"
+      className={columnMenuStyles.item}
+      disabled={addKey && !canAddSortKey}
+      onClick={() => {
+        onSort(direction, addKey)
+        onClose()
+      }}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div
+      ref={containerRef}
+      className={columnMenuStyles.container}
+      style={{ left: position.x, top: position.y, zIndex: layoutStyles.zIndex.menu }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      {sortItem('asc', false, '昇順で並べ替え')}
+      {sortItem('desc', false, '降順で並べ替え')}
+      {sortItem('asc', true, '並べ替えの条件に追加（昇順）')}
+      {sortItem('desc', true, '並べ替えの条件に追加（降順）')}
+      <div className={columnMenuStyles.separator} />
+
+      <div className={columnMenuStyles.section}>
+        <select
+          className={columnMenuStyles.input}
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value as FilterMode)}
+        >
+          {(Object.keys(MODE_LABELS) as FilterMode[]).map(key => (
+            <option key={key} value={key}>{MODE_LABELS[key]}</option>
+          ))}
+        </select>
+
+        {mode === 'values' ? (
+          <>
+            <input
+              className={columnMenuStyles.input}
+              placeholder="検索"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              autoFocus
+            />
+            <div className={columnMenuStyles.valueList}>
+              <label className={columnMenuStyles.valueItem}>
+                <input type="checkbox" checked={isAllChecked} onChange={toggleAll} />
+                （すべて選択）
+              </label>
+              {listedValues.map(value => (
+                <label key={value} className={columnMenuStyles.valueItem}>
+                  <input type="checkbox" checked={checkedValues.has(value)} onChange={() => toggleValue(value)} />
+                  {value === '' ? '（空白セル）' : value}
+                </label>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <select
+              className={columnMenuStyles.input}
+              value={operator}
+              onChange={(e) => setOperator(e.target.value)}
+            >
+              {OPERATORS[mode].map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+            <input
+              className={columnMenuStyles.input}
+              placeholder={mode === 'date' ? '2024/1/1' : undefined}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              autoFocus
+            />
+            {operator === 'between' && (
+              <input
+                className={columnMenuStyles.input}
+                value={input2}
+                onChange={(e) => setInput2(e.target.value)}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      <div className={columnMenuStyles.footer}>
+        <button
+          type="button"
+          className={cn(columnMenuStyles.button, 'mr-auto')}
+          disabled={!condition}
+          onClick={() => {
+            onFilter(null)
+            onClose()
+          }}
+        >
+          クリア
+        </button>
+        <button type="button" className={columnMenuStyles.button} onClick={onClose}>
+          キャンセル
+        </button>
+        <button
+          type="button"
+          className={columnMenuStyles.primaryButton}
+          disabled={nextCondition === undefined}
+          onClick={handleApply}
+        >
+          OK
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,454 @@
+'use client'
+
+import React, { useState } from 'react'
+import { cn } from '@/lib/utils'
+import { conditionalFormatStyles } from '../styles/spreadsheet'
+import { formatRangeAddress, parseRangeAddress, toCellRange } from '../lib/address'
+import {
+  ICON_SETS,
+  type ComparisonOperator,
+  type ConditionalFormat,
+  type ConditionalRule,
+  type ConditionalRuleType,
+  type IconSetType,
+} from '../lib/conditional'
+import type { CellRange, CellStyle } from '../types/spreadsheet'
+
+interface ConditionalFormatManagerProps {
+  // 先頭ほど優先度が高い
+  formats: ConditionalFormat[]
+  // 新しいルールの範囲の初期値（選択範囲）
+  defaultRange: CellRange | null
+  onChange: (formats: ConditionalFormat[]) => void
+  onClose: () => void
+  className?: string
+}
+
+// 編集中のルール（範囲は入力された文字列のまま持つ）
+interface Draft {
+  id: string
+  rangeText: string
+  rule: ConditionalRule
+  stopIfTrue: boolean
+}
+
+const RULE_TYPES: [ConditionalRuleType, string][] = [
+  ['cellValue', 'セルの値'],
+  ['textContains', '指定の文字列を含む'],
+  ['topBottom', '上位・下位'],
+  ['duplicates', '重複する値'],
+  ['formula', '数式'],
+  ['colorScale', 'カラースケール'],
+  ['dataBar', 'データバー'],
+  ['iconSet', 'アイコンセット'],
+]
+
+const OPERATORS: [ComparisonOperator, string][] = [
+  ['between', '次の値の間'],
+  ['notBetween', '次の値の間以外'],
+  ['equal', '次の値に等しい'],
+  ['notEqual', '次の値に等しくない'],
+  ['greaterThan', '次の値より大きい'],
+  ['lessThan', '次の値より小さい'],
+  ['greaterThanOrEqual', '次の値以上'],
+  ['lessThanOrEqual', '次の値以下'],
+]
+
+const ICON_SET_LABELS: Record<IconSetType, string> = {
+  arrows: '矢印',
+  trafficLights: '信号',
+  symbols: '記号',
+}
+
+// 新しいルールの既定の書式（薄い赤の塗りつぶしに濃い赤の文字）
+const DEFAULT_RULE_STYLE: CellStyle = { fill: '#ffc7ce', color: '#9c0006' }
+
+let nextId = 0
+const createId = () => `cf-${Date.now().toString(36)}-${nextId++}`
+
+// 種類を切り替えたときのルール（書式を持つルールどうしでは書式を引き継ぐ）
+function createRule(type: ConditionalRuleType, style: CellStyle = DEFAULT_RULE_STYLE): ConditionalRule {
+  switch (type) {
+    case 'cellValue':
+      return { type, operator: 'greaterThan', value: '0', style }
+    case 'textContains':
+      return { type, text: '', style }
+    case 'topBottom':
+      return { type, position: 'top', count: 10, style }
+    case 'duplicates':
+      return { type, style }
+    case 'formula':
+      return { type, formula: '=', style }
+    case 'colorScale':
+      return { type, minColor: '#f8696b', midColor: '#ffeb84', maxColor: '#63be7b' }
+    case 'dataBar':
+      return { type, color: '#638ec6' }
+    case 'iconSet':
+      return { type, iconSet: 'arrows' }
+  }
+}
+
+const hasStyle = (rule: ConditionalRule): rule is Extract<ConditionalRule, { style: CellStyle }> => 'style' in rule
+
+// 一覧に表示するルールの説明
+function describeRule(rule: ConditionalRule): string {
+  switch (rule.type) {
+    case 'cellValue': {
+      const label = OPERATORS.find(([operator]) => operator === rule.operator)?.[1] ?? ''
+      const values = rule.operator === 'between' || rule.operator === 'notBetween'
+        ? `${rule.value} と ${rule.value2 ?? ''}`
+        : rule.value
+      return `セルの値が${label} ${values}`
+    }
+    case 'textContains':
+      return `"${rule.text}" を含む`
+    case 'topBottom':
+      return `${rule.position === 'top' ? '上位' : '下位'} ${rule.count}${rule.percent ? '%' : ' 項目'}`
+    case 'duplicates':
+      return rule.unique ? '一意の値' : '重複する値'
+    case 'formula':
+      return `数式: ${rule.formula}`
+    case 'colorScale':
+      return rule.midColor === undefined ? '2色スケール' : '3色スケール'
+    case 'dataBar':
+      return 'データバー'
+    case 'iconSet':
+      return `アイコンセット（${ICON_SET_LABELS[rule.iconSet]}）`
+  }
+}
+
+// ルールのプレビュー（書式を持つルールは書式を適用した見本、それ以外は色や記号）
+function RulePreview({ rule }: { rule: ConditionalRule }) {
+  if (hasStyle(rule)) {
+    return (
+      <span
+        className={conditionalFormatStyles.preview}
+        style={{
+          backgroundColor: rule.style.fill,
+          color: rule.style.color,
+          fontWeight: rule.style.bold ? 'bold' : undefined,
+          fontStyle: rule.style.italic ? 'italic' : undefined,
+        }}
+      >
+        Aa
+      </span>
+    )
+  }
+  if (rule.type === 'colorScale') {
+    const colors = [rule.minColor, rule.midColor, rule.maxColor].filter(Boolean).join(', ')
+    return <span className={conditionalFormatStyles.preview} style={{ background: `linear-gradient(to right, ${colors})` }} />
+  }
+  if (rule.type === 'dataBar') {
+    return <span className={conditionalFormatStyles.preview} style={{ background: `linear-gradient(to right, ${rule.color} 60%, transparent 60%)` }} />
+  }
+  return (
+    <span className={conditionalFormatStyles.preview}>
+      {ICON_SETS[rule.iconSet].map((icon, i) => <span key={i} style={{ color: icon.color }}>{icon.symbol}</span>)}
+    </span>
+  )
+}
+
+// 条件付き書式のルールの一覧と編集フォーム（変更は一覧全体を onChange で親に渡す）
+export default function ConditionalFormatManager({
+  formats,
+  defaultRange,
+  onChange,
+  onClose,
+  className,
+}: ConditionalFormatManagerProps) {
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const range = draft && parseRangeAddress(draft.rangeText)
+  const isInvalidRange = draft !== null && (!range || range.sheetName !== null)
+
+  const startAdd = () => setDraft({
+    id: createId(),
+    rangeText: defaultRange ? formatRangeAddress(defaultRange) : 'A1',
+    rule: createRule('cellValue'),
+    stopIfTrue: false,
+  })
+
+  const startEdit = (format: ConditionalFormat) => setDraft({
+    id: format.id,
+    rangeText: formatRangeAddress(format.range),
+    rule: format.rule,
+    stopIfTrue: !!format.stopIfTrue,
+  })
+
+  const save = () => {
+    if (!draft || !range || isInvalidRange) return
+    const format: ConditionalFormat = { id: draft.id, range: toCellRange(range), rule: draft.rule }
+    if (draft.stopIfTrue) format.stopIfTrue = true
+    const index = formats.findIndex(({ id }) => id === draft.id)
+    // 新しいルールは最も優先度を高くする
+    onChange(index === -1 ? [format, ...formats] : formats.map((item, i) => i === index ? format : item))
+    setDraft(null)
+  }
+
+  const move = (index: number, step: number) => {
+    const target = index + step
+    if (target < 0 || target >= formats.length) return
+    const next = [...formats]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const remove = (id: string) => {
+    onChange(formats.filter(format => format.id !== id))
+    if (draft?.id === id) setDraft(null)
+  }
+
+  const updateRule = (patch: Partial<ConditionalRule>) => {
+    if (!draft) return
+    setDraft({ ...draft, rule: { ...draft.rule, ...patch } as ConditionalRule })
+  }
+
+  const updateStyle = (patch: CellStyle) => {
+    if (!draft || !hasStyle(draft.rule)) return
+    updateRule({ style: { ...draft.rule.style, ...patch } })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+    if (e.nativeEvent.isComposing) return
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      if (draft) setDraft(null)
+      else onClose()
+    }
+  }
+
+  const colorField = (label: string, value: string, onColorChange: (color: string) => void) => (
+    <label className={conditionalFormatStyles.field}>
+      {label}
+      <input type="color" className={conditionalFormatStyles.color} value={value} onChange={(e) => onColorChange(e.target.value)} />
+    </label>
+  )
+
+  // 種類ごとの条件の入力欄
+  const renderRuleFields = (rule: ConditionalRule) => {
+    switch (rule.type) {
+      case 'cellValue':
+        return (
+          <>
+            <select
+              className={conditionalFormatStyles.select}
+              value={rule.operator}
+              onChange={(e) => updateRule({ operator: e.target.value as ComparisonOperator })}
+            >
+              {OPERATORS.map(([operator, label]) => <option key={operator} value={operator}>{label}</option>)}
+            </select>
+            <div className={conditionalFormatStyles.row}>
+              <input
+                type="text"
+                className={conditionalFormatStyles.input}
+                placeholder="値または =数式"
+                value={rule.value}
+                onChange={(e) => updateRule({ value: e.target.value })}
+              />
+              {(rule.operator === 'between' || rule.operator === 'notBetween') && (
+                <input
+                  type="text"
+                  className={conditionalFormatStyles.input}
+                  placeholder="値または =数式"
+                  value={rule.value2 ?? ''}
+                  onChange={(e) => updateRule({ value2: e.target.value })}
+                />
+              )}
+            </div>
+          </>
+        )
+      case 'textContains':
+        return (
+          <input
+            type="text"
+            className={conditionalFormatStyles.input}
+            placeholder="文字列"
+            value={rule.text}
+            onChange={(e) => updateRule({ text: e.target.value })}
+          />
+        )
+      case 'topBottom':
+        return (
+          <div className={conditionalFormatStyles.row}>
+            <select
+              className={conditionalFormatStyles.select}
+              value={rule.position}
+              onChange={(e) => updateRule({ position: e.target.value as 'top' | 'bottom' })}
+            >
+              <option value="top">上位</option>
+              <option value="bottom">下位</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              className={conditionalFormatStyles.number}
+              value={rule.count}
+              onChange={(e) => updateRule({ count: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+            />
+            <label className={conditionalFormatStyles.field}>
+              <input type="checkbox" checked={!!rule.percent} onChange={(e) => updateRule({ percent: e.target.checked })} />
+              %
+            </label>
+          </div>
+        )
+      case 'duplicates':
+        return (
+          <select
+            className={conditionalFormatStyles.select}
+            value={rule.unique ? 'unique' : 'duplicate'}
+            onChange={(e) => updateRule({ unique: e.target.value === 'unique' })}
+          >
+            <option value="duplicate">重複する値</option>
+            <option value="unique">一意の値</option>
+          </select>
+        )
+      case 'formula':
+        return (
+          <input
+            type="text"
+            className={conditionalFormatStyles.input}
+            placeholder="=$A1>0"
+            title="範囲の左上のセルに対する数式（相対参照は各セルに合わせてずれる）"
+            value={rule.formula}
+            onChange={(e) => updateRule({ formula: e.target.value })}
+          />
+        )
+      case 'colorScale':
+        return (
+          <div className={conditionalFormatStyles.row}>
+            {colorField('最小', rule.minColor, (minColor) => updateRule({ minColor }))}
+            <label className={conditionalFormatStyles.field}>
+              <input
+                type="checkbox"
+                checked={rule.midColor !== undefined}
+                onChange={(e) => updateRule({ midColor: e.target.checked ? '#ffeb84' : undefined })}
+              />
+              中間
+            </label>
+            {rule.midColor !== undefined && colorField('', rule.midColor, (midColor) => updateRule({ midColor }))}
+            {colorField('最大', rule.maxColor, (maxColor) => updateRule({ maxColor }))}
+          </div>
+        )
+      case 'dataBar':
+        return colorField('バーの色', rule.color, (color) => updateRule({ color }))
+      case 'iconSet':
+        return (
+          <div className={conditionalFormatStyles.row}>
+            <select
+              className={conditionalFormatStyles.select}
+              value={rule.iconSet}
+              onChange={(e) => updateRule({ iconSet: e.target.value as IconSetType })}
+            >
+              {Object.entries(ICON_SET_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <label className={conditionalFormatStyles.field}>
+              <input type="checkbox" checked={!!rule.reverse} onChange={(e) => updateRule({ reverse: e.target.checked })} />
+              逆順
+            </label>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div
+      className={cn(conditionalFormatStyles.panel, className)}
+      role="dialog"
+      aria-label="条件付き書式"
+      onKeyDown={handleKeyDown}
+    >
+      <div className={conditionalFormatStyles.header}>
+        <span>条件付き書式</span>
+        <button type="button" className={conditionalFormatStyles.iconButton} title="閉じる (Esc)" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <ul className={conditionalFormatStyles.list}>
+        {formats.length === 0 && <li className={conditionalFormatStyles.empty}>ルールはありません</li>}
+        {formats.map((format, index) => (
+          <li
+            key={format.id}
+            className={cn(conditionalFormatStyles.item, draft?.id === format.id && conditionalFormatStyles.activeItem)}
+          >
+            <RulePreview rule={format.rule} />
+            <div className={conditionalFormatStyles.description}>
+              <div>{describeRule(format.rule)}</div>
+              <div className={conditionalFormatStyles.range}>{formatRangeAddress(format.range)}</div>
+            </div>
+            <button type="button" className={conditionalFormatStyles.iconButton} title="優先度を上げる" disabled={index === 0} onClick={() => move(index, -1)}>
+              ↑
+            </button>
+            <button type="button" className={conditionalFormatStyles.iconButton} title="優先度を下げる" disabled={index === formats.length - 1} onClick={() => move(index, 1)}>
+              ↓
+            </button>
+            <button type="button" className={conditionalFormatStyles.iconButton} title="編集" onClick={() => startEdit(format)}>
+              ✎
+            </button>
+            <button type="button" className={conditionalFormatStyles.iconButton} title="削除" onClick={() => remove(format.id)}>
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {draft ? (
+        <div className={conditionalFormatStyles.form}>
+          <label className={conditionalFormatStyles.field}>
+            範囲
+            <input
+              type="text"
+              className={cn(conditionalFormatStyles.input, isInvalidRange && conditionalFormatStyles.invalidInput)}
+              value={draft.rangeText}
+              onChange={(e) => setDraft({ ...draft, rangeText: e.target.value })}
+            />
+          </label>
+          <select
+            className={conditionalFormatStyles.select}
+            value={draft.rule.type}
+            onChange={(e) => setDraft({
+              ...draft,
+              rule: createRule(e.target.value as ConditionalRuleType, hasStyle(draft.rule) ? draft.rule.style : undefined),
+            })}
+          >
+            {RULE_TYPES.map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+          </select>
+          {renderRuleFields(draft.rule)}
+          {hasStyle(draft.rule) && (
+            <div className={conditionalFormatStyles.row}>
+              {colorField('塗りつぶし', draft.rule.style.fill ?? '#ffffff', (fill) => updateStyle({ fill }))}
+              {colorField('文字', draft.rule.style.color ?? '#000000', (color) => updateStyle({ color }))}
+              <label className={conditionalFormatStyles.field}>
+                <input type="checkbox" checked={!!draft.rule.style.bold} onChange={(e) => updateStyle({ bold: e.target.checked })} />
+                太字
+              </label>
+              <label className={conditionalFormatStyles.field}>
+                <input type="checkbox" checked={!!draft.rule.style.italic} onChange={(e) => updateStyle({ italic: e.target.checked })} />
+                斜体
+              </label>
+            </div>
+          )}
+          <label className={conditionalFormatStyles.field}>
+            <input type="checkbox" checked={draft.stopIfTrue} onChange={(e) => setDraft({ ...draft, stopIfTrue: e.target.checked })} />
+            条件を満たす場合は停止
+          </label>
+          <div className={conditionalFormatStyles.actions}>
+            <button type="button" className={conditionalFormatStyles.button} onClick={() => setDraft(null)}>
+              キャンセル
+            </button>
+            <button type="button" className={conditionalFormatStyles.primaryButton} disabled={isInvalidRange} onClick={save}>
+              保存
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className={conditionalFormatStyles.actions}>
+          <button type="button" className={conditionalFormatStyles.button} onClick={startAdd}>
+            新しいルール
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
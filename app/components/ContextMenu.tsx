@@ -0,0 +1,130 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { contextMenuStyles, layoutStyles } from '../styles/spreadsheet'
+
+export interface ContextMenuItem {
+  id: string
+  label: string
+  // 表示するだけのショートカットキー（Ctrl+C など）
+  shortcut?: string
+  disabled?: boolean
+  onSelect: () => void
+}
+
+// 'separator' は区切り線
+export type ContextMenuEntry = ContextMenuItem | 'separator'
+
+interface ContextMenuProps {
+  // コンテナの左上からの表示位置
+  position: { x: number; y: number }
+  items: ContextMenuEntry[]
+  onClose: () => void
+  className?: string
+}
+
+const isItem = (entry: ContextMenuEntry): entry is ContextMenuItem => entry !== 'separator'
+
+export default function ContextMenu({
+  position,
+  items,
+  onClose,
+  className,
+}: ContextMenuProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  // キーボードで選んでいる項目（items の位置）
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  // 開いたらキーボードで操作できるようにフォーカスする
+  useEffect(() => {
+    containerRef.current?.focus()
+  }, [])
+
+  // メニューの外をクリックしたら閉じる
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [onClose])
+
+  const select = (item: ContextMenuItem) => {
+    if (item.disabled) return
+    onClose()
+    item.onSelect()
+  }
+
+  // 無効な項目と区切り線を飛ばして移動する
+  const moveActive = (step: number) => {
+    const start = activeIndex < 0 && step < 0 ? items.length : activeIndex
+    for (let i = 1; i <= items.length; i++) {
+      const index = (((start + step * i) % items.length) + items.length) % items.length
+      const entry = items[index]
+      if (isItem(entry) && !entry.disabled) {
+        setActiveIndex(index)
+        return
+      }
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        moveActive(1)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        moveActive(-1)
+        break
+      case 'Enter':
+      case ' ': {
+        e.preventDefault()
+        const entry = items[activeIndex]
+        if (entry && isItem(entry)) select(entry)
+        break
+      }
+      case 'Escape':
+      case 'Tab':
+        e.preventDefault()
+        onClose()
+        break
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      role="menu"
+      tabIndex={-1}
+      className={cn(contextMenuStyles.container, className)}
+      style={{ left: position.x, top: position.y, zIndex: layoutStyles.zIndex.menu }}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map((entry, index) => isItem(entry) ? (
+        <button
+          key={entry.id}
+          type="button"
+          role="menuitem"
+          tabIndex={-1}
+          className={cn(contextMenuStyles.item, index === activeIndex && contextMenuStyles.activeItem)}
+          disabled={entry.disabled}
+          onMouseEnter={() => setActiveIndex(index)}
+          onClick={() => select(entry)}
+        >
+          <span>{entry.label}</span>
+          {entry.shortcut && <span className={contextMenuStyles.shortcut}>{entry.shortcut}</span>}
+        </button>
+      ) : (
+        <div key={`separator-${index}`} className={contextMenuStyles.separator} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { documentStyles } from '../styles/spreadsheet'
+import type { AutosaveStatus } from '../hooks/useAutosave'
+import type { DocumentSummary } from '../lib/storage'
+import ContextMenu from './ContextMenu'
+
+interface DocumentBarProps {
+  title: string
+  status: AutosaveStatus
+  recentDocuments: DocumentSummary[]
+  // 開いている文書（最近の文書の一覧では選べないようにする）
+  documentId: string
+  onTitleChange: (title: string) => void
+  onNew: () => void
+  onOpen: (id: string) => void
+  // 選んだ CSV・TSV ファイルを表示中のシートに読み込む
+  onImportCsv: (file: File) => void
+  className?: string
+}
+
+const STATUS_LABELS: Record<AutosaveStatus, string> = {
+  idle: '',
+  pending: '保存しています…',
+  saving: '保存しています…',
+  saved: 'すべての変更を保存しました',
+  error: '保存できませんでした',
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleString('ja-JP', { dateStyle: 'short', timeStyle: 'short' })
+
+// 文書の名前・保存の状態と、新規作成・最近の文書を開く・CSV を読み込むボタン
+export default function DocumentBar({
+  title,
+  status,
+  recentDocuments,
+  documentId,
+  onTitleChange,
+  onNew,
+  onOpen,
+  onImportCsv,
+  className,
+}: DocumentBarProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [recentMenuPosition, setRecentMenuPosition] = useState<{ x: number; y: number } | null>(null)
+
+  const toggleRecentMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+    if (recentMenuPosition) {
+      setRecentMenuPosition(null)
+      return
+    }
+    const button = e.currentTarget.getBoundingClientRect()
+    const container = containerRef.current?.getBoundingClientRect()
+    setRecentMenuPosition({ x: button.left - (container?.left ?? 0), y: button.bottom - (container?.top ?? 0) })
+  }
+
+  return (
+    <div ref={containerRef} className={cn(documentStyles.bar, className)}>
+      <input
+        value={title}
+        aria-label="ブックの名前"
+        className={documentStyles.titleInput}
+        onChange={(e) => onTitleChange(e.target.value)}
+      />
+      <button type="button" className={documentStyles.button} onClick={onNew}>
+        新規
+      </button>
+      <button
+        type="button"
+        className={documentStyles.button}
+        disabled={recentDocuments.length === 0}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={toggleRecentMenu}
+      >
+        最近使ったブック ▾
+      </button>
+      <button type="button" className={documentStyles.button} onClick={() => fileInputRef.current?.click()}>
+        CSV を読み込む
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          // 同じファイルを続けて選べるように空にする
+          e.target.value = ''
+          if (file) onImportCsv(file)
+        }}
+      />
+      <span
+        role="status"
+        className={cn(documentStyles.status, status === 'error' && documentStyles.errorStatus)}
+      >
+        {STATUS_LABELS[status]}
+      </span>
+      {recentMenuPosition && (
+        <ContextMenu
+          position={recentMenuPosition}
+          items={recentDocuments.map(document => ({
+            id: document.id,
+            label: document.title || '無題のブック',
+            shortcut: formatDate(document.updatedAt),
+            disabled: document.id === documentId,
+            onSelect: () => onOpen(document.id),
+          }))}
+          onClose={() => setRecentMenuPosition(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import React from 'react'
+import { cn } from '@/lib/utils'
+import { toolbarStyles } from '../styles/spreadsheet'
+import type { BorderPreset, CellStylePatch } from '../lib/style'
+import type { CellStyle, HorizontalAlignment, VerticalAlignment } from '../types/spreadsheet'
+
+interface FormatToolbarProps {
+  // アクティブセルの書式（ボタンの状態に使う）
+  style: CellStyle | undefined
+  onStyleChange: (patch: CellStylePatch) => void
+  onBordersChange: (preset: BorderPreset) => void
+  // 指定した場合は条件付き書式のボタンを表示する
+  onConditionalFormatClick?: () => void
+  className?: string
+}
+
+const FONT_SIZES = [8, 9, 10, 11, 12, 14, 16, 18, 20, 24, 28, 36]
+const DEFAULT_FONT_SIZE = 11
+const DEFAULT_TEXT_COLOR = '#000000'
+const DEFAULT_FILL_COLOR = '#ffff00'
+
+const HORIZONTAL_ALIGNMENTS: { value: HorizontalAlignment; label: string; title: string }[] = [
+  { value: 'left', label: '≡←', title: '左揃え' },
+  { value: 'center', label: '≡', title: '中央揃え' },
+  { value: 'right', label: '→≡', title: '右揃え' },
+]
+
+const VERTICAL_ALIGNMENTS: { value: VerticalAlignment; label: string; title: string }[] = [
+  { value: 'top', label: '⤒', title: '上揃え' },
+  { value: 'middle', label: '↕', title: '上下中央揃え' },
+  { value: 'bottom', label: '⤓', title: '下揃え' },
+]
+
+const BORDER_PRESETS: { value: BorderPreset; label: string }[] = [
+  { value: 'all', label: '格子' },
+  { value: 'outside', label: '外枠' },
+  { value: 'top', label: '上罫線' },
+  { value: 'bottom', label: '下罫線' },
+  { value: 'left', label: '左罫線' },
+  { value: 'right', label: '右罫線' },
+  { value: 'none', label: '枠なし' },
+]
+
+// 書式をすべて解除する変更
+const CLEAR_PATCH: CellStylePatch = {
+  bold: null,
+  italic: null,
+  underline: null,
+  strikethrough: null,
+  fontSize: null,
+  color: null,
+  fill: null,
+  horizontalAlign: null,
+  verticalAlign: null,
+  wrap: null,
+  borderTop: null,
+  borderRight: null,
+  borderBottom: null,
+  borderLeft: null,
+}
+
+// 選択範囲の書式を変更するツールバー（変更は onStyleChange・onBordersChange で親に渡す）
+export default function FormatToolbar({
+  style,
+  onStyleChange,
+  onBordersChange,
+  onConditionalFormatClick,
+  className,
+}: FormatToolbarProps) {
+  // ボタンのクリックでグリッドからフォーカスを移さない
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault()
+
+  const toggle = (key: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'wrap', label: React.ReactNode, title: string) => (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={!!style?.[key]}
+      className={cn(toolbarStyles.button, style?.[key] && toolbarStyles.activeButton)}
+      onMouseDown={keepFocus}
+      onClick={() => onStyleChange({ [key]: !style?.[key] })}
+    >
+      {label}
+    </button>
+  )
+
+  const color = (key: 'color' | 'fill', label: string, title: string, defaultColor: string) => (
+    <label className={toolbarStyles.colorLabel} title={title}>
+      <span>{label}</span>
+      <span className={toolbarStyles.colorSwatch} style={{ backgroundColor: style?.[key] ?? defaultColor }} />
+      <input
+        type="color"
+        className={toolbarStyles.colorInput}
+        value={style?.[key] ?? defaultColor}
+        onChange={(e) => onStyleChange({ [key]: e.target.value })}
+      />
+    </label>
+  )
+
+  return (
+    <div role="toolbar" aria-label="書式" className={cn(toolbarStyles.container, className)}>
+      <div className={toolbarStyles.group}>
+        <select
+          title="フォントサイズ"
+          className={toolbarStyles.select}
+          value={style?.fontSize ?? DEFAULT_FONT_SIZE}
+          onChange={(e) => {
+            const size = Number(e.target.value)
+            onStyleChange({ fontSize: size === DEFAULT_FONT_SIZE ? null : size })
+          }}
+        >
+          {FONT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+        </select>
+        {toggle('bold', <b>B</b>, '太字 (Ctrl+B)')}
+        {toggle('italic', <i>I</i>, '斜体 (Ctrl+I)')}
+        {toggle('underline', <u>U</u>, '下線 (Ctrl+U)')}
+        {toggle('strikethrough', <s>S</s>, '取り消し線')}
+      </div>
+      <div className={toolbarStyles.separator} />
+      <div className={toolbarStyles.group}>
+        {color('color', 'A', '文字の色', DEFAULT_TEXT_COLOR)}
+        {color('fill', '■', '塗りつぶしの色', DEFAULT_FILL_COLOR)}
+        <button
+          type="button"
+          title="塗りつぶしなし"
+          className={toolbarStyles.button}
+          onMouseDown={keepFocus}
+          onClick={() => onStyleChange({ fill: null })}
+        >
+          □
+        </button>
+      </div>
+      <div className={toolbarStyles.separator} />
+      <div className={toolbarStyles.group}>
+        {HORIZONTAL_ALIGNMENTS.map(({ value, label, title }) => (
+          <button
+            key={value}
+            type="button"
+            title={title}
+            aria-pressed={style?.horizontalAlign === value}
+            className={cn(toolbarStyles.button, style?.horizontalAlign === value && toolbarStyles.activeButton)}
+            onMouseDown={keepFocus}
+            // 選択中の揃えをもう一度押した場合は値の型に応じた揃えに戻す
+            onClick={() => onStyleChange({ horizontalAlign: style?.horizontalAlign === value ? null : value })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className={toolbarStyles.group}>
+        {VERTICAL_ALIGNMENTS.map(({ value, label, title }) => (
+          <button
+            key={value}
+            type="button"
+            title={title}
+            aria-pressed={(style?.verticalAlign ?? 'middle') === value}
+            className={cn(toolbarStyles.button, (style?.verticalAlign ?? 'middle') === value && toolbarStyles.activeButton)}
+            onMouseDown={keepFocus}
+            onClick={() => onStyleChange({ verticalAlign: value === 'middle' ? null : value })}
+          >
+            {label}
+          </button>
+        ))}
+        {toggle('wrap', '↵', '折り返して全体を表示')}
+      </div>
+      <div className={toolbarStyles.separator} />
+      <div className={toolbarStyles.group}>
+        <select
+          title="罫線"
+          className={toolbarStyles.select}
+          value=""
+          onChange={(e) => onBordersChange(e.target.value as BorderPreset)}
+        >
+          <option value="" disabled>罫線</option>
+          {BORDER_PRESETS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <button
+          type="button"
+          title="書式のクリア"
+          className={toolbarStyles.button}
+          onMouseDown={keepFocus}
+          onClick={() => onStyleChange(CLEAR_PATCH)}
+        >
+          書式のクリア
+        </button>
+        {onConditionalFormatClick && (
+          <button
+            type="button"
+            title="条件付き書式"
+            className={toolbarStyles.button}
+            onMouseDown={keepFocus}
+            onClick={onConditionalFormatClick}
+          >
+            条件付き書式
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { layoutStyles, validationStyles } from '../styles/spreadsheet'
+
+// 操作を実行できなかった（一部しか実行できなかった）理由
+export type NoticeReason = 'lockedCells' | 'mergedCells' | 'deleteAllRows' | 'deleteAllColumns' | 'csvTruncated'
+
+const REFUSED_TITLE = '操作できません'
+
+const NOTICES: Record<NoticeReason, { title: string; message: string }> = {
+  lockedCells: { title: REFUSED_TITLE, message: '編集できないセルが含まれているため、この操作は実行できません。' },
+  mergedCells: { title: REFUSED_TITLE, message: '結合されたセルを含む範囲は並べ替えできません。' },
+  deleteAllRows: { title: REFUSED_TITLE, message: 'すべての行を削除することはできません。' },
+  deleteAllColumns: { title: REFUSED_TITLE, message: 'すべての列を削除することはできません。' },
+  csvTruncated: {
+    title: '一部を読み込めませんでした',
+    message: 'シートの行数・列数を超える部分は読み込みませんでした。',
+  },
+}
+
+interface NoticeMessageProps {
+  reason: NoticeReason
+  onClose: () => void
+  className?: string
+}
+
+// 操作を実行できなかったことを知らせるメッセージ（OK か Escape で閉じる）
+export default function NoticeMessage({ reason, onClose, className }: NoticeMessageProps) {
+  const { title, message } = NOTICES[reason]
+  const buttonRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    buttonRef.current?.focus()
+  }, [])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div
+      role="alertdialog"
+      aria-label={title}
+      className={cn(validationStyles.dialog, className)}
+      style={{ zIndex: layoutStyles.zIndex.menu }}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className={validationStyles.title}>
+        <span className={validationStyles.warningIcon}>⚠</span>
+        {title}
+      </div>
+      <div className={validationStyles.message}>{message}</div>
+      <div className={validationStyles.actions}>
+        <button ref={buttonRef} type="button" className={validationStyles.button} onClick={onClose}>
+          OK
+        </button>
+      </div>
+    </div>
+  )
+}
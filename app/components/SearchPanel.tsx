@@ -0,0 +1,189 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { layoutStyles, searchStyles } from '../styles/spreadsheet'
+import type { SearchOptions, SearchTarget } from '../lib/search'
+import type { SearchScope } from '../hooks/useSearch'
+
+interface SearchPanelProps {
+  query: string
+  replacement: string
+  options: SearchOptions
+  scope: SearchScope
+  matchCount: number
+  // アクティブセルが何番目の一致か（一致でない場合は -1）
+  currentIndex: number
+  // 直前の「すべて置換」で置き換えたセルの数
+  replacedCount: number | null
+  isInvalidPattern: boolean
+  isReplaceVisible: boolean
+  onQueryChange: (query: string) => void
+  onReplacementChange: (replacement: string) => void
+  onOptionsChange: (options: SearchOptions) => void
+  onScopeChange: (scope: SearchScope) => void
+  onReplaceVisibleChange: (visible: boolean) => void
+  onFindNext: (backward: boolean) => void
+  onReplace: () => void
+  onReplaceAll: () => void
+  onClose: () => void
+  className?: string
+}
+
+export default function SearchPanel({
+  query,
+  replacement,
+  options,
+  scope,
+  matchCount,
+  currentIndex,
+  replacedCount,
+  isInvalidPattern,
+  isReplaceVisible,
+  onQueryChange,
+  onReplacementChange,
+  onOptionsChange,
+  onScopeChange,
+  onReplaceVisibleChange,
+  onFindNext,
+  onReplace,
+  onReplaceAll,
+  onClose,
+  className,
+}: SearchPanelProps) {
+  const queryInputRef = useRef<HTMLInputElement>(null)
+
+  // 開いたとき（Ctrl+F を押し直したときも）は検索語を選択した状態にする
+  useEffect(() => {
+    queryInputRef.current?.focus()
+    queryInputRef.current?.select()
+  }, [isReplaceVisible])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+    if (e.nativeEvent.isComposing) return
+
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'Enter' && e.target instanceof HTMLInputElement && e.target.type === 'text') {
+      e.preventDefault()
+      onFindNext(e.shiftKey)
+    } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+      e.preventDefault()
+      queryInputRef.current?.select()
+    }
+  }
+
+  const option = (key: 'matchCase' | 'wholeCell' | 'regex', label: string) => (
+    <label className={searchStyles.option}>
+      <input
+        type="checkbox"
+        checked={options[key]}
+        onChange={(e) => onOptionsChange({ ...options, [key]: e.target.checked })}
+      />
+      {label}
+    </label>
+  )
+
+  const status = isInvalidPattern
+    ? '正規表現が正しくありません'
+    : replacedCount !== null
+      ? `${replacedCount} 件を置換しました`
+      : query === ''
+        ? ''
+        : matchCount === 0
+          ? '見つかりません'
+          : `${currentIndex >= 0 ? currentIndex + 1 : '-'} / ${matchCount} 件`
+
+  return (
+    <div
+      className={cn(searchStyles.panel, className)}
+      style={{ zIndex: layoutStyles.zIndex.menu }}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+      // 入力欄での操作をグリッドのコピー・貼り付けとして扱わない
+      onCopy={(e) => e.stopPropagation()}
+      onCut={(e) => e.stopPropagation()}
+      onPaste={(e) => e.stopPropagation()}
+    >
+      <div className={searchStyles.row}>
+        <button
+          type="button"
+          className={searchStyles.iconButton}
+          title={isReplaceVisible ? '置換を隠す' : '置換を表示'}
+          onClick={() => onReplaceVisibleChange(!isReplaceVisible)}
+        >
+          {isReplaceVisible ? '▾' : '▸'}
+        </button>
+        <input
+          ref={queryInputRef}
+          type="text"
+          className={cn(searchStyles.input, isInvalidPattern && searchStyles.invalidInput)}
+          placeholder="検索"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+        />
+        <button type="button" className={searchStyles.iconButton} title="前を検索 (Shift+Enter)" onClick={() => onFindNext(true)}>
+          ↑
+        </button>
+        <button type="button" className={searchStyles.iconButton} title="次を検索 (Enter)" onClick={() => onFindNext(false)}>
+          ↓
+        </button>
+        <button type="button" className={searchStyles.iconButton} title="閉じる (Esc)" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      {isReplaceVisible && (
+        <div className={searchStyles.row}>
+          <span className={searchStyles.iconButton} />
+          <input
+            type="text"
+            className={searchStyles.input}
+            placeholder="置換後の文字列"
+            value={replacement}
+            onChange={(e) => onReplacementChange(e.target.value)}
+          />
+          <button type="button" className={searchStyles.button} onClick={onReplace}>
+            置換
+          </button>
+          <button type="button" className={searchStyles.button} onClick={onReplaceAll}>
+            すべて置換
+          </button>
+        </div>
+      )}
+
+      <div className={searchStyles.options}>
+        {option('matchCase', '大文字と小文字を区別')}
+        {option('wholeCell', 'セル内容が完全に一致')}
+        {option('regex', '正規表現')}
+        <select
+          className={searchStyles.select}
+          value={options.lookIn}
+          // 置換は数式（入力した内容）に対して行う
+          disabled={isReplaceVisible}
+          title={isReplaceVisible ? '置換では数式を検索します' : undefined}
+          onChange={(e) => onOptionsChange({ ...options, lookIn: e.target.value as SearchTarget })}
+        >
+          <option value="values">値を検索</option>
+          <option value="formulas">数式を検索</option>
+        </select>
+        <select
+          className={searchStyles.select}
+          value={scope}
+          onChange={(e) => onScopeChange(e.target.value as SearchScope)}
+        >
+          <option value="sheet">シート全体</option>
+          <option value="selection">選択範囲</option>
+        </select>
+      </div>
+
+      {status && (
+        <div className={cn(searchStyles.status, isInvalidPattern && searchStyles.error)}>{status}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { workbookStyles } from '../styles/spreadsheet'
+import { MAX_SHEET_NAME_LENGTH, validateSheetName, type WorkbookSheet } from '../lib/workbook'
+import ContextMenu, { type ContextMenuEntry } from './ContextMenu'
+
+interface SheetTabsProps {
+  sheets: WorkbookSheet[]
+  activeSheetId: string
+  onSelect: (id: string) => void
+  onAdd: () => void
+  // 名前は validateSheetName で確認してから渡す
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  // 最後に削除したシートの名前（元に戻せるシートがない場合は undefined）
+  deletedSheetName?: string
+  onRestoreDeleted: () => void
+  onDuplicate: (id: string) => void
+  // from の位置のタブを to の位置に移す
+  onMove: (from: number, to: number) => void
+  // undefined は色なし
+  onColorChange: (id: string, color: string | undefined) => void
+  className?: string
+}
+
+// ドラッグとみなすまでのマウスの移動量
+const DRAG_THRESHOLD = 4
+const DEFAULT_TAB_COLOR = '#ff0000'
+
+// シート見出し（クリックで切り替え、ダブルクリックで名前の変更、ドラッグで並べ替え、右クリックでメニュー）
+export default function SheetTabs({
+  sheets,
+  activeSheetId,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete,
+  deletedSheetName,
+  onRestoreDeleted,
+  onDuplicate,
+  onMove,
+  onColorChange,
+  className,
+}: SheetTabsProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  const renameInputRef = useRef<HTMLInputElement>(null)
+  const colorInputRef = useRef<HTMLInputElement>(null)
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  const [menu, setMenu] = useState<{ id: string; position: { x: number; y: number } } | null>(null)
+  // 色を選んでいるシート
+  const [colorTargetId, setColorTargetId] = useState<string | null>(null)
+  // ドラッグ中のタブの位置と、移す先の境目（0 は先頭のタブの左）
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null)
+
+  const renameError = renaming && validateSheetName(sheets, renaming.name, renaming.id)
+
+  useEffect(() => {
+    renameInputRef.current?.focus()
+    renameInputRef.current?.select()
+  }, [renaming?.id])
+
+  const startRename = (sheet: WorkbookSheet) => setRenaming({ id: sheet.id, name: sheet.name })
+
+  const commitRename = () => {
+    if (!renaming) return
+    const sheet = sheets.find(({ id }) => id === renaming.id)
+    // 使えない名前の場合は元の名前のままにする
+    if (sheet && !renameError && renaming.name !== sheet.name) onRename(renaming.id, renaming.name)
+    setRenaming(null)
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation()
+    // 日本語入力の変換を確定する Enter・Escape では名前を確定・取り消ししない
+    if (e.nativeEvent.isComposing) return
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (!renameError) commitRename()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setRenaming(null)
+    }
+  }
+
+  // マウスの位置に最も近いタブの境目
+  const getDropIndex = (clientX: number) => {
+    const tabs = listRef.current ? [...listRef.current.querySelectorAll<HTMLElement>('[role="tab"]')] : []
+    const index = tabs.findIndex(tab => {
+      const rect = tab.getBoundingClientRect()
+      return clientX < rect.left + rect.width / 2
+    })
+    return index < 0 ? tabs.length : index
+  }
+
+  const getDropIndicatorLeft = (index: number) => {
+    const tabs = listRef.current?.querySelectorAll<HTMLElement>('[role="tab"]')
+    const containerLeft = containerRef.current?.getBoundingClientRect().left ?? 0
+    if (!tabs || tabs.length === 0) return 0
+    const rect = (tabs[index] ?? tabs[tabs.length - 1]).getBoundingClientRect()
+    return (index < tabs.length ? rect.left : rect.right) - containerLeft
+  }
+
+  const handleTabMouseDown = (e: React.MouseEvent, sheet: WorkbookSheet, index: number) => {
+    if (e.button !== 0 || renaming?.id === sheet.id) return
+    // グリッドからフォーカスを移さない
+    e.preventDefault()
+    onSelect(sheet.id)
+
+    const startX = e.clientX
+    let to: number | null = null
+    const handleMouseMove = (event: MouseEvent) => {
+      if (to === null && Math.abs(event.clientX - startX) < DRAG_THRESHOLD) return
+      to = getDropIndex(event.clientX)
+      setDrag({ from: index, to })
+    }
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+      setDrag(null)
+      if (to === null) return
+      // 自分より後ろの境目に移す場合は、自分を取り除いた後の位置になる
+      const target = to > index ? to - 1 : to
+      if (target !== index) onMove(index, target)
+    }
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }
+
+  const handleTabContextMenu = (e: React.MouseEvent, sheet: WorkbookSheet) => {
+    e.preventDefault()
+    onSelect(sheet.id)
+    const rect = containerRef.current?.getBoundingClientRect()
+    setMenu({ id: sheet.id, position: { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) } })
+  }
+
+  const openColorPicker = (id: string) => {
+    setColorTargetId(id)
+    const input = colorInputRef.current
+    if (!input) return
+    input.value = sheets.find(sheet => sheet.id === id)?.color ?? DEFAULT_TAB_COLOR
+    input.click()
+  }
+
+  const menuSheet = menu && sheets.find(sheet => sheet.id === menu.id)
+  const menuItems: ContextMenuEntry[] = menuSheet ? [
+    { id: 'insertSheet', label: 'シートの追加', onSelect: onAdd },
+    { id: 'deleteSheet', label: '削除', disabled: sheets.length <= 1, onSelect: () => onDelete(menuSheet.id) },
+    {
+      id: 'restoreSheet',
+      label: deletedSheetName ? `削除したシート "${deletedSheetName}" を元に戻す` : '削除したシートを元に戻す',
+      disabled: !deletedSheetName,
+      onSelect: onRestoreDeleted,
+    },
+    { id: 'renameSheet', label: '名前の変更', onSelect: () => startRename(menuSheet) },
+    { id: 'duplicateSheet', label: 'コピーを作成', onSelect: () => onDuplicate(menuSheet.id) },
+    'separator',
+    { id: 'tabColor', label: 'シート見出しの色', onSelect: () => openColorPicker(menuSheet.id) },
+    {
+      id: 'clearTabColor',
+      label: '色なし',
+      disabled: !menuSheet.color,
+      onSelect: () => onColorChange(menuSheet.id, undefined),
+    },
+  ] : []
+
+  return (
+    <div ref={containerRef} className={cn(workbookStyles.tabBar, className)}>
+      <button type="button" title="シートの追加" className={workbookStyles.addButton} onClick={onAdd}>
+        +
+      </button>
+      <div ref={listRef} role="tablist" className={workbookStyles.tabList}>
+        {sheets.map((sheet, index) => {
+          const isActive = sheet.id === activeSheetId
+          const isRenaming = renaming?.id === sheet.id
+          return (
+            <div
+              key={sheet.id}
+              role="tab"
+              aria-selected={isActive}
+              title={sheet.name}
+              className={cn(
+                workbookStyles.tab,
+                isActive && workbookStyles.activeTab,
+                drag?.from === index && workbookStyles.draggingTab
+              )}
+              onMouseDown={(e) => handleTabMouseDown(e, sheet, index)}
+              onDoubleClick={() => startRename(sheet)}
+              onContextMenu={(e) => handleTabContextMenu(e, sheet)}
+            >
+              {isRenaming ? (
+                <input
+                  ref={renameInputRef}
+                  value={renaming.name}
+                  maxLength={MAX_SHEET_NAME_LENGTH}
+                  title={renameError ?? undefined}
+                  aria-invalid={!!renameError}
+                  className={cn(workbookStyles.renameInput, renameError && workbookStyles.invalidRenameInput)}
+                  onChange={(e) => setRenaming({ id: sheet.id, name: e.target.value })}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={commitRename}
+                  onMouseDown={(e) => e.stopPropagation()}
+                />
+              ) : (
+                <span className={workbookStyles.tabName}>{sheet.name}</span>
+              )}
+              {sheet.color && <span className={workbookStyles.tabColor} style={{ backgroundColor: sheet.color }} />}
+            </div>
+          )
+        })}
+      </div>
+      {drag && <div className={workbookStyles.dropIndicator} style={{ left: getDropIndicatorLeft(drag.to) }} />}
+      <input
+        ref={colorInputRef}
+        type="color"
+        tabIndex={-1}
+        aria-hidden
+        className={workbookStyles.colorInput}
+        onChange={(e) => colorTargetId && onColorChange(colorTargetId, e.target.value)}
+      />
+      {menu && (
+        <ContextMenu
+          position={menu.position}
+          items={menuItems}
+          className={workbookStyles.tabMenu}
+          onClose={() => setMenu(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,14 @@
 'use client'
 
-import React, { useRef, useCallback } from 'react'
-import { AutoSizer, Grid, GridCellProps, ScrollSync } from 'react-virtualized'
+import React, { forwardRef, useRef, useCallback, useEffect, useImperativeHandle, useMemo, useReducer, useState } from 'react'
+import {
+  AutoSizer,
+  defaultCellRangeRenderer,
+  Grid,
+  GridCellProps,
+  GridCellRangeProps,
+  ScrollSync,
+} from 'react-virtualized'
 import { cn } from '@/lib/utils'
 import {
   cellStyles,
@@ -10,33 +17,144 @@ import {
   gridStyles,
   scrollbarStyles,
   defaultDimensions,
-  layoutStyles
+  layoutStyles,
+  resizeHandleStyles,
+  freezeLineStyles,
+  fillHandleStyles,
+  filterStyles,
+  searchStyles,
+  validationStyles
 } from '../styles/spreadsheet'
 
 import 'react-virtualized/styles.css'
 import { useSpreadsheetSelection } from '../hooks/useSpreadsheetSelection'
+import { useCellEditing } from '../hooks/useCellEditing'
+import { useFormulaEngine } from '../hooks/useFormulaEngine'
+import type { FormulaLinks } from '../lib/formula/links'
+import { isFormulaInput } from '../lib/formula/engine'
+import { useCellSubscriptions } from '../hooks/useCellSubscriptions'
+import { MAX_COLUMN_COUNT, MAX_ROW_COUNT, columnIndexToLabel } from '../lib/address'
+import { useGridSizes } from '../hooks/useGridSizes'
+import { useClipboard } from '../hooks/useClipboard'
+import { useHistory } from '../hooks/useHistory'
+import { useSearch } from '../hooks/useSearch'
+import { useMerges } from '../hooks/useMerges'
+import { useFreezePanes } from '../hooks/useFreezePanes'
+import { useDataValidation } from '../hooks/useDataValidation'
+import { useStructureChange } from '../hooks/useStructureChange'
+import {
+  getOperationsSelection,
+  invertOperations,
+  rewriteOperationFormulas,
+  type HistoryAction,
+  type HistoryOperation,
+  type HistoryState,
+  type LinkedFormulaChange,
+  type SelectionSnapshot,
+} from '../lib/history'
+import type { SizeOverrides } from '../lib/sizes'
+import { createSheetModel, type AxisStyles, type SheetModel } from '../lib/sheet'
+import type { XlsxSheet } from '../lib/xlsx'
+import {
+  shiftCellRange,
+  shiftIndex,
+  type StructureAxis,
+  type StructureChange,
+} from '../lib/structure'
+import { clampPosition, isPositionInRange, normalizeRange, rangesOverlap, type RangeBounds } from '../lib/range'
+import { addMerge, removeMerges } from '../lib/merge'
+import {
+  affectsConditionalFormats,
+  createConditionalEvaluator,
+  type ConditionalEvaluator,
+  type ConditionalFormat,
+  type ConditionalRule,
+} from '../lib/conditional'
+import {
+  applyStylePatch,
+  getBorderPatch,
+  type BorderPreset,
+  type CellStylePatch,
+} from '../lib/style'
+import type { DataValidation, ValidationCriteria } from '../lib/validation'
+import { createFillChanges } from '../lib/fill'
+import {
+  createCsvImportChanges,
+  serializeCsv,
+  type CsvImportOptions,
+  type CsvImportResult,
+  type CsvSerializeOptions,
+} from '../lib/csv'
+import { createSortChanges, getSortedRowOrder, type SortDirection, type SortKey } from '../lib/sort'
+import {
+  getDistinctValues,
+  getFilteredRows,
+  type AutoFilter,
+  type FilterCondition,
+} from '../lib/filter'
+import {
+  DEFAULT_LOCALE,
+  formatCellInput,
+  formatCellValue,
+  formatContentInput,
+  getCellAlignment,
+  parseCellInput,
+} from '../lib/format'
+import {
+  createKeymap,
+  findCommand,
+  isNavigationCommand,
+  type Keymap,
+  type NavigationCommand,
+  type SpreadsheetCommand,
+} from '../lib/keymap'
+import CellEditor, { type CommitDirection } from './CellEditor'
+import ColumnMenu from './ColumnMenu'
+import SearchPanel from './SearchPanel'
+import ContextMenu, { type ContextMenuEntry, type ContextMenuItem } from './ContextMenu'
+import ValidationMessage from './ValidationMessage'
+import NoticeMessage, { type NoticeReason } from './NoticeMessage'
+import SpreadsheetCell, { type CellDisplay } from './SpreadsheetCell'
+import type {
+  CellPosition,
+  CellRange,
+  CellData,
+  CellChange,
+  CellContent,
+  CellBorder,
+  CellStyle,
+} from '../types/spreadsheet'
 
-interface CellPosition {
-  row: number
-  col: number
-}
-
-interface CellRange {
-  start: CellPosition
-  end: CellPosition
-}
-
-// セルの値や状態を表す型
-interface CellData {
-  value: string | number
-  type?: 'text' | 'number' | 'date'
-  format?: string
-  editable?: boolean
+export type {
+  CellPosition,
+  CellRange,
+  CellData,
+  CellChange,
+  CellBorder,
+  CellStyle,
+  CellStylePatch,
+  BorderPreset,
+  ConditionalFormat,
+  ConditionalRule,
+  ContextMenuEntry,
+  ContextMenuItem,
+  DataValidation,
+  ValidationCriteria,
+  HistoryState,
+  LinkedFormulaChange,
+  Keymap,
+  SpreadsheetCommand,
+  SheetModel,
+  AutoFilter,
+  FilterCondition,
+  SortKey,
+  StructureChange,
 }
 
 // 選択に関するイベント
 interface SelectionEvents {
-  onSelectionChange?: (range: CellRange | null) => void
+  // range はアクティブな範囲、ranges はCtrl/Cmdで追加した範囲を含むすべての範囲
+  onSelectionChange?: (range: CellRange | null, ranges: CellRange[]) => void
   onActivePositionChange?: (position: CellPosition | null) => void
 }
 
@@ -44,6 +162,7 @@ interface SelectionEvents {
 interface CellEvents {
   onCellClick?: (position: CellPosition) => void
   onCellDoubleClick?: (position: CellPosition) => void
+  // event.preventDefault() を呼ぶと組み込みの右クリックメニューを開かない
   onCellContextMenu?: (position: CellPosition, event: React.MouseEvent) => void
 }
 
@@ -61,9 +180,33 @@ interface ScrollEvents {
 
 // 将来の機能のためのイベント
 interface EditEvents {
+  // 入力した形の値を受け取る（日付・パーセント・通貨は 2024/1/5・50%・¥1,000 のような文字列）
   onCellEdit?: (position: CellPosition, value: string) => void
+  // 複数セルの変更をまとめて受け取る（指定した場合はonCellEditの代わりに呼ばれる）
+  // 入力から推測した type・format も含まれるため、セルに反映する場合はこちらを使う
+  onCellsChange?: (changes: CellChange[]) => void
   onColumnResize?: (columnIndex: number, width: number) => void
   onRowResize?: (rowIndex: number, height: number) => void
+  // ウィンドウ枠の固定が変わったときに呼ばれる
+  onFreezePanesChange?: (frozenRowCount: number, frozenColumnCount: number) => void
+  // 行・列を挿入・削除したときに呼ばれる（取り消し・やり直しでも呼ばれる）
+  // セルの移動と数式の書き換えは onCellsChange で通知する。行数・列数や列幅・行高を
+  // 制御している場合は、shiftSizeOverrides などで親の状態をずらす
+  onStructureChange?: (change: StructureChange) => void
+  // 行・列を挿入・削除するときに、他のシートの数式のこのシートへの参照をずらす変更を返す
+  // （挿入・削除とあわせて取り消し履歴に記録し、実行・取り消し・やり直しのたびに onLinkedFormulasChange に渡す）
+  getLinkedFormulaChanges?: (change: StructureChange) => LinkedFormulaChange[]
+  onLinkedFormulasChange?: (changes: LinkedFormulaChange[]) => void
+  // セルの結合・結合の解除をしたときに呼ばれる（行・列の挿入・削除でずれた場合も呼ばれる）
+  onMergesChange?: (merges: CellRange[]) => void
+  // 条件付き書式のルールを変更したときに呼ばれる（行・列の挿入・削除でずれた場合も呼ばれる）
+  onConditionalFormatsChange?: (formats: ConditionalFormat[]) => void
+  // 入力規則を変更したときに呼ばれる（行・列の挿入・削除でずれた場合も呼ばれる）
+  onDataValidationsChange?: (validations: DataValidation[]) => void
+  // オートフィルターの条件が変わったときに呼ばれる（すべての条件を解除した場合は null）
+  onAutoFilterChange?: (filter: AutoFilter | null) => void
+  // 取り消し・やり直しの可否が変わったときに呼ばれる
+  onHistoryChange?: (state: HistoryState) => void
 }
 
 // スタイリングの基本設定
@@ -95,12 +238,13 @@ interface HeaderRendererProps extends GridCellProps {
   onResize?: (width: number) => void
 }
 
-// 列ヘッダーのデフォルトラベル (A-Z)
-const DEFAULT_COLUMN_LABELS = Array.from({ length: 26 }, (_, i) => 
-  String.fromCharCode(65 + i)
-)
+// 右クリックメニューを開いた対象（行・列ヘッダーは行・列の位置）
+export type SpreadsheetContextMenuTarget =
+  | { type: 'cell'; position: CellPosition }
+  | { type: 'row'; row: number }
+  | { type: 'column'; col: number }
 
-interface SpreadsheetProps extends 
+export interface SpreadsheetProps extends
   SelectionEvents,
   CellEvents,
   KeyboardEvents,
@@ -114,9 +258,51 @@ interface SpreadsheetProps extends
   headerHeight?: number
   headerWidth?: number
   scrollbarWidth?: number
+  // 取り消し履歴の最大数
+  historyDepth?: number
+  // 数値・日付の表示に使うロケール（既定は ja-JP）
+  locale?: string
+
+  // 列幅・行高（指定した場合は制御コンポーネントとして扱う）
+  columnWidths?: SizeOverrides
+  rowHeights?: SizeOverrides
+  // 非制御の場合の列幅・行高の初期値
+  initialColumnWidths?: SizeOverrides
+  initialRowHeights?: SizeOverrides
+
+  // 固定する先頭の行数・列数（指定した場合は制御コンポーネントとして扱う）
+  frozenRowCount?: number
+  frozenColumnCount?: number
+  // 非制御の場合の固定する行数・列数の初期値
+  initialFrozenRowCount?: number
+  initialFrozenColumnCount?: number
+
+  // オートフィルター（指定した場合は制御コンポーネントとして扱う。null はフィルターなし）
+  autoFilter?: AutoFilter | null
+
+  // 結合するセルの範囲（指定した場合は制御コンポーネントとして扱う）
+  merges?: CellRange[]
+  // 非制御の場合の結合範囲の初期値
+  initialMerges?: CellRange[]
+
+  // 条件付き書式のルール（先頭ほど優先度が高い。指定した場合は制御コンポーネントとして扱う）
+  conditionalFormats?: ConditionalFormat[]
+  // 非制御の場合の条件付き書式の初期値
+  initialConditionalFormats?: ConditionalFormat[]
+
+  // 入力規則（範囲が重なる場合は先頭にあるものを使う。指定した場合は制御コンポーネントとして扱う）
+  // 編集・貼り付け・フィル・置換の値は、onCellEdit・onCellsChange に通知する前に検証する
+  dataValidations?: DataValidation[]
+  // 非制御の場合の入力規則の初期値
+  initialDataValidations?: DataValidation[]
 
   // データ
   data?: CellData[][]
+  // 疎なシートモデル（指定した場合は data の代わりに使い、編集はモデルに直接反映する）
+  model?: SheetModel
+  // ブック内の他のシートと数式の参照をつなぐ（sheetName で他のシートの数式から参照される）
+  formulaLinks?: FormulaLinks
+  sheetName?: string
   
   // スタイリング
   className?: string
@@ -127,12 +313,90 @@ interface SpreadsheetProps extends
   // カスタマイズ
   cellRenderer?: (props: CellRendererProps) => React.ReactNode
   headerRenderer?: (props: HeaderRendererProps) => React.ReactNode
+  // 右クリックメニューの項目（既定の項目を受け取り、追加・削除・置き換えた一覧を返す）
+  contextMenuItems?: (items: ContextMenuEntry[], target: SpreadsheetContextMenuTarget) => ContextMenuEntry[]
+  // キーの割り当て（'Ctrl+D': 'moveDown' などで既定の割り当てに追加・上書きする。null は割り当てを外す）
+  keymap?: Keymap
+  // 省略時は Excel と同じ列ラベル（A … Z, AA … XFD）
   columnLabels?: string[]
   
   // スタイリング
   styles?: SpreadsheetStyles
 }
 
+// CSV の書き出し範囲（省略時はA1から値のある範囲の右下まで）
+export interface CsvExportOptions extends CsvSerializeOptions {
+  scope?: 'sheet' | 'selection'
+}
+
+// ref から操作するためのメソッド（ツールバーや検索パネルなどから使う）
+export interface SpreadsheetHandle {
+  focus: () => void
+  scrollToCell: (position: CellPosition) => void
+  // アクティブセルを省略した場合は範囲の開始セル
+  select: (range: CellRange, activeCell?: CellPosition) => void
+  // アクティブな範囲（Ctrl/Cmdで追加した範囲を含む場合は getSelectionRanges を使う）
+  getSelection: () => CellRange | null
+  getSelectionRanges: () => CellRange[]
+  getActiveCell: () => CellPosition | null
+  // 位置を省略した場合はアクティブセル。編集できないセルの場合は false を返す
+  startEditing: (position?: CellPosition, initialValue?: string) => boolean
+  clearSelection: () => void
+  // アクティブセル（省略時）の上の行と左の列を固定する
+  freezePanes: (position?: CellPosition) => void
+  unfreezePanes: () => void
+  // 表示されている値（数式は計算結果）を CSV・TSV の文字列にする
+  exportCsv: (options?: CsvExportOptions) => string
+  // CSV・TSV の文字列を origin（省略時は A1）から読み込む（入力規則を確かめ、1回の操作として取り消せる）
+  // 編集できないセルは書き換えず、シートに収まらない行・列はメッセージを表示して読み込まない
+  importCsv: (text: string, options?: CsvImportOptions) => Promise<CsvImportResult>
+  // XLSX に書き出すためのシート（値・表示形式・書式・列幅・行高・結合・ウィンドウ枠の固定と数式の計算結果）
+  getXlsxSheet: (name?: string) => XlsxSheet
+  // 先頭の条件を優先して行を並べ替える（範囲を省略した場合はオートフィルターの範囲、
+  // なければ値のある範囲。どちらも先頭行は見出しとして並べ替えない）
+  // 結合されたセルや編集できないセルがあって並べ替えなかった場合は、メッセージを表示して false を返す
+  sort: (keys: SortKey[], range?: CellRange) => boolean
+  // 列の絞り込みの条件を設定する（null で解除）
+  setFilter: (col: number, condition: FilterCondition | null) => void
+  clearFilters: () => void
+  getAutoFilter: () => AutoFilter | null
+  // index から count 本の行・列を挿入・削除する（省略時は選択範囲の行・列）
+  // 編集できないセルが削除される場合とすべての行・列を削除する場合は、メッセージを表示して false を返す
+  insertRows: (index?: number, count?: number) => boolean
+  deleteRows: (index?: number, count?: number) => boolean
+  insertColumns: (index?: number, count?: number) => boolean
+  deleteColumns: (index?: number, count?: number) => boolean
+  // 範囲（省略時は選択中のすべての範囲）の書式を変更する
+  // モデルを指定していて行・列全体を選択している場合は、行・列の書式として持つ
+  setStyle: (patch: CellStylePatch, range?: CellRange) => void
+  // 範囲（省略時は選択中のすべての範囲）に罫線を引く（省略時は黒の細線）
+  setBorders: (preset: BorderPreset, border?: CellBorder, range?: CellRange) => void
+  // セル（省略時はアクティブセル）に適用される書式
+  getCellStyle: (position?: CellPosition) => CellStyle | undefined
+  // 範囲（省略時は選択範囲）のセルを結合する（左上以外のセルの値は消える）
+  // 編集できないセルの値が消える場合は、メッセージを表示して false を返す
+  mergeCells: (range?: CellRange) => boolean
+  // 範囲（省略時は選択範囲）に重なる結合を解除する
+  unmergeCells: (range?: CellRange) => void
+  // 条件付き書式のルールの一覧（先頭ほど優先度が高い）
+  getConditionalFormats: () => ConditionalFormat[]
+  // 条件付き書式のルールの一覧を置き換える（追加・編集・削除・並べ替えを1回の操作として取り消せる）
+  setConditionalFormats: (formats: ConditionalFormat[]) => void
+  getDataValidations: () => DataValidation[]
+  // 入力規則の一覧を置き換える（1回の操作として取り消せる）
+  setDataValidations: (validations: DataValidation[]) => void
+  // 入力規則に合わない値のセルを丸で囲む（clearInvalidCircles を呼ぶまで、値の変更に合わせて更新する）
+  circleInvalidData: () => void
+  clearInvalidCircles: () => void
+  // 検索パネル（replace の場合は置換の入力欄も）を開く
+  openSearch: (replace?: boolean) => void
+  // すべての数式を書き換える（取り消し履歴には記録せず、記録済みの数式も書き換える。シート名の変更などに使う）
+  // position はセルの数式を書き換える場合に渡し、記録済みの数式の場合は渡さない
+  rewriteFormulas: (rewrite: (formula: string, position?: CellPosition) => string) => void
+  undo: () => void
+  redo: () => void
+}
+
 interface CellRendererProps extends GridCellProps {
   isSelected: boolean
   isActiveCell: boolean
@@ -144,22 +408,44 @@ interface CellRendererProps extends GridCellProps {
   onContextMenu?: (e: React.MouseEvent) => void
 }
 
-export default function Spreadsheet({ 
-  rowCount = 1000, 
-  columnCount = 26,
+const Spreadsheet = forwardRef<SpreadsheetHandle, SpreadsheetProps>(function Spreadsheet({
+  rowCount: rowCountProp,
+  columnCount: columnCountProp,
   defaultColumnWidth = defaultDimensions.columnWidth,
   defaultRowHeight = defaultDimensions.rowHeight,
   headerHeight = defaultDimensions.headerHeight,
   headerWidth = defaultDimensions.headerWidth,
   scrollbarWidth = scrollbarStyles.width,
+  historyDepth = 100,
+  locale = DEFAULT_LOCALE,
+  columnWidths,
+  rowHeights,
+  initialColumnWidths,
+  initialRowHeights,
+  frozenRowCount: frozenRowCountProp,
+  frozenColumnCount: frozenColumnCountProp,
+  initialFrozenRowCount,
+  initialFrozenColumnCount,
+  autoFilter: autoFilterProp,
+  merges: mergesProp,
+  initialMerges,
+  conditionalFormats: conditionalFormatsProp,
+  initialConditionalFormats,
+  dataValidations: dataValidationsProp,
+  initialDataValidations,
   className,
   cellClassName,
   headerClassName,
   selectedCellClassName,
   cellRenderer: customCellRenderer,
   headerRenderer: customHeaderRenderer,
-  columnLabels = DEFAULT_COLUMN_LABELS,
+  contextMenuItems,
+  keymap: keymapProp,
+  columnLabels,
   data,
+  model,
+  formulaLinks,
+  sheetName,
   // イベントハンドラ
   onSelectionChange,
   onActivePositionChange,
@@ -171,28 +457,1273 @@ export default function Spreadsheet({
   onScroll: onScrollProp,
   onScrollEnd,
   onCellEdit,
+  onCellsChange,
   onColumnResize,
   onRowResize,
+  onFreezePanesChange,
+  onStructureChange,
+  getLinkedFormulaChanges,
+  onLinkedFormulasChange,
+  onMergesChange,
+  onConditionalFormatsChange,
+  onDataValidationsChange,
+  onAutoFilterChange,
+  onHistoryChange,
   styles = {},
-}: SpreadsheetProps) {
+}, ref) {
+  // モデルも行数・列数の指定もない場合は、挿入・削除で変わる大きさを内部で持つ
+  const [dimensionState, setDimensionState] = useState({ rows: 1000, columns: 26 })
+  // モデルの大きさは参照が変わらないため、変更後に再描画する
+  const [, forceRender] = useReducer((count: number) => count + 1, 0)
+  // モデルを指定した場合はモデルの大きさを既定にする
+  const rowCount = rowCountProp ?? model?.rowCount ?? dimensionState.rows
+  const columnCount = columnCountProp ?? model?.columnCount ?? dimensionState.columns
   const headerGridRef = useRef<Grid>(null)
+  const frozenHeaderGridRef = useRef<Grid>(null)
+  const rowHeaderGridRef = useRef<Grid>(null)
+  const frozenRowHeaderGridRef = useRef<Grid>(null)
+  // メインのグリッドは固定されていない右下の区画（スクロールを受け持つ）
   const mainGridRef = useRef<Grid>(null)
+  const topLeftGridRef = useRef<Grid>(null)
+  const topRightGridRef = useRef<Grid>(null)
+  const bottomLeftGridRef = useRef<Grid>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  // 履歴に記録する選択状態（選択フックの呼び出し後に毎回更新する）
+  const selectionRef = useRef<SelectionSnapshot>({ selectedCell: null, selectionRange: null })
+  const applyingHistoryRef = useRef(false)
+
+  const { record, popUndo, popRedo, rewrite: rewriteHistory } = useHistory({
+    depth: historyDepth,
+    onHistoryChange,
+  })
+
+  // 操作を取り消し履歴に記録（取り消し・やり直しの適用中は記録しない）
+  const recordOperations = useCallback((action: HistoryAction, operations: HistoryOperation[]) => {
+    if (applyingHistoryRef.current) return
+    record({
+      action,
+      operations,
+      selectionBefore: selectionRef.current,
+      selectionAfter: getOperationsSelection(operations) ?? selectionRef.current,
+    })
+  }, [record])
+
+  // モデルの場合は参照が変わらないため、値が変わってもグリッド全体は再描画されない
+  const getCell = useCallback((row: number, col: number): CellData | undefined => {
+    return model ? model.getCell(row, col) : data?.[row]?.[col]
+  }, [model, data])
+
+  // 値を持つセルを囲む最小の範囲
+  const getUsedRange = useCallback((): CellRange | null => {
+    if (model) return model.getUsedRange()
+    let bottom = -1
+    let right = -1
+    data?.forEach((rowData, row) => {
+      rowData?.forEach((cell, col) => {
+        if (String(cell?.value ?? '') === '') return
+        bottom = Math.max(bottom, row)
+        right = Math.max(right, col)
+      })
+    })
+    return bottom < 0 ? null : { start: { row: 0, col: 0 }, end: { row: bottom, col: right } }
+  }, [model, data])
+
+  // 値を持つセルを行・列の順に列挙する
+  const forEachCell = useCallback((callback: (row: number, col: number) => void) => {
+    if (model) {
+      model.forEachCell((_, row, col) => callback(row, col))
+      return
+    }
+    data?.forEach((rowData, row) => {
+      rowData?.forEach((cell, col) => {
+        if (cell) callback(row, col)
+      })
+    })
+  }, [model, data])
+
+  // editable: false のセルは編集不可
+  const isCellEditable = useCallback((position: CellPosition) => {
+    return getCell(position.row, position.col)?.editable !== false
+  }, [getCell])
+
+  // 編集時にエディタに表示する値（日付やパーセントは入力した形に戻す）
+  const getCellValue = useCallback((position: CellPosition) => {
+    return formatCellInput(getCell(position.row, position.col))
+  }, [getCell])
+
+  // Ctrl+矢印キーで移動するデータのある領域の判定に使う
+  const isCellEmpty = useCallback((row: number, col: number) => getCellValue({ row, col }) === '', [getCellValue])
+
+  // 変更で上書きされる項目について、変更前のセルの内容を取得
+  const getCellContent = useCallback((position: CellPosition, change: CellContent): CellContent => {
+    const cell = getCell(position.row, position.col)
+    const content: CellContent = { value: String(cell?.value ?? '') }
+    if ('type' in change) content.type = cell?.type
+    if ('format' in change) content.format = cell?.format
+    if ('style' in change) content.style = cell?.style
+    if ('editable' in change) content.editable = cell?.editable
+    return content
+  }, [getCell])
+
+  // セルに適用される書式（モデルの場合は行・列全体の書式も含む）
+  const getCellStyle = useCallback((row: number, col: number) => {
+    return model ? model.getCellStyle(row, col) : getCell(row, col)?.style
+  }, [model, getCell])
+
+  // 入力された文字列から数値・日付などを推測する
+  const parseCellInputs = useCallback((changes: CellChange[]): CellChange[] => {
+    return changes.map(({ row, col, value }) => ({
+      row,
+      col,
+      ...parseCellInput(value, getCell(row, col)),
+    }))
+  }, [getCell])
+
+  const { subscribeCell, getCellVersion, notifyCells, notifyAllCells } = useCellSubscriptions()
+
+  // 条件付き書式（指定した場合は制御コンポーネントとして扱う）
+  const [conditionalFormatsState, setConditionalFormatsState] = useState<ConditionalFormat[]>(
+    () => initialConditionalFormats ?? []
+  )
+  const conditionalFormats = conditionalFormatsProp ?? conditionalFormatsState
+  const conditionalEvaluatorRef = useRef<ConditionalEvaluator | null>(null)
+
+  const setConditionalFormats = useCallback((next: ConditionalFormat[]) => {
+    if (conditionalFormatsProp === undefined) setConditionalFormatsState(next)
+    onConditionalFormatsChange?.(next)
+  }, [conditionalFormatsProp, onConditionalFormatsChange])
+
+  // 条件付き書式の結果が変わりうる場合は、計算し直して表示中のセルをすべて再描画する
+  const handleCellsUpdate = useCallback((positions: CellPosition[]) => {
+    if (affectsConditionalFormats(conditionalFormats, positions)) {
+      conditionalEvaluatorRef.current?.invalidate()
+      notifyAllCells()
+    } else {
+      notifyCells(positions)
+    }
+  }, [conditionalFormats, notifyCells, notifyAllCells])
+
+  const { engine } = useFormulaEngine({
+    data,
+    model,
+    rowCount,
+    columnCount,
+    onCellsUpdate: handleCellsUpdate,
+    formulaLinks,
+    sheetName,
+  })
+
+  // data の場合は値が変わるたびに getUsedRange が変わるため作り直す
+  const conditionalEvaluator = useMemo(() => createConditionalEvaluator({
+    formats: conditionalFormats,
+    getValue: (row, col) => engine.getValue(row, col),
+    evaluate: engine.evaluate,
+    getUsedRange,
+  }), [conditionalFormats, engine, getUsedRange])
+  conditionalEvaluatorRef.current = conditionalEvaluator
+
+  // 数式を評価し、表示形式を適用した表示値
+  const getDisplayValue = useCallback((row: number, col: number) => {
+    return formatCellValue(engine.getValue(row, col), getCell(row, col), locale)
+  }, [engine, getCell, locale])
+
+  // オートフィルター（指定した場合は制御コンポーネントとして扱う）
+  const [autoFilterState, setAutoFilterState] = useState<AutoFilter | null>(null)
+  const isAutoFilterControlled = autoFilterProp !== undefined
+  const autoFilter = isAutoFilterControlled ? autoFilterProp : autoFilterState
+
+  // 条件を設定した時点の値で絞り込む（値を編集しても条件を設定し直すまで行の表示は変わらない）
+  const filterSourceRef = useRef({ engine, getDisplayValue })
+  filterSourceRef.current = { engine, getDisplayValue }
+  const hiddenRows = useMemo(() => {
+    if (!autoFilter) return undefined
+    const { engine, getDisplayValue } = filterSourceRef.current
+    return getFilteredRows(autoFilter, (row, col) => engine.getValue(row, col), getDisplayValue)
+  }, [autoFilter])
+
+  const setAutoFilter = useCallback((filter: AutoFilter | null) => {
+    if (!isAutoFilterControlled) setAutoFilterState(filter)
+    onAutoFilterChange?.(filter)
+  }, [isAutoFilterControlled, onAutoFilterChange])
+
+  const { merges, mergeIndex, setMerges } = useMerges({
+    merges: mergesProp,
+    initialMerges,
+    onMergesChange,
+  })
+
+  const handleColumnResize = useCallback((index: number, width: number, previousWidth: number) => {
+    recordOperations('resizeColumn', [{ type: 'resizeColumn', index, before: previousWidth, after: width }])
+    onColumnResize?.(index, width)
+  }, [recordOperations, onColumnResize])
+
+  const handleRowResize = useCallback((index: number, height: number, previousHeight: number) => {
+    recordOperations('resizeRow', [{ type: 'resizeRow', index, before: previousHeight, after: height }])
+    onRowResize?.(index, height)
+  }, [recordOperations, onRowResize])
+
+  const {
+    columnWidths: currentColumnWidths,
+    rowHeights: currentRowHeights,
+    columnSizes,
+    rowSizes,
+    resizeColumn,
+    resizeRow,
+    applyStructureChange: applyStructureToGridSizes,
+    startColumnResize,
+    startRowResize,
+  } = useGridSizes({
+    defaultColumnWidth,
+    defaultRowHeight,
+    columnWidths,
+    rowHeights,
+    initialColumnWidths,
+    initialRowHeights,
+    hiddenRows,
+    onColumnResize: handleColumnResize,
+    onRowResize: handleRowResize,
+  })
+
+  const { frozenRowCount, frozenColumnCount, setFreezePanes } = useFreezePanes({
+    frozenRowCount: frozenRowCountProp,
+    frozenColumnCount: frozenColumnCountProp,
+    initialFrozenRowCount,
+    initialFrozenColumnCount,
+    rowCount,
+    columnCount,
+    onFreezePanesChange,
+  })
+  const frozenHeight = rowSizes.getOffset(frozenRowCount)
+  const frozenWidth = columnSizes.getOffset(frozenColumnCount)
+
+  // サイズや固定範囲が変わったらすべてのグリッドのキャッシュを破棄して再計算
+  useEffect(() => {
+    for (const gridRef of [
+      headerGridRef,
+      frozenHeaderGridRef,
+      rowHeaderGridRef,
+      frozenRowHeaderGridRef,
+      mainGridRef,
+      topLeftGridRef,
+      topRightGridRef,
+      bottomLeftGridRef,
+    ]) {
+      gridRef.current?.recomputeGridSize()
+    }
+  }, [columnSizes, rowSizes, frozenRowCount, frozenColumnCount])
+
+  // セルの変更を通知（onCellsChangeがあればまとめて、なければ1セルずつ）
+  // モデルを指定した場合は先にモデルへ反映するため、通知は変更の確認用になる
+  // onCellEdit には type・format を渡せないため、日付やパーセントは入力した形の文字列にする
+  const notifyCellChanges = useCallback((changes: CellChange[]) => {
+    if (changes.length === 0) return
+    model?.applyChanges(changes)
+    if (onCellsChange) {
+      onCellsChange(changes)
+    } else {
+      changes.forEach(({ row, col, ...content }) => onCellEdit?.({ row, col }, formatContentInput(content)))
+    }
+  }, [model, onCellsChange, onCellEdit])
+
+  // 変更前の内容とあわせて履歴に記録してから通知する
+  const commitCellChanges = useCallback((changes: CellChange[], action: HistoryAction = 'edit') => {
+    if (changes.length === 0) return
+    recordOperations(action, [{
+      type: 'cells',
+      changes: changes.map(({ row, col, ...after }) => ({
+        row,
+        col,
+        before: getCellContent({ row, col }, after),
+        after,
+      })),
+    }])
+    notifyCellChanges(changes)
+  }, [recordOperations, getCellContent, notifyCellChanges])
+
+  // 操作を実行できなかった理由のメッセージ
+  const [notice, setNotice] = useState<NoticeReason | null>(null)
+
+  const closeNotice = useCallback(() => {
+    setNotice(null)
+    containerRef.current?.focus()
+  }, [])
+
+  const focusGrid = useCallback(() => {
+    containerRef.current?.focus()
+  }, [])
+
+  const {
+    dataValidations,
+    setDataValidations,
+    changeDataValidations,
+    findValidation,
+    isCirclingInvalidData,
+    setCirclingInvalidData,
+    isInvalidCell,
+    validationPrompt,
+    commitValidatedChanges,
+    continueValidationPrompt,
+    closeValidationPrompt,
+    validationList,
+    getValidationListValues,
+    openValidationList,
+    closeValidationList,
+    validationListValues,
+    selectValidationListValue,
+  } = useDataValidation({
+    dataValidations: dataValidationsProp,
+    initialDataValidations,
+    onDataValidationsChange,
+    engine,
+    getCell,
+    isCellEditable,
+    parseCellInputs,
+    commitCellChanges,
+    recordOperations,
+    onPopupClose: focusGrid,
+  })
+
+  const handleCellEdit = useCallback((position: CellPosition, value: string) => {
+    commitValidatedChanges(parseCellInputs([{ ...position, value }]), 'edit', value)
+  }, [commitValidatedChanges, parseCellInputs])
+
+  // 貼り付けた値は入力と同様に型を推測する
+  const handleClipboardChange = useCallback((changes: CellChange[], action: 'cut' | 'paste') => {
+    if (action === 'paste') commitValidatedChanges(parseCellInputs(changes), action)
+    else commitCellChanges(changes, action)
+  }, [commitValidatedChanges, commitCellChanges, parseCellInputs])
+
+  // フィルハンドルで広げた範囲に連続データまたは元のセルのコピーを書き込む
+  const handleFill = useCallback((source: CellRange, target: CellRange) => {
+    const changes = createFillChanges(source, target, getCell).filter(change => isCellEditable(change))
+    commitValidatedChanges(changes, 'fill')
+  }, [getCell, isCellEditable, commitValidatedChanges])
+
+  // 読み込んだセルは入力と同様に入力規則を確かめてから反映する
+  const importCsv = useCallback(async (text: string, options?: CsvImportOptions): Promise<CsvImportResult> => {
+    const { changes, ...result } = await createCsvImportChanges(text, { rowCount, columnCount }, options)
+    commitValidatedChanges(changes.filter(change => isCellEditable(change)), 'import')
+    if (result.truncated) setNotice('csvTruncated')
+    return result
+  }, [rowCount, columnCount, isCellEditable, commitValidatedChanges])
+
+  // 直前の並べ替えの条件（条件を追加して並べ替える場合に使う）
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([])
+
+  // 範囲を省略した場合に並べ替える範囲（先頭行は見出しとして除く）
+  const getSortRange = useCallback((): CellRange | null => {
+    const source = autoFilter?.range ?? getUsedRange()
+    if (!source) return null
+    const { top, bottom, left, right } = normalizeRange(source)
+    if (bottom <= top) return null
+    return { start: { row: top + 1, col: left }, end: { row: bottom, col: right } }
+  }, [autoFilter, getUsedRange])
+
+  // 編集できないセルを動かすことになる場合は並べ替えない（並べ替えなかった場合は false を返す）
+  const sortRange = useCallback((keys: SortKey[], range?: CellRange) => {
+    const target = range ?? getSortRange()
+    if (!target || keys.length === 0) return false
+    // 結合されたセルを含む範囲は並べ替えない
+    const targetBounds = normalizeRange(target)
+    if (mergeIndex.merges.some(merge => rangesOverlap(normalizeRange(merge), targetBounds))) {
+      setNotice('mergedCells')
+      return false
+    }
+    const order = getSortedRowOrder(target, keys, (row, col) => engine.getValue(row, col), locale)
+    const changes = createSortChanges(target, order, getCell)
+    if (changes.some(change => !isCellEditable(change))) {
+      setNotice('lockedCells')
+      return false
+    }
+    commitCellChanges(changes, 'sort')
+    setSortKeys(keys)
+    // 行が入れ替わるため、同じ条件で絞り込み直す
+    if (autoFilter) setAutoFilter({ ...autoFilter })
+    return true
+  }, [getSortRange, mergeIndex, engine, locale, getCell, isCellEditable, commitCellChanges, autoFilter, setAutoFilter])
+
+  // オートフィルターがない場合は、値のある範囲（列を含むように広げる）に設定する
+  const getFilterRange = useCallback((col: number): CellRange => {
+    if (autoFilter) return autoFilter.range
+    const usedRange = getUsedRange()
+    if (!usedRange) return { start: { row: 0, col }, end: { row: 0, col } }
+    const { top, bottom, left, right } = normalizeRange(usedRange)
+    return {
+      start: { row: top, col: Math.min(left, col) },
+      end: { row: bottom, col: Math.max(right, col) },
+    }
+  }, [autoFilter, getUsedRange])
+
+  // 条件がすべてなくなったらオートフィルターを解除し、元の行をすべて表示する
+  const setColumnFilter = useCallback((col: number, condition: FilterCondition | null) => {
+    const columns = { ...autoFilter?.columns }
+    if (condition) columns[col] = condition
+    else delete columns[col]
+    setAutoFilter(Object.keys(columns).length > 0 ? { range: getFilterRange(col), columns } : null)
+  }, [autoFilter, getFilterRange, setAutoFilter])
+
+  const {
+    editingCell,
+    editValue,
+    setEditValue,
+    startEditing,
+    commitEdit,
+    cancelEdit,
+    isEditingCell,
+  } = useCellEditing({
+    isCellEditable,
+    getCellValue,
+    onCellEdit: handleCellEdit,
+  })
 
   const {
     selectedCell,
     selectionRange,
+    selectionRanges,
+    fillRange,
     handleMouseDown,
     handleHeaderMouseDown,
     handleClearSelection,
     isCellSelected,
     handleMouseMove,
     handleCornerHeaderClick,
+    handleFillHandleMouseDown,
+    runNavigationCommand,
+    selectRange,
+    scrollIntoView,
+    handleCellDoubleClick,
+    handleCellContextMenu,
   } = useSpreadsheetSelection({
     rowCount,
     columnCount,
     gridRef: mainGridRef,
+    columnSizes,
+    rowSizes,
+    frozenRowCount,
+    frozenColumnCount,
+    mergeIndex,
+    isCellEmpty,
+    onSelectionChange,
+    onCellDoubleClick,
+    onCellContextMenu,
+    onFill: handleFill,
+  })
+  selectionRef.current = { selectedCell, selectionRange }
+
+  // 行・列の挿入・削除による大きさ・列幅・行高・フィルター範囲の変更（セルの移動は別の操作で行う）
+  const applyStructureChange = useCallback((change: StructureChange, sizes: SizeOverrides) => {
+    const delta = change.type === 'insert' ? change.count : -change.count
+    const nextRowCount = Math.min(MAX_ROW_COUNT, rowCount + (change.axis === 'row' ? delta : 0))
+    const nextColumnCount = Math.min(MAX_COLUMN_COUNT, columnCount + (change.axis === 'column' ? delta : 0))
+    if (model) {
+      model.resize(nextRowCount, nextColumnCount)
+      forceRender()
+    } else {
+      setDimensionState({ rows: nextRowCount, columns: nextColumnCount })
+    }
+    applyStructureToGridSizes(change, sizes)
+
+    if (autoFilter) {
+      const range = shiftCellRange(autoFilter.range, change)
+      const columns: Record<number, FilterCondition> = {}
+      for (const [col, condition] of Object.entries(autoFilter.columns)) {
+        const index = change.axis === 'column' ? shiftIndex(Number(col), change) : Number(col)
+        if (index !== null) columns[index] = condition
+      }
+      setAutoFilter(range && Object.keys(columns).length > 0 ? { range, columns } : null)
+    }
+    setSortKeys([])
+    onStructureChange?.(change)
+  }, [rowCount, columnCount, model, applyStructureToGridSizes, autoFilter, setAutoFilter, onStructureChange])
+
+  // 履歴の操作を適用（取り消し時は逆操作を渡す）
+  const applyOperations = useCallback((operations: HistoryOperation[]) => {
+    applyingHistoryRef.current = true
+    try {
+      for (const operation of operations) {
+        switch (operation.type) {
+          case 'cells':
+            notifyCellChanges(operation.changes.map(({ row, col, after }) => ({ row, col, ...after })))
+            break
+          case 'resizeColumn':
+            resizeColumn(operation.index, operation.after)
+            break
+          case 'resizeRow':
+            resizeRow(operation.index, operation.after)
+            break
+          case 'structure':
+            applyStructureChange(operation.change, operation.sizes)
+            break
+          case 'merges':
+            setMerges(operation.after)
+            break
+          case 'axisStyles':
+            // 行・列全体の書式はセルの変更として通知されないため、表示中のセルをすべて再描画する
+            model?.setAxisStyles(operation.axis, operation.after)
+            notifyAllCells()
+            break
+          case 'conditionalFormats':
+            setConditionalFormats(operation.after)
+            break
+          case 'dataValidations':
+            setDataValidations(operation.after)
+            break
+          case 'linkedFormulas':
+            onLinkedFormulasChange?.(operation.changes)
+            break
+        }
+      }
+    } finally {
+      applyingHistoryRef.current = false
+    }
+  }, [
+    notifyCellChanges,
+    resizeColumn,
+    resizeRow,
+    applyStructureChange,
+    setMerges,
+    model,
+    notifyAllCells,
+    setConditionalFormats,
+    setDataValidations,
+    onLinkedFormulasChange,
+  ])
+
+  // 記録された選択状態を復元し、アクティブセルを表示する
+  const restoreSelection = useCallback((snapshot: SelectionSnapshot) => {
+    const { selectedCell: cell, selectionRange: range } = snapshot
+    if (range) {
+      selectRange(range, cell ?? range.start)
+    } else if (cell) {
+      selectRange({ start: cell, end: cell }, cell)
+    }
+    if (cell) {
+      scrollIntoView(cell.row, cell.col)
+    }
+  }, [selectRange, scrollIntoView])
+
+  const rewriteFormulas = useCallback((rewrite: (formula: string, position?: CellPosition) => string) => {
+    const changes: CellChange[] = []
+    forEachCell((row, col) => {
+      const value = getCell(row, col)?.value
+      if (!isFormulaInput(value)) return
+      const next = rewrite(value, { row, col })
+      if (next !== value) changes.push({ row, col, value: next })
+    })
+    notifyCellChanges(changes)
+    rewriteHistory(operations => rewriteOperationFormulas(operations, formula => rewrite(formula)))
+  }, [forEachCell, getCell, notifyCellChanges, rewriteHistory])
+
+  const undo = useCallback(() => {
+    const entry = popUndo()
+    if (!entry) return
+    applyOperations(invertOperations(entry.operations))
+    restoreSelection(entry.selectionBefore)
+  }, [popUndo, applyOperations, restoreSelection])
+
+  const redo = useCallback(() => {
+    const entry = popRedo()
+    if (!entry) return
+    applyOperations(entry.operations)
+    restoreSelection(entry.selectionAfter)
+  }, [popRedo, applyOperations, restoreSelection])
+
+  // 操作を取り消し履歴に記録してから適用する（選択状態は変えない）
+  const commitOperations = useCallback((action: HistoryAction, operations: HistoryOperation[]) => {
+    record({
+      action,
+      operations,
+      selectionBefore: selectionRef.current,
+      selectionAfter: selectionRef.current,
+    })
+    applyOperations(operations)
+  }, [record, applyOperations])
+
+  const { changeStructure } = useStructureChange({
+    selectionRange,
+    rowCount,
+    columnCount,
+    forEachCell,
+    getCell,
+    isCellEditable,
+    getCellContent,
+    columnWidths: currentColumnWidths,
+    rowHeights: currentRowHeights,
+    merges,
+    model,
+    conditionalFormats,
+    dataValidations,
+    sheetName,
+    getLinkedFormulaChanges,
+    commitOperations,
+    onRefuse: setNotice,
+  })
+
+  // 範囲のセルを結合する（左上以外のセルの値は消す。編集できないセルを含む場合は結合せずに false を返す）
+  const mergeCells = useCallback((range: CellRange | null = selectionRange) => {
+    if (!range) return false
+    const bounds = normalizeRange(range)
+    if (bounds.top === bounds.bottom && bounds.left === bounds.right) return false
+
+    const changes: CellChange[] = []
+    forEachCell((row, col) => {
+      if (row < bounds.top || row > bounds.bottom || col < bounds.left || col > bounds.right) return
+      if (row === bounds.top && col === bounds.left) return
+      if (String(getCell(row, col)?.value ?? '') === '') return
+      changes.push({ row, col, value: '', type: undefined, format: undefined })
+    })
+    if (changes.some(change => !isCellEditable(change))) {
+      setNotice('lockedCells')
+      return false
+    }
+
+    const anchor = { row: bounds.top, col: bounds.left }
+    const mergedRange = { start: anchor, end: { row: bounds.bottom, col: bounds.right } }
+    const operations: HistoryOperation[] = [{ type: 'merges', before: merges, after: addMerge(merges, mergedRange) }]
+    if (changes.length > 0) {
+      operations.unshift({
+        type: 'cells',
+        changes: changes.map(({ row, col, ...after }) => ({
+          row,
+          col,
+          before: getCellContent({ row, col }, after),
+          after,
+        })),
+      })
+    }
+
+    record({
+      action: 'merge',
+      operations,
+      selectionBefore: selectionRef.current,
+      selectionAfter: { selectedCell: anchor, selectionRange: mergedRange },
+    })
+    applyOperations(operations)
+    selectRange(mergedRange, anchor)
+    return true
+  }, [selectionRange, forEachCell, getCell, isCellEditable, merges, getCellContent, record, applyOperations, selectRange])
+
+  // 範囲の書式を変更する（getPatch には行・列全体の書式の場合は列・行に -1 を渡す）
+  // 行・列全体の書式を変更した場合も、セルごとの書式を持つセルはそのセルの書式を変更する
+  const changeStyle = useCallback((
+    getPatch: (row: number, col: number, bounds: RangeBounds) => CellStylePatch,
+    ranges: CellRange[]
+  ) => {
+    const changes = new Map<number, CellChange>()
+    const axisStyles: Partial<Record<StructureAxis, AxisStyles>> = {}
+
+    const setCellStyle = (row: number, col: number, patch: CellStylePatch) => {
+      const style = applyStylePatch(getCellStyle(row, col), patch)
+      if (style === getCellStyle(row, col)) return
+      changes.set(row * MAX_COLUMN_COUNT + col, { row, col, value: String(getCell(row, col)?.value ?? ''), style })
+    }
+
+    for (const range of ranges) {
+      const bounds = normalizeRange(range)
+      const axis: StructureAxis | null = !model ? null
+        : bounds.top === 0 && bounds.bottom === rowCount - 1 ? 'column'
+        : bounds.left === 0 && bounds.right === columnCount - 1 ? 'row'
+        : null
+
+      if (model && axis) {
+        const styles = axisStyles[axis] ??= { ...model.getAxisStyles(axis) }
+        const [first, last] = axis === 'column' ? [bounds.left, bounds.right] : [bounds.top, bounds.bottom]
+        for (let index = first; index <= last; index++) {
+          const patch = axis === 'column' ? getPatch(-1, index, bounds) : getPatch(index, -1, bounds)
+          const style = applyStylePatch(styles[index], patch)
+          if (style) styles[index] = style
+          else delete styles[index]
+        }
+        forEachCell((row, col) => {
+          if (row < bounds.top || row > bounds.bottom || col < bounds.left || col > bounds.right) return
+          if (getCell(row, col)?.style) setCellStyle(row, col, getPatch(row, col, bounds))
+        })
+        continue
+      }
+
+      for (let row = bounds.top; row <= bounds.bottom; row++) {
+        for (let col = bounds.left; col <= bounds.right; col++) {
+          setCellStyle(row, col, getPatch(row, col, bounds))
+        }
+      }
+    }
+
+    const operations: HistoryOperation[] = []
+    if (changes.size > 0) {
+      operations.push({
+        type: 'cells',
+        changes: [...changes.values()].map(({ row, col, ...after }) => ({
+          row,
+          col,
+          before: getCellContent({ row, col }, after),
+          after,
+        })),
+      })
+    }
+    for (const axis of ['row', 'column'] as const) {
+      const after = axisStyles[axis]
+      if (model && after) operations.push({ type: 'axisStyles', axis, before: model.getAxisStyles(axis), after })
+    }
+    if (operations.length === 0) return
+
+    record({
+      action: 'style',
+      operations,
+      selectionBefore: selectionRef.current,
+      selectionAfter: selectionRef.current,
+    })
+    applyOperations(operations)
+  }, [model, rowCount, columnCount, getCell, getCellStyle, forEachCell, getCellContent, record, applyOperations])
+
+  const setStyle = useCallback((patch: CellStylePatch, range?: CellRange) => {
+    changeStyle(() => patch, range ? [range] : selectionRanges)
+  }, [changeStyle, selectionRanges])
+
+  const setBorders = useCallback((preset: BorderPreset, border?: CellBorder, range?: CellRange) => {
+    changeStyle((row, col, bounds) => getBorderPatch(preset, bounds, row, col, border), range ? [range] : selectionRanges)
+  }, [changeStyle, selectionRanges])
+
+  // アクティブセルの書式に合わせて太字・斜体・下線を切り替える
+  const toggleStyle = useCallback((key: 'bold' | 'italic' | 'underline') => {
+    if (!selectedCell) return
+    setStyle({ [key]: !getCellStyle(selectedCell.row, selectedCell.col)?.[key] })
+  }, [selectedCell, getCellStyle, setStyle])
+
+  // 範囲に重なる結合をすべて解除する
+  const unmergeCells = useCallback((range: CellRange | null = selectionRange) => {
+    if (!range) return
+    const nextMerges = removeMerges(merges, range)
+    if (nextMerges.length === merges.length) return
+    recordOperations('unmerge', [{ type: 'merges', before: merges, after: nextMerges }])
+    setMerges(nextMerges)
+  }, [selectionRange, merges, recordOperations, setMerges])
+
+  // 条件付き書式のルールの一覧を置き換える
+  const changeConditionalFormats = useCallback((next: ConditionalFormat[]) => {
+    if (next === conditionalFormats) return
+    recordOperations('conditionalFormat', [{ type: 'conditionalFormats', before: conditionalFormats, after: next }])
+    setConditionalFormats(next)
+  }, [conditionalFormats, recordOperations, setConditionalFormats])
+
+  // フィルハンドルのダブルクリックで、隣の列（左を優先）のデータが続く行まで下へフィルする
+  const handleFillHandleDoubleClick = useCallback(() => {
+    if (!selectionRange) return
+    const { top, bottom, left, right } = normalizeRange(selectionRange)
+    const hasValue = (row: number, col: number) => String(getCell(row, col)?.value ?? '') !== ''
+
+    let end = bottom
+    for (const col of [left - 1, right + 1]) {
+      if (col < 0 || col >= columnCount || bottom + 1 >= rowCount || !hasValue(bottom + 1, col)) continue
+      end = bottom + 1
+      while (end + 1 < rowCount && hasValue(end + 1, col)) end++
+      break
+    }
+    if (end === bottom) return
+
+    const source = { start: { row: top, col: left }, end: { row: bottom, col: right } }
+    const target = { start: source.start, end: { row: end, col: right } }
+    handleFill(source, target)
+    selectRange(target)
+  }, [selectionRange, getCell, rowCount, columnCount, handleFill, selectRange])
+
+  // 指定がない列は A, B, …, Z, AA, … XFD のラベルを使う
+  const getColumnLabel = useCallback((col: number) => {
+    return columnLabels?.[col] ?? columnIndexToLabel(col)
+  }, [columnLabels])
+
+  // 列ヘッダーの並べ替え・フィルターのメニュー（位置はコンテナの左上から）
+  const [columnMenu, setColumnMenu] = useState<{ col: number; x: number; y: number } | null>(null)
+
+  const openColumnMenu = useCallback((col: number, e: React.MouseEvent<HTMLElement>) => {
+    const container = containerRef.current?.getBoundingClientRect()
+    const header = (e.currentTarget.parentElement ?? e.currentTarget).getBoundingClientRect()
+    if (!container) return
+    setColumnMenu({ col, x: header.left - container.left, y: header.bottom - container.top })
+  }, [])
+
+  const closeColumnMenu = useCallback(() => {
+    setColumnMenu(null)
+    containerRef.current?.focus()
+  }, [])
+
+  // 複数行を選択していて列が選択範囲に含まれる場合は選択範囲を、それ以外は表全体を並べ替える
+  const handleColumnSort = useCallback((col: number, direction: SortDirection, addKey: boolean) => {
+    const keys = addKey
+      ? [...sortKeys.filter(key => key.col !== col), { col, direction }]
+      : [{ col, direction }]
+    const bounds = selectionRange && normalizeRange(selectionRange)
+    const isRangeTarget = bounds && bounds.bottom > bounds.top && col >= bounds.left && col <= bounds.right
+    sortRange(keys, isRangeTarget ? selectionRange : undefined)
+  }, [sortKeys, selectionRange, sortRange])
+
+  // メニューを開いた列の値の一覧
+  const columnMenuValues = useMemo(() => {
+    if (!columnMenu) return []
+    const filter = { range: getFilterRange(columnMenu.col), columns: {} }
+    return getDistinctValues(filter, columnMenu.col, (row, col) => engine.getValue(row, col), getDisplayValue, locale)
+  }, [columnMenu, getFilterRange, engine, getDisplayValue, locale])
+
+  // コピー時は数式の計算結果を書き出す
+  const getCellText = useCallback((position: CellPosition) => {
+    return getCell(position.row, position.col) ? getDisplayValue(position.row, position.col) : ''
+  }, [getCell, getDisplayValue])
+
+  const {
+    handleCopy,
+    handleCut,
+    handlePaste,
+    copySelection,
+    cutSelection,
+    pasteFromClipboard,
+  } = useClipboard({
+    rowCount,
+    columnCount,
+    selectedCell,
+    selectionRange,
+    // メニューの入力欄での操作はグリッドのコピー・貼り付けとして扱わない
+    disabled: editingCell !== null || columnMenu !== null,
+    getCellText,
+    getCellValue,
+    isCellEditable,
+    onChange: handleClipboardChange,
+    onSelectRange: selectRange,
   })
 
+  // 選択中のすべての範囲の値を消去する（書式は残す）
+  const clearContents = useCallback(() => {
+    const changes: CellChange[] = []
+    forEachCell((row, col) => {
+      const position = { row, col }
+      if (!selectionRanges.some(range => isPositionInRange(position, range))) return
+      if (isCellEditable(position) && getCellValue(position) !== '') {
+        changes.push({ ...position, value: '' })
+      }
+    })
+    commitCellChanges(changes, 'clear')
+  }, [selectionRanges, forEachCell, isCellEditable, getCellValue, commitCellChanges])
+
+  // セル・行ヘッダー・列ヘッダーの右クリックメニュー（位置はコンテナの左上から）
+  const [contextMenu, setContextMenu] = useState<
+    | { target: SpreadsheetContextMenuTarget; point: { x: number; y: number } }
+    // キーボードで開いた場合はセルの左下に表示する
+    | { target: Extract<SpreadsheetContextMenuTarget, { type: 'cell' }>; point?: undefined }
+    | null
+  >(null)
+
+  const openContextMenu = useCallback((target: SpreadsheetContextMenuTarget, e: React.MouseEvent) => {
+    e.preventDefault()
+    const container = containerRef.current?.getBoundingClientRect()
+    if (!container) return
+    setContextMenu({ target, point: { x: e.clientX - container.left, y: e.clientY - container.top } })
+  }, [])
+
+  const closeContextMenu = useCallback(() => {
+    setContextMenu(null)
+    containerRef.current?.focus()
+  }, [])
+
+  // onCellContextMenu で既定の動作を止めた場合は組み込みのメニューを開かない
+  // 編集中のセルはエディタの標準のメニューに任せる
+  const handleCellContextMenuOpen = useCallback((row: number, col: number, e: React.MouseEvent) => {
+    if (isEditingCell(row, col)) return
+    handleCellContextMenu(row, col, e)
+    if (e.defaultPrevented) return
+    openContextMenu({ type: 'cell', position: { row, col } }, e)
+  }, [isEditingCell, handleCellContextMenu, openContextMenu])
+
+  // 既定の項目（contextMenuItems を指定した場合は、その戻り値を表示する）
+  const contextMenuEntries = useMemo((): ContextMenuEntry[] => {
+    if (!contextMenu) return []
+    const { target } = contextMenu
+    const axes: StructureAxis[] = target.type === 'cell' ? ['row', 'column'] : [target.type]
+    const sortColumn = target.type === 'cell' ? target.position.col : target.type === 'column' ? target.col : null
+    const axisItems = (type: StructureChange['type']): ContextMenuItem[] => axes.map(axis => {
+      const label = axis === 'row' ? '行' : '列'
+      return {
+        id: `${type}${axis === 'row' ? 'Rows' : 'Columns'}`,
+        label: `${label}の${type === 'insert' ? '挿入' : '削除'}`,
+        // セルを選択している場合のショートカットキーは行の挿入・削除になる
+        shortcut: target.type === 'cell' && axis === 'column' ? undefined : type === 'insert' ? 'Ctrl+Shift+=' : 'Ctrl+-',
+        onSelect: () => changeStructure(type, axis),
+      }
+    })
+
+    const items: ContextMenuEntry[] = [
+      { id: 'cut', label: '切り取り', shortcut: 'Ctrl+X', onSelect: cutSelection },
+      { id: 'copy', label: 'コピー', shortcut: 'Ctrl+C', onSelect: copySelection },
+      { id: 'paste', label: '貼り付け', shortcut: 'Ctrl+V', onSelect: pasteFromClipboard },
+      'separator',
+      ...axisItems('insert'),
+      ...axisItems('delete'),
+      { id: 'clearContents', label: '内容のクリア', shortcut: 'Delete', onSelect: clearContents },
+    ]
+    if (sortColumn !== null) {
+      items.push(
+        'separator',
+        { id: 'sortAscending', label: '昇順で並べ替え', onSelect: () => handleColumnSort(sortColumn, 'asc', false) },
+        { id: 'sortDescending', label: '降順で並べ替え', onSelect: () => handleColumnSort(sortColumn, 'desc', false) }
+      )
+    }
+    return contextMenuItems ? contextMenuItems(items, target) : items
+  }, [
+    contextMenu,
+    contextMenuItems,
+    changeStructure,
+    cutSelection,
+    copySelection,
+    pasteFromClipboard,
+    clearContents,
+    handleColumnSort,
+  ])
+
+  const selectSearchMatch = useCallback((position: CellPosition) => {
+    selectRange({ start: position, end: position }, position)
+    scrollIntoView(position.row, position.col)
+  }, [selectRange, scrollIntoView])
+
+  // 置換した値は入力と同様に型を推測する
+  const handleSearchReplace = useCallback((changes: CellChange[]) => {
+    commitValidatedChanges(parseCellInputs(changes), 'replace')
+  }, [commitValidatedChanges, parseCellInputs])
+
+  const isRowHidden = useCallback((row: number) => hiddenRows?.has(row) ?? false, [hiddenRows])
+
+  const search = useSearch({
+    selectedCell,
+    selectionRange,
+    forEachCell,
+    getCellText,
+    getCellValue,
+    isCellEditable,
+    isRowHidden,
+    onSelect: selectSearchMatch,
+    onReplace: handleSearchReplace,
+  })
+  const { open: openSearch, close: closeSearchPanel } = search
+
+  const closeSearch = useCallback(() => {
+    closeSearchPanel()
+    containerRef.current?.focus()
+  }, [closeSearchPanel])
+
+  // 入力した値のままセルの編集に戻る
+  const retryValidationPrompt = useCallback(() => {
+    if (!validationPrompt) return
+    const { position, editValue } = validationPrompt
+    closeValidationPrompt()
+    selectRange({ start: position, end: position }, position)
+    startEditing(position, editValue)
+  }, [validationPrompt, closeValidationPrompt, selectRange, startEditing])
+
+  // アクティブセルの入力規則（入力時メッセージと一覧から選ぶボタンに使う）
+  const activeValidation = selectedCell ? findValidation(selectedCell) : null
+  const activeList = selectedCell ? getValidationListValues(selectedCell) : null
+
+  const openActiveValidationList = useCallback(() => {
+    if (selectedCell) openValidationList(selectedCell)
+  }, [selectedCell, openValidationList])
+
+  const validationListItems = useMemo((): ContextMenuEntry[] => {
+    return validationListValues.map((value, index) => ({
+      id: String(index),
+      label: value,
+      onSelect: () => selectValidationListValue(value),
+    }))
+  }, [validationListValues, selectValidationListValue])
+
+  // 編集を確定し、Enter/Tabの場合はカーソルを移動する
+  const handleEditorCommit = useCallback((direction: CommitDirection) => {
+    commitEdit()
+    if (!direction) return
+
+    // 複数のセルを選択している場合は選択範囲の中を移動する
+    runNavigationCommand(({
+      up: 'previousRow',
+      down: 'nextRow',
+      left: 'previousCell',
+      right: 'nextCell',
+    } as const)[direction])
+    containerRef.current?.focus()
+  }, [commitEdit, runNavigationCommand])
+
+  const handleEditorCancel = useCallback(() => {
+    cancelEdit()
+    containerRef.current?.focus()
+  }, [cancelEdit])
+
+  const keymap = useMemo(() => createKeymap(keymapProp), [keymapProp])
+
+  // 割り当てられたコマンドを実行する（移動・選択以外のコマンド）
+  const runCommand = useCallback((command: Exclude<SpreadsheetCommand, NavigationCommand>) => {
+    switch (command) {
+      case 'undo':
+        undo()
+        break
+      case 'redo':
+        redo()
+        break
+      case 'bold':
+      case 'italic':
+      case 'underline':
+        toggleStyle(command)
+        break
+      case 'find':
+      case 'replace':
+        openSearch(command === 'replace')
+        break
+      case 'insert':
+      case 'delete': {
+        // 列全体を選択している場合は列、それ以外は選択範囲の行
+        const bounds = selectionRange && normalizeRange(selectionRange)
+        const isColumnSelection = bounds !== null && bounds.top === 0 && bounds.bottom === rowCount - 1 &&
+          !(bounds.left === 0 && bounds.right === columnCount - 1)
+        changeStructure(command, isColumnSelection ? 'column' : 'row')
+        break
+      }
+      case 'edit':
+      case 'clearAndEdit':
+        if (selectedCell) startEditing(selectedCell, command === 'clearAndEdit' ? '' : undefined)
+        break
+      case 'clearContents':
+        clearContents()
+        break
+      case 'openList':
+        openActiveValidationList()
+        break
+      case 'openContextMenu':
+        // アクティブセルの左下に表示する
+        if (selectedCell) setContextMenu({ target: { type: 'cell', position: selectedCell } })
+        break
+    }
+  }, [
+    selectedCell,
+    selectionRange,
+    rowCount,
+    columnCount,
+    startEditing,
+    undo,
+    redo,
+    openSearch,
+    changeStructure,
+    toggleStyle,
+    clearContents,
+    openActiveValidationList,
+  ])
+
+  // キー操作はフォーカスのあるグリッドだけで扱う（onKeyDown で既定の動作を止めた場合は何もしない）
+  const handleGridKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (editingCell) return
+    onKeyDown?.(e.nativeEvent, selectionRange)
+    if (e.nativeEvent.defaultPrevented) return
+
+    const command = findCommand(keymap, e)
+    if (command) {
+      e.preventDefault()
+      if (isNavigationCommand(command)) runNavigationCommand(command)
+      else runCommand(command)
+      return
+    }
+
+    // 割り当てのない矢印キーでスクロールやページの移動をしない
+    if (e.key.startsWith('Arrow')) {
+      e.preventDefault()
+    } else if (selectedCell && e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      // 入力した文字で既存の値を置き換えて編集を開始
+      e.preventDefault()
+      startEditing(selectedCell, e.key)
+    }
+  }, [
+    editingCell,
+    selectedCell,
+    selectionRange,
+    keymap,
+    onKeyDown,
+    runNavigationCommand,
+    runCommand,
+    startEditing,
+  ])
+
+  useImperativeHandle(ref, () => {
+    const scrollToCell = (position: CellPosition) => {
+      const { row, col } = clampPosition(position, rowCount, columnCount)
+      scrollIntoView(row, col)
+    }
+
+    return {
+      focus: () => containerRef.current?.focus(),
+      scrollToCell,
+      select: (range, activeCell) => {
+        const start = clampPosition(range.start, rowCount, columnCount)
+        const end = clampPosition(range.end, rowCount, columnCount)
+        const active = clampPosition(activeCell ?? start, rowCount, columnCount)
+        selectRange({ start, end }, active)
+        scrollToCell(active)
+      },
+      getSelection: () => selectionRange,
+      getSelectionRanges: () => selectionRanges,
+      getActiveCell: () => selectedCell,
+      startEditing: (position, initialValue) => {
+        const target = position ?? selectedCell
+        if (!target) return false
+        const cell = clampPosition(target, rowCount, columnCount)
+        selectRange({ start: cell, end: cell }, cell)
+        scrollToCell(cell)
+        return startEditing(cell, initialValue)
+      },
+      clearSelection: handleClearSelection,
+      freezePanes: (position) => {
+        const target = position ?? selectedCell
+        if (!target) return
+        const { row, col } = clampPosition(target, rowCount, columnCount)
+        setFreezePanes(row, col)
+      },
+      unfreezePanes: () => setFreezePanes(0, 0),
+      exportCsv: ({ scope = 'sheet', ...options } = {}) => {
+        const usedRange = getUsedRange()
+        const range = scope === 'selection'
+          ? selectionRange
+          : usedRange && { start: { row: 0, col: 0 }, end: usedRange.end }
+        if (!range) return ''
+
+        const { top, bottom, left, right } = normalizeRange(range)
+        const rows: string[][] = []
+        for (let row = top; row <= bottom; row++) {
+          const values: string[] = []
+          for (let col = left; col <= right; col++) {
+            values.push(getCellText({ row, col }))
+          }
+          rows.push(values)
+        }
+        return serializeCsv(rows, options)
+      },
+      importCsv,
+      getXlsxSheet: (name = 'Sheet1') => ({
+        name,
+        model: model ?? createSheetModel({ rowCount, columnCount, data }),
+        columnWidths: currentColumnWidths,
+        rowHeights: currentRowHeights,
+        defaultColumnWidth,
+        defaultRowHeight,
+        merges: mergeIndex.merges,
+        frozenRowCount,
+        frozenColumnCount,
+        getFormulaValue: (row, col) => engine.getValue(row, col),
+      }),
+      sort: sortRange,
+      setFilter: setColumnFilter,
+      clearFilters: () => setAutoFilter(null),
+      getAutoFilter: () => autoFilter,
+      setStyle,
+      setBorders,
+      getCellStyle: (position) => {
+        const target = position ?? selectedCell
+        return target ? getCellStyle(target.row, target.col) : undefined
+      },
+      mergeCells: (range) => mergeCells(range),
+      unmergeCells: (range) => unmergeCells(range),
+      getConditionalFormats: () => conditionalFormats,
+      setConditionalFormats: changeConditionalFormats,
+      getDataValidations: () => dataValidations,
+      setDataValidations: changeDataValidations,
+      circleInvalidData: () => setCirclingInvalidData(true),
+      clearInvalidCircles: () => setCirclingInvalidData(false),
+      openSearch,
+      insertRows: (index, count) => changeStructure('insert', 'row', index, count),
+      deleteRows: (index, count) => changeStructure('delete', 'row', index, count),
+      insertColumns: (index, count) => changeStructure('insert', 'column', index, count),
+      deleteColumns: (index, count) => changeStructure('delete', 'column', index, count),
+      rewriteFormulas,
+      undo,
+      redo,
+    }
+  }, [
+    rowCount,
+    columnCount,
+    selectRange,
+    selectionRange,
+    selectionRanges,
+    selectedCell,
+    startEditing,
+    handleClearSelection,
+    scrollIntoView,
+    setFreezePanes,
+    getUsedRange,
+    getCellText,
+    importCsv,
+    model,
+    data,
+    currentColumnWidths,
+    currentRowHeights,
+    defaultColumnWidth,
+    defaultRowHeight,
+    frozenRowCount,
+    frozenColumnCount,
+    engine,
+    sortRange,
+    setColumnFilter,
+    setAutoFilter,
+    autoFilter,
+    mergeIndex,
+    setStyle,
+    setBorders,
+    getCellStyle,
+    mergeCells,
+    unmergeCells,
+    conditionalFormats,
+    changeConditionalFormats,
+    dataValidations,
+    changeDataValidations,
+    setCirclingInvalidData,
+    openSearch,
+    changeStructure,
+    rewriteFormulas,
+    undo,
+    redo,
+  ])
+
+  // セルの表示内容（値のないセルには番地を表示する）
+  // 条件付き書式の書式はセルの書式より優先する
+  const getCellDisplay = useCallback((row: number, col: number): CellDisplay => {
+    const cell = getCell(row, col)
+    const conditional = conditionalEvaluator.getResult(row, col)
+    const cellStyle = getCellStyle(row, col)
+    const style = conditional?.style ? applyStylePatch(cellStyle, conditional.style) : cellStyle
+    const dataBar = conditional?.dataBar
+    const icon = conditional?.icon
+    if (!cell) {
+      return { text: `${getColumnLabel(col)}${row + 1}`, alignment: style?.horizontalAlign ?? 'left', style, dataBar, icon }
+    }
+    const value = engine.getValue(row, col)
+    return {
+      text: formatCellValue(value, cell, locale),
+      alignment: style?.horizontalAlign ?? getCellAlignment(value, cell),
+      style,
+      dataBar,
+      icon,
+      invalid: isCirclingInvalidData && isInvalidCell(row, col),
+    }
+  }, [
+    getCell,
+    conditionalEvaluator,
+    getCellStyle,
+    getColumnLabel,
+    engine,
+    locale,
+    isCirclingInvalidData,
+    isInvalidCell,
+  ])
+
+  const handleCellMouseDown = useCallback((row: number, col: number, e: React.MouseEvent) => {
+    // 選択範囲の中の右クリックは選択を変えない
+    if (e.button === 2 && isCellSelected(row, col)) return
+    handleMouseDown(row, col, e.shiftKey, e.ctrlKey || e.metaKey)
+  }, [handleMouseDown, isCellSelected])
+
+  const handleCellDoubleClickEdit = useCallback((row: number, col: number) => {
+    handleCellDoubleClick(row, col)
+    startEditing({ row, col })
+  }, [handleCellDoubleClick, startEditing])
+
   // スタイルの結合
   const mergedStyles = {
     cell: {
@@ -209,31 +1740,53 @@ export default function Spreadsheet({
     }
   }
 
+  // フィルハンドルを表示する範囲（選択範囲が1つで編集中でない場合のみ）
+  const fillHandleBounds = selectionRange && selectionRanges.length === 1 && !editingCell
+    ? normalizeRange(selectionRange)
+    : null
+  const fillPreviewBounds = fillRange ? normalizeRange(fillRange) : null
+  // 絞り込みで非表示の行があるオートフィルターの範囲
+  const filterBounds = autoFilter && hiddenRows && hiddenRows.size > 0 ? normalizeRange(autoFilter.range) : null
+
   // セルの内容をレンダリング
   const cellRenderer = ({ columnIndex, key, rowIndex, style }: GridCellProps) => {
+    // フィルターで非表示の行は描画しない
+    if (hiddenRows?.has(rowIndex)) return null
+
+    // 結合範囲は左上のセルだけを結合範囲全体の大きさで描画する
+    const merge = mergeIndex.getMerge(rowIndex, columnIndex)
+    if (merge && (rowIndex !== merge.top || columnIndex !== merge.left)) return null
+    const cellBounds: RangeBounds = merge ?? { top: rowIndex, bottom: rowIndex, left: columnIndex, right: columnIndex }
+    const containsPosition = (position: CellPosition | null | undefined) => !!position &&
+      position.row >= cellBounds.top && position.row <= cellBounds.bottom &&
+      position.col >= cellBounds.left && position.col <= cellBounds.right
+
     const isSelected = isCellSelected(rowIndex, columnIndex)
-    const isActiveCell = selectedCell?.row === rowIndex && selectedCell?.col === columnIndex
+    const isActiveCell = containsPosition(selectedCell)
+    // 結合されたセル1つだけの選択は範囲の選択として扱わない
     const isRangeSelection = selectionRange && (
-      selectionRange.start.row !== selectionRange.end.row || 
+      !containsPosition(selectionRange.start) || !containsPosition(selectionRange.end)
+    ) && (
+      selectionRange.start.row !== selectionRange.end.row ||
       selectionRange.start.col !== selectionRange.end.col
     )
-    const isStartCell = selectionRange && 
-      rowIndex === selectionRange.start.row && 
-      columnIndex === selectionRange.start.col
 
-    // 選択範囲の境界を計算
+    // 選択範囲の境界を計算（範囲が重なる場合はそれぞれの範囲の境界を重ねて描く）
     const getBorderClasses = () => {
-      if (!isSelected || !selectionRange) return ''
+      if (!isSelected || selectionRanges.length === 0) return ''
 
-      const minRow = Math.min(selectionRange.start.row, selectionRange.end.row)
-      const maxRow = Math.max(selectionRange.start.row, selectionRange.end.row)
-      const minCol = Math.min(selectionRange.start.col, selectionRange.end.col)
-      const maxCol = Math.max(selectionRange.start.col, selectionRange.end.col)
-
-      const isTopBorder = rowIndex === minRow
-      const isBottomBorder = rowIndex === maxRow
-      const isLeftBorder = columnIndex === minCol
-      const isRightBorder = columnIndex === maxCol
+      let isTopBorder = false
+      let isBottomBorder = false
+      let isLeftBorder = false
+      let isRightBorder = false
+      for (const range of selectionRanges) {
+        const bounds = normalizeRange(range)
+        if (!rangesOverlap(bounds, cellBounds)) continue
+        isTopBorder ||= cellBounds.top === bounds.top
+        isBottomBorder ||= cellBounds.bottom === bounds.bottom
+        isLeftBorder ||= cellBounds.left === bounds.left
+        isRightBorder ||= cellBounds.right === bounds.right
+      }
 
       return cn({
         'border-t-2 border-blue-400': isTopBorder,
@@ -243,11 +1796,33 @@ export default function Spreadsheet({
       })
     }
 
-    const cellContent = data?.[rowIndex]?.[columnIndex]?.value ?? `${columnLabels[columnIndex]}${rowIndex + 1}`
+    // フィルハンドルのドラッグ中はフィル先の範囲を点線で囲む
+    const getFillPreviewClasses = () => {
+      if (!fillPreviewBounds || !rangesOverlap(fillPreviewBounds, cellBounds)) return ''
+      const { top, bottom, left, right } = fillPreviewBounds
+      return cn(fillHandleStyles.preview, {
+        'border-t-2': cellBounds.top === top,
+        'border-b-2': cellBounds.bottom === bottom,
+        'border-l-2': cellBounds.left === left,
+        'border-r-2': cellBounds.right === right
+      })
+    }
+
+    const hasFillHandle = fillHandleBounds !== null &&
+      cellBounds.bottom === fillHandleBounds.bottom &&
+      cellBounds.right === fillHandleBounds.right
+
+    const cellStyle = merge ? {
+      ...style,
+      width: columnSizes.getOffset(merge.right + 1) - columnSizes.getOffset(merge.left),
+      height: rowSizes.getOffset(merge.bottom + 1) - rowSizes.getOffset(merge.top),
+    } : style
 
     return (
-      <div
+      <SpreadsheetCell
         key={key}
+        row={rowIndex}
+        col={columnIndex}
         className={cn(
           // ベーススタイル
           mergedStyles.cell.base,
@@ -258,51 +1833,167 @@ export default function Spreadsheet({
             mergedStyles.cell.hover,
             mergedStyles.cell.border
           ],
-          // アクティブセルまたは選択開始セルのスタイル
-          ((!isRangeSelection && isActiveCell) || (isRangeSelection && isStartCell)) && [
+          // 検索で一致したセル
+          search.isOpen && search.isMatch(rowIndex, columnIndex) && searchStyles.match,
+          // アクティブセルのスタイル（範囲を選択している場合も、Tab・Enter で範囲の中を移動するセル）
+          isActiveCell && [
             'border-2 border-blue-400',
             '-m-[1px]',
             mergedStyles.cell.active
           ],
           // 選択範囲の境界線
           getBorderClasses(),
+          // フィル先の範囲
+          getFillPreviewClasses(),
           // カスタムクラス
           cellClassName
         )}
-        style={style}
-        onMouseDown={(e) => handleMouseDown(rowIndex, columnIndex, e.shiftKey)}
-      >
-        {cellContent}
-      </div>
+        style={cellStyle}
+        selected={isSelected}
+        editor={isEditingCell(rowIndex, columnIndex) ? (
+          <CellEditor
+            value={editValue}
+            onChange={setEditValue}
+            onCommit={handleEditorCommit}
+            onCancel={handleEditorCancel}
+          />
+        ) : undefined}
+        fillHandle={hasFillHandle}
+        dropdown={activeList !== null && !isRangeSelection && isActiveCell}
+        onDropdownClick={openActiveValidationList}
+        onFillHandleMouseDown={hasFillHandle ? handleFillHandleMouseDown : undefined}
+        onFillHandleDoubleClick={hasFillHandle ? handleFillHandleDoubleClick : undefined}
+        getContent={getCellDisplay}
+        subscribeCell={subscribeCell}
+        getCellVersion={getCellVersion}
+        onMouseDown={handleCellMouseDown}
+        onDoubleClick={handleCellDoubleClickEdit}
+        onContextMenu={handleCellContextMenuOpen}
+      />
     )
   }
 
+  // セルの左下のコンテナ内での位置（入力時メッセージや入力規則の一覧を表示する位置）
+  // 固定されていない区画のセルはスクロールした分だけずらす
+  const getCellPopupPosition = (position: CellPosition, scrollLeft: number, scrollTop: number) => {
+    const merge = mergeIndex.getMerge(position.row, position.col)
+    const top = merge?.top ?? position.row
+    const bottom = merge?.bottom ?? position.row
+    const left = merge?.left ?? position.col
+    return {
+      x: defaultColumnWidth + columnSizes.getOffset(left) - (left >= frozenColumnCount ? scrollLeft : 0),
+      y: headerHeight + rowSizes.getOffset(bottom + 1) - (top >= frozenRowCount ? scrollTop : 0),
+    }
+  }
+
+  // 固定部分を除いたグリッドは先頭からの相対位置で描画されるため、シート上の位置に変換する
+  const offsetRenderer = (
+    renderer: (props: GridCellProps) => React.ReactNode,
+    rowOffset: number,
+    columnOffset: number
+  ) => (props: GridCellProps) => renderer({
+    ...props,
+    rowIndex: props.rowIndex + rowOffset,
+    columnIndex: props.columnIndex + columnOffset,
+  })
+
+  // 左上のセルが描画範囲の外にある結合範囲も、一部が見えていれば描画する
+  // （他の区画に左上のセルがある結合範囲は、その区画の中だけに描画する）
+  const mergeCellRangeRenderer = (rowOffset: number, columnOffset: number) => (props: GridCellRangeProps) => {
+    const cells = defaultCellRangeRenderer(props)
+    const { rowStartIndex, rowStopIndex, columnStartIndex, columnStopIndex } = props
+    for (const { start, end } of mergeIndex.merges) {
+      const rowIndex = start.row - rowOffset
+      const columnIndex = start.col - columnOffset
+      if (rowIndex < 0 || columnIndex < 0) continue
+      if (rowIndex >= props.rowSizeAndPositionManager.getCellCount()) continue
+      if (columnIndex >= props.columnSizeAndPositionManager.getCellCount()) continue
+      if (rowIndex > rowStopIndex || end.row - rowOffset < rowStartIndex) continue
+      if (columnIndex > columnStopIndex || end.col - columnOffset < columnStartIndex) continue
+      // 左上のセルが描画範囲にあれば通常どおり描画される
+      if (rowIndex >= rowStartIndex && columnIndex >= columnStartIndex) continue
+
+      const rowDatum = props.rowSizeAndPositionManager.getSizeAndPositionOfCell(rowIndex)
+      const columnDatum = props.columnSizeAndPositionManager.getSizeAndPositionOfCell(columnIndex)
+      cells.push(props.cellRenderer({
+        columnIndex,
+        rowIndex,
+        key: `${rowIndex}-${columnIndex}`,
+        isScrolling: props.isScrolling,
+        isVisible: true,
+        parent: props.parent,
+        style: {
+          position: 'absolute',
+          top: rowDatum.offset + props.verticalOffsetAdjustment,
+          left: columnDatum.offset + props.horizontalOffsetAdjustment,
+          width: columnDatum.size,
+          height: rowDatum.size,
+        },
+      }))
+    }
+    return cells
+  }
+
   // ヘッダーセルをレンダリング
   const headerCellRenderer = ({ columnIndex, key, style }: GridCellProps) => {
-    const isSelected = selectionRange && columnIndex >= Math.min(selectionRange.start.col, selectionRange.end.col) &&
-                      columnIndex <= Math.max(selectionRange.start.col, selectionRange.end.col)
+    const isSelected = selectionRanges.some(range => {
+      const { left, right } = normalizeRange(range)
+      return columnIndex >= left && columnIndex <= right
+    })
+    const isFiltered = autoFilter?.columns[columnIndex] !== undefined
 
     return (
       <div
         key={key}
         className={cn(
+          'group',
           mergedStyles.header.base,
           mergedStyles.header.border,
           isSelected ? mergedStyles.header.selected : mergedStyles.header.hover,
           headerClassName
         )}
         style={style}
-        onMouseDown={(e) => handleHeaderMouseDown(columnIndex, false, e.shiftKey)}
+        onMouseDown={(e) => {
+          // 選択範囲の中の右クリックは選択を変えない
+          if (e.button === 2 && isSelected) return
+          handleHeaderMouseDown(columnIndex, false, e.shiftKey, e.ctrlKey || e.metaKey)
+        }}
+        onContextMenu={(e) => openContextMenu({ type: 'column', col: columnIndex }, e)}
       >
-        {columnLabels[columnIndex]}
+        {getColumnLabel(columnIndex)}
+        {/* 並べ替え・フィルターのメニューを開くボタン */}
+        <button
+          type="button"
+          className={cn(
+            filterStyles.button,
+            (isFiltered || columnMenu?.col === columnIndex) && filterStyles.activeButton
+          )}
+          title={isFiltered ? '絞り込み中' : '並べ替えとフィルター'}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => openColumnMenu(columnIndex, e)}
+        >
+          ▼
+        </button>
+        {/* 列幅変更用のハンドル */}
+        <div
+          className={resizeHandleStyles.column}
+          onMouseDown={(e) => startColumnResize(columnIndex, e)}
+        />
       </div>
     )
   }
 
   // 行ヘッダーをレンダリング
   const rowHeaderRenderer = ({ key, rowIndex, style }: GridCellProps) => {
-    const isSelected = selectionRange && rowIndex >= Math.min(selectionRange.start.row, selectionRange.end.row) &&
-                      rowIndex <= Math.max(selectionRange.start.row, selectionRange.end.row)
+    if (hiddenRows?.has(rowIndex)) return null
+
+    const isSelected = selectionRanges.some(range => {
+      const { top, bottom } = normalizeRange(range)
+      return rowIndex >= top && rowIndex <= bottom
+    })
+    // 絞り込み中は表示されている行の番号を色付けし、非表示の行がある位置に線を引く
+    const isFilteredRow = filterBounds !== null && rowIndex > filterBounds.top && rowIndex <= filterBounds.bottom
+    const hasHiddenRowsBelow = hiddenRows?.has(rowIndex + 1) ?? false
 
     return (
       <div
@@ -311,22 +2002,46 @@ export default function Spreadsheet({
           mergedStyles.header.base,
           mergedStyles.header.border,
           isSelected ? mergedStyles.header.selected : mergedStyles.header.hover,
+          isFilteredRow && filterStyles.filteredRowHeader,
+          hasHiddenRowsBelow && filterStyles.hiddenRowsBelow,
           headerClassName
         )}
         style={style}
-        onMouseDown={(e) => handleHeaderMouseDown(rowIndex, true, e.shiftKey)}
+        onMouseDown={(e) => {
+          if (e.button === 2 && isSelected) return
+          handleHeaderMouseDown(rowIndex, true, e.shiftKey, e.ctrlKey || e.metaKey)
+        }}
+        onContextMenu={(e) => openContextMenu({ type: 'row', row: rowIndex }, e)}
       >
         {rowIndex + 1}
+        {/* 行高変更用のハンドル */}
+        <div
+          className={resizeHandleStyles.row}
+          onMouseDown={(e) => startRowResize(rowIndex, e)}
+        />
       </div>
     )
   }
 
   return (
     <AutoSizer>
-      {({ width, height }) => (
+      {({ width, height }) => {
+        // 固定された行・列を除いたスクロールする領域の大きさ
+        const scrollableWidth = Math.max(0, width - defaultColumnWidth - frozenWidth)
+        const scrollableHeight = Math.max(0, height - headerHeight - frozenHeight)
+
+        return (
         <ScrollSync>
-          {({ onScroll, scrollLeft, scrollTop }) => (
+          {({ onScroll, scrollLeft, scrollTop }) => {
+            // 入力時メッセージを表示するアクティブセルの左下の位置
+            const hintPosition = selectedCell && (activeValidation?.inputTitle || activeValidation?.inputMessage) &&
+              !editingCell && !validationPrompt && !validationList
+              ? getCellPopupPosition(selectedCell, scrollLeft, scrollTop)
+              : null
+
+            return (
             <div 
+              ref={containerRef}
               className={cn(gridStyles.container, className)}
               style={{ width, height }}
               onMouseUp={(e) => {
@@ -334,11 +2049,14 @@ export default function Spreadsheet({
                   handleClearSelection()
                 }
               }}
-              onKeyDown={(e) => {
-                if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
-                  e.preventDefault()
-                }
+              onContextMenu={(e) => {
+                // アプリケーションキーで開くブラウザのメニューを出さない（メニューはキー操作で開く）
+                if (e.target === e.currentTarget) e.preventDefault()
               }}
+              onKeyDown={handleGridKeyDown}
+              onCopy={handleCopy}
+              onCut={handleCut}
+              onPaste={handlePaste}
               tabIndex={0}
             >
               {/* 左上の空白セル */}
@@ -356,12 +2074,39 @@ export default function Spreadsheet({
                 onClick={handleCornerHeaderClick}
               />
 
+              {/* 固定列の列ヘッダー */}
+              {frozenColumnCount > 0 && (
+                <div
+                  className={cn(gridStyles.headerContainer)}
+                  style={{
+                    left: defaultColumnWidth,
+                    width: frozenWidth,
+                    height: headerHeight,
+                    zIndex: layoutStyles.zIndex.header,
+                  }}
+                  onMouseMove={(e: React.MouseEvent) => handleMouseMove(e.nativeEvent)}
+                >
+                  <Grid
+                    ref={frozenHeaderGridRef}
+                    className={gridStyles.grid}
+                    cellRenderer={headerCellRenderer}
+                    columnCount={frozenColumnCount}
+                    columnWidth={({ index }) => columnSizes.getSize(index)}
+                    height={headerHeight}
+                    rowCount={1}
+                    rowHeight={() => headerHeight}
+                    width={frozenWidth}
+                    style={layoutStyles.overflow.hidden}
+                  />
+                </div>
+              )}
+
               {/* 列ヘッダー */}
               <div 
                 className={cn(gridStyles.headerContainer)}
                 style={{ 
-                  left: defaultColumnWidth,
-                  width: width - defaultColumnWidth - scrollbarWidth,
+                  left: defaultColumnWidth + frozenWidth,
+                  width: scrollableWidth - scrollbarWidth,
                   height: headerHeight,
                   zIndex: layoutStyles.zIndex.header,
                 }}
@@ -370,49 +2115,165 @@ export default function Spreadsheet({
                 <Grid
                   ref={headerGridRef}
                   className={gridStyles.grid}
-                  cellRenderer={headerCellRenderer}
-                  columnCount={columnCount}
-                  columnWidth={() => defaultColumnWidth}
+                  cellRenderer={offsetRenderer(headerCellRenderer, 0, frozenColumnCount)}
+                  columnCount={columnCount - frozenColumnCount}
+                  columnWidth={({ index }) => columnSizes.getSize(index + frozenColumnCount)}
                   height={headerHeight}
                   rowCount={1}
                   rowHeight={() => headerHeight}
-                  width={width - defaultColumnWidth - scrollbarWidth}
+                  width={scrollableWidth - scrollbarWidth}
                   scrollLeft={scrollLeft}
                   style={layoutStyles.overflow.hidden}
                 />
               </div>
 
+              {/* 固定行の行ヘッダー */}
+              {frozenRowCount > 0 && (
+                <div
+                  className={cn(gridStyles.rowHeaderContainer)}
+                  style={{
+                    top: headerHeight,
+                    width: defaultColumnWidth,
+                    height: frozenHeight,
+                    zIndex: layoutStyles.zIndex.header,
+                  }}
+                  onMouseMove={(e: React.MouseEvent) => handleMouseMove(e.nativeEvent)}
+                >
+                  <Grid
+                    ref={frozenRowHeaderGridRef}
+                    className={gridStyles.grid}
+                    cellRenderer={rowHeaderRenderer}
+                    columnCount={1}
+                    columnWidth={() => defaultColumnWidth}
+                    height={frozenHeight}
+                    rowCount={frozenRowCount}
+                    rowHeight={({ index }) => rowSizes.getSize(index)}
+                    width={defaultColumnWidth}
+                    style={layoutStyles.overflow.hidden}
+                  />
+                </div>
+              )}
+
               {/* 行ヘッダー */}
               <div 
                 className={cn(gridStyles.rowHeaderContainer)}
                 style={{ 
-                  top: headerHeight,
+                  top: headerHeight + frozenHeight,
                   width: defaultColumnWidth,
-                  height: height - headerHeight - scrollbarWidth,
+                  height: scrollableHeight - scrollbarWidth,
                   zIndex: layoutStyles.zIndex.header,
                 }}
                 onMouseMove={(e: React.MouseEvent) => handleMouseMove(e.nativeEvent)}
               >
                 <Grid
+                  ref={rowHeaderGridRef}
                   className={gridStyles.grid}
-                  cellRenderer={rowHeaderRenderer}
+                  cellRenderer={offsetRenderer(rowHeaderRenderer, frozenRowCount, 0)}
                   columnCount={1}
                   columnWidth={() => defaultColumnWidth}
-                  height={height - headerHeight - scrollbarWidth}
-                  rowCount={rowCount}
-                  rowHeight={() => defaultRowHeight}
+                  height={scrollableHeight - scrollbarWidth}
+                  rowCount={rowCount - frozenRowCount}
+                  rowHeight={({ index }) => rowSizes.getSize(index + frozenRowCount)}
                   width={defaultColumnWidth}
                   scrollTop={scrollTop}
                   style={layoutStyles.overflow.hidden}
                 />
               </div>
 
+              {/* 固定行と固定列が交わる左上の区画 */}
+              {frozenRowCount > 0 && frozenColumnCount > 0 && (
+                <div
+                  className={cn(gridStyles.mainGridContainer)}
+                  style={{
+                    top: headerHeight,
+                    left: defaultColumnWidth,
+                    width: frozenWidth,
+                    height: frozenHeight,
+                  }}
+                  onMouseMove={(e: React.MouseEvent) => handleMouseMove(e.nativeEvent)}
+                >
+                  <Grid
+                    ref={topLeftGridRef}
+                    className={gridStyles.grid}
+                    cellRenderer={cellRenderer}
+                    cellRangeRenderer={mergeCellRangeRenderer(0, 0)}
+                    columnCount={frozenColumnCount}
+                    columnWidth={({ index }) => columnSizes.getSize(index)}
+                    height={frozenHeight}
+                    rowCount={frozenRowCount}
+                    rowHeight={({ index }) => rowSizes.getSize(index)}
+                    width={frozenWidth}
+                    style={layoutStyles.overflow.hidden}
+                  />
+                </div>
+              )}
+
+              {/* 固定行（横方向のみメイングリッドに連動） */}
+              {frozenRowCount > 0 && (
+                <div
+                  className={cn(gridStyles.mainGridContainer)}
+                  style={{
+                    top: headerHeight,
+                    left: defaultColumnWidth + frozenWidth,
+                    width: scrollableWidth - scrollbarWidth,
+                    height: frozenHeight,
+                  }}
+                  onMouseMove={(e: React.MouseEvent) => handleMouseMove(e.nativeEvent)}
+                >
+                  <Grid
+                    ref={topRightGridRef}
+                    className={gridStyles.grid}
+                    cellRenderer={offsetRenderer(cellRenderer, 0, frozenColumnCount)}
+                    cellRangeRenderer={mergeCellRangeRenderer(0, frozenColumnCount)}
+                    columnCount={columnCount - frozenColumnCount}
+                    columnWidth={({ index }) => columnSizes.getSize(index + frozenColumnCount)}
+                    height={frozenHeight}
+                    rowCount={frozenRowCount}
+                    rowHeight={({ index }) => rowSizes.getSize(index)}
+                    width={scrollableWidth - scrollbarWidth}
+                    scrollLeft={scrollLeft}
+                    overscanColumnCount={5}
+                    style={layoutStyles.overflow.hidden}
+                  />
+                </div>
+              )}
+
+              {/* 固定列（縦方向のみメイングリッドに連動） */}
+              {frozenColumnCount > 0 && (
+                <div
+                  className={cn(gridStyles.mainGridContainer)}
+                  style={{
+                    top: headerHeight + frozenHeight,
+                    left: defaultColumnWidth,
+                    width: frozenWidth,
+                    height: scrollableHeight - scrollbarWidth,
+                  }}
+                  onMouseMove={(e: React.MouseEvent) => handleMouseMove(e.nativeEvent)}
+                >
+                  <Grid
+                    ref={bottomLeftGridRef}
+                    className={gridStyles.grid}
+                    cellRenderer={offsetRenderer(cellRenderer, frozenRowCount, 0)}
+                    cellRangeRenderer={mergeCellRangeRenderer(frozenRowCount, 0)}
+                    columnCount={frozenColumnCount}
+                    columnWidth={({ index }) => columnSizes.getSize(index)}
+                    height={scrollableHeight - scrollbarWidth}
+                    rowCount={rowCount - frozenRowCount}
+                    rowHeight={({ index }) => rowSizes.getSize(index + frozenRowCount)}
+                    width={frozenWidth}
+                    scrollTop={scrollTop}
+                    overscanRowCount={20}
+                    style={layoutStyles.overflow.hidden}
+                  />
+                </div>
+              )}
+
               {/* メインのグリッド領域 */}
               <div
                 className={cn(gridStyles.mainGridContainer)}
                 style={{
-                  top: headerHeight,
-                  left: defaultColumnWidth,
+                  top: headerHeight + frozenHeight,
+                  left: defaultColumnWidth + frozenWidth,
                   right: 0,
                   bottom: 0,
                 }}
@@ -421,22 +2282,132 @@ export default function Spreadsheet({
                 <Grid
                   ref={mainGridRef}
                   className={gridStyles.grid}
-                  cellRenderer={cellRenderer}
-                  columnCount={columnCount}
-                  columnWidth={() => defaultColumnWidth}
-                  height={height - headerHeight}
-                  rowCount={rowCount}
-                  rowHeight={() => defaultRowHeight}
-                  width={width - defaultColumnWidth}
+                  cellRenderer={offsetRenderer(cellRenderer, frozenRowCount, frozenColumnCount)}
+                  cellRangeRenderer={mergeCellRangeRenderer(frozenRowCount, frozenColumnCount)}
+                  columnCount={columnCount - frozenColumnCount}
+                  columnWidth={({ index }) => columnSizes.getSize(index + frozenColumnCount)}
+                  height={scrollableHeight}
+                  rowCount={rowCount - frozenRowCount}
+                  rowHeight={({ index }) => rowSizes.getSize(index + frozenRowCount)}
+                  width={scrollableWidth}
                   overscanRowCount={20}
                   overscanColumnCount={5}
                   onScroll={onScroll}
                 />
               </div>
+
+              {/* ウィンドウ枠の固定位置 */}
+              {frozenRowCount > 0 && (
+                <div
+                  className={freezeLineStyles.row}
+                  style={{
+                    top: headerHeight + frozenHeight - 1,
+                    width: width - scrollbarWidth,
+                    zIndex: layoutStyles.zIndex.header,
+                  }}
+                />
+              )}
+              {frozenColumnCount > 0 && (
+                <div
+                  className={freezeLineStyles.column}
+                  style={{
+                    left: defaultColumnWidth + frozenWidth - 1,
+                    height: height - scrollbarWidth,
+                    zIndex: layoutStyles.zIndex.header,
+                  }}
+                />
+              )}
+
+              {/* 検索・置換パネル */}
+              {search.isOpen && (
+                <SearchPanel
+                  query={search.query}
+                  replacement={search.replacement}
+                  options={search.options}
+                  scope={search.scope}
+                  matchCount={search.matches.length}
+                  currentIndex={search.currentIndex}
+                  replacedCount={search.replacedCount}
+                  isInvalidPattern={search.isInvalidPattern}
+                  isReplaceVisible={search.isReplaceVisible}
+                  onQueryChange={search.setQuery}
+                  onReplacementChange={search.setReplacement}
+                  onOptionsChange={search.setOptions}
+                  onScopeChange={search.setScope}
+                  onReplaceVisibleChange={search.setIsReplaceVisible}
+                  onFindNext={search.findNext}
+                  onReplace={search.replace}
+                  onReplaceAll={search.replaceAll}
+                  onClose={closeSearch}
+                />
+              )}
+
+              {/* 入力規則の入力時メッセージ */}
+              {hintPosition && (
+                <div
+                  className={validationStyles.hint}
+                  style={{ left: hintPosition.x + 8, top: hintPosition.y + 4, zIndex: layoutStyles.zIndex.menu }}
+                >
+                  {activeValidation?.inputTitle && (
+                    <div className={validationStyles.hintTitle}>{activeValidation.inputTitle}</div>
+                  )}
+                  {activeValidation?.inputMessage}
+                </div>
+              )}
+
+              {/* 入力規則の一覧 */}
+              {validationList && (
+                <ContextMenu
+                  position={getCellPopupPosition(validationList, scrollLeft, scrollTop)}
+                  items={validationListItems}
+                  onClose={closeValidationList}
+                />
+              )}
+
+              {/* 入力規則に合わない値の確認 */}
+              {validationPrompt && (
+                <ValidationMessage
+                  validation={validationPrompt.validation}
+                  onRetry={validationPrompt.editValue !== undefined ? retryValidationPrompt : undefined}
+                  onContinue={continueValidationPrompt}
+                  onCancel={closeValidationPrompt}
+                />
+              )}
+
+              {/* 操作を実行できなかったことのメッセージ */}
+              {notice && <NoticeMessage reason={notice} onClose={closeNotice} />}
+
+              {/* セル・行・列ヘッダーの右クリックメニュー */}
+              {contextMenu && (
+                <ContextMenu
+                  position={contextMenu.point ?? getCellPopupPosition(contextMenu.target.position, scrollLeft, scrollTop)}
+                  items={contextMenuEntries}
+                  onClose={closeContextMenu}
+                />
+              )}
+
+              {/* 列ヘッダーの並べ替え・フィルターのメニュー */}
+              {columnMenu && (
+                <ColumnMenu
+                  key={columnMenu.col}
+                  position={columnMenu}
+                  values={columnMenuValues}
+                  condition={autoFilter?.columns[columnMenu.col]}
+                  canAddSortKey={sortKeys.length > 0}
+                  locale={locale}
+                  onSort={(direction, addKey) => handleColumnSort(columnMenu.col, direction, addKey)}
+                  onFilter={(condition) => setColumnFilter(columnMenu.col, condition)}
+                  onClose={closeColumnMenu}
+                />
+              )}
             </div>
-          )}
+            )
+          }}
         </ScrollSync>
-      )}
+        )
+      }}
     </AutoSizer>
   )
-} 
\ No newline at end of file
+})
+
+export default Spreadsheet
@@ -0,0 +1,164 @@
+'use client'
+
+import React, { memo, useCallback, useSyncExternalStore } from 'react'
+import { cn } from '@/lib/utils'
+import {
+  borderLineStyles,
+  cellAlignStyles,
+  cellFormatStyles,
+  fillHandleStyles,
+  validationStyles,
+} from '../styles/spreadsheet'
+import type { CellAlignment } from '../lib/format'
+import type { ConditionalResult } from '../lib/conditional'
+import { BORDER_KEYS } from '../lib/style'
+import type { CellBorder, CellStyle } from '../types/spreadsheet'
+
+export interface CellDisplay {
+  text: string
+  alignment: CellAlignment
+  style?: CellStyle
+  // 条件付き書式のデータバーとアイコン
+  dataBar?: ConditionalResult['dataBar']
+  icon?: ConditionalResult['icon']
+  // 入力規則に合わない値（無効なデータを囲む表示にしている場合のみ）
+  invalid?: boolean
+}
+
+const VERTICAL_ALIGN_ITEMS = { top: 'flex-start', middle: 'center', bottom: 'flex-end' } as const
+
+const toBorderCss = (border: CellBorder | undefined) =>
+  border && `${borderLineStyles[border.style]} ${border.color ?? '#000000'}`
+
+// 文字と塗りつぶしの書式
+function getFormatStyle(style: CellStyle): React.CSSProperties {
+  const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean)
+  return {
+    fontWeight: style.bold ? 'bold' : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecorationLine: decorations.length > 0 ? decorations.join(' ') : undefined,
+    fontSize: style.fontSize ? `${style.fontSize}pt` : undefined,
+    color: style.color,
+    backgroundColor: style.fill,
+    alignItems: style.verticalAlign ? VERTICAL_ALIGN_ITEMS[style.verticalAlign] : undefined,
+    textAlign: style.wrap ? style.horizontalAlign : undefined,
+  }
+}
+
+interface SpreadsheetCellProps {
+  row: number
+  col: number
+  style: React.CSSProperties
+  className: string
+  // 塗りつぶしたセルの選択状態を重ねて表示する
+  selected?: boolean
+  // 編集中のセルのみ指定する
+  editor?: React.ReactNode
+  // 選択範囲の右下のセルにフィルハンドルを表示する
+  fillHandle?: boolean
+  // 入力規則の一覧から選ぶボタンを表示する
+  dropdown?: boolean
+  getContent: (row: number, col: number) => CellDisplay
+  subscribeCell: (row: number, col: number, listener: () => void) => () => void
+  getCellVersion: (row: number, col: number) => number
+  onMouseDown: (row: number, col: number, e: React.MouseEvent) => void
+  onDoubleClick: (row: number, col: number) => void
+  onContextMenu?: (row: number, col: number, e: React.MouseEvent) => void
+  onFillHandleMouseDown?: () => void
+  onFillHandleDoubleClick?: () => void
+  onDropdownClick?: () => void
+}
+
+// セルの値が変わったときは、そのセルだけが購読している通知で再描画される
+function SpreadsheetCell({
+  row,
+  col,
+  style,
+  className,
+  selected = false,
+  editor,
+  fillHandle = false,
+  dropdown = false,
+  getContent,
+  subscribeCell,
+  getCellVersion,
+  onMouseDown,
+  onDoubleClick,
+  onContextMenu,
+  onFillHandleMouseDown,
+  onFillHandleDoubleClick,
+  onDropdownClick,
+}: SpreadsheetCellProps) {
+  const subscribe = useCallback((listener: () => void) => subscribeCell(row, col, listener), [subscribeCell, row, col])
+  const getSnapshot = useCallback(() => getCellVersion(row, col), [getCellVersion, row, col])
+  useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+
+  const { text, alignment, style: format, dataBar, icon, invalid } = getContent(row, col)
+  const hasBorders = BORDER_KEYS.some(key => format?.[key])
+  const isSelectedFill = selected && !!format?.fill
+
+  return (
+    <div
+      className={cn(className, cellAlignStyles[alignment], format?.wrap && cellFormatStyles.wrap)}
+      style={format ? { ...style, ...getFormatStyle(format) } : style}
+      onMouseDown={(e) => onMouseDown(row, col, e)}
+      onDoubleClick={() => onDoubleClick(row, col)}
+      onContextMenu={onContextMenu && ((e) => onContextMenu(row, col, e))}
+    >
+      {dataBar && !editor && (
+        <div
+          className={cellFormatStyles.dataBar}
+          style={{ width: `${dataBar.ratio * 100}%`, backgroundColor: dataBar.color }}
+        />
+      )}
+      {icon && !editor && (
+        <span className={cellFormatStyles.icon} style={{ color: icon.color }}>{icon.symbol}</span>
+      )}
+      {editor ?? text}
+      {(hasBorders || isSelectedFill) && (
+        <div
+          className={cn(cellFormatStyles.borders, isSelectedFill && cellFormatStyles.selectedFill)}
+          style={{
+            borderTop: toBorderCss(format?.borderTop),
+            borderRight: toBorderCss(format?.borderRight),
+            borderBottom: toBorderCss(format?.borderBottom),
+            borderLeft: toBorderCss(format?.borderLeft),
+          }}
+        />
+      )}
+      {invalid && <div className={validationStyles.invalidCircle} />}
+      {dropdown && !editor && (
+        // セルの選択と区別するため、イベントを伝播させない
+        <button
+          type="button"
+          tabIndex={-1}
+          className={validationStyles.dropdownButton}
+          onMouseDown={(e) => {
+            e.stopPropagation()
+            e.preventDefault()
+          }}
+          onDoubleClick={(e) => e.stopPropagation()}
+          onClick={() => onDropdownClick?.()}
+        >
+          ▼
+        </button>
+      )}
+      {fillHandle && (
+        // セルの選択やダブルクリックでの編集開始と区別するため、イベントを伝播させない
+        <div
+          className={fillHandleStyles.handle}
+          onMouseDown={(e) => {
+            e.stopPropagation()
+            onFillHandleMouseDown?.()
+          }}
+          onDoubleClick={(e) => {
+            e.stopPropagation()
+            onFillHandleDoubleClick?.()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+export default memo(SpreadsheetCell)
@@ -0,0 +1,91 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { layoutStyles, validationStyles } from '../styles/spreadsheet'
+import type { DataValidation } from '../lib/validation'
+
+interface ValidationMessageProps {
+  validation: DataValidation
+  // 入力し直せる場合（セルの編集で入力した場合）のみ指定する
+  onRetry?: () => void
+  // 警告の場合に、条件に合わない値のまま入力する
+  onContinue: () => void
+  onCancel: () => void
+  className?: string
+}
+
+const DEFAULT_ERROR_MESSAGE = 'この値は、このセルに定義されている入力規則の制限を満たしていません。'
+
+// 入力規則に合わない値を入力したときのメッセージ（停止は入力し直すか取り消し、警告は続けるかを選ぶ）
+export default function ValidationMessage({
+  validation,
+  onRetry,
+  onContinue,
+  onCancel,
+  className,
+}: ValidationMessageProps) {
+  const defaultButtonRef = useRef<HTMLButtonElement>(null)
+  const isWarning = validation.errorStyle === 'warning'
+
+  // 開いたら既定のボタンにフォーカスし、Enter で選べるようにする
+  useEffect(() => {
+    defaultButtonRef.current?.focus()
+  }, [])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // グリッド側のキー操作に伝播させない
+    e.stopPropagation()
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onCancel()
+    }
+  }
+
+  return (
+    <div
+      role="alertdialog"
+      aria-label={validation.errorTitle || (isWarning ? '警告' : '入力エラー')}
+      className={cn(validationStyles.dialog, className)}
+      style={{ zIndex: layoutStyles.zIndex.menu }}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className={validationStyles.title}>
+        <span className={isWarning ? validationStyles.warningIcon : validationStyles.stopIcon}>
+          {isWarning ? '⚠' : '✖'}
+        </span>
+        {validation.errorTitle || (isWarning ? '警告' : '入力エラー')}
+      </div>
+      <div className={validationStyles.message}>
+        {validation.errorMessage || DEFAULT_ERROR_MESSAGE}
+        {isWarning && <div>続けますか?</div>}
+      </div>
+      <div className={validationStyles.actions}>
+        {isWarning ? (
+          <>
+            <button ref={defaultButtonRef} type="button" className={validationStyles.button} onClick={onContinue}>
+              はい
+            </button>
+            <button type="button" className={validationStyles.button} onClick={onRetry ?? onCancel}>
+              いいえ
+            </button>
+          </>
+        ) : onRetry && (
+          <button ref={defaultButtonRef} type="button" className={validationStyles.button} onClick={onRetry}>
+            再試行
+          </button>
+        )}
+        <button
+          ref={isWarning || onRetry ? undefined : defaultButtonRef}
+          type="button"
+          className={validationStyles.button}
+          onClick={onCancel}
+        >
+          キャンセル
+        </button>
+      </div>
+    </div>
+  )
+}
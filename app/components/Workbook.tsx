@@ -0,0 +1,306 @@
+'use client'
+
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { workbookStyles } from '../styles/spreadsheet'
+import { createFormulaLinks } from '../lib/formula/links'
+import {
+  adjustSheetReferences,
+  applyFormulaChanges,
+  cloneSheetModel,
+  createWorkbookSheet,
+  getDuplicateSheetName,
+  getNextSheetName,
+  getSheetReferenceChanges,
+  moveSheet,
+  removeSheetFromFormulas,
+  renameSheetInFormulas,
+  rewriteModelFormulas,
+  validateSheetName,
+  type SheetFormulaRewriter,
+  type SheetState,
+  type WorkbookSheet,
+} from '../lib/workbook'
+import { renameSheetReferences } from '../lib/formula/transform'
+import type { LinkedFormulaChange } from '../lib/history'
+import type { XlsxWorkbook } from '../lib/xlsx'
+import Spreadsheet, { type SpreadsheetHandle, type SpreadsheetProps } from './Spreadsheet'
+import SheetTabs from './SheetTabs'
+
+export type { SheetState, WorkbookSheet } from '../lib/workbook'
+
+// シートごとのグリッドの設定（モデル・シート名・数式のつながりはブックが渡す）
+type SheetProps = Omit<
+  SpreadsheetProps,
+  'model' | 'data' | 'sheetName' | 'formulaLinks' | 'getLinkedFormulaChanges' | 'onLinkedFormulasChange'
+>
+
+// 削除したシート（元に戻すときは同じ位置に戻し、#REF! にした他のシートの数式を元に戻す）
+interface DeletedSheet {
+  sheet: WorkbookSheet
+  index: number
+  formulaChanges: LinkedFormulaChange[]
+}
+
+interface WorkbookProps {
+  // シートの一覧（指定した場合は制御コンポーネントとして扱う）
+  sheets?: WorkbookSheet[]
+  // 非制御の場合のシートの初期値（省略時は空の Sheet1）
+  initialSheets?: WorkbookSheet[]
+  // シートの追加・削除・名前の変更・並べ替え・色の変更で呼ばれる
+  onSheetsChange?: (sheets: WorkbookSheet[]) => void
+  // 表示するシート（指定した場合は制御コンポーネントとして扱う）
+  activeSheetId?: string
+  // 非制御の場合に最初に表示するシート（省略時は先頭のシート）
+  initialActiveSheetId?: string
+  onActiveSheetChange?: (id: string) => void
+  sheetProps?: (sheet: WorkbookSheet) => SheetProps
+  className?: string
+}
+
+// ref から操作するためのメソッド
+export interface WorkbookHandle {
+  // シート（省略時は表示中のシート）のグリッド
+  getSpreadsheet: (id?: string) => SpreadsheetHandle | null
+  getActiveSheet: () => WorkbookSheet | undefined
+  getSheets: () => WorkbookSheet[]
+  // シートの表示中の列幅・行高・固定・結合・条件付き書式・入力規則（保存や複製に使う）
+  getSheetState: (id: string) => SheetState | undefined
+  selectSheet: (id: string) => void
+  addSheet: () => void
+  // 最後に削除したシートを元に戻す
+  restoreDeletedSheet: () => void
+  // すべてのシートを XLSX に書き出すためのブック
+  getXlsxWorkbook: () => XlsxWorkbook
+}
+
+// 複数のシートを持つブック（下端のシート見出しで切り替える）
+// 表示していないシートも描画したままにして、選択範囲・スクロール位置・取り消し履歴を保つ
+const Workbook = forwardRef<WorkbookHandle, WorkbookProps>(function Workbook({
+  sheets: sheetsProp,
+  initialSheets,
+  onSheetsChange,
+  activeSheetId: activeSheetIdProp,
+  initialActiveSheetId,
+  onActiveSheetChange,
+  sheetProps,
+  className,
+}, ref) {
+  const [sheetsState, setSheetsState] = useState<WorkbookSheet[]>(
+    () => initialSheets ?? [createWorkbookSheet('Sheet1')]
+  )
+  const sheets = sheetsProp ?? sheetsState
+  const [activeSheetIdState, setActiveSheetIdState] = useState(() => initialActiveSheetId ?? sheets[0]?.id)
+  const requestedActiveSheetId = activeSheetIdProp ?? activeSheetIdState
+  // 表示中のシートが削除された場合は先頭のシートを表示する
+  const activeSheet: WorkbookSheet | undefined = sheets.find(sheet => sheet.id === requestedActiveSheetId) ?? sheets[0]
+
+  // Sheet2!A1 などの参照をシートの数式エンジンの間で解決する
+  const [formulaLinks] = useState(createFormulaLinks)
+  const spreadsheetRefs = useRef(new Map<string, SpreadsheetHandle>())
+  // 削除したシートは restoreDeletedSheet で元に戻せる（シートの取り消し履歴は戻らない）
+  const [deletedSheets, setDeletedSheets] = useState<DeletedSheet[]>([])
+
+  // 他のシートの変更で数式を書き換えるときは、そのシートの取り消し履歴の数式も書き換える
+  // （取り消しで古いシート名や位置の参照に戻らないようにする）
+  const rewriteSheetFormulas = useCallback<SheetFormulaRewriter>((sheet, rewrite) => {
+    const handle = spreadsheetRefs.current.get(sheet.id)
+    if (handle) handle.rewriteFormulas(rewrite)
+    else rewriteModelFormulas(sheet, rewrite)
+  }, [])
+
+  const setSheets = useCallback((next: WorkbookSheet[]) => {
+    if (sheetsProp === undefined) setSheetsState(next)
+    onSheetsChange?.(next)
+  }, [sheetsProp, onSheetsChange])
+
+  const selectSheet = useCallback((id: string) => {
+    if (activeSheetIdProp === undefined) setActiveSheetIdState(id)
+    onActiveSheetChange?.(id)
+  }, [activeSheetIdProp, onActiveSheetChange])
+
+  // シートを切り替えたら、そのシートのグリッドでキー操作できるようにする
+  const previousActiveIdRef = useRef(activeSheet?.id)
+  useEffect(() => {
+    if (previousActiveIdRef.current === activeSheet?.id) return
+    previousActiveIdRef.current = activeSheet?.id
+    if (activeSheet) spreadsheetRefs.current.get(activeSheet.id)?.focus()
+  }, [activeSheet])
+
+  // 表示中のシートの後ろに挿入して表示する
+  const insertSheet = useCallback((sheet: WorkbookSheet, afterId = activeSheet?.id) => {
+    const index = sheets.findIndex(({ id }) => id === afterId)
+    const next = [...sheets]
+    next.splice(index + 1, 0, sheet)
+    setSheets(next)
+    selectSheet(sheet.id)
+  }, [sheets, activeSheet, setSheets, selectSheet])
+
+  const addSheet = useCallback(() => {
+    insertSheet(createWorkbookSheet(getNextSheetName(sheets)))
+  }, [sheets, insertSheet])
+
+  const renameSheet = useCallback((id: string, name: string) => {
+    const sheet = sheets.find(sheet => sheet.id === id)
+    if (!sheet) return
+    renameSheetInFormulas(sheets, sheet.name, name, rewriteSheetFormulas)
+    // 削除したシートの数式と、元に戻すときの数式も書き換える
+    const rename = (formula: string) => renameSheetReferences(formula, sheet.name, name)
+    renameSheetInFormulas(deletedSheets.map(deleted => deleted.sheet), sheet.name, name)
+    setDeletedSheets(deletedSheets.map(deleted => ({
+      ...deleted,
+      formulaChanges: deleted.formulaChanges.map(change => ({
+        ...change,
+        before: rename(change.before),
+        after: rename(change.after),
+      })),
+    })))
+    setSheets(sheets.map(sheet => sheet.id === id ? { ...sheet, name } : sheet))
+  }, [sheets, deletedSheets, rewriteSheetFormulas, setSheets])
+
+  // まだ表示していないシートは最初に表示するときの状態
+  const getSheetState = useCallback((id: string): SheetState | undefined => {
+    const sheet = sheets.find(sheet => sheet.id === id)
+    const handle = spreadsheetRefs.current.get(id)
+    if (!sheet || !handle) return sheet?.initialState
+    const xlsxSheet = handle.getXlsxSheet(sheet.name)
+    return {
+      columnWidths: xlsxSheet.columnWidths,
+      rowHeights: xlsxSheet.rowHeights,
+      frozenRowCount: xlsxSheet.frozenRowCount,
+      frozenColumnCount: xlsxSheet.frozenColumnCount,
+      merges: xlsxSheet.merges,
+      conditionalFormats: handle.getConditionalFormats(),
+      dataValidations: handle.getDataValidations(),
+    }
+  }, [sheets])
+
+  const deleteSheet = useCallback((id: string) => {
+    const index = sheets.findIndex(sheet => sheet.id === id)
+    if (index < 0 || sheets.length <= 1) return
+    const sheet = sheets[index]
+
+    const next = sheets.filter(sheet => sheet.id !== id)
+    // 削除したシートへの参照は #REF! にする
+    const formulaChanges = removeSheetFromFormulas(next, sheet.name, rewriteSheetFormulas)
+    setDeletedSheets(deleted => [...deleted, { sheet: { ...sheet, initialState: getSheetState(id) }, index, formulaChanges }])
+    setSheets(next)
+    if (sheet.id === activeSheet?.id) selectSheet(next[Math.min(index, next.length - 1)].id)
+  }, [sheets, activeSheet, rewriteSheetFormulas, getSheetState, setSheets, selectSheet])
+
+  // 削除したときと同じ位置に戻して表示する（同じ名前のシートを追加していた場合は別の名前にする）
+  const restoreDeletedSheet = useCallback(() => {
+    const deleted = deletedSheets[deletedSheets.length - 1]
+    if (!deleted) return
+    const { sheet, index, formulaChanges } = deleted
+    const name = validateSheetName(sheets, sheet.name) ? getDuplicateSheetName(sheets, sheet.name) : sheet.name
+    if (name !== sheet.name) renameSheetInFormulas([sheet], sheet.name, name)
+
+    const restored = { ...sheet, name }
+    const next = [...sheets]
+    next.splice(Math.min(index, next.length), 0, restored)
+    applyFormulaChanges(next, formulaChanges.map(change => ({
+      ...change,
+      before: change.after,
+      after: renameSheetReferences(change.before, sheet.name, name),
+    })), rewriteSheetFormulas)
+    setDeletedSheets(deletedSheets.slice(0, -1))
+    setSheets(next)
+    selectSheet(restored.id)
+  }, [deletedSheets, sheets, rewriteSheetFormulas, setSheets, selectSheet])
+
+  // セルと行・列の書式に加えて、列幅・行高・固定・結合・条件付き書式・入力規則を引き継ぐ
+  const duplicateSheet = useCallback((id: string) => {
+    const sheet = sheets.find(sheet => sheet.id === id)
+    if (!sheet) return
+    insertSheet(createWorkbookSheet(getDuplicateSheetName(sheets, sheet.name), {
+      model: cloneSheetModel(sheet.model),
+      color: sheet.color,
+      initialState: getSheetState(id),
+    }), id)
+  }, [sheets, insertSheet, getSheetState])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Ctrl+PageUp・Ctrl+PageDown で前後のシートに切り替える
+    if (!(e.ctrlKey || e.metaKey) || (e.key !== 'PageUp' && e.key !== 'PageDown')) return
+    const index = sheets.findIndex(sheet => sheet.id === activeSheet?.id)
+    const target = sheets[index + (e.key === 'PageUp' ? -1 : 1)]
+    e.preventDefault()
+    if (target) selectSheet(target.id)
+  }
+
+  useImperativeHandle(ref, () => ({
+    getSpreadsheet: (id = activeSheet?.id) => (id && spreadsheetRefs.current.get(id)) || null,
+    getActiveSheet: () => activeSheet,
+    getSheets: () => sheets,
+    getSheetState,
+    selectSheet,
+    addSheet,
+    restoreDeletedSheet,
+    getXlsxWorkbook: () => ({
+      sheets: sheets.flatMap(sheet => spreadsheetRefs.current.get(sheet.id)?.getXlsxSheet(sheet.name) ?? []),
+    }),
+  }), [sheets, activeSheet, getSheetState, selectSheet, addSheet, restoreDeletedSheet])
+
+  return (
+    <div className={cn(workbookStyles.container, className)} onKeyDown={handleKeyDown}>
+      <div className={workbookStyles.sheets}>
+        {sheets.map(sheet => {
+          const isActive = sheet.id === activeSheet?.id
+          const props = sheetProps?.(sheet)
+          const { initialState } = sheet
+          return (
+            <div
+              key={sheet.id}
+              role="tabpanel"
+              aria-hidden={!isActive}
+              className={cn(workbookStyles.sheet, !isActive && workbookStyles.hiddenSheet)}
+            >
+              <Spreadsheet
+                initialColumnWidths={initialState?.columnWidths}
+                initialRowHeights={initialState?.rowHeights}
+                initialFrozenRowCount={initialState?.frozenRowCount}
+                initialFrozenColumnCount={initialState?.frozenColumnCount}
+                initialMerges={initialState?.merges}
+                initialConditionalFormats={initialState?.conditionalFormats}
+                initialDataValidations={initialState?.dataValidations}
+                {...props}
+                ref={(handle) => {
+                  if (handle) spreadsheetRefs.current.set(sheet.id, handle)
+                  else spreadsheetRefs.current.delete(sheet.id)
+                }}
+                model={sheet.model}
+                sheetName={sheet.name}
+                formulaLinks={formulaLinks}
+                onStructureChange={(change) => {
+                  // 他のシートの取り消し履歴の数式のこのシートへの参照もずらす
+                  adjustSheetReferences(sheets, sheet.name, change, rewriteSheetFormulas)
+                  props?.onStructureChange?.(change)
+                }}
+                getLinkedFormulaChanges={(change) => getSheetReferenceChanges(sheets, sheet.name, change)}
+                onLinkedFormulasChange={(changes) => applyFormulaChanges(sheets, changes, rewriteSheetFormulas)}
+              />
+            </div>
+          )
+        })}
+      </div>
+      {activeSheet && (
+        <SheetTabs
+          sheets={sheets}
+          activeSheetId={activeSheet.id}
+          onSelect={selectSheet}
+          onAdd={addSheet}
+          onRename={renameSheet}
+          onDelete={deleteSheet}
+          deletedSheetName={deletedSheets[deletedSheets.length - 1]?.sheet.name}
+          onRestoreDeleted={restoreDeletedSheet}
+          onDuplicate={duplicateSheet}
+          onMove={(from, to) => setSheets(moveSheet(sheets, from, to))}
+          onColorChange={(id, color) => setSheets(sheets.map(sheet => sheet.id === id ? { ...sheet, color } : sheet))}
+        />
+      )}
+    </div>
+  )
+})
+
+export default Workbook
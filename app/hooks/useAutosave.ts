@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { serializeWorkbook, type WorkbookSnapshot } from '../lib/document'
+import { saveDocument, type DocumentSummary } from '../lib/storage'
+
+// pending は変更があって保存を待っている状態
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error'
+
+interface UseAutosaveProps {
+  // 保存先の文書（null の間は保存しない）
+  documentId: string | null
+  // 保存する内容を取り出す（変更のたびではなく、保存するときだけ呼ぶ）
+  capture: () => WorkbookSnapshot | null
+  // 最後の変更から保存するまでの時間（ミリ秒）
+  delay?: number
+  onSave?: (summary: DocumentSummary) => void
+  onError?: (error: unknown) => void
+}
+
+// 変更から delay 後に IndexedDB に保存する（保存中の変更は保存が終わってからもう一度保存する）
+export function useAutosave({
+  documentId,
+  capture,
+  delay = 1000,
+  onSave,
+  onError,
+}: UseAutosaveProps) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle')
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // 保存中の処理と、保存中に変更があったか
+  const savingRef = useRef<Promise<void> | null>(null)
+  const isDirtyRef = useRef(false)
+  const latestRef = useRef({ documentId, capture, onSave, onError })
+  latestRef.current = { documentId, capture, onSave, onError }
+
+  const save = useCallback((): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    if (savingRef.current) {
+      isDirtyRef.current = true
+      return savingRef.current
+    }
+
+    const { documentId, capture } = latestRef.current
+    const snapshot = documentId ? capture() : null
+    if (!documentId || !snapshot) return Promise.resolve()
+
+    isDirtyRef.current = false
+    setStatus('saving')
+    const saving = serializeWorkbook(snapshot)
+      .then(content => saveDocument(documentId, snapshot.title, content))
+      .then(
+        summary => {
+          setStatus('saved')
+          latestRef.current.onSave?.(summary)
+        },
+        error => {
+          setStatus('error')
+          latestRef.current.onError?.(error)
+        }
+      )
+      .finally(() => {
+        savingRef.current = null
+        if (isDirtyRef.current) save()
+      })
+    savingRef.current = saving
+    return saving
+  }, [])
+
+  // 変更を知らせる（連続した変更は最後の変更から delay 後にまとめて保存する）
+  const scheduleSave = useCallback(() => {
+    if (savingRef.current) {
+      isDirtyRef.current = true
+      return
+    }
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = setTimeout(save, delay)
+    setStatus('pending')
+  }, [save, delay])
+
+  // 待っている保存があればすぐに保存する（文書を切り替える前などに使う）
+  const flush = useCallback(async () => {
+    if (timerRef.current || isDirtyRef.current) await save()
+    await savingRef.current
+  }, [save])
+
+  // タブを切り替えたり閉じたりしたときは待たずに保存を始める
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && timerRef.current) save()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [save])
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  return {
+    status,
+    scheduleSave,
+    flush,
+  }
+}
@@ -0,0 +1,68 @@
+import { useState, useCallback, useRef } from 'react'
+import type { CellPosition } from '../types/spreadsheet'
+
+interface EditingState {
+  position: CellPosition
+  originalValue: string
+}
+
+interface UseCellEditingProps {
+  isCellEditable: (position: CellPosition) => boolean
+  getCellValue: (position: CellPosition) => string
+  onCellEdit?: (position: CellPosition, value: string) => void
+}
+
+export function useCellEditing({
+  isCellEditable,
+  getCellValue,
+  onCellEdit,
+}: UseCellEditingProps) {
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null)
+  const [editValue, setEditValue] = useState('')
+  // コミットとキャンセルの二重実行を防ぐため、編集状態をrefでも保持する
+  const editingRef = useRef<EditingState | null>(null)
+
+  // 編集を開始（initialValueが指定された場合は既存の値を置き換える）
+  const startEditing = useCallback((position: CellPosition, initialValue?: string) => {
+    if (!isCellEditable(position)) return false
+
+    const originalValue = getCellValue(position)
+    editingRef.current = { position, originalValue }
+    setEditingCell(position)
+    setEditValue(initialValue ?? originalValue)
+    return true
+  }, [isCellEditable, getCellValue])
+
+  // 編集内容を確定し、変更があればonCellEditに通知
+  const commitEdit = useCallback(() => {
+    const editing = editingRef.current
+    if (!editing) return
+
+    editingRef.current = null
+    setEditingCell(null)
+    if (editValue !== editing.originalValue) {
+      onCellEdit?.(editing.position, editValue)
+    }
+  }, [editValue, onCellEdit])
+
+  // 編集内容を破棄
+  const cancelEdit = useCallback(() => {
+    if (!editingRef.current) return
+    editingRef.current = null
+    setEditingCell(null)
+  }, [])
+
+  const isEditingCell = useCallback((row: number, col: number) => {
+    return editingCell?.row === row && editingCell?.col === col
+  }, [editingCell])
+
+  return {
+    editingCell,
+    editValue,
+    setEditValue,
+    startEditing,
+    commitEdit,
+    cancelEdit,
+    isEditingCell,
+  }
+}
@@ -0,0 +1,61 @@
+import { useCallback, useRef } from 'react'
+import type { CellPosition } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT } from '../lib/address'
+
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+
+// セルごとの変更通知
+// （通知のたびにセルのバージョンを進め、購読しているセルだけを再描画させる）
+export function useCellSubscriptions() {
+  const listenersRef = useRef(new Map<number, Set<() => void>>())
+  const versionsRef = useRef(new Map<number, number>())
+
+  const subscribeCell = useCallback((row: number, col: number, listener: () => void) => {
+    const key = toKey(row, col)
+    let listeners = listenersRef.current.get(key)
+    if (!listeners) {
+      listeners = new Set()
+      listenersRef.current.set(key, listeners)
+    }
+    listeners.add(listener)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        listenersRef.current.delete(key)
+        versionsRef.current.delete(key)
+      }
+    }
+  }, [])
+
+  const getCellVersion = useCallback((row: number, col: number) => {
+    return versionsRef.current.get(toKey(row, col)) ?? 0
+  }, [])
+
+  const notifyCells = useCallback((positions: CellPosition[]) => {
+    const notified = new Set<number>()
+    for (const { row, col } of positions) {
+      const key = toKey(row, col)
+      const listeners = listenersRef.current.get(key)
+      if (!listeners || notified.has(key)) continue
+      notified.add(key)
+      versionsRef.current.set(key, (versionsRef.current.get(key) ?? 0) + 1)
+      listeners.forEach(listener => listener())
+    }
+  }, [])
+
+  // 行・列全体の書式の変更など、どのセルが変わるか分からない変更を購読中のすべてのセルに通知する
+  const notifyAllCells = useCallback(() => {
+    listenersRef.current.forEach((listeners, key) => {
+      versionsRef.current.set(key, (versionsRef.current.get(key) ?? 0) + 1)
+      listeners.forEach(listener => listener())
+    })
+  }, [])
+
+  return {
+    subscribeCell,
+    getCellVersion,
+    notifyCells,
+    notifyAllCells,
+  }
+}
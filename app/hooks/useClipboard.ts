@@ -0,0 +1,166 @@
+import { useCallback } from 'react'
+import type { CellChange, CellPosition, CellRange } from '../types/spreadsheet'
+import { normalizeRange } from '../lib/range'
+import {
+  readClipboardData,
+  readSystemClipboard,
+  writeClipboardData,
+  writeSystemClipboard,
+} from '../lib/clipboard'
+
+interface UseClipboardProps {
+  rowCount: number
+  columnCount: number
+  selectedCell: CellPosition | null
+  selectionRange: CellRange | null
+  // セル編集中はエディタ標準のクリップボード操作に任せる
+  disabled?: boolean
+  // コピー時のセルの文字列（表示値）
+  getCellText: (position: CellPosition) => string
+  // 変更の有無を判定するためのセルの入力値
+  getCellValue: (position: CellPosition) => string
+  isCellEditable: (position: CellPosition) => boolean
+  onChange: (changes: CellChange[], action: 'cut' | 'paste') => void
+  onSelectRange: (range: CellRange, activeCell: CellPosition) => void
+}
+
+export function useClipboard({
+  rowCount,
+  columnCount,
+  selectedCell,
+  selectionRange,
+  disabled = false,
+  getCellText,
+  getCellValue,
+  isCellEditable,
+  onChange,
+  onSelectRange,
+}: UseClipboardProps) {
+  // 選択範囲（なければアクティブセル）の値を2次元配列で取得
+  const getSelectedValues = useCallback(() => {
+    const range = selectionRange ?? (selectedCell && { start: selectedCell, end: selectedCell })
+    if (!range) return null
+
+    const { top, bottom, left, right } = normalizeRange(range)
+    const values: string[][] = []
+    for (let row = top; row <= bottom; row++) {
+      const rowValues: string[] = []
+      for (let col = left; col <= right; col++) {
+        rowValues.push(getCellText({ row, col }))
+      }
+      values.push(rowValues)
+    }
+    return { range, values }
+  }, [selectedCell, selectionRange, getCellText])
+
+  // 切り取ったセルの内容を消去
+  const clearCutRange = useCallback((range: CellRange) => {
+    const { top, bottom, left, right } = normalizeRange(range)
+    const changes: CellChange[] = []
+    for (let row = top; row <= bottom; row++) {
+      for (let col = left; col <= right; col++) {
+        const position = { row, col }
+        if (isCellEditable(position) && getCellValue(position) !== '') {
+          changes.push({ ...position, value: '' })
+        }
+      }
+    }
+    onChange(changes, 'cut')
+  }, [getCellValue, isCellEditable, onChange])
+
+  const pasteValues = useCallback((values: string[][]) => {
+    if (!selectedCell || values.length === 0) return
+
+    const origin = selectionRange
+      ? { row: normalizeRange(selectionRange).top, col: normalizeRange(selectionRange).left }
+      : selectedCell
+    let height = values.length
+    let width = values.reduce((max, row) => Math.max(max, row.length), 0)
+
+    // 1セルだけを貼り付ける場合は選択範囲全体に埋める（Excelと同じ動作）
+    const isSingleValue = height === 1 && width === 1
+    if (isSingleValue && selectionRange) {
+      const { top, bottom, left, right } = normalizeRange(selectionRange)
+      height = bottom - top + 1
+      width = right - left + 1
+    }
+
+    // グリッドの範囲外は切り捨てる
+    height = Math.min(height, rowCount - origin.row)
+    width = Math.min(width, columnCount - origin.col)
+
+    const changes: CellChange[] = []
+    for (let r = 0; r < height; r++) {
+      for (let c = 0; c < width; c++) {
+        const position = { row: origin.row + r, col: origin.col + c }
+        if (!isCellEditable(position)) continue
+        const value = isSingleValue ? values[0][0] : values[r][c] ?? ''
+        if (value !== getCellValue(position)) {
+          changes.push({ ...position, value })
+        }
+      }
+    }
+    onChange(changes, 'paste')
+
+    // 貼り付けたブロックに合わせて選択範囲を広げる
+    onSelectRange(
+      {
+        start: origin,
+        end: { row: origin.row + height - 1, col: origin.col + width - 1 },
+      },
+      origin
+    )
+  }, [selectedCell, selectionRange, rowCount, columnCount, getCellValue, isCellEditable, onChange, onSelectRange])
+
+  const handleCopy = useCallback((e: React.ClipboardEvent) => {
+    if (disabled) return
+    const selected = getSelectedValues()
+    if (!selected) return
+
+    e.preventDefault()
+    writeClipboardData(e.clipboardData, selected.values)
+  }, [disabled, getSelectedValues])
+
+  const handleCut = useCallback((e: React.ClipboardEvent) => {
+    if (disabled) return
+    const selected = getSelectedValues()
+    if (!selected) return
+
+    e.preventDefault()
+    writeClipboardData(e.clipboardData, selected.values)
+    clearCutRange(selected.range)
+  }, [disabled, getSelectedValues, clearCutRange])
+
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    if (disabled || !selectedCell) return
+    e.preventDefault()
+    pasteValues(readClipboardData(e.clipboardData))
+  }, [disabled, selectedCell, pasteValues])
+
+  // メニューから実行するコピー・切り取り・貼り付け（Clipboard API を使う）
+  const copySelection = useCallback(async () => {
+    const selected = getSelectedValues()
+    if (!selected) return
+    await writeSystemClipboard(selected.values)
+  }, [getSelectedValues])
+
+  // 書き込めなかった場合は内容を消去しない
+  const cutSelection = useCallback(async () => {
+    const selected = getSelectedValues()
+    if (!selected) return
+    if (await writeSystemClipboard(selected.values)) clearCutRange(selected.range)
+  }, [getSelectedValues, clearCutRange])
+
+  const pasteFromClipboard = useCallback(async () => {
+    pasteValues(await readSystemClipboard())
+  }, [pasteValues])
+
+  return {
+    handleCopy,
+    handleCut,
+    handlePaste,
+    copySelection,
+    cutSelection,
+    pasteFromClipboard,
+  }
+}
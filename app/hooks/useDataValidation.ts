@@ -0,0 +1,154 @@
+import { useState, useCallback, useMemo } from 'react'
+import type { CellChange, CellData, CellPosition } from '../types/spreadsheet'
+import type { FormulaEngine } from '../lib/formula/engine'
+import type { HistoryAction, HistoryOperation } from '../lib/history'
+import { findDataValidation, findInvalidChange, isValidInput, type DataValidation } from '../lib/validation'
+
+// 入力規則に合わない変更の確認（editValue はセルの編集で入力した値で、入力し直すときに使う）
+export interface ValidationPrompt {
+  validation: DataValidation
+  position: CellPosition
+  changes: CellChange[]
+  action: HistoryAction
+  editValue?: string
+}
+
+interface UseDataValidationProps {
+  // 入力規則（指定した場合は制御コンポーネントとして扱う）
+  dataValidations?: DataValidation[]
+  initialDataValidations?: DataValidation[]
+  onDataValidationsChange?: (validations: DataValidation[]) => void
+  engine: FormulaEngine
+  getCell: (row: number, col: number) => CellData | undefined
+  isCellEditable: (position: CellPosition) => boolean
+  // 入力された文字列から数値・日付などを推測する
+  parseCellInputs: (changes: CellChange[]) => CellChange[]
+  commitCellChanges: (changes: CellChange[], action: HistoryAction) => void
+  recordOperations: (action: HistoryAction, operations: HistoryOperation[]) => void
+  // メッセージや一覧を閉じたときに呼ばれる（グリッドにフォーカスを戻す）
+  onPopupClose: () => void
+}
+
+// 一覧から選ぶボタンを表示する入力規則の値
+const getDropdownValues = (validation: DataValidation | null) =>
+  validation?.criteria.type === 'list' && validation.criteria.showDropdown !== false
+    ? validation.criteria.values
+    : null
+
+export function useDataValidation({
+  dataValidations: dataValidationsProp,
+  initialDataValidations,
+  onDataValidationsChange,
+  engine,
+  getCell,
+  isCellEditable,
+  parseCellInputs,
+  commitCellChanges,
+  recordOperations,
+  onPopupClose,
+}: UseDataValidationProps) {
+  const [dataValidationsState, setDataValidationsState] = useState<DataValidation[]>(
+    () => initialDataValidations ?? []
+  )
+  const dataValidations = dataValidationsProp ?? dataValidationsState
+  // 入力規則に合わない値のセルを丸で囲む
+  const [isCirclingInvalidData, setCirclingInvalidData] = useState(false)
+  const [validationPrompt, setValidationPrompt] = useState<ValidationPrompt | null>(null)
+  // 入力規則の一覧から値を選ぶメニュー（開いたセル）
+  const [validationList, setValidationList] = useState<CellPosition | null>(null)
+
+  const setDataValidations = useCallback((next: DataValidation[]) => {
+    if (dataValidationsProp === undefined) setDataValidationsState(next)
+    onDataValidationsChange?.(next)
+  }, [dataValidationsProp, onDataValidationsChange])
+
+  // 入力規則の一覧を置き換える
+  const changeDataValidations = useCallback((next: DataValidation[]) => {
+    if (next === dataValidations) return
+    recordOperations('dataValidation', [{ type: 'dataValidations', before: dataValidations, after: next }])
+    setDataValidations(next)
+  }, [dataValidations, recordOperations, setDataValidations])
+
+  const findValidation = useCallback((position: CellPosition) => {
+    return findDataValidation(dataValidations, position.row, position.col)
+  }, [dataValidations])
+
+  // 入力規則を満たす変更だけをすぐに反映し、満たさない場合はメッセージを表示する
+  // （停止の規則に合わない値を含む場合はすべて反映せず、警告の場合は確認してからまとめて反映する）
+  const commitValidatedChanges = useCallback((changes: CellChange[], action: HistoryAction, editValue?: string) => {
+    const failure = findInvalidChange(dataValidations, changes, engine.evaluate)
+    if (!failure) {
+      commitCellChanges(changes, action)
+      return
+    }
+    const { row, col } = failure.change
+    setValidationPrompt({ validation: failure.validation, position: { row, col }, changes, action, editValue })
+  }, [dataValidations, engine, commitCellChanges])
+
+  // 警告を確認して、入力規則に合わない値のまま反映する
+  const continueValidationPrompt = useCallback(() => {
+    if (!validationPrompt) return
+    setValidationPrompt(null)
+    commitCellChanges(validationPrompt.changes, validationPrompt.action)
+    onPopupClose()
+  }, [validationPrompt, commitCellChanges, onPopupClose])
+
+  const closeValidationPrompt = useCallback(() => {
+    setValidationPrompt(null)
+    onPopupClose()
+  }, [onPopupClose])
+
+  // 一覧から選ぶボタンを表示するセルの場合は、選べる値
+  const getValidationListValues = useCallback((position: CellPosition) => {
+    return getDropdownValues(findValidation(position))
+  }, [findValidation])
+
+  const openValidationList = useCallback((position: CellPosition) => {
+    if (!getValidationListValues(position) || !isCellEditable(position)) return
+    setValidationList(position)
+  }, [getValidationListValues, isCellEditable])
+
+  const closeValidationList = useCallback(() => {
+    setValidationList(null)
+    onPopupClose()
+  }, [onPopupClose])
+
+  // 開いている一覧の値
+  const validationListValues = useMemo(() => {
+    return validationList ? getValidationListValues(validationList) ?? [] : []
+  }, [validationList, getValidationListValues])
+
+  // 一覧から選んだ値を入力と同様に反映する
+  const selectValidationListValue = useCallback((value: string) => {
+    if (!validationList) return
+    commitValidatedChanges(parseCellInputs([{ ...validationList, value }]), 'edit')
+  }, [validationList, commitValidatedChanges, parseCellInputs])
+
+  // 入力規則に合わない値のセルか（値のないセルは囲まない）
+  const isInvalidCell = useCallback((row: number, col: number) => {
+    const validation = findDataValidation(dataValidations, row, col)
+    if (!validation) return false
+    const input = { value: engine.getValue(row, col), text: String(getCell(row, col)?.value ?? '') }
+    return !isValidInput(validation, input, row, col, engine.evaluate)
+  }, [dataValidations, engine, getCell])
+
+  return {
+    dataValidations,
+    setDataValidations,
+    changeDataValidations,
+    findValidation,
+    isCirclingInvalidData,
+    setCirclingInvalidData,
+    isInvalidCell,
+    validationPrompt,
+    commitValidatedChanges,
+    continueValidationPrompt,
+    closeValidationPrompt,
+    validationList,
+    getValidationListValues,
+    openValidationList,
+    closeValidationList,
+    validationListValues,
+    selectValidationListValue,
+  }
+}
@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef } from 'react'
+import type { CellData, CellPosition } from '../types/spreadsheet'
+import type { SheetModel } from '../lib/sheet'
+import {
+  createFormulaEngine,
+  type CellInputChange,
+  type FormulaEngine,
+} from '../lib/formula/engine'
+import type { FormulaLinks } from '../lib/formula/links'
+
+interface UseFormulaEngineProps {
+  data?: CellData[][]
+  // 指定した場合は data の代わりにモデルの変更を購読して同期する
+  model?: SheetModel
+  rowCount: number
+  columnCount: number
+  // モデルの変更で表示が変わるセル（変更されたセルと再計算されたセル）を受け取る
+  onCellsUpdate?: (positions: CellPosition[]) => void
+  // ブック内の他のシートとつなぐ場合に指定する（sheetName で他のシートから参照される）
+  formulaLinks?: FormulaLinks
+  sheetName?: string
+}
+
+// 前回のデータと比較し、値が変わったセルだけを抽出する
+// （行の参照が同じなら中身は変わっていないものとみなす）
+function diffData(prev: CellData[][] | undefined, next: CellData[][] | undefined): CellInputChange[] {
+  const changes: CellInputChange[] = []
+  const rowLength = Math.max(prev?.length ?? 0, next?.length ?? 0)
+
+  for (let row = 0; row < rowLength; row++) {
+    const prevRow = prev?.[row]
+    const nextRow = next?.[row]
+    if (prevRow === nextRow) continue
+
+    const colLength = Math.max(prevRow?.length ?? 0, nextRow?.length ?? 0)
+    for (let col = 0; col < colLength; col++) {
+      const prevValue = prevRow?.[col]?.value
+      const nextValue = nextRow?.[col]?.value
+      if (prevValue !== nextValue) {
+        changes.push({ row, col, input: nextValue })
+      }
+    }
+  }
+
+  return changes
+}
+
+// モデルのすべてのセルをエンジンに読み込むための変更
+function modelInputs(model: SheetModel): CellInputChange[] {
+  const changes: CellInputChange[] = []
+  model.forEachCell((cell, row, col) => {
+    changes.push({ row, col, input: cell.value })
+  })
+  return changes
+}
+
+export function useFormulaEngine({
+  data,
+  model,
+  rowCount,
+  columnCount,
+  onCellsUpdate,
+  formulaLinks,
+  sheetName,
+}: UseFormulaEngineProps) {
+  const engineRef = useRef<FormulaEngine | null>(null)
+  const syncedDataRef = useRef<CellData[][] | undefined>(undefined)
+  const syncedModelRef = useRef<SheetModel | undefined>(undefined)
+  const onCellsUpdateRef = useRef(onCellsUpdate)
+  onCellsUpdateRef.current = onCellsUpdate
+  const formulaLinksRef = useRef(formulaLinks)
+  formulaLinksRef.current = formulaLinks
+  const sheetNameRef = useRef(sheetName)
+  sheetNameRef.current = sheetName
+
+  // モデルが差し替えられた場合は新しいエンジンで読み込み直す
+  if (!engineRef.current || syncedModelRef.current !== model) {
+    engineRef.current = createFormulaEngine({
+      rowCount,
+      columnCount,
+      resolveSheet: (name) => formulaLinksRef.current?.resolveSheet(name) ?? null,
+      sheetName,
+    })
+    syncedModelRef.current = model
+    syncedDataRef.current = undefined
+    if (model) engineRef.current.setCells(modelInputs(model))
+  }
+  const engine = engineRef.current
+
+  // シート名が変わったら、自分自身を参照する数式を分け直す
+  useMemo(() => {
+    engine.setSheetName(sheetName)
+  }, [engine, sheetName])
+
+  // 変更されたセルのみをエンジンに渡し、依存するセルだけを再計算する
+  // （描画前に計算結果を揃えるため、レンダリング中に同期する）
+  useMemo(() => {
+    engine.setDimensions(rowCount, columnCount)
+    if (model) return
+    engine.setCells(diffData(syncedDataRef.current, data))
+    syncedDataRef.current = data
+  }, [engine, model, data, rowCount, columnCount])
+
+  // モデルの変更はグリッド全体を再描画せず、影響を受けるセルだけに通知する
+  useEffect(() => {
+    if (!model) return
+    return model.subscribe(changes => {
+      const recalculated = engine.setCells(
+        changes.map(({ row, col, after }) => ({ row, col, input: after?.value }))
+      )
+      const updated = [...changes, ...recalculated]
+      onCellsUpdateRef.current?.(updated)
+      // このシートを参照している他のシートの数式を再計算する
+      if (sheetNameRef.current !== undefined) {
+        formulaLinksRef.current?.notifyChange(sheetNameRef.current, updated)
+      }
+    })
+  }, [engine, model])
+
+  // シート名で他のシートから参照できるようにし、他のシートの変更で再計算されたセルを通知する
+  useEffect(() => {
+    if (!formulaLinks || sheetName === undefined) return
+    return formulaLinks.register(sheetName, engine, positions => onCellsUpdateRef.current?.(positions))
+  }, [formulaLinks, sheetName, engine])
+
+  return {
+    engine,
+  }
+}
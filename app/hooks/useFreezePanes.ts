@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react'
+
+interface UseFreezePanesProps {
+  // 固定する先頭の行数・列数（指定した場合は制御コンポーネントとして扱う）
+  frozenRowCount?: number
+  frozenColumnCount?: number
+  initialFrozenRowCount?: number
+  initialFrozenColumnCount?: number
+  rowCount: number
+  columnCount: number
+  onFreezePanesChange?: (frozenRowCount: number, frozenColumnCount: number) => void
+}
+
+export function useFreezePanes({
+  frozenRowCount: frozenRowCountProp,
+  frozenColumnCount: frozenColumnCountProp,
+  initialFrozenRowCount,
+  initialFrozenColumnCount,
+  rowCount,
+  columnCount,
+  onFreezePanesChange,
+}: UseFreezePanesProps) {
+  const [frozenState, setFrozenState] = useState(() => ({
+    rows: initialFrozenRowCount ?? 0,
+    columns: initialFrozenColumnCount ?? 0,
+  }))
+  const isFreezeControlled = frozenRowCountProp !== undefined || frozenColumnCountProp !== undefined
+  // シートの大きさを超えないようにする
+  const frozenRowCount = Math.max(0, Math.min(rowCount - 1, frozenRowCountProp ?? frozenState.rows))
+  const frozenColumnCount = Math.max(0, Math.min(columnCount - 1, frozenColumnCountProp ?? frozenState.columns))
+
+  const setFreezePanes = useCallback((rows: number, columns: number) => {
+    if (!isFreezeControlled) setFrozenState({ rows, columns })
+    onFreezePanesChange?.(rows, columns)
+  }, [isFreezeControlled, onFreezePanesChange])
+
+  return {
+    frozenRowCount,
+    frozenColumnCount,
+    setFreezePanes,
+  }
+}
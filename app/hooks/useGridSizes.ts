@@ -0,0 +1,169 @@
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react'
+import { createSizeMap, type SizeOverrides } from '../lib/sizes'
+import { applyStructureToSizes, type StructureChange } from '../lib/structure'
+
+const MIN_COLUMN_WIDTH = 20
+const MIN_ROW_HEIGHT = 12
+
+type ResizeTarget = 'column' | 'row'
+
+interface ResizePreview {
+  target: ResizeTarget
+  index: number
+  size: number
+}
+
+interface UseGridSizesProps {
+  defaultColumnWidth: number
+  defaultRowHeight: number
+  // 指定した場合は制御コンポーネントとして扱う
+  columnWidths?: SizeOverrides
+  rowHeights?: SizeOverrides
+  // 非制御の場合の初期値
+  initialColumnWidths?: SizeOverrides
+  initialRowHeights?: SizeOverrides
+  // 高さ0で描画する行（フィルターで非表示にした行。行高の設定は変更しない）
+  hiddenRows?: Set<number>
+  // 変更前のサイズも渡す（取り消し履歴の記録に使う）
+  onColumnResize?: (columnIndex: number, width: number, previousWidth: number) => void
+  onRowResize?: (rowIndex: number, height: number, previousHeight: number) => void
+}
+
+export function useGridSizes({
+  defaultColumnWidth,
+  defaultRowHeight,
+  columnWidths: controlledColumnWidths,
+  rowHeights: controlledRowHeights,
+  initialColumnWidths = {},
+  initialRowHeights = {},
+  hiddenRows,
+  onColumnResize,
+  onRowResize,
+}: UseGridSizesProps) {
+  const [uncontrolledColumnWidths, setUncontrolledColumnWidths] = useState<SizeOverrides>(initialColumnWidths)
+  const [uncontrolledRowHeights, setUncontrolledRowHeights] = useState<SizeOverrides>(initialRowHeights)
+  // ドラッグ中のサイズ（マウスアップで確定する）
+  const [preview, setPreview] = useState<ResizePreview | null>(null)
+  const dragRef = useRef<{ target: ResizeTarget; index: number; startPosition: number; startSize: number } | null>(null)
+  const cleanupRef = useRef<(() => void) | null>(null)
+
+  const columnWidths = controlledColumnWidths ?? uncontrolledColumnWidths
+  const rowHeights = controlledRowHeights ?? uncontrolledRowHeights
+
+  const columnSizes = useMemo(() => {
+    const overrides = preview?.target === 'column'
+      ? { ...columnWidths, [preview.index]: preview.size }
+      : columnWidths
+    return createSizeMap(defaultColumnWidth, overrides)
+  }, [defaultColumnWidth, columnWidths, preview])
+
+  const rowSizes = useMemo(() => {
+    const overrides = preview?.target === 'row'
+      ? { ...rowHeights, [preview.index]: preview.size }
+      : { ...rowHeights }
+    hiddenRows?.forEach(row => { overrides[row] = 0 })
+    return createSizeMap(defaultRowHeight, overrides)
+  }, [defaultRowHeight, rowHeights, hiddenRows, preview])
+
+  const resizeColumn = useCallback((index: number, width: number) => {
+    const size = Math.max(MIN_COLUMN_WIDTH, Math.round(width))
+    const previousSize = columnWidths[index] ?? defaultColumnWidth
+    if (!controlledColumnWidths) {
+      setUncontrolledColumnWidths(prev => ({ ...prev, [index]: size }))
+    }
+    onColumnResize?.(index, size, previousSize)
+  }, [columnWidths, defaultColumnWidth, controlledColumnWidths, onColumnResize])
+
+  const resizeRow = useCallback((index: number, height: number) => {
+    const size = Math.max(MIN_ROW_HEIGHT, Math.round(height))
+    const previousSize = rowHeights[index] ?? defaultRowHeight
+    if (!controlledRowHeights) {
+      setUncontrolledRowHeights(prev => ({ ...prev, [index]: size }))
+    }
+    onRowResize?.(index, size, previousSize)
+  }, [rowHeights, defaultRowHeight, controlledRowHeights, onRowResize])
+
+  // 行・列の挿入・削除に合わせて指定をずらす（制御コンポーネントの場合は親がずらす）
+  const applyStructureChange = useCallback((change: StructureChange, sizes?: SizeOverrides) => {
+    if (change.axis === 'column' && !controlledColumnWidths) {
+      setUncontrolledColumnWidths(prev => applyStructureToSizes(prev, change, sizes))
+    } else if (change.axis === 'row' && !controlledRowHeights) {
+      setUncontrolledRowHeights(prev => applyStructureToSizes(prev, change, sizes))
+    }
+  }, [controlledColumnWidths, controlledRowHeights])
+
+  // ヘッダー境界のドラッグを開始
+  const startResize = useCallback((target: ResizeTarget, index: number, e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    const startSize = target === 'column' ? columnSizes.getSize(index) : rowSizes.getSize(index)
+    dragRef.current = {
+      target,
+      index,
+      startPosition: target === 'column' ? e.clientX : e.clientY,
+      startSize,
+    }
+    setPreview({ target, index, size: startSize })
+
+    const minSize = target === 'column' ? MIN_COLUMN_WIDTH : MIN_ROW_HEIGHT
+    const calculateSize = (event: MouseEvent) => {
+      const drag = dragRef.current!
+      const position = drag.target === 'column' ? event.clientX : event.clientY
+      return Math.max(minSize, drag.startSize + position - drag.startPosition)
+    }
+
+    const handleMouseMove = (event: MouseEvent) => {
+      if (!dragRef.current) return
+      setPreview({ target, index, size: calculateSize(event) })
+    }
+
+    const handleMouseUp = (event: MouseEvent) => {
+      const drag = dragRef.current
+      cleanup()
+      if (!drag) return
+      const size = calculateSize(event)
+      dragRef.current = null
+      setPreview(null)
+      if (size !== drag.startSize) {
+        if (target === 'column') resizeColumn(index, size)
+        else resizeRow(index, size)
+      }
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+      cleanupRef.current = null
+    }
+
+    cleanupRef.current?.()
+    cleanupRef.current = cleanup
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+  }, [columnSizes, rowSizes, resizeColumn, resizeRow])
+
+  // アンマウント時にドラッグ中のリスナーを解除
+  useEffect(() => () => cleanupRef.current?.(), [])
+
+  const startColumnResize = useCallback((index: number, e: React.MouseEvent) => {
+    startResize('column', index, e)
+  }, [startResize])
+
+  const startRowResize = useCallback((index: number, e: React.MouseEvent) => {
+    startResize('row', index, e)
+  }, [startResize])
+
+  return {
+    columnWidths,
+    rowHeights,
+    columnSizes,
+    rowSizes,
+    resizeColumn,
+    resizeRow,
+    applyStructureChange,
+    startColumnResize,
+    startRowResize,
+    isResizing: preview !== null,
+  }
+}
@@ -0,0 +1,94 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type { HistoryEntry, HistoryOperation, HistoryState } from '../lib/history'
+
+interface UseHistoryProps {
+  // 保持する履歴の最大数
+  depth?: number
+  onHistoryChange?: (state: HistoryState) => void
+}
+
+function createHistoryState(undoStack: HistoryEntry[], redoStack: HistoryEntry[]): HistoryState {
+  return {
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undoAction: undoStack[undoStack.length - 1]?.action ?? null,
+    redoAction: redoStack[redoStack.length - 1]?.action ?? null,
+    undoCount: undoStack.length,
+    redoCount: redoStack.length,
+  }
+}
+
+export function useHistory({
+  depth = 100,
+  onHistoryChange,
+}: UseHistoryProps = {}) {
+  const undoStackRef = useRef<HistoryEntry[]>([])
+  const redoStackRef = useRef<HistoryEntry[]>([])
+  const [historyState, setHistoryState] = useState<HistoryState>(() => createHistoryState([], []))
+
+  const updateState = useCallback(() => {
+    setHistoryState(createHistoryState(undoStackRef.current, redoStackRef.current))
+  }, [])
+
+  // 新しい操作を記録（やり直し履歴は破棄される）
+  const record = useCallback((entry: HistoryEntry) => {
+    if (entry.operations.length === 0) return
+    const undoStack = [...undoStackRef.current, entry]
+    undoStackRef.current = undoStack.slice(Math.max(0, undoStack.length - depth))
+    redoStackRef.current = []
+    updateState()
+  }, [depth, updateState])
+
+  // 取り消す操作を取り出す（適用は呼び出し側で行う）
+  const popUndo = useCallback((): HistoryEntry | null => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1]
+    if (!entry) return null
+    undoStackRef.current = undoStackRef.current.slice(0, -1)
+    redoStackRef.current = [...redoStackRef.current, entry]
+    updateState()
+    return entry
+  }, [updateState])
+
+  const popRedo = useCallback((): HistoryEntry | null => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1]
+    if (!entry) return null
+    redoStackRef.current = redoStackRef.current.slice(0, -1)
+    undoStackRef.current = [...undoStackRef.current, entry]
+    updateState()
+    return entry
+  }, [updateState])
+
+  // 記録済みの操作を書き換える（取り消し・やり直しできる数は変わらない）
+  const rewrite = useCallback((update: (operations: HistoryOperation[]) => HistoryOperation[]) => {
+    const rewriteEntry = (entry: HistoryEntry) => ({ ...entry, operations: update(entry.operations) })
+    undoStackRef.current = undoStackRef.current.map(rewriteEntry)
+    redoStackRef.current = redoStackRef.current.map(rewriteEntry)
+  }, [])
+
+  const clear = useCallback(() => {
+    undoStackRef.current = []
+    redoStackRef.current = []
+    updateState()
+  }, [updateState])
+
+  // 履歴の深さが変わった場合は古い履歴を切り詰める
+  useEffect(() => {
+    if (undoStackRef.current.length > depth) {
+      undoStackRef.current = undoStackRef.current.slice(undoStackRef.current.length - depth)
+      updateState()
+    }
+  }, [depth, updateState])
+
+  useEffect(() => {
+    onHistoryChange?.(historyState)
+  }, [historyState, onHistoryChange])
+
+  return {
+    historyState,
+    record,
+    popUndo,
+    popRedo,
+    rewrite,
+    clear,
+  }
+}
@@ -0,0 +1,27 @@
+import { useState, useCallback, useMemo } from 'react'
+import type { CellRange } from '../types/spreadsheet'
+import { createMergeIndex } from '../lib/merge'
+
+interface UseMergesProps {
+  // 結合するセルの範囲（指定した場合は制御コンポーネントとして扱う）
+  merges?: CellRange[]
+  initialMerges?: CellRange[]
+  onMergesChange?: (merges: CellRange[]) => void
+}
+
+export function useMerges({ merges: mergesProp, initialMerges, onMergesChange }: UseMergesProps) {
+  const [mergesState, setMergesState] = useState<CellRange[]>(() => initialMerges ?? [])
+  const merges = mergesProp ?? mergesState
+  const mergeIndex = useMemo(() => createMergeIndex(merges), [merges])
+
+  const setMerges = useCallback((next: CellRange[]) => {
+    if (mergesProp === undefined) setMergesState(next)
+    onMergesChange?.(next)
+  }, [mergesProp, onMergesChange])
+
+  return {
+    merges,
+    mergeIndex,
+    setMerges,
+  }
+}
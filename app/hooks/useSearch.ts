@@ -0,0 +1,185 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import type { CellChange, CellPosition, CellRange } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT } from '../lib/address'
+import { isPositionInRange, normalizeRange } from '../lib/range'
+import {
+  DEFAULT_SEARCH_OPTIONS,
+  compareSearchPositions,
+  createSearchPattern,
+  findNextMatchIndex,
+  matchesSearch,
+  replaceSearchMatches,
+  type SearchOptions,
+} from '../lib/search'
+
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+
+// シート全体か、検索を始めたときの選択範囲か
+export type SearchScope = 'sheet' | 'selection'
+
+interface UseSearchProps {
+  selectedCell: CellPosition | null
+  selectionRange: CellRange | null
+  // 値のあるセルを列挙する
+  forEachCell: (callback: (row: number, col: number) => void) => void
+  // 表示されている値（数式は計算結果）
+  getCellText: (position: CellPosition) => string
+  // 入力した内容（置換はこちらに対して行う）
+  getCellValue: (position: CellPosition) => string
+  isCellEditable: (position: CellPosition) => boolean
+  // フィルターで非表示の行は検索しない
+  isRowHidden?: (row: number) => boolean
+  onSelect: (position: CellPosition) => void
+  onReplace: (changes: CellChange[]) => void
+}
+
+export function useSearch({
+  selectedCell,
+  selectionRange,
+  forEachCell,
+  getCellText,
+  getCellValue,
+  isCellEditable,
+  isRowHidden,
+  onSelect,
+  onReplace,
+}: UseSearchProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isReplaceVisible, setIsReplaceVisible] = useState(false)
+  const [query, setQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS)
+  const [scope, setScopeState] = useState<SearchScope>('sheet')
+  // 一致したセルへ移動すると選択範囲が変わるため、検索範囲は設定した時点の選択範囲で固定する
+  const [scopeRange, setScopeRange] = useState<CellRange | null>(null)
+  const [matches, setMatches] = useState<CellPosition[]>([])
+  const [replacedCount, setReplacedCount] = useState<number | null>(null)
+
+  // 置換は入力した内容に対して行うため、置換を表示している間は（Excel と同じく）数式を検索する
+  // （値を検索すると、表示されている値にしか一致しないセルを置換できずに飛ばしてしまう）
+  const options = useMemo<SearchOptions>(
+    () => isReplaceVisible ? { ...searchOptions, lookIn: 'formulas' } : searchOptions,
+    [isReplaceVisible, searchOptions]
+  )
+
+  // 置換を表示している間に変更したオプションでは、値と数式のどちらを検索するかの設定は変えない
+  const setOptions = useCallback((next: SearchOptions) => {
+    setSearchOptions(current => isReplaceVisible ? { ...next, lookIn: current.lookIn } : next)
+  }, [isReplaceVisible])
+
+  const pattern = useMemo(() => createSearchPattern(query, options), [query, options])
+  // 正規表現として解釈できない検索語
+  const isInvalidPattern = query !== '' && pattern === null
+
+  const getSearchText = useCallback((position: CellPosition) => {
+    return options.lookIn === 'formulas' ? getCellValue(position) : getCellText(position)
+  }, [options.lookIn, getCellValue, getCellText])
+
+  const findMatches = useCallback((): CellPosition[] => {
+    if (!pattern) return []
+    const result: CellPosition[] = []
+    forEachCell((row, col) => {
+      const position = { row, col }
+      if (isRowHidden?.(row)) return
+      if (scope === 'selection' && scopeRange && !isPositionInRange(position, scopeRange)) return
+      const text = getSearchText(position)
+      if (text !== '' && matchesSearch(pattern, text)) result.push(position)
+    })
+    return result.sort(compareSearchPositions)
+  }, [pattern, forEachCell, isRowHidden, scope, scopeRange, getSearchText])
+
+  // 検索語・オプション・値が変わったら一致するセルを探し直す
+  useEffect(() => {
+    setMatches(isOpen ? findMatches() : [])
+  }, [isOpen, findMatches])
+
+  const matchKeys = useMemo(() => new Set(matches.map(({ row, col }) => toKey(row, col))), [matches])
+
+  const isMatch = useCallback((row: number, col: number) => matchKeys.has(toKey(row, col)), [matchKeys])
+
+  // アクティブセルが何番目の一致か（一致でない場合は -1）
+  const currentIndex = selectedCell
+    ? matches.findIndex(match => compareSearchPositions(match, selectedCell) === 0)
+    : -1
+
+  const setScope = useCallback((nextScope: SearchScope) => {
+    setScopeState(nextScope)
+    setScopeRange(nextScope === 'selection' ? selectionRange : null)
+  }, [selectionRange])
+
+  // 複数のセルを選択している場合は選択範囲の中を検索する
+  const open = useCallback((showReplace = false) => {
+    const bounds = selectionRange && normalizeRange(selectionRange)
+    const isRange = bounds !== null && (bounds.bottom > bounds.top || bounds.right > bounds.left)
+    setScope(isRange ? 'selection' : 'sheet')
+    setIsReplaceVisible(showReplace)
+    setReplacedCount(null)
+    setIsOpen(true)
+  }, [selectionRange, setScope])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+    setReplacedCount(null)
+  }, [])
+
+  // モデルの値は再描画せずに変わるため、移動のたびに探し直す
+  const findNext = useCallback((backward = false) => {
+    const current = findMatches()
+    setMatches(current)
+    const index = findNextMatchIndex(current, selectedCell, backward)
+    if (index >= 0) onSelect(current[index])
+  }, [findMatches, selectedCell, onSelect])
+
+  // 入力した内容を置き換えた変更（一致しない・編集できないセルは含めない）
+  const createReplaceChange = useCallback((position: CellPosition): CellChange | null => {
+    if (!pattern || !isCellEditable(position)) return null
+    const value = getCellValue(position)
+    if (!matchesSearch(pattern, value)) return null
+    const replaced = replaceSearchMatches(pattern, value, replacement, options.regex)
+    return replaced === value ? null : { ...position, value: replaced }
+  }, [pattern, isCellEditable, getCellValue, replacement, options.regex])
+
+  // アクティブセルが一致していれば置き換えてから次の一致へ移動する
+  const replace = useCallback(() => {
+    const change = selectedCell && matchKeys.has(toKey(selectedCell.row, selectedCell.col))
+      ? createReplaceChange(selectedCell)
+      : null
+    if (change) onReplace([change])
+    setReplacedCount(null)
+    findNext()
+  }, [selectedCell, matchKeys, createReplaceChange, onReplace, findNext])
+
+  // 置き換えはまとめて1回の操作として取り消せる
+  const replaceAll = useCallback(() => {
+    const changes = findMatches()
+      .map(createReplaceChange)
+      .filter((change): change is CellChange => change !== null)
+    if (changes.length > 0) onReplace(changes)
+    setReplacedCount(changes.length)
+    setMatches(findMatches())
+  }, [findMatches, createReplaceChange, onReplace])
+
+  return {
+    isOpen,
+    isReplaceVisible,
+    setIsReplaceVisible,
+    query,
+    setQuery,
+    replacement,
+    setReplacement,
+    options,
+    setOptions,
+    scope,
+    setScope,
+    matches,
+    currentIndex,
+    replacedCount,
+    isInvalidPattern,
+    isMatch,
+    open,
+    close,
+    findNext,
+    replace,
+    replaceAll,
+  }
+}
@@ -1,26 +1,17 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import type { Grid } from 'react-virtualized'
+import type { CellPosition, CellRange } from '../types/spreadsheet'
+import { createSizeMap, type SizeMap } from '../lib/sizes'
+import { isPositionInRange, normalizeRange } from '../lib/range'
+import { getFillDirection, getFillRange } from '../lib/fill'
+import type { MergeIndex } from '../lib/merge'
+import { parseDirectionalCommand, type NavigationCommand } from '../lib/keymap'
 
-const ROW_HEIGHT = 24
-const COLUMN_WIDTH = 100
 const MOVE_INTERVAL = 50 // ミリ秒単位での移動間隔
-const HEADER_HEIGHT = 24 // Assuming a default HEADER_HEIGHT
 
-export interface CellPosition {
-  row: number
-  col: number
-}
-
-export interface CellRange {
-  start: CellPosition
-  end: CellPosition
-}
+export type { CellPosition, CellRange }
 
-interface DebugInfo {
-  mousePosition: { x: number; y: number } | null
-  containerSize: { width: number; height: number } | null
-  scrollSpeed: { x: number; y: number }
-}
+type MoveDirection = 'Up' | 'Down' | 'Left' | 'Right'
 
 interface ScrollState {
   isScrolling: boolean
@@ -48,11 +39,24 @@ interface UseSpreadsheetSelectionProps {
   defaultColumnWidth?: number
   headerHeight?: number
   headerWidth?: number
-  onSelectionChange?: (range: CellRange | null) => void
+  // 列幅・行高（未指定の場合はデフォルトサイズで計算）
+  columnSizes?: SizeMap
+  rowSizes?: SizeMap
+  // 固定された行・列の数（gridRef は固定されていない部分のグリッドを指す）
+  frozenRowCount?: number
+  frozenColumnCount?: number
+  // Ctrl+矢印キーでデータのある領域の端を探すための、セルが空かどうか（省略時はすべて空として扱う）
+  isCellEmpty?: (row: number, col: number) => boolean
+  // range はアクティブな範囲、ranges はCtrl/Cmdで追加した範囲を含むすべての範囲
+  onSelectionChange?: (range: CellRange | null, ranges: CellRange[]) => void
   onActivePositionChange?: (position: CellPosition | null) => void
   onCellClick?: (position: CellPosition) => void
   onCellDoubleClick?: (position: CellPosition) => void
   onCellContextMenu?: (position: CellPosition, event: React.MouseEvent) => void
+  // 結合されたセル（クリックで結合範囲全体を選択し、矢印キーでは飛び越える）
+  mergeIndex?: MergeIndex
+  // フィルハンドルのドラッグを終えたときに、元の範囲と広げた範囲（元の範囲を含む）を受け取る
+  onFill?: (source: CellRange, target: CellRange) => void
 }
 
 export function useSpreadsheetSelection({
@@ -63,41 +67,176 @@ export function useSpreadsheetSelection({
   defaultColumnWidth = 100,
   headerHeight = 24,
   headerWidth = 100,
+  columnSizes: columnSizesProp,
+  rowSizes: rowSizesProp,
+  frozenRowCount = 0,
+  frozenColumnCount = 0,
+  isCellEmpty,
   onSelectionChange,
   onActivePositionChange,
   onCellClick,
   onCellDoubleClick,
   onCellContextMenu,
+  onFill,
+  mergeIndex,
 }: UseSpreadsheetSelectionProps) {
   const [selectedCell, setSelectedCell] = useState<CellPosition | null>(null)
   const [selectionRange, setSelectionRange] = useState<CellRange | null>(null)
+  // Ctrl/Cmd+クリックで追加された、アクティブな範囲以外の選択範囲
+  const [additionalRanges, setAdditionalRanges] = useState<CellRange[]>([])
   const [scrollState, setScrollState] = useState<ScrollState>({
     isScrolling: false,
     direction: null,
     speed: 0
   })
-  const [debugInfo, setDebugInfo] = useState<DebugInfo>({
-    mousePosition: null,
-    containerSize: null,
-    scrollSpeed: { x: 0, y: 0 }
-  })
+  // 自動スクロール中に方向や速度が変わっても反映できるよう最新の状態を保持
+  const scrollStateRef = useRef(scrollState)
   const rafRef = useRef<number | null>(null)
   const isDraggingRef = useRef(false)
   const lastMousePositionRef = useRef<{ x: number; y: number; rect: DOMRect } | null>(null)
   const headerDragTypeRef = useRef<'row' | 'column' | null>(null)
   const isHeaderDragRef = useRef(false)  // ヘッダーからのドラッグかどうかを追跡
+  // フィルハンドルのドラッグ中の元の範囲と、マウス位置まで広げた範囲
+  const fillSourceRef = useRef<CellRange | null>(null)
+  const fillRangeRef = useRef<CellRange | null>(null)
+  const [fillRange, setFillRange] = useState<CellRange | null>(null)
+
+  // アクティブな範囲を末尾に置いたすべての選択範囲
+  const selectionRanges = useMemo(
+    () => selectionRange ? [...additionalRanges, selectionRange] : additionalRanges,
+    [additionalRanges, selectionRange]
+  )
+
+  // 新しい範囲の選択開始時に、Ctrl/Cmd押下中なら現在の範囲を残し、そうでなければ破棄する
+  const beginNewRange = useCallback((ctrlKey: boolean) => {
+    if (ctrlKey && selectionRange) {
+      setAdditionalRanges(prev => [...prev, selectionRange])
+    } else {
+      setAdditionalRanges([])
+    }
+  }, [selectionRange])
+
+  // 結合範囲に一部だけかかる範囲は、結合範囲全体を含むように広げる
+  const expandRange = useCallback((range: CellRange) => {
+    return mergeIndex ? mergeIndex.expandRange(range) : range
+  }, [mergeIndex])
+
+  const columnSizes = useMemo(
+    () => columnSizesProp ?? createSizeMap(defaultColumnWidth),
+    [columnSizesProp, defaultColumnWidth]
+  )
+  const rowSizes = useMemo(
+    () => rowSizesProp ?? createSizeMap(defaultRowHeight),
+    [rowSizesProp, defaultRowHeight]
+  )
+
+  // 固定された行・列の高さと幅
+  const frozenHeight = rowSizes.getOffset(frozenRowCount)
+  const frozenWidth = columnSizes.getOffset(frozenColumnCount)
+
+  // 指定した行・列が表示領域に完全に収まるようにスクロール（nullの方向と固定された行・列はそのまま）
+  const scrollIntoView = useCallback((row: number | null, col: number | null) => {
+    const grid = gridRef.current
+    if (!grid) return
 
-  // スクロールゾーンの計算
+    const container = (grid as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
+    const { scrollTop, scrollLeft, clientHeight, clientWidth } = container
+    let newScrollTop = scrollTop
+    let newScrollLeft = scrollLeft
+
+    // 縦方向のスクロール処理（スクロール領域は固定行の下から始まる）
+    if (row !== null && row >= frozenRowCount) {
+      const top = rowSizes.getOffset(row) - frozenHeight
+      const bottom = top + rowSizes.getSize(row)
+      if (top < scrollTop) {
+        // 行の上端が表示領域の上端に来るようにスクロール
+        newScrollTop = top
+      } else if (bottom > scrollTop + clientHeight) {
+        // 行の下端が表示領域の下端に来るようにスクロール
+        newScrollTop = bottom - clientHeight
+      }
+    }
+
+    // 横方向のスクロール処理
+    if (col !== null && col >= frozenColumnCount) {
+      const left = columnSizes.getOffset(col) - frozenWidth
+      const right = left + columnSizes.getSize(col)
+      if (left < scrollLeft) {
+        newScrollLeft = left
+      } else if (right > scrollLeft + clientWidth) {
+        newScrollLeft = right - clientWidth
+      }
+    }
+
+    // スクロール位置が変更された場合のみスクロールを実行
+    if (newScrollTop !== scrollTop || newScrollLeft !== scrollLeft) {
+      grid.scrollToPosition({ scrollLeft: newScrollLeft, scrollTop: newScrollTop })
+    }
+  }, [gridRef, rowSizes, columnSizes, frozenRowCount, frozenColumnCount, frozenHeight, frozenWidth])
+
+  // スクロールゾーンの計算（マウス位置と同じくスクロール領域の左上を原点とする）
   const calculateScrollZone = useCallback((rect: DOMRect): ScrollZone => {
     return {
-      left: rect.left,
-      right: rect.right,
-      top: rect.top,
-      bottom: rect.bottom,
+      left: 0,
+      right: rect.width,
+      top: 0,
+      bottom: rect.height,
       threshold: SCROLL_ZONE_THRESHOLD
     }
   }, [])
 
+  // スクロール領域の左上を原点とする座標からセル位置を求める
+  // （座標が負で固定された行・列の上にある場合は固定部分のセル）
+  const getCellAtPoint = useCallback((x: number, y: number, container: HTMLElement): CellPosition => {
+    const contentX = x < 0 && frozenWidth > 0
+      ? Math.max(0, frozenWidth + x)
+      : frozenWidth + x + container.scrollLeft
+    const contentY = y < 0 && frozenHeight > 0
+      ? Math.max(0, frozenHeight + y)
+      : frozenHeight + y + container.scrollTop
+    return {
+      row: rowSizes.getIndexAt(contentY, rowCount),
+      col: columnSizes.getIndexAt(contentX, columnCount),
+    }
+  }, [rowSizes, columnSizes, rowCount, columnCount, frozenHeight, frozenWidth])
+
+  // ドラッグ中のマウス位置まで選択範囲を広げる
+  const extendDragSelection = useCallback((x: number, y: number, container: HTMLElement) => {
+    const { row, col } = getCellAtPoint(x, y, container)
+
+    // フィルハンドルのドラッグ中は選択範囲ではなくフィル先の範囲を広げる
+    if (fillSourceRef.current) {
+      const range = getFillRange(fillSourceRef.current, { row, col })
+      fillRangeRef.current = range
+      setFillRange(range)
+      return
+    }
+
+    setSelectionRange(prev => {
+      if (!prev) return null
+
+      let newRange: CellRange
+      if (headerDragTypeRef.current === 'row') {
+        newRange = {
+          start: prev.start,
+          end: { row, col: columnCount - 1 }
+        }
+      } else if (headerDragTypeRef.current === 'column') {
+        newRange = {
+          start: prev.start,
+          end: { row: rowCount - 1, col }
+        }
+      } else {
+        newRange = {
+          start: prev.start,
+          end: { row, col }
+        }
+      }
+
+      return expandRange(newRange)
+    })
+  }, [getCellAtPoint, rowCount, columnCount, expandRange])
+
   // スクロール方向と速度の計算
   const calculateScrollDirection = useCallback((mouseX: number, mouseY: number, zone: ScrollZone): ScrollState => {
     let direction: 'left' | 'right' | 'up' | 'down' | null = null
@@ -128,135 +267,227 @@ export function useSpreadsheetSelection({
     }
   }, [])
 
-  const moveCell = useCallback((key: string, ctrlKey: boolean, shiftKey: boolean) => {
+  // 1セル先の位置（結合されたセルからは結合範囲の端の外側へ、高さ0の行は飛ばす。先がなければ元の位置）
+  const stepFrom = useCallback((position: CellPosition, direction: MoveDirection): CellPosition => {
+    const merge = mergeIndex?.getMerge(position.row, position.col)
+    switch (direction) {
+      case 'Up':
+      case 'Down': {
+        const step = direction === 'Up' ? -1 : 1
+        let row = direction === 'Up' ? merge?.top ?? position.row : merge?.bottom ?? position.row
+        do {
+          row += step
+        } while (row >= 0 && row < rowCount && rowSizes.getSize(row) === 0)
+        return row >= 0 && row < rowCount ? { row, col: position.col } : position
+      }
+      case 'Left':
+        return { row: position.row, col: Math.max(0, (merge?.left ?? position.col) - 1) }
+      case 'Right':
+        return { row: position.row, col: Math.min(columnCount - 1, (merge?.right ?? position.col) + 1) }
+    }
+  }, [rowCount, columnCount, rowSizes, mergeIndex])
+
+  // データのある領域の端（空のセルからは次のデータのあるセル、なければシートの端）
+  const getEdgePosition = useCallback((position: CellPosition, direction: MoveDirection): CellPosition => {
+    const isEmpty = ({ row, col }: CellPosition) => isCellEmpty?.(row, col) ?? true
+    const isSame = (a: CellPosition, b: CellPosition) => a.row === b.row && a.col === b.col
+
+    let current = stepFrom(position, direction)
+    if (isSame(current, position)) return position
+    // データが続く場合はその最後のセル
+    if (!isEmpty(position) && !isEmpty(current)) {
+      let next = stepFrom(current, direction)
+      while (!isSame(next, current) && !isEmpty(next)) {
+        current = next
+        next = stepFrom(current, direction)
+      }
+      return current
+    }
+    while (isEmpty(current)) {
+      const next = stepFrom(current, direction)
+      if (isSame(next, current)) break
+      current = next
+    }
+    return current
+  }, [stepFrom, isCellEmpty])
+
+  // 表示領域1画面分先の位置
+  const getPagePosition = useCallback((position: CellPosition, direction: MoveDirection): CellPosition => {
+    const grid = gridRef.current
+    if (!grid) return position
+    const container = (grid as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
+    if (direction === 'Up' || direction === 'Down') {
+      const offset = rowSizes.getOffset(position.row) + (direction === 'Up' ? -1 : 1) * container.clientHeight
+      return { row: rowSizes.getIndexAt(Math.max(0, offset), rowCount), col: position.col }
+    }
+    const offset = columnSizes.getOffset(position.col) + (direction === 'Left' ? -1 : 1) * container.clientWidth
+    return { row: position.row, col: columnSizes.getIndexAt(Math.max(0, offset), columnCount) }
+  }, [gridRef, rowSizes, columnSizes, rowCount, columnCount])
+
+  // extend の場合はアクティブセルを残して選択範囲の端を target まで広げ、それ以外はアクティブセルを移動する
+  const moveSelection = useCallback((target: CellPosition, extend: boolean) => {
     if (!selectedCell) return
+    rafRef.current = requestAnimationFrame(() => {
+      if (extend) {
+        setSelectionRange(expandRange({ start: selectedCell, end: target }))
+      } else {
+        // 結合されたセルへは左上のセルに移動して結合範囲全体を選択
+        const range = expandRange({ start: target, end: target })
+        setAdditionalRanges([])
+        setSelectedCell(range.start)
+        setSelectionRange(range)
+      }
+      scrollIntoView(target.row, target.col)
+    })
+  }, [selectedCell, expandRange, scrollIntoView])
 
-    let newRow = selectedCell.row
-    let newCol = selectedCell.col
+  // 選択範囲の中でアクティブセルを折り返して移動する（1セルだけの選択では範囲の外へ移動する）
+  // byRow は Tab（行の中を右へ）、それ以外は Enter（列の中を下へ）
+  const moveWithinSelection = useCallback((byRow: boolean, step: 1 | -1) => {
+    if (!selectedCell) return
+    const bounds = selectionRange && normalizeRange(selectionRange)
+    const merge = mergeIndex?.getMerge(selectedCell.row, selectedCell.col)
+    const isSingleCell = !bounds || (
+      bounds.top === (merge?.top ?? selectedCell.row) && bounds.bottom === (merge?.bottom ?? selectedCell.row) &&
+      bounds.left === (merge?.left ?? selectedCell.col) && bounds.right === (merge?.right ?? selectedCell.col)
+    )
+    if (isSingleCell) {
+      const direction: MoveDirection = byRow ? (step > 0 ? 'Right' : 'Left') : (step > 0 ? 'Down' : 'Up')
+      moveSelection(stepFrom(selectedCell, direction), false)
+      return
+    }
+
+    const { top, bottom, left, right } = bounds
+    const height = bottom - top + 1
+    const width = right - left + 1
+    // 範囲の中の順番（Tab は行ごと、Enter は列ごと）と位置を相互に変換する
+    const toIndex = ({ row, col }: CellPosition) => byRow
+      ? (row - top) * width + (col - left)
+      : (col - left) * height + (row - top)
+    const toPosition = (index: number): CellPosition => byRow
+      ? { row: top + Math.floor(index / width), col: left + (index % width) }
+      : { row: top + (index % height), col: left + Math.floor(index / height) }
+
+    // 非表示の行と、結合範囲の左上以外のセルは飛ばす
+    const size = width * height
+    const start = toIndex(selectedCell)
+    for (let i = 1; i < size; i++) {
+      const position = toPosition((((start + step * i) % size) + size) % size)
+      if (rowSizes.getSize(position.row) === 0) continue
+      const target = mergeIndex?.getMerge(position.row, position.col)
+      if (target && (target.top !== position.row || target.left !== position.col)) continue
+      setSelectedCell(position)
+      scrollIntoView(position.row, position.col)
+      return
+    }
+  }, [selectedCell, selectionRange, rowSizes, mergeIndex, stepFrom, moveSelection, scrollIntoView])
 
-    switch (key) {
-      case 'ArrowUp':
-        newRow = Math.max(0, selectedCell.row - 1)
+  // 選択範囲の行全体・列全体を選択する（アクティブセルは変えない）
+  const selectAxis = useCallback((isRow: boolean) => {
+    if (!selectedCell) return
+    const { top, bottom, left, right } = normalizeRange(selectionRange ?? { start: selectedCell, end: selectedCell })
+    setAdditionalRanges([])
+    setSelectionRange(expandRange(isRow
+      ? { start: { row: top, col: 0 }, end: { row: bottom, col: columnCount - 1 } }
+      : { start: { row: 0, col: left }, end: { row: rowCount - 1, col: right } }))
+  }, [selectedCell, selectionRange, rowCount, columnCount, expandRange])
+
+  // キー操作の移動・選択のコマンドを実行する（アクティブセルがない場合は false）
+  const runNavigationCommand = useCallback((command: NavigationCommand) => {
+    if (!selectedCell) return false
+
+    const directional = parseDirectionalCommand(command)
+    if (directional) {
+      const { extend, unit, direction } = directional
+      // 範囲を広げる場合は、アクティブセルと反対側の端から移動する
+      const from = extend && selectionRange ? selectionRange.end : selectedCell
+      const target = unit === 'edge'
+        ? getEdgePosition(from, direction)
+        : unit === 'page' ? getPagePosition(from, direction) : stepFrom(from, direction)
+      moveSelection(target, extend)
+      return true
+    }
+
+    const from = selectionRange?.end ?? selectedCell
+    switch (command) {
+      case 'moveToRowStart':
+      case 'extendToRowStart':
+        moveSelection({ row: command === 'extendToRowStart' ? from.row : selectedCell.row, col: 0 }, command === 'extendToRowStart')
         break
-      case 'ArrowDown':
-        newRow = Math.min(rowCount - 1, selectedCell.row + 1)
+      case 'moveToRowEnd':
+      case 'extendToRowEnd':
+        moveSelection(
+          { row: command === 'extendToRowEnd' ? from.row : selectedCell.row, col: columnCount - 1 },
+          command === 'extendToRowEnd'
+        )
         break
-      case 'ArrowLeft':
-        newCol = Math.max(0, selectedCell.col - 1)
+      case 'moveToFirstCell':
+      case 'extendToFirstCell':
+        moveSelection({ row: 0, col: 0 }, command === 'extendToFirstCell')
         break
-      case 'ArrowRight':
-        newCol = Math.min(columnCount - 1, selectedCell.col + 1)
+      case 'moveToLastCell':
+      case 'extendToLastCell':
+        moveSelection({ row: rowCount - 1, col: columnCount - 1 }, command === 'extendToLastCell')
         break
-      case 'Home':
-        if (ctrlKey) {
-          newRow = 0  // 上端へ移動
-          newCol = 0  // 左端へ移動
-        } else {
-          newCol = 0  // 左端へ移動
-        }
+      case 'nextCell':
+      case 'previousCell':
+        moveWithinSelection(true, command === 'nextCell' ? 1 : -1)
         break
-      case 'End':
-        if (ctrlKey) {
-          newRow = rowCount - 1  // 下端へ移動
-          newCol = columnCount - 1  // 右端へ移動
-        } else {
-          newCol = columnCount - 1  // 右端へ移動
-        }
+      case 'nextRow':
+      case 'previousRow':
+        moveWithinSelection(false, command === 'nextRow' ? 1 : -1)
+        break
+      case 'selectRow':
+      case 'selectColumn':
+        selectAxis(command === 'selectRow')
+        break
+      case 'selectAll':
+        setAdditionalRanges([])
+        setSelectionRange({ start: { row: 0, col: 0 }, end: { row: rowCount - 1, col: columnCount - 1 } })
         break
     }
-
-    if (newRow !== selectedCell.row || newCol !== selectedCell.col) {
-      rafRef.current = requestAnimationFrame(() => {
-        if (shiftKey && selectionRange) {
-          // Shiftキーが押されている場合は選択範囲を拡張
-          setSelectionRange({
-            start: selectionRange.start,
-            end: { row: newRow, col: newCol }
-          })
-          setSelectedCell({ row: newRow, col: newCol })
-        } else {
-          // 通常の移動
-          setSelectedCell({ row: newRow, col: newCol })
-          setSelectionRange({
-            start: { row: newRow, col: newCol },
-            end: { row: newRow, col: newCol }
-          })
-        }
-        gridRef.current?.scrollToCell({ rowIndex: newRow, columnIndex: newCol })
-      })
-    }
-  }, [selectedCell, selectionRange, rowCount, columnCount, gridRef])
-
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (!['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) return
-    e.preventDefault() // デフォルトのスクロール動作を防ぐ
-    moveCell(e.key, e.ctrlKey, e.shiftKey)
-  }, [moveCell])
-
-  const handleMouseDown = useCallback((row: number, col: number, shiftKey: boolean) => {
+    return true
+  }, [
+    selectedCell,
+    selectionRange,
+    rowCount,
+    columnCount,
+    stepFrom,
+    getEdgePosition,
+    getPagePosition,
+    moveSelection,
+    moveWithinSelection,
+    selectAxis,
+  ])
+
+  const handleMouseDown = useCallback((row: number, col: number, shiftKey: boolean, ctrlKey = false) => {
     // ヘッダードラッグ中は通常セルのマウスダウンを無視
     if (isHeaderDragRef.current) return
 
     isDraggingRef.current = true
     if (shiftKey && selectedCell) {
       // Shiftキーが押されている場合は選択範囲を拡張
-      setSelectionRange({
+      setSelectionRange(expandRange({
         start: selectedCell,
         end: { row, col }
-      })
+      }))
     } else {
-      // 通常のマウスダウン
-      setSelectedCell({ row, col })
-      setSelectionRange({
+      // 通常のマウスダウン（Ctrl/Cmd押下時は範囲を追加）
+      // 結合されたセルはどこをクリックしても左上のセルをアクティブにして結合範囲全体を選択
+      const range = expandRange({
         start: { row, col },
         end: { row, col }
       })
+      beginNewRange(ctrlKey)
+      setSelectedCell(range.start)
+      setSelectionRange(range)
     }
 
     // 選択されたセルが完全に表示されるようにスクロール
-    if (gridRef.current) {
-      const grid = gridRef.current
-      const container = (grid as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
-      const currentScrollTop = container.scrollTop
-      const currentScrollLeft = container.scrollLeft
-      const cellTop = row * ROW_HEIGHT
-      const cellBottom = (row + 1) * ROW_HEIGHT
-      const cellLeft = col * COLUMN_WIDTH
-      const cellRight = (col + 1) * COLUMN_WIDTH
-      const viewportHeight = container.clientHeight
-      const viewportWidth = container.clientWidth
-      const headerHeightOffset = HEADER_HEIGHT
-      const headerWidthOffset = COLUMN_WIDTH
-
-      let newScrollTop = currentScrollTop
-      let newScrollLeft = currentScrollLeft
-
-      // 縦方向のスクロール処理
-      if (cellTop < currentScrollTop + headerHeightOffset) {
-        // セルの上端がヘッダーの直下に来るようにスクロール
-        newScrollTop = cellTop
-      } else if (cellBottom > currentScrollTop + viewportHeight) {
-        // セルの下端が表示領域の下端に来るようにスクロール
-        newScrollTop = cellBottom - viewportHeight
-      }
-
-      // 横方向のスクロール処理
-      if (cellLeft < currentScrollLeft + headerWidthOffset) {
-        // セルの左端が行ヘッダーの直後に来るようにスクロール
-        newScrollLeft = cellLeft
-      } else if (cellRight > currentScrollLeft + viewportWidth) {
-        // セルの右端が表示領域の右端に来るようにスクロール
-        newScrollLeft = cellRight - viewportWidth
-      }
-
-      // スクロール位置が変更された場合のみスクロールを実行
-      if (newScrollTop !== currentScrollTop || newScrollLeft !== currentScrollLeft) {
-        grid.scrollToPosition({ scrollLeft: newScrollLeft, scrollTop: newScrollTop })
-      }
-    }
-  }, [selectedCell])
+    scrollIntoView(row, col)
+  }, [selectedCell, beginNewRange, expandRange, scrollIntoView])
 
-  const handleHeaderMouseDown = useCallback((index: number, isRow: boolean, shiftKey: boolean) => {
+  const handleHeaderMouseDown = useCallback((index: number, isRow: boolean, shiftKey: boolean, ctrlKey = false) => {
     isDraggingRef.current = true
     headerDragTypeRef.current = isRow ? 'row' : 'column'
     isHeaderDragRef.current = true  // ヘッダーからのドラッグを記録
@@ -265,101 +496,65 @@ export function useSpreadsheetSelection({
       // 行ヘッダーのクリック
       if (shiftKey && selectionRange) {
         // Shiftキーが押されている場合は現在の選択範囲から拡張
-        setSelectionRange({
+        setSelectionRange(expandRange({
           start: selectionRange.start,
           end: { 
             row: index,
             col: columnCount - 1
           }
-        })
+        }))
       } else {
         // 行全体を選択
+        beginNewRange(ctrlKey)
         setSelectedCell({ row: index, col: 0 })
-        setSelectionRange({
+        setSelectionRange(expandRange({
           start: { row: index, col: 0 },
           end: { row: index, col: columnCount - 1 }
-        })
+        }))
       }
 
       // 選択された行が完全に表示されるようにスクロール
-      if (gridRef.current) {
-        const grid = gridRef.current
-        const container = (grid as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
-        const currentScrollTop = container.scrollTop
-        const currentScrollLeft = container.scrollLeft
-        const rowTop = index * ROW_HEIGHT
-        const rowBottom = (index + 1) * ROW_HEIGHT
-        const viewportHeight = container.clientHeight
-        const headerOffset = HEADER_HEIGHT
-
-        let newScrollTop = currentScrollTop
-        // 行が部分的にヘッダーに隠れている場合
-        if (rowTop < currentScrollTop + headerOffset) {
-          // 行の上端がヘッダーの直下に来るようにスクロール
-          newScrollTop = rowTop - headerOffset
-        }
-        // 行が下端で切れている場合
-        else if (rowBottom > currentScrollTop + viewportHeight) {
-          // 行の下端が表示領域の下端に来るようにスクロール
-          newScrollTop = rowBottom - viewportHeight
-        }
-
-        if (newScrollTop !== currentScrollTop) {
-          grid.scrollToPosition({ scrollLeft: currentScrollLeft, scrollTop: newScrollTop })
-        }
-      }
+      scrollIntoView(index, null)
     } else {
       // 列ヘッダーのクリック
       if (shiftKey && selectionRange) {
         // Shiftキーが押されている場合は現在の選択範囲から拡張
-        setSelectionRange({
+        setSelectionRange(expandRange({
           start: selectionRange.start,
           end: { 
             row: rowCount - 1,
             col: index
           }
-        })
+        }))
       } else {
         // 列全体を選択
+        beginNewRange(ctrlKey)
         setSelectedCell({ row: 0, col: index })
-        setSelectionRange({
+        setSelectionRange(expandRange({
           start: { row: 0, col: index },
           end: { row: rowCount - 1, col: index }
-        })
+        }))
       }
 
       // 選択された列が完全に表示されるようにスクロール（水平方向）
-      if (gridRef.current) {
-        const grid = gridRef.current
-        const container = (grid as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
-        const currentScrollLeft = container.scrollLeft
-        const currentScrollTop = container.scrollTop
-        const colLeft = index * COLUMN_WIDTH
-        const colRight = (index + 1) * COLUMN_WIDTH
-        const viewportWidth = container.clientWidth
-        const headerOffset = COLUMN_WIDTH  // 行ヘッダーの幅
-
-        let newScrollLeft = currentScrollLeft
-        // 列が部分的に行ヘッダーに隠れている場合
-        if (colLeft < currentScrollLeft + headerOffset) {
-          // 列の左端が行ヘッダーの直後に来るようにスクロール
-          newScrollLeft = colLeft - headerOffset
-        }
-        // 列が右端で切れている場合
-        else if (colRight > currentScrollLeft + viewportWidth) {
-          // 列の右端が表示領域の右端に来るようにスクロール
-          newScrollLeft = colRight - viewportWidth
-        }
-
-        if (newScrollLeft !== currentScrollLeft) {
-          grid.scrollToPosition({ scrollLeft: newScrollLeft, scrollTop: currentScrollTop })
-        }
-      }
+      scrollIntoView(null, index)
     }
-  }, [selectionRange, rowCount, columnCount])
+  }, [selectionRange, rowCount, columnCount, beginNewRange, expandRange, scrollIntoView])
+
+  // フィルハンドルのドラッグを開始（選択範囲が1つの場合のみ）
+  const handleFillHandleMouseDown = useCallback(() => {
+    if (!selectionRange || additionalRanges.length > 0) return
+    const { top, bottom, left, right } = normalizeRange(selectionRange)
+    const source = { start: { row: top, col: left }, end: { row: bottom, col: right } }
+    isDraggingRef.current = true
+    fillSourceRef.current = source
+    fillRangeRef.current = source
+    setFillRange(source)
+  }, [selectionRange, additionalRanges])
 
   const handleCornerHeaderClick = useCallback(() => {
     // 左上のヘッダーをクリックした場合は全セルを選択
+    setAdditionalRanges([])
     setSelectedCell({ row: 0, col: 0 })
     setSelectionRange({
       start: { row: 0, col: 0 },
@@ -374,22 +569,20 @@ export function useSpreadsheetSelection({
     const container = (grid as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
     const mainGridRect = container.getBoundingClientRect()
     
-    // マウス位置の相対座標を計算
-    let mouseX = e.clientX - mainGridRect.left
-    let mouseY = e.clientY - mainGridRect.top
-
-    // ヘッダー部分のドラッグ時は座標を補正
-    if (headerDragTypeRef.current === 'row') {
-      mouseX = 0
-    } else if (headerDragTypeRef.current === 'column') {
-      mouseY = 0
-    }
+    // マウス位置の相対座標を計算（固定された行・列の上では負になる）
+    const mouseX = e.clientX - mainGridRect.left
+    const mouseY = e.clientY - mainGridRect.top
 
     // スクロールゾーンの計算
     const scrollZone = calculateScrollZone(mainGridRect)
     
-    // スクロール状態の更新
-    const newScrollState = calculateScrollDirection(mouseX, mouseY, scrollZone)
+    // スクロール状態の更新（ヘッダーのドラッグ時は選択を広げる方向にだけスクロール）
+    const newScrollState = calculateScrollDirection(
+      headerDragTypeRef.current === 'row' ? mainGridRect.width / 2 : mouseX,
+      headerDragTypeRef.current === 'column' ? mainGridRect.height / 2 : mouseY,
+      scrollZone
+    )
+    scrollStateRef.current = newScrollState
     setScrollState(newScrollState)
 
     // マウス位置の状態を更新
@@ -399,37 +592,8 @@ export function useSpreadsheetSelection({
       rect: mainGridRect
     }
 
-    // 表示枠内の場合は選択範囲を更新
-    if (!newScrollState.isScrolling) {
-      const col = Math.min(Math.max(0, Math.floor((mouseX + container.scrollLeft) / COLUMN_WIDTH)), columnCount - 1)
-      const row = Math.min(Math.max(0, Math.floor((mouseY + container.scrollTop) / ROW_HEIGHT)), rowCount - 1)
-
-      setSelectionRange(prev => {
-        if (!prev) return null
-
-        let newRange: CellRange
-        if (headerDragTypeRef.current === 'row') {
-          newRange = {
-            start: prev.start,
-            end: { row, col: columnCount - 1 }
-          }
-        } else if (headerDragTypeRef.current === 'column') {
-          newRange = {
-            start: prev.start,
-            end: { row: rowCount - 1, col }
-          }
-        } else {
-          newRange = {
-            start: prev.start,
-            end: { row, col }
-          }
-        }
-
-        setSelectedCell(newRange.end)
-        return newRange
-      })
-    }
-  }, [columnCount, rowCount, calculateScrollZone, calculateScrollDirection])
+    extendDragSelection(mouseX, mouseY, container)
+  }, [gridRef, calculateScrollZone, calculateScrollDirection, extendDragSelection])
 
   const startScrolling = useCallback(() => {
     if (!lastMousePositionRef.current || !gridRef.current) return
@@ -441,12 +605,12 @@ export function useSpreadsheetSelection({
     const scroll = () => {
       if (!isDraggingRef.current || !gridRef.current || !lastMousePositionRef.current) return
 
-      const { rect } = lastMousePositionRef.current
+      const { x, y, rect } = lastMousePositionRef.current
       const container = (gridRef.current as unknown as { _scrollingContainer: HTMLElement })._scrollingContainer
       const grid = gridRef.current
 
       // スクロール状態に基づいてスクロールを実行
-      const { direction, speed } = scrollState
+      const { direction, speed } = scrollStateRef.current
       let scrollSpeedX = 0
       let scrollSpeedY = 0
 
@@ -465,23 +629,19 @@ export function useSpreadsheetSelection({
           break
       }
 
-      // デバッグ情報を更新
-      setDebugInfo(prev => ({
-        ...prev,
-        scrollSpeed: { x: scrollSpeedX, y: scrollSpeedY }
-      }))
-
-      // スクロール位置の更新
+      // スクロール位置の更新（固定された行・列の分はスクロールしない）
       const currentScrollLeft = container.scrollLeft
       const currentScrollTop = container.scrollTop
-      const maxScrollLeft = (columnCount * defaultColumnWidth) - rect.width
-      const maxScrollTop = (rowCount * defaultRowHeight) - rect.height
+      const maxScrollLeft = columnSizes.getOffset(columnCount) - frozenWidth - rect.width
+      const maxScrollTop = rowSizes.getOffset(rowCount) - frozenHeight - rect.height
 
       const newScrollLeft = Math.max(0, Math.min(maxScrollLeft, currentScrollLeft + scrollSpeedX))
       const newScrollTop = Math.max(0, Math.min(maxScrollTop, currentScrollTop + scrollSpeedY))
 
       if (newScrollLeft !== currentScrollLeft || newScrollTop !== currentScrollTop) {
         grid.scrollToPosition({ scrollLeft: newScrollLeft, scrollTop: newScrollTop })
+        // スクロールで表示されたセルまで選択範囲を広げる
+        extendDragSelection(x, y, container)
       }
 
       // スクロールが必要な場合は次のフレームをスケジュール
@@ -491,7 +651,7 @@ export function useSpreadsheetSelection({
     }
 
     rafRef.current = requestAnimationFrame(scroll)
-  }, [columnCount, rowCount, defaultColumnWidth, defaultRowHeight, scrollState])
+  }, [gridRef, columnCount, rowCount, columnSizes, rowSizes, frozenWidth, frozenHeight, extendDragSelection])
 
   // スクロール状態が変更されたときにスクロールを開始/停止
   useEffect(() => {
@@ -503,50 +663,71 @@ export function useSpreadsheetSelection({
   }, [scrollState.isScrolling, startScrolling])
 
   const handleMouseUp = useCallback(() => {
+    // フィル先まで広げた範囲を選択し、内容の書き込みは呼び出し元に任せる
+    const fillSource = fillSourceRef.current
+    const fillTarget = fillRangeRef.current
+    if (fillSource) {
+      fillSourceRef.current = null
+      fillRangeRef.current = null
+      setFillRange(null)
+      if (fillTarget && getFillDirection(fillSource, fillTarget)) {
+        onFill?.(fillSource, fillTarget)
+        setSelectedCell(fillTarget.start)
+        setSelectionRange(fillTarget)
+      }
+    }
+
     isDraggingRef.current = false
     headerDragTypeRef.current = null
     isHeaderDragRef.current = false  // ヘッダードラッグ状態をリセット
     lastMousePositionRef.current = null
+    if (scrollStateRef.current.isScrolling) {
+      scrollStateRef.current = { isScrolling: false, direction: null, speed: 0 }
+      setScrollState(scrollStateRef.current)
+    }
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current)
       if (gridRef.current) {
         gridRef.current.recomputeGridSize()
       }
     }
-  }, [])
+  }, [gridRef, onFill])
 
   const isCellSelected = useCallback((row: number, col: number) => {
-    if (selectionRange) {
-      const minRow = Math.min(selectionRange.start.row, selectionRange.end.row)
-      const maxRow = Math.max(selectionRange.start.row, selectionRange.end.row)
-      const minCol = Math.min(selectionRange.start.col, selectionRange.end.col)
-      const maxCol = Math.max(selectionRange.start.col, selectionRange.end.col)
-      return row >= minRow && row <= maxRow && col >= minCol && col <= maxCol
+    if (selectionRanges.length > 0) {
+      // 重なり合う範囲があっても、いずれかに含まれていれば選択状態
+      return selectionRanges.some(range => isPositionInRange({ row, col }, range))
     }
     return selectedCell?.row === row && selectedCell?.col === col
-  }, [selectedCell, selectionRange])
+  }, [selectedCell, selectionRanges])
 
   useEffect(() => {
     window.addEventListener('mousemove', handleMouseMove)
     window.addEventListener('mouseup', handleMouseUp)
-    window.addEventListener('keydown', handleKeyDown)
     return () => {
       window.removeEventListener('mousemove', handleMouseMove)
       window.removeEventListener('mouseup', handleMouseUp)
-      window.removeEventListener('keydown', handleKeyDown)
       if (rafRef.current) {
         cancelAnimationFrame(rafRef.current)
       }
     }
-  }, [handleKeyDown, handleMouseMove, handleMouseUp])
+  }, [handleMouseMove, handleMouseUp])
 
   const handleClearSelection = useCallback(() => {
     // ドラッグ中またはヘッダードラッグ中は選択をクリアしない
     if (isDraggingRef.current || isHeaderDragRef.current) return
     setSelectedCell(null)
     setSelectionRange(null)
+    setAdditionalRanges([])
   }, [])
 
+  // 選択範囲を直接設定（アクティブセルを省略した場合は範囲の開始セル）
+  const selectRange = useCallback((range: CellRange, activeCell: CellPosition = range.start) => {
+    setAdditionalRanges([])
+    setSelectedCell(activeCell)
+    setSelectionRange(expandRange(range))
+  }, [expandRange])
+
   // selectedCellが変更されたときにコールバックを呼び出す
   useEffect(() => {
     onActivePositionChange?.(selectedCell)
@@ -554,8 +735,8 @@ export function useSpreadsheetSelection({
 
   // selectionRangeが変更されたときにコールバックを呼び出す
   useEffect(() => {
-    onSelectionChange?.(selectionRange)
-  }, [selectionRange, onSelectionChange])
+    onSelectionChange?.(selectionRange, selectionRanges)
+  }, [selectionRange, selectionRanges, onSelectionChange])
 
   const handleCellClick = useCallback((row: number, col: number) => {
     onCellClick?.({ row, col })
@@ -572,12 +753,18 @@ export function useSpreadsheetSelection({
   return {
     selectedCell,
     selectionRange,
+    selectionRanges,
+    fillRange,
     handleMouseDown,
     handleHeaderMouseDown,
     handleClearSelection,
     isCellSelected,
     handleMouseMove,
     handleCornerHeaderClick,
+    handleFillHandleMouseDown,
+    runNavigationCommand,
+    selectRange,
+    scrollIntoView,
     handleCellClick,
     handleCellDoubleClick,
     handleCellContextMenu,
@@ -0,0 +1,186 @@
+import { useCallback } from 'react'
+import type { CellContent, CellData, CellPosition, CellRange } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT, MAX_ROW_COUNT } from '../lib/address'
+import { shiftConditionalFormats, type ConditionalFormat } from '../lib/conditional'
+import type { HistoryAction, HistoryOperation, LinkedFormulaChange } from '../lib/history'
+import { normalizeRange } from '../lib/range'
+import type { SheetModel } from '../lib/sheet'
+import type { SizeOverrides } from '../lib/sizes'
+import {
+  createStructureCellChanges,
+  pickSizeOverrides,
+  shiftCellPosition,
+  shiftCellRange,
+  shiftIndexedValues,
+  type StructureAxis,
+  type StructureChange,
+} from '../lib/structure'
+import { shiftDataValidations, type DataValidation } from '../lib/validation'
+
+// 挿入・削除しなかった理由
+export type StructureRefusal = 'lockedCells' | 'deleteAllRows' | 'deleteAllColumns'
+
+interface UseStructureChangeProps {
+  selectionRange: CellRange | null
+  rowCount: number
+  columnCount: number
+  // 値を持つセルを列挙する
+  forEachCell: (callback: (row: number, col: number) => void) => void
+  getCell: (row: number, col: number) => CellData | undefined
+  isCellEditable: (position: CellPosition) => boolean
+  // 変更で上書きされる項目について、変更前のセルの内容を取得
+  getCellContent: (position: CellPosition, change: CellContent) => CellContent
+  columnWidths: SizeOverrides
+  rowHeights: SizeOverrides
+  merges: CellRange[]
+  // 行・列全体の書式を持つモデル
+  model?: SheetModel
+  conditionalFormats: ConditionalFormat[]
+  dataValidations: DataValidation[]
+  sheetName?: string
+  // 他のシートの数式のこのシートへの参照をずらす変更
+  getLinkedFormulaChanges?: (change: StructureChange) => LinkedFormulaChange[]
+  // 操作を取り消し履歴に記録してから適用する
+  commitOperations: (action: HistoryAction, operations: HistoryOperation[]) => void
+  onRefuse: (reason: StructureRefusal) => void
+}
+
+export function useStructureChange({
+  selectionRange,
+  rowCount,
+  columnCount,
+  forEachCell,
+  getCell,
+  isCellEditable,
+  getCellContent,
+  columnWidths,
+  rowHeights,
+  merges,
+  model,
+  conditionalFormats,
+  dataValidations,
+  sheetName,
+  getLinkedFormulaChanges,
+  commitOperations,
+  onRefuse,
+}: UseStructureChangeProps) {
+  // index から count 本の行・列を挿入・削除する（省略時は選択範囲の行・列）
+  // すべての行・列を削除することと、編集できないセルが削除される（はみ出す）変更はできない（false を返す）
+  const changeStructure = useCallback((
+    type: StructureChange['type'],
+    axis: StructureAxis,
+    index?: number,
+    count?: number
+  ) => {
+    const bounds = selectionRange && normalizeRange(selectionRange)
+    const start = index ?? (axis === 'row' ? bounds?.top : bounds?.left)
+    const length = count ?? (bounds ? (axis === 'row' ? bounds.bottom - bounds.top : bounds.right - bounds.left) + 1 : 1)
+    const total = axis === 'row' ? rowCount : columnCount
+    if (start === undefined || start < 0 || start >= total || length <= 0) return false
+    if (type === 'delete' && start === 0 && length >= total) {
+      onRefuse(axis === 'row' ? 'deleteAllRows' : 'deleteAllColumns')
+      return false
+    }
+
+    const change: StructureChange = {
+      type,
+      axis,
+      index: start,
+      count: type === 'delete' ? Math.min(length, total - start) : length,
+    }
+    const delta = type === 'insert' ? change.count : -change.count
+    const nextRowCount = Math.min(MAX_ROW_COUNT, rowCount + (axis === 'row' ? delta : 0))
+    const nextColumnCount = Math.min(MAX_COLUMN_COUNT, columnCount + (axis === 'column' ? delta : 0))
+
+    let removesLockedCell = false
+    forEachCell((row, col) => {
+      if (isCellEditable({ row, col })) return
+      if (!shiftCellPosition({ row, col }, change, nextRowCount, nextColumnCount)) removesLockedCell = true
+    })
+    if (removesLockedCell) {
+      onRefuse('lockedCells')
+      return false
+    }
+
+    const changes = createStructureCellChanges(
+      change,
+      callback => forEachCell((row, col) => callback(getCell(row, col)!, row, col)),
+      nextRowCount,
+      nextColumnCount,
+      sheetName
+    )
+    const cellsOperation: HistoryOperation = {
+      type: 'cells',
+      changes: changes.map(({ row, col, ...after }) => ({
+        row,
+        col,
+        before: getCellContent({ row, col }, after),
+        after,
+      })),
+    }
+    const structureOperation: HistoryOperation = {
+      type: 'structure',
+      change,
+      sizes: type === 'delete'
+        ? pickSizeOverrides(axis === 'row' ? rowHeights : columnWidths, change)
+        : {},
+    }
+    // 挿入は大きさを広げてからセルを動かし、削除はセルを動かしてから大きさを縮める
+    const operations: HistoryOperation[] = type === 'insert'
+      ? [structureOperation, cellsOperation]
+      : [cellsOperation, structureOperation]
+    // 結合範囲もずらす（すべて削除された結合範囲を取り消しで戻せるように一覧ごと記録する）
+    if (merges.length > 0) {
+      const nextMerges = merges.flatMap(merge => shiftCellRange(merge, change) ?? [])
+      operations.push({ type: 'merges', before: merges, after: nextMerges })
+    }
+    // 行・列全体の書式もずらす
+    const axisStyles = model?.getAxisStyles(axis)
+    if (axisStyles && Object.keys(axisStyles).length > 0) {
+      operations.push({ type: 'axisStyles', axis, before: axisStyles, after: shiftIndexedValues(axisStyles, change) })
+    }
+    // 条件付き書式の範囲と数式の参照もずらす
+    if (conditionalFormats.length > 0) {
+      operations.push({
+        type: 'conditionalFormats',
+        before: conditionalFormats,
+        after: shiftConditionalFormats(conditionalFormats, change),
+      })
+    }
+    if (dataValidations.length > 0) {
+      operations.push({
+        type: 'dataValidations',
+        before: dataValidations,
+        after: shiftDataValidations(dataValidations, change),
+      })
+    }
+    // 他のシートの数式のこのシートへの参照もずらす（取り消しで #REF! にした参照も元の数式に戻せるようにする）
+    const linkedChanges = getLinkedFormulaChanges?.(change) ?? []
+    if (linkedChanges.length > 0) operations.push({ type: 'linkedFormulas', changes: linkedChanges })
+
+    commitOperations(`${type}${axis === 'row' ? 'Rows' : 'Columns'}`, operations)
+    return true
+  }, [
+    selectionRange,
+    rowCount,
+    columnCount,
+    forEachCell,
+    getCell,
+    isCellEditable,
+    getCellContent,
+    rowHeights,
+    columnWidths,
+    merges,
+    model,
+    conditionalFormats,
+    dataValidations,
+    sheetName,
+    getLinkedFormulaChanges,
+    commitOperations,
+    onRefuse,
+  ])
+
+  return {
+    changeStructure,
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_COLUMN_COUNT,
+  columnIndexToLabel,
+  columnLabelToIndex,
+  formatCellAddress,
+  formatRangeAddress,
+  parseCellAddress,
+  parseRangeAddress,
+} from './address'
+
+const LABELS: Array<[number, string]> = [
+  [0, 'A'],
+  [25, 'Z'],
+  [26, 'AA'],
+  [701, 'ZZ'],
+  [702, 'AAA'],
+  [MAX_COLUMN_COUNT - 1, 'XFD'],
+]
+
+describe('column labels', () => {
+  it.each(LABELS)('converts column %i to %s', (index, label) => {
+    expect(columnIndexToLabel(index)).toBe(label)
+  })
+
+  it.each(LABELS)('parses column %i from %s', (index, label) => {
+    expect(columnLabelToIndex(label)).toBe(index)
+    expect(columnLabelToIndex(label.toLowerCase())).toBe(index)
+  })
+
+  it('rejects labels that are not letters', () => {
+    expect(columnLabelToIndex('')).toBe(-1)
+    expect(columnLabelToIndex('A1')).toBe(-1)
+    expect(columnLabelToIndex('$A')).toBe(-1)
+  })
+})
+
+describe('parseCellAddress', () => {
+  it('parses relative and absolute markers', () => {
+    expect(parseCellAddress('B3')).toEqual({ row: 2, col: 1, rowAbsolute: false, colAbsolute: false })
+    expect(parseCellAddress('$A$1')).toEqual({ row: 0, col: 0, rowAbsolute: true, colAbsolute: true })
+    expect(parseCellAddress('$A1')).toEqual({ row: 0, col: 0, rowAbsolute: false, colAbsolute: true })
+    expect(parseCellAddress('A$1')).toEqual({ row: 0, col: 0, rowAbsolute: true, colAbsolute: false })
+  })
+
+  it('accepts the last cell of the sheet', () => {
+    expect(parseCellAddress('XFD1048576')).toMatchObject({ row: 1048575, col: 16383 })
+  })
+
+  it.each(['', 'A', '1', 'A0', '1A', 'A1B', 'ABCD1', 'XFE1', 'A1048577', '$$A1', 'A-1'])(
+    'rejects %j',
+    (text) => {
+      expect(parseCellAddress(text)).toBeNull()
+    }
+  )
+
+  it('round-trips through formatCellAddress', () => {
+    const address = parseCellAddress('$AA$10')!
+    expect(formatCellAddress(address, address)).toBe('$AA$10')
+  })
+})
+
+describe('parseRangeAddress', () => {
+  it('parses a range without a sheet name', () => {
+    expect(parseRangeAddress('A1:B2')).toEqual({
+      sheetName: null,
+      start: { row: 0, col: 0, rowAbsolute: false, colAbsolute: false },
+      end: { row: 1, col: 1, rowAbsolute: false, colAbsolute: false },
+    })
+  })
+
+  it('treats a single cell as a range of one cell', () => {
+    const range = parseRangeAddress('$C$4')!
+    expect(range.start).toEqual(range.end)
+  })
+
+  it('parses unquoted sheet names', () => {
+    expect(parseRangeAddress('Sheet1!A1:B2')).toMatchObject({
+      sheetName: 'Sheet1',
+      start: { row: 0, col: 0 },
+      end: { row: 1, col: 1 },
+    })
+  })
+
+  it('parses quoted sheet names', () => {
+    expect(parseRangeAddress("'My Sheet'!A1:B2")).toMatchObject({ sheetName: 'My Sheet' })
+    expect(parseRangeAddress("'It''s'!A1")).toMatchObject({ sheetName: "It's" })
+  })
+
+  it.each(['', '!A1', 'Sheet1!', "'My Sheet!A1", "'My Sheet'A1", 'A1:B2:C3', 'A1:', 'Sheet1!A1:ZZZZ2'])(
+    'rejects %j',
+    (text) => {
+      expect(parseRangeAddress(text)).toBeNull()
+    }
+  )
+
+  it('quotes sheet names when formatting', () => {
+    expect(formatRangeAddress(parseRangeAddress("'My Sheet'!$A$1:B2")!)).toBe("'My Sheet'!$A$1:B2")
+    expect(formatRangeAddress(parseRangeAddress('Sheet1!A1:A1')!)).toBe('Sheet1!A1')
+  })
+})
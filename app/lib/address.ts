@@ -0,0 +1,126 @@
+import type { CellPosition, CellRange } from '../types/spreadsheet'
+
+// Excelと同じシートの上限（1,048,576 行 × 16,384 列 = A1:XFD1048576）
+export const MAX_ROW_COUNT = 1048576
+export const MAX_COLUMN_COUNT = 16384
+
+// $ による絶対参照の指定を含むセル番地
+export interface CellAddress extends CellPosition {
+  rowAbsolute: boolean
+  colAbsolute: boolean
+}
+
+// シート名付きの範囲番地（単一セルの場合は start と end が同じ）
+export interface RangeAddress {
+  sheetName: string | null
+  start: CellAddress
+  end: CellAddress
+}
+
+const CELL_ADDRESS_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)([1-9]\d*)$/
+
+// 0始まりの列インデックスを列ラベルに変換（全単射の26進数: Z → AA → … → XFD）
+export function columnIndexToLabel(index: number): string {
+  let label = ''
+  let n = index + 1
+  while (n > 0) {
+    const rem = (n - 1) % 26
+    label = String.fromCharCode(65 + rem) + label
+    n = Math.floor((n - 1) / 26)
+  }
+  return label
+}
+
+// 列ラベルを0始まりのインデックスに変換（不正なラベルは -1）
+export function columnLabelToIndex(label: string): number {
+  if (!/^[A-Za-z]+$/.test(label)) return -1
+  let index = 0
+  for (const char of label.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+// "A1" / "$A$1" をセル番地に変換（シートの上限を超える場合は null）
+export function parseCellAddress(text: string): CellAddress | null {
+  const match = CELL_ADDRESS_PATTERN.exec(text.trim())
+  if (!match) return null
+
+  const col = columnLabelToIndex(match[2])
+  const row = Number(match[4]) - 1
+  if (col >= MAX_COLUMN_COUNT || row >= MAX_ROW_COUNT) return null
+
+  return {
+    row,
+    col,
+    colAbsolute: match[1] === '$',
+    rowAbsolute: match[3] === '$',
+  }
+}
+
+export function formatCellAddress(
+  position: CellPosition,
+  { rowAbsolute = false, colAbsolute = false }: { rowAbsolute?: boolean; colAbsolute?: boolean } = {}
+): string {
+  return `${colAbsolute ? '$' : ''}${columnIndexToLabel(position.col)}${rowAbsolute ? '$' : ''}${position.row + 1}`
+}
+
+// 英数字とアンダースコア以外を含むシート名は 'シート名' のように囲む
+export function quoteSheetName(sheetName: string): string {
+  if (/^[A-Za-z_\u3040-\u30ff\u4e00-\u9fff][\w\u3040-\u30ff\u4e00-\u9fff]*$/.test(sheetName) && !parseCellAddress(sheetName)) {
+    return sheetName
+  }
+  return `'${sheetName.replace(/'/g, "''")}'`
+}
+
+// "Sheet1!A1:B2" の "Sheet1" と "A1:B2" を分割
+function splitSheetName(text: string): { sheetName: string | null; reference: string } | null {
+  const trimmed = text.trim()
+  if (trimmed.startsWith("'")) {
+    const match = /^'((?:[^']|'')+)'!(.+)$/.exec(trimmed)
+    if (!match) return null
+    return { sheetName: match[1].replace(/''/g, "'"), reference: match[2] }
+  }
+  const separator = trimmed.lastIndexOf('!')
+  if (separator === -1) return { sheetName: null, reference: trimmed }
+  if (separator === 0) return null
+  return { sheetName: trimmed.slice(0, separator), reference: trimmed.slice(separator + 1) }
+}
+
+// "A1", "$A$1:B2", "Sheet1!A1:B2", "'My Sheet'!A1" を範囲番地に変換
+export function parseRangeAddress(text: string): RangeAddress | null {
+  const split = splitSheetName(text)
+  if (!split) return null
+
+  const [startText, endText, ...rest] = split.reference.split(':')
+  if (rest.length > 0) return null
+
+  const start = parseCellAddress(startText)
+  const end = endText === undefined ? start : parseCellAddress(endText)
+  if (!start || !end) return null
+
+  return { sheetName: split.sheetName, start, end }
+}
+
+export function formatRangeAddress(
+  range: CellRange | RangeAddress,
+  { sheetName }: { sheetName?: string | null } = {}
+): string {
+  const format = (position: CellPosition | CellAddress) =>
+    'rowAbsolute' in position ? formatCellAddress(position, position) : formatCellAddress(position)
+
+  const start = format(range.start)
+  const end = format(range.end)
+  const reference = start === end ? start : `${start}:${end}`
+
+  const sheet = sheetName ?? ('sheetName' in range ? range.sheetName : null)
+  return sheet ? `${quoteSheetName(sheet)}!${reference}` : reference
+}
+
+// 範囲番地から絶対参照の指定を除いた範囲を取得
+export function toCellRange(address: RangeAddress): CellRange {
+  return {
+    start: { row: address.start.row, col: address.start.col },
+    end: { row: address.end.row, col: address.end.col },
+  }
+}
@@ -0,0 +1,172 @@
+// Excel / Google スプレッドシートと互換のあるクリップボード形式
+
+// タブ・改行・ダブルクォートを含むフィールドはクォートで囲む
+function quoteTsvField(value: string): string {
+  if (!/[\t\n\r"]/.test(value)) return value
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+export function serializeTsv(values: string[][]): string {
+  return values.map(row => row.map(quoteTsvField).join('\t')).join('\r\n')
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function serializeHtmlTable(values: string[][]): string {
+  const rows = values
+    .map(row => `<tr>${row.map(value => `<td>${escapeHtml(value).replace(/\r?\n/g, '<br>')}</td>`).join('')}</tr>`)
+    .join('')
+  return `<meta charset="utf-8"><table><tbody>${rows}</tbody></table>`
+}
+
+// TSVを2次元配列に変換（クォート内のタブ・改行はフィールドの一部として扱う）
+export function parseTsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let pos = 0
+
+  while (pos < text.length) {
+    const char = text[pos]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[pos + 1] === '"') {
+          field += '"'
+          pos += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      pos++
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === '\t') {
+      row.push(field)
+      field = ''
+    } else if (char === '\r' || char === '\n') {
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+      if (char === '\r' && text[pos + 1] === '\n') pos++
+    } else {
+      field += char
+    }
+    pos++
+  }
+
+  // 末尾の改行による空行は追加しない
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// HTMLの<table>を2次元配列に変換（colspan/rowspanは空セルで埋める）
+export function parseHtmlTable(html: string): string[][] | null {
+  if (typeof DOMParser === 'undefined') return null
+
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const table = doc.querySelector('table')
+  if (!table) return null
+
+  const rows: string[][] = []
+  // rowspanで下の行に持ち越すセル: 行インデックス → 列インデックスの集合
+  const occupied = new Map<number, Set<number>>()
+
+  Array.from(table.rows).forEach((tableRow, rowIndex) => {
+    const row: string[] = []
+    const taken = occupied.get(rowIndex) ?? new Set<number>()
+    let col = 0
+
+    for (const cell of Array.from(tableRow.cells)) {
+      while (taken.has(col)) {
+        row[col++] = ''
+      }
+      // <br> は改行として扱う
+      cell.querySelectorAll('br').forEach(br => br.replaceWith('\n'))
+      row[col] = (cell.textContent ?? '').replace(/\u00a0/g, ' ')
+
+      const colSpan = Math.max(1, cell.colSpan)
+      const rowSpan = Math.max(1, cell.rowSpan)
+      for (let r = 0; r < rowSpan; r++) {
+        for (let c = 0; c < colSpan; c++) {
+          if (r === 0 && c === 0) continue
+          if (r === 0) {
+            row[col + c] = ''
+          } else {
+            const target = occupied.get(rowIndex + r) ?? new Set<number>()
+            target.add(col + c)
+            occupied.set(rowIndex + r, target)
+          }
+        }
+      }
+      col += colSpan
+    }
+    rows.push(Array.from(row, value => value ?? ''))
+  })
+
+  return rows
+}
+
+// クリップボードのデータを読み取り、TSVを優先してHTMLをフォールバックに使う
+export function readClipboardData(clipboardData: DataTransfer): string[][] {
+  const text = clipboardData.getData('text/plain')
+  if (text) return parseTsv(text)
+
+  const html = clipboardData.getData('text/html')
+  if (html) return parseHtmlTable(html) ?? []
+  return []
+}
+
+export function writeClipboardData(clipboardData: DataTransfer, values: string[][]): void {
+  clipboardData.setData('text/plain', serializeTsv(values))
+  clipboardData.setData('text/html', serializeHtmlTable(values))
+}
+
+// メニューなどコピー・貼り付けのイベントの外から書き込む（書き込めなかった場合は false）
+export async function writeSystemClipboard(values: string[][]): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.clipboard) return false
+
+  const text = serializeTsv(values)
+  try {
+    if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'text/plain': new Blob([text], { type: 'text/plain' }),
+          'text/html': new Blob([serializeHtmlTable(values)], { type: 'text/html' }),
+        }),
+      ])
+    } else {
+      await navigator.clipboard.writeText(text)
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+// イベントの外から読み取る（読み取りが許可されていない場合は空の配列）
+export async function readSystemClipboard(): Promise<string[][]> {
+  if (typeof navigator === 'undefined' || !navigator.clipboard) return []
+  try {
+    const text = await navigator.clipboard.readText()
+    return text ? parseTsv(text) : []
+  } catch {
+    return []
+  }
+}
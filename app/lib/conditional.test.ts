@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import {
+  affectsConditionalFormats,
+  createConditionalEvaluator,
+  ICON_SETS,
+  matchesComparison,
+  shiftConditionalFormats,
+  type ConditionalFormat,
+  type ConditionalRule,
+} from './conditional'
+import { createFormulaEngine } from './formula/engine'
+
+const range = (top: number, left: number, bottom: number, right: number) => ({
+  start: { row: top, col: left },
+  end: { row: bottom, col: right },
+})
+
+// 列 A に値を入れたシートで条件付き書式を評価する
+function createEvaluator(values: (string | number)[], formats: ConditionalFormat[]) {
+  const engine = createFormulaEngine({ rowCount: 100, columnCount: 26 })
+  engine.setCells(values.map((input, row) => ({ row, col: 0, input })))
+  return createConditionalEvaluator({
+    formats,
+    getValue: (row, col) => engine.getValue(row, col),
+    evaluate: engine.evaluate,
+    getUsedRange: () => range(0, 0, values.length - 1, 0),
+  })
+}
+
+const format = (rule: ConditionalRule, stopIfTrue?: boolean): ConditionalFormat => ({
+  id: rule.type,
+  range: range(0, 0, 9, 0),
+  rule,
+  stopIfTrue,
+})
+
+describe('matchesComparison', () => {
+  it('accepts the two values of between in either order', () => {
+    expect(matchesComparison(5, 'between', 10, 1)).toBe(true)
+    expect(matchesComparison(5, 'notBetween', 1, 4)).toBe(true)
+    expect(matchesComparison('b', 'greaterThan', 'A', null)).toBe(true)
+  })
+})
+
+describe('createConditionalEvaluator', () => {
+  it('applies value, text, top and duplicate rules', () => {
+    const evaluator = createEvaluator([1, 5, 'Apple', 5, 9], [
+      format({ type: 'cellValue', operator: 'greaterThan', value: '4', style: { bold: true } }),
+      format({ type: 'textContains', text: 'APP', style: { italic: true } }),
+      format({ type: 'topBottom', position: 'top', count: 1, style: { color: '#ff0000' } }),
+      format({ type: 'duplicates', style: { fill: '#ffff00' } }),
+    ])
+    expect(evaluator.getResult(0, 0)).toBeNull()
+    expect(evaluator.getResult(1, 0)?.style).toEqual({ bold: true, fill: '#ffff00' })
+    // 文字列はどの数値よりも大きいとみなす
+    expect(evaluator.getResult(2, 0)?.style).toEqual({ bold: true, italic: true })
+    expect(evaluator.getResult(4, 0)?.style).toEqual({ bold: true, color: '#ff0000' })
+  })
+
+  it('keeps the style of the higher priority rule and stops if true', () => {
+    const evaluator = createEvaluator([5], [
+      format({ type: 'cellValue', operator: 'equal', value: '5', style: { color: '#ff0000' } }, true),
+      format({ type: 'cellValue', operator: 'equal', value: '5', style: { color: '#0000ff', bold: true } }),
+    ])
+    expect(evaluator.getResult(0, 0)?.style).toEqual({ color: '#ff0000' })
+  })
+
+  it('shifts relative references in formulas for each cell', () => {
+    // 1行下のセルより小さい値
+    const evaluator = createEvaluator([1, 3, 2], [format({ type: 'formula', formula: '=A1<A2', style: { bold: true } })])
+    expect(evaluator.getResult(0, 0)?.style).toEqual({ bold: true })
+    expect(evaluator.getResult(1, 0)).toBeNull()
+  })
+
+  it('scales colors, bars and icons from the minimum to the maximum', () => {
+    const evaluator = createEvaluator([0, 5, 10], [
+      format({ type: 'colorScale', minColor: '#000000', maxColor: '#ffffff' }),
+      format({ type: 'dataBar', color: '#2563eb' }),
+      format({ type: 'iconSet', iconSet: 'arrows' }),
+    ])
+    expect(evaluator.getResult(1, 0)).toEqual({
+      style: { fill: '#808080' },
+      dataBar: { ratio: 0.5, color: '#2563eb' },
+      icon: ICON_SETS.arrows[1],
+    })
+    expect(evaluator.getResult(2, 0)?.icon).toBe(ICON_SETS.arrows[2])
+  })
+})
+
+describe('shiftConditionalFormats', () => {
+  it('moves ranges and references and drops deleted rules', () => {
+    const formats = [
+      { ...format({ type: 'formula', formula: '=A2>$B$5', style: {} }), range: range(1, 0, 3, 0) },
+      { ...format({ type: 'duplicates', style: {} }), range: range(0, 0, 0, 0) },
+    ]
+    expect(shiftConditionalFormats(formats, { type: 'delete', axis: 'row', index: 0, count: 1 })).toEqual([
+      { ...formats[0], range: range(0, 0, 2, 0), rule: { type: 'formula', formula: '=A1>$B$4', style: {} } },
+    ])
+  })
+})
+
+describe('affectsConditionalFormats', () => {
+  it('checks the changed cells against the ranges unless a rule uses a formula', () => {
+    const formats = [format({ type: 'duplicates', style: {} })]
+    expect(affectsConditionalFormats(formats, [{ row: 0, col: 1 }])).toBe(false)
+    expect(affectsConditionalFormats(formats, [{ row: 0, col: 0 }])).toBe(true)
+    const withFormula = [...formats, format({ type: 'formula', formula: '=TRUE', style: {} })]
+    expect(affectsConditionalFormats(withFormula, [{ row: 0, col: 1 }])).toBe(true)
+  })
+})
@@ -0,0 +1,363 @@
+import type { CellPosition, CellRange, CellStyle } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT } from './address'
+import { isFormulaInput } from './formula/engine'
+import { shiftFormulaReferences } from './formula/transform'
+import { compareValues, isFormulaError, parseLiteral, toBoolean, toText, type ScalarValue } from './formula/values'
+import { normalizeRange, rangesOverlap, type RangeBounds } from './range'
+import { adjustFormulaReferences, shiftCellRange, type StructureChange } from './structure'
+import { internStyle } from './style'
+
+export type ComparisonOperator =
+  | 'between'
+  | 'notBetween'
+  | 'equal'
+  | 'notEqual'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'greaterThanOrEqual'
+  | 'lessThanOrEqual'
+
+export type IconSetType = 'arrows' | 'trafficLights' | 'symbols'
+
+export interface ConditionalIcon {
+  symbol: string
+  color: string
+}
+
+// 条件付き書式のルール
+// value・formula の参照は範囲の左上のセルに対するもので、相対参照は各セルの位置に合わせてずれる
+export type ConditionalRule =
+  // セルの値と値（'=' で始まる場合は数式の結果）の比較（value2 は between・notBetween のみ）
+  | { type: 'cellValue'; operator: ComparisonOperator; value: string; value2?: string; style: CellStyle }
+  // 大文字・小文字を区別せずに文字列を含む
+  | { type: 'textContains'; text: string; style: CellStyle }
+  // 範囲の数値の上位・下位 count 項目（percent の場合は count %）
+  | { type: 'topBottom'; position: 'top' | 'bottom'; count: number; percent?: boolean; style: CellStyle }
+  // 範囲内で重複する値（unique の場合は1つしかない値）
+  | { type: 'duplicates'; unique?: boolean; style: CellStyle }
+  // 数式（'=' で始まる）の結果が TRUE のセル
+  | { type: 'formula'; formula: string; style: CellStyle }
+  // 最小値から最大値までの塗りつぶしの色の段階（midColor を指定した場合は中央値を中間色にする）
+  | { type: 'colorScale'; minColor: string; midColor?: string; maxColor: string }
+  // 最小値から最大値までの長さの横棒
+  | { type: 'dataBar'; color: string }
+  // 最小値から最大値までを3等分した区間ごとの記号（reverse の場合は逆順）
+  | { type: 'iconSet'; iconSet: IconSetType; reverse?: boolean }
+
+export type ConditionalRuleType = ConditionalRule['type']
+
+// 一覧の先頭ほど優先度が高い
+export interface ConditionalFormat {
+  id: string
+  range: CellRange
+  rule: ConditionalRule
+  // 条件を満たしたセルには、優先度の低いルールを適用しない
+  stopIfTrue?: boolean
+}
+
+// セルに適用される条件付き書式の結果
+export interface ConditionalResult {
+  style?: CellStyle
+  // データバーの長さ（0〜1）と色
+  dataBar?: { ratio: number; color: string }
+  icon?: ConditionalIcon
+}
+
+export interface ConditionalEvaluator {
+  // セルに適用される条件付き書式（どのルールにも該当しない場合は null）
+  getResult: (row: number, col: number) => ConditionalResult | null
+  // 計算済みの結果と範囲の統計を破棄する（値が変わったときに呼ぶ）
+  invalidate: () => void
+}
+
+interface ConditionalEvaluatorOptions {
+  formats: ConditionalFormat[]
+  getValue: (row: number, col: number) => ScalarValue
+  // 条件の数式を評価する
+  evaluate: (formula: string) => ScalarValue
+  // 範囲の統計は値のある範囲の中だけで取る（列全体を範囲にした場合などのため）
+  getUsedRange: () => CellRange | null
+}
+
+// 範囲の値の統計（上位・下位、重複、色の段階などで使う）
+interface RangeStats {
+  // 昇順に並べた数値
+  numbers: number[]
+  counts: Map<string, number>
+}
+
+// アイコンセットの記号（値の小さい区間から順）
+export const ICON_SETS: Record<IconSetType, readonly ConditionalIcon[]> = {
+  arrows: [
+    { symbol: '↓', color: '#dc2626' },
+    { symbol: '→', color: '#ca8a04' },
+    { symbol: '↑', color: '#16a34a' },
+  ],
+  trafficLights: [
+    { symbol: '●', color: '#dc2626' },
+    { symbol: '●', color: '#eab308' },
+    { symbol: '●', color: '#16a34a' },
+  ],
+  symbols: [
+    { symbol: '✖', color: '#dc2626' },
+    { symbol: '!', color: '#ca8a04' },
+    { symbol: '✔', color: '#16a34a' },
+  ],
+}
+
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+
+// 重複の判定に使うキー（文字列は大文字・小文字を区別しない）
+function getValueKey(value: ScalarValue): string | null {
+  if (value === null || value === '') return null
+  if (isFormulaError(value)) return `e:${value.code}`
+  if (typeof value === 'string') return `s:${value.toLowerCase()}`
+  return `${typeof value}:${value}`
+}
+
+function isInBounds(bounds: RangeBounds, row: number, col: number): boolean {
+  return row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right
+}
+
+// 値と1つまたは2つの値を比較する（second は between・notBetween のみ）
+export function matchesComparison(value: ScalarValue, operator: ComparisonOperator, first: ScalarValue, second: ScalarValue): boolean {
+  const diff = compareValues(value, first)
+  if (isFormulaError(diff)) return false
+  switch (operator) {
+    case 'between':
+    case 'notBetween': {
+      const diff2 = compareValues(value, second)
+      if (isFormulaError(diff2)) return false
+      // 2つの値はどちらが小さくてもよい
+      const inside = (diff >= 0 && diff2 <= 0) || (diff <= 0 && diff2 >= 0)
+      return operator === 'between' ? inside : !inside
+    }
+    case 'equal': return diff === 0
+    case 'notEqual': return diff !== 0
+    case 'greaterThan': return diff > 0
+    case 'lessThan': return diff < 0
+    case 'greaterThanOrEqual': return diff >= 0
+    case 'lessThanOrEqual': return diff <= 0
+  }
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '')
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number]
+}
+
+// 2色の間の色（ratio は 0〜1）
+function interpolateColor(from: string, to: string, ratio: number): string {
+  const a = parseColor(from)
+  const b = parseColor(to)
+  return '#' + a.map((channel, i) => Math.round(channel + (b[i] - channel) * ratio).toString(16).padStart(2, '0')).join('')
+}
+
+// 最小値から最大値までの位置（すべて同じ値の場合は 1）
+function getRatio(value: number, min: number, max: number): number {
+  return max > min ? (value - min) / (max - min) : 1
+}
+
+// 色の段階の中の値の色（3色の場合は中央値を境に2色ずつで補間する）
+function getScaleColor(
+  rule: Extract<ConditionalRule, { type: 'colorScale' }>,
+  value: number,
+  numbers: number[]
+): string {
+  const min = numbers[0]
+  const max = numbers[numbers.length - 1]
+  if (rule.midColor === undefined) return interpolateColor(rule.minColor, rule.maxColor, getRatio(value, min, max))
+  const mid = numbers[Math.floor((numbers.length - 1) / 2)]
+  return value <= mid
+    ? interpolateColor(rule.minColor, rule.midColor, getRatio(value, min, mid))
+    : interpolateColor(rule.midColor, rule.maxColor, getRatio(value, mid, max))
+}
+
+// 条件付き書式を評価する（結果はセルごとに、範囲の統計はルールごとに初めて必要になったときに計算して保持する）
+export function createConditionalEvaluator({
+  formats,
+  getValue,
+  evaluate,
+  getUsedRange,
+}: ConditionalEvaluatorOptions): ConditionalEvaluator {
+  const areas = formats.map(format => normalizeRange(format.range))
+  const results = new Map<number, ConditionalResult | null>()
+  const stats = new Map<number, RangeStats>()
+  let usedBounds: RangeBounds | null | undefined
+
+  const getStats = (index: number): RangeStats => {
+    let result = stats.get(index)
+    if (result) return result
+    result = { numbers: [], counts: new Map() }
+    stats.set(index, result)
+
+    if (usedBounds === undefined) {
+      const usedRange = getUsedRange()
+      usedBounds = usedRange && normalizeRange(usedRange)
+    }
+    const area = areas[index]
+    if (!usedBounds || !rangesOverlap(area, usedBounds)) return result
+    for (let row = Math.max(area.top, usedBounds.top); row <= Math.min(area.bottom, usedBounds.bottom); row++) {
+      for (let col = Math.max(area.left, usedBounds.left); col <= Math.min(area.right, usedBounds.right); col++) {
+        const value = getValue(row, col)
+        if (typeof value === 'number') result.numbers.push(value)
+        const key = getValueKey(value)
+        if (key !== null) result.counts.set(key, (result.counts.get(key) ?? 0) + 1)
+      }
+    }
+    result.numbers.sort((a, b) => a - b)
+    return result
+  }
+
+  // 範囲の左上のセルに対する数式を、セルの位置に合わせてずらして評価する
+  const evaluateAt = (formula: string, area: RangeBounds, row: number, col: number) =>
+    evaluate(shiftFormulaReferences(formula, row - area.top, col - area.left))
+
+  const getCriterion = (text: string | undefined, area: RangeBounds, row: number, col: number): ScalarValue =>
+    isFormulaInput(text) ? evaluateAt(text, area, row, col) : parseLiteral(text)
+
+  // スタイルを適用するルールの条件を満たすか
+  const matches = (index: number, row: number, col: number, value: ScalarValue): boolean => {
+    const { rule } = formats[index]
+    const area = areas[index]
+    switch (rule.type) {
+      case 'cellValue':
+        // 空のセルは比較しない
+        if (value === null || value === '') return false
+        return matchesComparison(
+          value,
+          rule.operator,
+          getCriterion(rule.value, area, row, col),
+          getCriterion(rule.value2, area, row, col)
+        )
+      case 'textContains': {
+        if (value === null || rule.text === '') return false
+        const text = toText(value)
+        return !isFormulaError(text) && text.toLowerCase().includes(rule.text.toLowerCase())
+      }
+      case 'topBottom': {
+        if (typeof value !== 'number') return false
+        const { numbers } = getStats(index)
+        const count = rule.percent
+          ? Math.max(1, Math.floor(numbers.length * rule.count / 100))
+          : rule.count
+        if (count <= 0 || numbers.length === 0) return false
+        const n = Math.min(count, numbers.length)
+        return rule.position === 'top'
+          ? value >= numbers[numbers.length - n]
+          : value <= numbers[n - 1]
+      }
+      case 'duplicates': {
+        const key = getValueKey(value)
+        if (key === null) return false
+        const count = getStats(index).counts.get(key) ?? 0
+        return rule.unique ? count === 1 : count > 1
+      }
+      case 'formula': {
+        const result = evaluateAt(rule.formula, area, row, col)
+        return result !== null && toBoolean(result) === true
+      }
+      default:
+        return false
+    }
+  }
+
+  const getResult = (row: number, col: number): ConditionalResult | null => {
+    const key = toKey(row, col)
+    const cached = results.get(key)
+    if (cached !== undefined) return cached
+
+    let style: CellStyle = {}
+    let dataBar: ConditionalResult['dataBar']
+    let icon: ConditionalIcon | undefined
+    let matched = false
+    const value = getValue(row, col)
+
+    // 優先度の高いルールから順に、まだ決まっていない項目だけを埋める
+    for (let index = 0; index < formats.length; index++) {
+      if (!isInBounds(areas[index], row, col)) continue
+      const { rule, stopIfTrue } = formats[index]
+      let applied = false
+
+      if (rule.type === 'colorScale' || rule.type === 'dataBar' || rule.type === 'iconSet') {
+        if (typeof value !== 'number') continue
+        const { numbers } = getStats(index)
+        const min = numbers[0]
+        const max = numbers[numbers.length - 1]
+        if (rule.type === 'colorScale') {
+          const fill = getScaleColor(rule, value, numbers)
+          style = { fill, ...style }
+        } else if (rule.type === 'dataBar') {
+          // 0 を含むように基準をとる（すべて正の値なら 0 から、負の値を含む場合は最小値から）
+          const base = Math.min(0, min)
+          dataBar ??= { ratio: getRatio(value, base, Math.max(max, base)), color: rule.color }
+        } else {
+          const icons = ICON_SETS[rule.iconSet]
+          const ratio = getRatio(value, min, max)
+          const level = ratio >= 2 / 3 ? 2 : ratio >= 1 / 3 ? 1 : 0
+          icon ??= icons[rule.reverse ? icons.length - 1 - level : level]
+        }
+        applied = true
+      } else if (matches(index, row, col, value)) {
+        style = { ...rule.style, ...style }
+        applied = true
+      }
+
+      matched ||= applied
+      if (applied && stopIfTrue) break
+    }
+
+    const result = matched ? { style: internStyle(style), dataBar, icon } : null
+    results.set(key, result)
+    return result
+  }
+
+  const invalidate = () => {
+    results.clear()
+    stats.clear()
+    usedBounds = undefined
+  }
+
+  return { getResult, invalidate }
+}
+
+// 行・列の挿入・削除に合わせて範囲と数式の参照をずらす（範囲がすべて削除されたルールは除く）
+export function shiftConditionalFormats(formats: ConditionalFormat[], change: StructureChange): ConditionalFormat[] {
+  const adjust = (text: string) => isFormulaInput(text) ? adjustFormulaReferences(text, change) : text
+  return formats.flatMap(format => {
+    const range = shiftCellRange(format.range, change)
+    if (!range) return []
+    const { rule } = format
+    switch (rule.type) {
+      case 'cellValue':
+        return [{
+          ...format,
+          range,
+          rule: { ...rule, value: adjust(rule.value), value2: rule.value2 === undefined ? undefined : adjust(rule.value2) },
+        }]
+      case 'formula':
+        return [{ ...format, range, rule: { ...rule, formula: adjustFormulaReferences(rule.formula, change) } }]
+      default:
+        return [{ ...format, range }]
+    }
+  })
+}
+
+// 数式を使うルールは範囲の外のセルを参照できる
+function usesFormula(rule: ConditionalRule): boolean {
+  if (rule.type === 'formula') return true
+  return rule.type === 'cellValue' && (isFormulaInput(rule.value) || isFormulaInput(rule.value2))
+}
+
+// 値が変わったセルによって条件付き書式の結果が変わりうるか
+// （数式を使うルールがある場合は、どのセルの変更でも評価し直す）
+export function affectsConditionalFormats(
+  formats: ConditionalFormat[],
+  positions: CellPosition[]
+): boolean {
+  if (formats.length === 0 || positions.length === 0) return false
+  if (formats.some(format => usesFormula(format.rule))) return true
+  const areas = formats.map(format => normalizeRange(format.range))
+  return positions.some(({ row, col }) => areas.some(area => isInBounds(area, row, col)))
+}
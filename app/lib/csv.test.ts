@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createCsvImportChanges,
+  decodeText,
+  detectDelimiter,
+  detectEncoding,
+  encodeText,
+  parseCsv,
+  parseCsvInChunks,
+  serializeCsv,
+} from './csv'
+
+describe('parseCsv', () => {
+  it('parses quoted fields as in RFC 4180', () => {
+    const text = 'name,note\r\n"Smith, J","said ""hi"""\r\n"multi\r\nline",\r\n'
+    expect(parseCsv(text)).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"'],
+      ['multi\r\nline', ''],
+    ])
+  })
+
+  it('accepts LF line endings and a last line without a line ending', () => {
+    expect(parseCsv('a,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']])
+  })
+
+  it('detects the delimiter from the first line', () => {
+    expect(detectDelimiter('a\tb\tc\n1,2\t3')).toBe('\t')
+    expect(detectDelimiter('"a;b",c,d')).toBe(',')
+    expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']])
+  })
+})
+
+describe('parseCsvInChunks', () => {
+  it('parses fields that span chunks', async () => {
+    const rows: string[][] = []
+    const rowCount = await parseCsvInChunks('"a\nb",c\n"d""e",f\n', {
+      chunkSize: 3,
+      onRows: chunk => rows.push(...chunk),
+    })
+    expect(rowCount).toBe(2)
+    expect(rows).toEqual([['a\nb', 'c'], ['d"e', 'f']])
+  })
+})
+
+describe('serializeCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(serializeCsv([['a', 'b,c', 'say "hi"', 'x\ny', '']])).toBe('a,"b,c","say ""hi""","x\ny",\r\n')
+    expect(serializeCsv([['a', 'b']], { delimiter: '\t', lineEnding: '\n', quoteAll: true })).toBe('"a"\t"b"\n')
+  })
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['1', 'Smith, J', 'said "hi"'], ['multi\r\nline', '', 'end']]
+    expect(parseCsv(serializeCsv(rows))).toEqual(rows)
+  })
+})
+
+describe('detectEncoding and decodeText', () => {
+  it('detects Shift_JIS from bytes that are not valid UTF-8', () => {
+    const bytes = encodeText('名前,値\r\nｶﾅ,1\r\n', 'shift_jis')
+    expect(detectEncoding(bytes)).toBe('shift_jis')
+    expect(decodeText(bytes)).toBe('名前,値\r\nｶﾅ,1\r\n')
+  })
+
+  it('replaces characters that Shift_JIS cannot represent with ?', () => {
+    expect(decodeText(encodeText('a😀', 'shift_jis'), 'shift_jis')).toBe('a?')
+  })
+
+  it('detects and removes byte order marks', () => {
+    for (const encoding of ['utf-8-bom', 'utf-16le', 'utf-16be'] as const) {
+      const bytes = encodeText('名前,値', encoding)
+      expect(detectEncoding(bytes)).toBe(encoding)
+      expect(decodeText(bytes)).toBe('名前,値')
+    }
+    expect(detectEncoding(encodeText('名前'))).toBe('utf-8')
+  })
+})
+
+describe('createCsvImportChanges', () => {
+  it('creates changes from the origin with inferred types', async () => {
+    const result = await createCsvImportChanges('a,1\n,2024/1/5\n', { rowCount: 10, columnCount: 10 }, {
+      origin: { row: 1, col: 2 },
+    })
+    expect(result).toEqual({
+      changes: [
+        { row: 1, col: 2, value: 'a' },
+        { row: 1, col: 3, value: '1', type: 'number' },
+        { row: 2, col: 2, value: '' },
+        { row: 2, col: 3, value: expect.any(String), type: 'date', format: 'yyyy/m/d' },
+      ],
+      rowCount: 2,
+      writtenRowCount: 2,
+      truncated: false,
+    })
+  })
+
+  it('keeps every field as text without type inference', async () => {
+    const { changes } = await createCsvImportChanges('001', { rowCount: 1, columnCount: 1 }, { inferTypes: false })
+    expect(changes).toEqual([{ row: 0, col: 0, value: '001', type: 'text' }])
+  })
+
+  it('reports rows and columns that do not fit in the sheet', async () => {
+    const result = await createCsvImportChanges('a,b,c\nd,e,f\ng,h,i', { rowCount: 2, columnCount: 2 })
+    expect(result.changes.map(({ row, col }) => [row, col])).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]])
+    expect(result).toMatchObject({ rowCount: 3, writtenRowCount: 2, truncated: true })
+  })
+})
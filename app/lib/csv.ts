@@ -0,0 +1,354 @@
+import type { CellChange, CellContent, CellData, CellPosition } from '../types/spreadsheet'
+import { parseCellInput } from './format'
+
+// 読み書きできる文字コード（utf-8-bom は書き出し時に BOM を付ける）
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'shift_jis' | 'utf-16le' | 'utf-16be'
+
+export interface CsvParseOptions {
+  // 区切り文字（省略時は先頭の行から推測する）
+  delimiter?: string
+}
+
+export interface CsvSerializeOptions {
+  delimiter?: string
+  lineEnding?: '\r\n' | '\n'
+  // すべてのフィールドを " で囲む
+  quoteAll?: boolean
+}
+
+export interface CsvChunkOptions extends CsvParseOptions {
+  // 一度に解析する文字数（解析の合間にブラウザへ処理を戻す）
+  chunkSize?: number
+  // 解析済みの行を受け取る（startRow は先頭の行の番号）
+  onRows: (rows: string[][], startRow: number) => void
+  // 解析済みの文字数の割合（0〜1）
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+export interface CsvImportOptions extends Omit<CsvChunkOptions, 'onRows'> {
+  // 読み込む位置の左上（省略時は A1）
+  origin?: CellPosition
+  // 数値・日付などを入力と同様に推測する（false の場合はすべて文字列）
+  inferTypes?: boolean
+}
+
+export interface CsvImportResult {
+  // 解析した行数
+  rowCount: number
+  // シートに書き込んだ行数
+  writtenRowCount: number
+  // シートの行数・列数を超えて読み込まなかった行・列がある
+  truncated: boolean
+}
+
+export interface CsvParser {
+  // 解析が終わった行を返す（途中の行は次の呼び出しに持ち越す）
+  push: (chunk: string) => string[][]
+  // 残りの行を返して解析を終える
+  end: () => string[][]
+}
+
+const DEFAULT_CHUNK_SIZE = 1 << 20
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|']
+
+// 先頭の行で " の外に最も多く現れる文字を区切り文字とする
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITER_CANDIDATES.map(delimiter => [delimiter, 0]))
+  let inQuotes = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1)
+    }
+  }
+
+  let best = ','
+  let bestCount = 0
+  counts.forEach((count, delimiter) => {
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  })
+  return best
+}
+
+// RFC 4180 の CSV を少しずつ解析する（改行は CRLF・LF・CR のいずれも受け付ける）
+export function createCsvParser({ delimiter }: CsvParseOptions = {}): CsvParser {
+  let separator = delimiter
+  let field = ''
+  let row: string[] = []
+  let inQuotes = false
+  // 引用符で囲まれたフィールド内で " を読んだ直後（"" か閉じる " かは次の文字で決まる）
+  let quotePending = false
+  // 直前が CR（続く LF を読み飛ばす）
+  let afterCR = false
+  // 現在の行に1文字以上あるかどうか（末尾の改行の後に空の行を作らないため）
+  let rowStarted = false
+
+  const endField = () => {
+    row.push(field)
+    field = ''
+  }
+
+  const endRow = (rows: string[][]) => {
+    endField()
+    rows.push(row)
+    row = []
+    rowStarted = false
+  }
+
+  const push = (chunk: string): string[][] => {
+    if (separator === undefined) separator = detectDelimiter(chunk)
+    const rows: string[][] = []
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i]
+
+      if (afterCR) {
+        afterCR = false
+        if (char === '\n') continue
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false
+          if (char === '"') {
+            field += '"'
+            continue
+          }
+          inQuotes = false
+          // 閉じる " の後の文字は通常のフィールドとして続けて処理する
+        } else if (char === '"') {
+          quotePending = true
+          continue
+        } else {
+          field += char
+          continue
+        }
+      }
+
+      rowStarted = true
+      if (char === separator) {
+        endField()
+      } else if (char === '\n' || char === '\r') {
+        afterCR = char === '\r'
+        endRow(rows)
+      } else if (char === '"' && field === '') {
+        inQuotes = true
+      } else {
+        field += char
+      }
+    }
+
+    return rows
+  }
+
+  const end = (): string[][] => {
+    const rows: string[][] = []
+    if (rowStarted || inQuotes || field !== '') endRow(rows)
+    inQuotes = false
+    quotePending = false
+    return rows
+  }
+
+  return { push, end }
+}
+
+export function parseCsv(text: string, options: CsvParseOptions = {}): string[][] {
+  const parser = createCsvParser(options)
+  return [...parser.push(text), ...parser.end()]
+}
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+// 大きなファイルでも画面が固まらないよう、一定の文字数ごとに処理を戻しながら解析する
+// 戻り値は解析した行数
+export async function parseCsvInChunks(
+  text: string,
+  { delimiter, chunkSize = DEFAULT_CHUNK_SIZE, onRows, onProgress, signal }: CsvChunkOptions
+): Promise<number> {
+  const parser = createCsvParser({ delimiter: delimiter ?? detectDelimiter(text.slice(0, chunkSize)) })
+  let rowCount = 0
+
+  const emit = (rows: string[][]) => {
+    if (rows.length === 0) return
+    onRows(rows, rowCount)
+    rowCount += rows.length
+  }
+
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    if (signal?.aborted) throw new DOMException('CSV parsing was aborted', 'AbortError')
+    emit(parser.push(text.slice(offset, offset + chunkSize)))
+    onProgress?.(Math.min(1, (offset + chunkSize) / text.length))
+    await yieldToBrowser()
+  }
+  emit(parser.end())
+  return rowCount
+}
+
+// 区切り文字・"・改行を含むフィールドだけを " で囲む
+export function serializeCsv(
+  rows: string[][],
+  { delimiter = ',', lineEnding = '\r\n', quoteAll = false }: CsvSerializeOptions = {}
+): string {
+  const escapeField = (value: string) => {
+    const needsQuotes = quoteAll ||
+      value.includes(delimiter) ||
+      value.includes('"') ||
+      value.includes('\n') ||
+      value.includes('\r')
+    return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value
+  }
+
+  return rows.map(row => row.map(escapeField).join(delimiter)).join(lineEnding) + lineEnding
+}
+
+// BOM と UTF-8 として正しいかどうかで文字コードを判定する（それ以外は Shift_JIS とみなす）
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8-bom'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'utf-8'
+  } catch {
+    return 'shift_jis'
+  }
+}
+
+// BOM は取り除いて文字列に変換する
+export function decodeText(bytes: Uint8Array, encoding: CsvEncoding = detectEncoding(bytes)): string {
+  const label = encoding === 'utf-8-bom' ? 'utf-8' : encoding
+  return new TextDecoder(label).decode(bytes)
+}
+
+// Shift_JIS の文字 → バイト列の対応表（TextDecoder で全ての2バイト文字を変換して作る）
+let shiftJisTable: Map<string, number[]> | null = null
+
+function getShiftJisTable(): Map<string, number[]> {
+  if (shiftJisTable) return shiftJisTable
+
+  const table = new Map<string, number[]>()
+  const decoder = new TextDecoder('shift_jis')
+  // 半角カナ
+  for (let byte = 0xa1; byte <= 0xdf; byte++) {
+    table.set(decoder.decode(new Uint8Array([byte])), [byte])
+  }
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (lead > 0x9f && lead < 0xe0) continue
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) continue
+      const char = decoder.decode(new Uint8Array([lead, trail]))
+      // 同じ文字に複数の符号がある場合（NEC選定IBM拡張文字など）は先に見つかった方を使う
+      if (char !== '\ufffd' && !table.has(char)) table.set(char, [lead, trail])
+    }
+  }
+
+  shiftJisTable = table
+  return table
+}
+
+function encodeShiftJis(text: string): Uint8Array<ArrayBuffer> {
+  const table = getShiftJisTable()
+  const bytes: number[] = []
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (code < 0x80) {
+      bytes.push(code)
+    } else {
+      // Shift_JIS で表せない文字は ? にする
+      bytes.push(...(table.get(char) ?? [0x3f]))
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array<ArrayBuffer> {
+  const view = new DataView(new ArrayBuffer(2 + text.length * 2))
+  view.setUint16(0, 0xfeff, littleEndian)
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(2 + i * 2, text.charCodeAt(i), littleEndian)
+  }
+  return new Uint8Array(view.buffer)
+}
+
+// 指定した文字コードのバイト列に変換する（UTF-16 は BOM を付ける）
+export function encodeText(text: string, encoding: CsvEncoding = 'utf-8'): Uint8Array<ArrayBuffer> {
+  switch (encoding) {
+    case 'shift_jis':
+      return encodeShiftJis(text)
+    case 'utf-16le':
+      return encodeUtf16(text, true)
+    case 'utf-16be':
+      return encodeUtf16(text, false)
+    case 'utf-8-bom': {
+      const body = new TextEncoder().encode(text)
+      const bytes = new Uint8Array(body.length + 3)
+      bytes.set([0xef, 0xbb, 0xbf])
+      bytes.set(body, 3)
+      return bytes
+    }
+    default:
+      return new TextEncoder().encode(text)
+  }
+}
+
+// ファイルを読み込み、文字コードを判定して文字列にする
+export async function readCsvFile(file: Blob, encoding?: CsvEncoding): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  return decodeText(bytes, encoding ?? detectEncoding(bytes))
+}
+
+// ダウンロード用のファイルを作る（TSV の場合は type に text/tab-separated-values を指定する）
+export function createCsvBlob(text: string, encoding: CsvEncoding = 'utf-8-bom', type = 'text/csv'): Blob {
+  return new Blob([encodeText(text, encoding)], { type })
+}
+
+function toCellContent(value: string, inferTypes: boolean): CellContent {
+  if (inferTypes) return parseCellInput(value)
+  return value === '' ? { value } : { value, type: 'text' }
+}
+
+// data を使うグリッド向けに、解析した行をセルの配列に変換する
+export function csvRowsToData(rows: string[][], inferTypes = true): CellData[][] {
+  return rows.map(row => row.map(value => toCellContent(value, inferTypes)))
+}
+
+// 読み込む範囲に収まるセルの変更を作る（シートの行数・列数を超える行・列は読み込まない）
+export async function createCsvImportChanges(
+  text: string,
+  { rowCount, columnCount }: { rowCount: number; columnCount: number },
+  { origin = { row: 0, col: 0 }, inferTypes = true, ...options }: CsvImportOptions = {}
+): Promise<CsvImportResult & { changes: CellChange[] }> {
+  const changes: CellChange[] = []
+  let writtenRowCount = 0
+  let truncated = false
+  const parsedRowCount = await parseCsvInChunks(text, {
+    ...options,
+    onRows: (rows, startRow) => {
+      rows.forEach((values, rowOffset) => {
+        const row = origin.row + startRow + rowOffset
+        if (row >= rowCount) {
+          truncated = true
+          return
+        }
+        writtenRowCount++
+        values.forEach((value, colOffset) => {
+          const col = origin.col + colOffset
+          if (col >= columnCount) {
+            truncated = true
+            return
+          }
+          changes.push({ row, col, ...toCellContent(value, inferTypes) })
+        })
+      })
+    },
+  })
+  return { changes, rowCount: parsedRowCount, writtenRowCount, truncated }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DOCUMENT_FORMAT,
+  DOCUMENT_VERSION,
+  captureWorkbook,
+  createDocumentSheets,
+  migrateDocument,
+  parseWorkbookDocument,
+  serializeWorkbook,
+  type DocumentMigration,
+} from './document'
+import { createSheetModel } from './sheet'
+import { createWorkbookSheet } from './workbook'
+
+describe('migrateDocument', () => {
+  // バージョン 1 → 2 → 3 の変換（変換のたびに通った順を記録する）
+  const step = (from: number): DocumentMigration => (document) => {
+    const { steps = [] } = document as { steps?: string[] }
+    return { ...document, version: from + 1, steps: [...steps, `${from}→${from + 1}`] }
+  }
+  const migrations = { 1: step(1), 2: step(2) }
+
+  it('applies migrations in order up to the current version', () => {
+    expect(migrateDocument({ version: 1 }, 3, migrations)).toEqual({ version: 3, steps: ['1→2', '2→3'] })
+    expect(migrateDocument({ version: 2 }, 3, migrations)).toEqual({ version: 3, steps: ['2→3'] })
+  })
+
+  it('returns documents of the current version unchanged', () => {
+    const document = { version: 3 }
+    expect(migrateDocument(document, 3, migrations)).toBe(document)
+  })
+
+  it('rejects versions that cannot be migrated', () => {
+    expect(() => migrateDocument({ version: 0 }, 3, migrations)).toThrow('Unsupported workbook document version: 0')
+    expect(() => migrateDocument({ version: 4 }, 3, migrations)).toThrow('Unsupported workbook document version: 4')
+  })
+
+  it('has no migrations before the first released version', () => {
+    expect(DOCUMENT_VERSION).toBe(1)
+    expect(() => migrateDocument({ version: 0 })).toThrow()
+  })
+})
+
+describe('workbook documents', () => {
+  it('round-trips sheets through JSON', async () => {
+    const model = createSheetModel({ rowCount: 100, columnCount: 10 })
+    model.setCell(0, 0, { value: 1.5, type: 'number', format: '[h]:mm' })
+    model.setCell(2, 1, { value: '=Data!A1', editable: false })
+    const sheets = [createWorkbookSheet('Sheet1', { model }), createWorkbookSheet('Data', { color: '#ff0000' })]
+
+    const json = await serializeWorkbook(captureWorkbook(
+      'Budget',
+      sheets.map(sheet => ({ sheet, state: { frozenRowCount: 1 } })),
+      1
+    ))
+    const document = parseWorkbookDocument(json)
+    expect(document).toMatchObject({ format: DOCUMENT_FORMAT, version: DOCUMENT_VERSION, title: 'Budget', activeSheet: 1 })
+    expect(document.sheets[0].cells).toEqual({
+      A1: { value: 1.5, type: 'number', format: '[h]:mm' },
+      B3: { value: '=Data!A1', editable: false },
+    })
+
+    const [sheet, data] = createDocumentSheets(document)
+    expect(sheet.model.getCell(2, 1)).toEqual({ value: '=Data!A1', editable: false })
+    expect(sheet.initialState).toMatchObject({ frozenRowCount: 1 })
+    expect(data).toMatchObject({ name: 'Data', color: '#ff0000' })
+  })
+
+  it('rejects data that is not a workbook document', () => {
+    expect(() => parseWorkbookDocument('{"version":1}')).toThrow('The data is not a workbook document')
+    expect(() => parseWorkbookDocument(JSON.stringify({ format: DOCUMENT_FORMAT, version: 1, sheets: [] })))
+      .toThrow('The workbook document has no sheets')
+  })
+})
@@ -0,0 +1,160 @@
+import type { CellData, CellRange } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT, MAX_ROW_COUNT, formatCellAddress, parseCellAddress } from './address'
+import type { ConditionalFormat } from './conditional'
+import { createSheetModel, type AxisStyles } from './sheet'
+import type { SizeOverrides } from './sizes'
+import type { DataValidation } from './validation'
+import { createWorkbookSheet, type SheetState, type WorkbookSheet } from './workbook'
+
+// ブックを保存する JSON の形式（形式を変えたら DOCUMENT_VERSION を上げて MIGRATIONS に変換を追加する）
+export const DOCUMENT_FORMAT = 'spreadsheet-workbook'
+export const DOCUMENT_VERSION = 1
+
+export interface SheetDocument {
+  name: string
+  color?: string
+  rowCount: number
+  columnCount: number
+  // 値か書式を持つセル（キーは A1 形式の番地）
+  cells: Record<string, CellData>
+  rowStyles?: AxisStyles
+  columnStyles?: AxisStyles
+  columnWidths?: SizeOverrides
+  rowHeights?: SizeOverrides
+  frozenRowCount?: number
+  frozenColumnCount?: number
+  merges?: CellRange[]
+  conditionalFormats?: ConditionalFormat[]
+  dataValidations?: DataValidation[]
+}
+
+export interface WorkbookDocument {
+  format: typeof DOCUMENT_FORMAT
+  version: typeof DOCUMENT_VERSION
+  title: string
+  // 表示していたシートの位置
+  activeSheet: number
+  sheets: SheetDocument[]
+}
+
+// 文書をあるバージョンから次のバージョンの形式に変換する
+export type DocumentMigration = (document: { version: number }) => { version: number }
+
+// 各バージョンから次のバージョンへの変換（キーは変換前のバージョン）
+const MIGRATIONS: Record<number, DocumentMigration> = {}
+
+// 古いバージョンの文書を順に変換して version の形式にする（変換できない場合は例外）
+export function migrateDocument(
+  document: { version: number },
+  version: number = DOCUMENT_VERSION,
+  migrations: Record<number, DocumentMigration> = MIGRATIONS
+): { version: number } {
+  if (document.version > version) {
+    throw new Error(`Unsupported workbook document version: ${document.version}`)
+  }
+  let current = document
+  while (current.version < version) {
+    const migrate = migrations[current.version]
+    if (!migrate) throw new Error(`Unsupported workbook document version: ${current.version}`)
+    current = migrate(current)
+  }
+  return current
+}
+
+// 保存する時点のシート（セルはモデルの値をそのまま参照し、書き出すときに文字列にする）
+export interface SheetSnapshot extends Omit<SheetDocument, 'cells'> {
+  cells: Array<[row: number, col: number, cell: CellData]>
+}
+
+export interface WorkbookSnapshot {
+  title: string
+  activeSheet: number
+  sheets: SheetSnapshot[]
+}
+
+// 保存する内容を取り出す（セルの参照を集めるだけにして、文字列への変換は serializeWorkbook で少しずつ行う）
+export function captureWorkbook(
+  title: string,
+  sheets: Array<{ sheet: WorkbookSheet; state: SheetState }>,
+  activeSheet: number
+): WorkbookSnapshot {
+  return {
+    title,
+    activeSheet,
+    sheets: sheets.map(({ sheet, state }) => {
+      const cells: SheetSnapshot['cells'] = []
+      sheet.model.forEachCell((cell, row, col) => cells.push([row, col, cell]))
+      return {
+        name: sheet.name,
+        color: sheet.color,
+        rowCount: sheet.model.rowCount,
+        columnCount: sheet.model.columnCount,
+        cells,
+        rowStyles: sheet.model.getAxisStyles('row'),
+        columnStyles: sheet.model.getAxisStyles('column'),
+        ...state,
+      }
+    }),
+  }
+}
+
+// 一度に文字列にするセルの数（大きなシートでも入力を止めないよう、この数ごとに処理を譲る）
+const SERIALIZE_CHUNK_SIZE = 2000
+
+const yieldToMain = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+// 保存する JSON の文字列（セルを少しずつ変換し、その間も入力などの処理が進むようにする）
+export async function serializeWorkbook(snapshot: WorkbookSnapshot): Promise<string> {
+  const sheets: string[] = []
+  for (const { cells, ...sheet } of snapshot.sheets) {
+    const entries: string[] = []
+    for (let i = 0; i < cells.length; i += SERIALIZE_CHUNK_SIZE) {
+      if (i > 0) await yieldToMain()
+      for (const [row, col, cell] of cells.slice(i, i + SERIALIZE_CHUNK_SIZE)) {
+        entries.push(`${JSON.stringify(formatCellAddress({ row, col }))}:${JSON.stringify(cell)}`)
+      }
+    }
+    // cells 以外のプロパティの後ろにセルを続ける
+    sheets.push(`${JSON.stringify(sheet).slice(0, -1)},"cells":{${entries.join(',')}}}`)
+    await yieldToMain()
+  }
+  const header = JSON.stringify({
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    title: snapshot.title,
+    activeSheet: snapshot.activeSheet,
+  })
+  return `${header.slice(0, -1)},"sheets":[${sheets.join(',')}]}`
+}
+
+// 保存した JSON を読み込む（古いバージョンは現在の形式に変換する）
+export function parseWorkbookDocument(json: string): WorkbookDocument {
+  const parsed = JSON.parse(json)
+  if (parsed?.format !== DOCUMENT_FORMAT || typeof parsed.version !== 'number') {
+    throw new Error('The data is not a workbook document')
+  }
+  const data = migrateDocument(parsed) as Partial<WorkbookDocument>
+  if (!Array.isArray(data.sheets) || data.sheets.length === 0) {
+    throw new Error('The workbook document has no sheets')
+  }
+  return data as WorkbookDocument
+}
+
+// 読み込んだ文書からブックのシートを作る
+export function createDocumentSheets(document: WorkbookDocument): WorkbookSheet[] {
+  return document.sheets.map(({ name, color, rowCount, columnCount, cells, rowStyles, columnStyles, ...state }) => {
+    const model = createSheetModel({
+      rowCount: Math.min(rowCount, MAX_ROW_COUNT),
+      columnCount: Math.min(columnCount, MAX_COLUMN_COUNT),
+    })
+    model.batch(() => {
+      for (const [address, cell] of Object.entries(cells)) {
+        const position = parseCellAddress(address)
+        if (position) model.setCell(position.row, position.col, cell)
+      }
+    })
+    if (rowStyles) model.setAxisStyles('row', rowStyles)
+    if (columnStyles) model.setAxisStyles('column', columnStyles)
+    return createWorkbookSheet(name, { model, color, initialState: state })
+  })
+}
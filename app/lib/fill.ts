@@ -0,0 +1,230 @@
+import type { CellChange, CellContent, CellData, CellPosition, CellRange } from '../types/spreadsheet'
+import { normalizeRange } from './range'
+import { dateToSerial, serialToDate } from './format'
+import { isFormulaInput } from './formula/engine'
+import { shiftFormulaReferences } from './formula/transform'
+import { formatNumber, parseLiteral } from './formula/values'
+
+export type FillDirection = 'down' | 'up' | 'right' | 'left'
+
+// 元の範囲の先頭からの位置（上・左へのフィルでは負）に入れる内容を返す
+type FillSeries = (index: number) => CellContent
+
+// 連続データとして扱う名前の一覧（曜日・月）
+const FILL_LISTS: string[][] = [
+  ['日', '月', '火', '水', '木', '金', '土'],
+  ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'],
+  ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+  ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  Array.from({ length: 12 }, (_, i) => `${i + 1}月`),
+  ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+  ],
+]
+
+// 末尾が数字の文字列（"Item 1" → "Item " と "1"）
+const TRAILING_NUMBER_PATTERN = /^(.*?)(\d+)$/
+
+const mod = (n: number, m: number) => ((n % m) + m) % m
+
+// マウス位置まで広げたフィル先の範囲（元の範囲から離れている方向にだけ広げる）
+export function getFillRange(source: CellRange, position: CellPosition): CellRange {
+  const { top, bottom, left, right } = normalizeRange(source)
+  const rowDistance = position.row > bottom ? position.row - bottom : position.row < top ? top - position.row : 0
+  const colDistance = position.col > right ? position.col - right : position.col < left ? left - position.col : 0
+
+  if (rowDistance === 0 && colDistance === 0) {
+    return { start: { row: top, col: left }, end: { row: bottom, col: right } }
+  }
+  if (rowDistance >= colDistance) {
+    return {
+      start: { row: Math.min(top, position.row), col: left },
+      end: { row: Math.max(bottom, position.row), col: right },
+    }
+  }
+  return {
+    start: { row: top, col: Math.min(left, position.col) },
+    end: { row: bottom, col: Math.max(right, position.col) },
+  }
+}
+
+// 元の範囲からフィル先の範囲へ広げた方向（広がっていない場合は null）
+export function getFillDirection(source: CellRange, target: CellRange): FillDirection | null {
+  const from = normalizeRange(source)
+  const to = normalizeRange(target)
+  if (to.bottom > from.bottom) return 'down'
+  if (to.top < from.top) return 'up'
+  if (to.right > from.right) return 'right'
+  if (to.left < from.left) return 'left'
+  return null
+}
+
+function toContent(cell: CellData | undefined, value: string): CellContent {
+  return { value, type: cell?.type, format: cell?.format, style: cell?.style }
+}
+
+function toNumberValue(cell: CellData | undefined): number | null {
+  if (!cell || cell.type === 'text') return null
+  const value = parseLiteral(cell.value)
+  return typeof value === 'number' ? value : null
+}
+
+// 最小二乗法で求めた直線（等差数列の場合は公差そのもの）
+function linearTrend(values: number[]): (index: number) => number {
+  const n = values.length
+  const meanX = (n - 1) / 2
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n
+  let numerator = 0
+  let denominator = 0
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY)
+    denominator += (x - meanX) ** 2
+  })
+  const slope = numerator / denominator
+  return (index: number) => meanY + slope * (index - meanX)
+}
+
+function addMonths(serial: number, months: number): number {
+  const date = serialToDate(serial)
+  const total = date.getUTCFullYear() * 12 + date.getUTCMonth() + months
+  const year = Math.floor(total / 12)
+  const month = mod(total, 12) + 1
+  // 月末を超える日は月末にする（1/31 の1か月後は 2/28）
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return dateToSerial(year, month, Math.min(date.getUTCDate(), lastDay))
+}
+
+// 日付の連続データ（日付が同じで月だけが一定間隔で変わる場合は月単位）
+function createDateSeries(cells: (CellData | undefined)[], serials: number[]): FillSeries {
+  const first = cells[0]
+  if (serials.length === 1) {
+    return index => toContent(first, formatNumber(serials[0] + index))
+  }
+
+  const dates = serials.map(serialToDate)
+  const months = dates.map(date => date.getUTCFullYear() * 12 + date.getUTCMonth())
+  const monthStep = months[1] - months[0]
+  const isMonthly = monthStep !== 0 &&
+    serials.every(serial => Number.isInteger(serial)) &&
+    dates.every(date => date.getUTCDate() === dates[0].getUTCDate()) &&
+    months.every((month, i) => i === 0 || month - months[i - 1] === monthStep)
+  if (isMonthly) {
+    return index => toContent(first, formatNumber(addMonths(serials[0], monthStep * index)))
+  }
+
+  const trend = linearTrend(serials)
+  return index => toContent(first, formatNumber(trend(index)))
+}
+
+// 曜日・月の名前の連続データ（同じ一覧に含まれ、間隔が一定の場合のみ）
+function createListSeries(cells: (CellData | undefined)[], texts: string[]): FillSeries | null {
+  for (const list of FILL_LISTS) {
+    const lowerList = list.map(name => name.toLowerCase())
+    const indexes = texts.map(text => lowerList.indexOf(text.toLowerCase()))
+    if (indexes.some(index => index === -1)) continue
+
+    const step = indexes.length > 1 ? mod(indexes[1] - indexes[0], list.length) : 1
+    if (!indexes.every((index, i) => i === 0 || mod(index - indexes[i - 1], list.length) === step)) continue
+
+    // 先頭の値が大文字・小文字だけで書かれていれば合わせる
+    const sample = texts[0]
+    const applyCase = (name: string) =>
+      sample === sample.toUpperCase() && sample !== sample.toLowerCase() ? name.toUpperCase()
+        : sample === sample.toLowerCase() && sample !== sample.toUpperCase() ? name.toLowerCase()
+        : name
+    return index => toContent(cells[0], applyCase(list[mod(indexes[0] + step * index, list.length)]))
+  }
+  return null
+}
+
+// 末尾の数字だけを増やす連続データ（"Item 1", "Item 2", …）
+function createTrailingNumberSeries(cells: (CellData | undefined)[], texts: string[]): FillSeries | null {
+  const matches = texts.map(text => TRAILING_NUMBER_PATTERN.exec(text))
+  if (matches.some(match => !match || match[1] !== matches[0]![1])) return null
+
+  const [, prefix, digits] = matches[0]!
+  // 001 のように0で埋めた数字は桁数を保つ
+  const width = digits.startsWith('0') ? digits.length : 1
+  const numbers = matches.map(match => Number(match![2]))
+  const trend = numbers.length > 1 ? linearTrend(numbers) : (index: number) => numbers[0] + index
+  return index => {
+    const number = Math.abs(Math.round(trend(index)))
+    return toContent(cells[0], `${prefix}${String(number).padStart(width, '0')}`)
+  }
+}
+
+// 元のセルを繰り返してコピーする（数式はコピー先に合わせて相対参照をずらす）
+function createCopySeries(
+  cells: (CellData | undefined)[],
+  shiftFormula: (formula: string, distance: number) => string
+): FillSeries {
+  return index => {
+    const sourceIndex = mod(index, cells.length)
+    const cell = cells[sourceIndex]
+    const value = String(cell?.value ?? '')
+    return toContent(cell, isFormulaInput(value) ? shiftFormula(value, index - sourceIndex) : value)
+  }
+}
+
+// 1行（または1列）分の元のセルから連続データの種類を判定する
+function detectSeries(
+  cells: (CellData | undefined)[],
+  shiftFormula: (formula: string, distance: number) => string
+): FillSeries {
+  const copy = createCopySeries(cells, shiftFormula)
+  if (cells.some(cell => !cell || cell.value === '' || isFormulaInput(String(cell.value)))) return copy
+
+  const numbers = cells.map(toNumberValue)
+  if (numbers.every(number => number !== null)) {
+    const values = numbers as number[]
+    if (cells.every(cell => cell?.type === 'date')) return createDateSeries(cells, values)
+    // 数値が1つだけの場合はコピーする
+    if (values.length === 1) return copy
+    const trend = linearTrend(values)
+    return index => toContent(cells[mod(index, cells.length)], formatNumber(trend(index)))
+  }
+  if (numbers.some(number => number !== null)) return copy
+
+  const texts = cells.map(cell => String(cell!.value))
+  return createListSeries(cells, texts) ?? createTrailingNumberSeries(cells, texts) ?? copy
+}
+
+// 元の範囲の内容をフィル先の範囲（元の範囲を含む）へ広げる変更
+export function createFillChanges(
+  source: CellRange,
+  target: CellRange,
+  getCell: (row: number, col: number) => CellData | undefined
+): CellChange[] {
+  const direction = getFillDirection(source, target)
+  if (!direction) return []
+
+  const from = normalizeRange(source)
+  const to = normalizeRange(target)
+  const changes: CellChange[] = []
+
+  if (direction === 'down' || direction === 'up') {
+    for (let col = from.left; col <= from.right; col++) {
+      const cells: (CellData | undefined)[] = []
+      for (let row = from.top; row <= from.bottom; row++) cells.push(getCell(row, col))
+      const series = detectSeries(cells, (formula, distance) => shiftFormulaReferences(formula, distance, 0))
+      for (let row = to.top; row <= to.bottom; row++) {
+        if (row >= from.top && row <= from.bottom) continue
+        changes.push({ row, col, ...series(row - from.top) })
+      }
+    }
+  } else {
+    for (let row = from.top; row <= from.bottom; row++) {
+      const cells: (CellData | undefined)[] = []
+      for (let col = from.left; col <= from.right; col++) cells.push(getCell(row, col))
+      const series = detectSeries(cells, (formula, distance) => shiftFormulaReferences(formula, 0, distance))
+      for (let col = to.left; col <= to.right; col++) {
+        if (col >= from.left && col <= from.right) continue
+        changes.push({ row, col, ...series(col - from.left) })
+      }
+    }
+  }
+
+  return changes
+}
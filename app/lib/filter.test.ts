@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { ScalarValue } from './formula/values'
+import { getDistinctValues, getFilteredRows, matchesFilter, type AutoFilter } from './filter'
+
+// 見出し行と、列 A に文字列・列 B に数値のデータ
+const values: ScalarValue[][] = [
+  ['名前', '点数'],
+  ['Apple', 10],
+  ['banana', 2],
+  ['', 30],
+  ['apple pie', null],
+]
+const getValue = (row: number, col: number) => values[row][col]
+const getText = (row: number, col: number) => String(values[row][col] ?? '')
+const filterOf = (columns: AutoFilter['columns']): AutoFilter => ({
+  range: { start: { row: 0, col: 0 }, end: { row: 4, col: 1 } },
+  columns,
+})
+
+describe('matchesFilter', () => {
+  it('matches text conditions without case sensitivity', () => {
+    expect(matchesFilter({ type: 'text', operator: 'beginsWith', value: 'APP' }, 'apple', 'apple')).toBe(true)
+    expect(matchesFilter({ type: 'text', operator: 'notContains', value: 'pie' }, 'apple pie', 'apple pie')).toBe(false)
+  })
+
+  it('matches number conditions only for numbers', () => {
+    const between = { type: 'number' as const, operator: 'between' as const, value: 10, value2: 1 }
+    expect(matchesFilter(between, 5, '5')).toBe(true)
+    expect(matchesFilter(between, '5', '5')).toBe(false)
+  })
+
+  it('compares dates by day', () => {
+    expect(matchesFilter({ type: 'date', operator: 'equals', value: 45296 }, 45296.75, '2024/1/5 18:00')).toBe(true)
+    expect(matchesFilter({ type: 'date', operator: 'after', value: 45296.1 }, 45296.9, '2024/1/5')).toBe(false)
+  })
+})
+
+describe('getFilteredRows', () => {
+  it('hides rows that fail any condition but never the header row', () => {
+    const filter = filterOf({
+      0: { type: 'text', operator: 'contains', value: 'a' },
+      1: { type: 'number', operator: '>=', value: 5 },
+    })
+    expect([...getFilteredRows(filter, getValue, getText)]).toEqual([2, 3, 4])
+  })
+
+  it('selects blank cells by the empty string', () => {
+    const filter = filterOf({ 0: { type: 'values', values: ['', 'banana'] } })
+    expect([...getFilteredRows(filter, getValue, getText)]).toEqual([1, 4])
+  })
+
+  it('hides nothing without conditions', () => {
+    expect(getFilteredRows(filterOf({}), getValue, getText).size).toBe(0)
+  })
+})
+
+describe('getDistinctValues', () => {
+  it('lists numbers in value order, then text, then blanks', () => {
+    expect(getDistinctValues(filterOf({}), 1, getValue, getText)).toEqual(['2', '10', '30', ''])
+    expect(getDistinctValues(filterOf({}), 0, getValue, getText)).toEqual(['Apple', 'apple pie', 'banana', ''])
+  })
+})
@@ -0,0 +1,127 @@
+import type { CellRange } from '../types/spreadsheet'
+import { normalizeRange } from './range'
+import { DEFAULT_LOCALE } from './format'
+import { getCollator } from './sort'
+import type { ScalarValue } from './formula/values'
+
+export type TextFilterOperator = 'contains' | 'notContains' | 'equals' | 'notEquals' | 'beginsWith' | 'endsWith'
+export type NumberFilterOperator = '=' | '<>' | '>' | '>=' | '<' | '<=' | 'between'
+export type DateFilterOperator = 'equals' | 'before' | 'after' | 'between'
+
+// 列ごとの絞り込みの条件
+export type FilterCondition =
+  // 表示されている値で選ぶ（空白のセルは ''）
+  | { type: 'values'; values: string[] }
+  // 大文字・小文字は区別しない
+  | { type: 'text'; operator: TextFilterOperator; value: string }
+  | { type: 'number'; operator: NumberFilterOperator; value: number; value2?: number }
+  // 日付はシリアル値で指定し、時刻は無視して日単位で比較する
+  | { type: 'date'; operator: DateFilterOperator; value: number; value2?: number }
+
+export interface AutoFilter {
+  // 見出し行を含む範囲（先頭の行は絞り込まない）
+  range: CellRange
+  // 列番号 → 条件
+  columns: Record<number, FilterCondition>
+}
+
+function matchesText(operator: TextFilterOperator, text: string, value: string): boolean {
+  const target = text.toLowerCase()
+  const query = value.toLowerCase()
+  switch (operator) {
+    case 'contains': return target.includes(query)
+    case 'notContains': return !target.includes(query)
+    case 'equals': return target === query
+    case 'notEquals': return target !== query
+    case 'beginsWith': return target.startsWith(query)
+    case 'endsWith': return target.endsWith(query)
+  }
+}
+
+function matchesNumber(operator: NumberFilterOperator, number: number, value: number, value2?: number): boolean {
+  switch (operator) {
+    case '=': return number === value
+    case '<>': return number !== value
+    case '>': return number > value
+    case '>=': return number >= value
+    case '<': return number < value
+    case '<=': return number <= value
+    case 'between': return number >= Math.min(value, value2 ?? value) && number <= Math.max(value, value2 ?? value)
+  }
+}
+
+function matchesDate(operator: DateFilterOperator, serial: number, value: number, value2?: number): boolean {
+  const day = Math.floor(serial)
+  const from = Math.floor(value)
+  switch (operator) {
+    case 'equals': return day === from
+    case 'before': return day < from
+    case 'after': return day > from
+    case 'between': {
+      const to = Math.floor(value2 ?? value)
+      return day >= Math.min(from, to) && day <= Math.max(from, to)
+    }
+  }
+}
+
+// 計算済みの値と表示されている文字列が条件に合うかどうか
+export function matchesFilter(condition: FilterCondition, value: ScalarValue, text: string): boolean {
+  switch (condition.type) {
+    case 'values':
+      return condition.values.includes(text)
+    case 'text':
+      return matchesText(condition.operator, text, condition.value)
+    case 'number':
+      return typeof value === 'number' && matchesNumber(condition.operator, value, condition.value, condition.value2)
+    case 'date':
+      return typeof value === 'number' && matchesDate(condition.operator, value, condition.value, condition.value2)
+  }
+}
+
+// 条件に合わないため非表示にする行（見出し行は含めない）
+export function getFilteredRows(
+  filter: AutoFilter,
+  getValue: (row: number, col: number) => ScalarValue,
+  getText: (row: number, col: number) => string
+): Set<number> {
+  const hidden = new Set<number>()
+  const { top, bottom } = normalizeRange(filter.range)
+  const conditions = Object.entries(filter.columns).map(([col, condition]) => ({ col: Number(col), condition }))
+  if (conditions.length === 0) return hidden
+
+  for (let row = top + 1; row <= bottom; row++) {
+    const isVisible = conditions.every(({ col, condition }) =>
+      matchesFilter(condition, getValue(row, col), getText(row, col))
+    )
+    if (!isVisible) hidden.add(row)
+  }
+  return hidden
+}
+
+// 列に表示されている値の一覧（値で絞り込む場合の選択肢）
+export function getDistinctValues(
+  filter: AutoFilter,
+  col: number,
+  getValue: (row: number, col: number) => ScalarValue,
+  getText: (row: number, col: number) => string,
+  locale: string = DEFAULT_LOCALE
+): string[] {
+  const { top, bottom } = normalizeRange(filter.range)
+  // 数値は値の順、文字列は照合順序で並べる
+  const values = new Map<string, ScalarValue>()
+  for (let row = top + 1; row <= bottom; row++) {
+    const text = getText(row, col)
+    if (!values.has(text)) values.set(text, getValue(row, col))
+  }
+
+  const collator = getCollator(locale)
+  return [...values.entries()]
+    .sort(([textA, a], [textB, b]) => {
+      if (textA === '' || textB === '') return Number(textA === '') - Number(textB === '')
+      if (typeof a === 'number' && typeof b === 'number') return a - b
+      if (typeof a === 'number') return -1
+      if (typeof b === 'number') return 1
+      return collator.compare(textA, textB)
+    })
+    .map(([text]) => text)
+}
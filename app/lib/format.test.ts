@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { formatCellValue, formatContentInput, isDateFormat, parseCellInput } from './format'
+
+describe('elapsed time formats', () => {
+  it.each([
+    [1.5, '[h]:mm', '36:00'],
+    [1.5, '[hh]:mm:ss', '36:00:00'],
+    [0.25, '[h]:mm', '6:00'],
+    [1 / 24 + 5 / 1440, '[m]:ss', '65:00'],
+    [90 / 86400, '[s]', '90'],
+    [2 + 30 / 1440 + 15 / 86400, '[h]:mm:ss', '48:30:15'],
+  ])('formats %f with %s as %s', (value, format, expected) => {
+    expect(formatCellValue(value, { type: 'number', format })).toBe(expected)
+  })
+
+  it('keeps ignoring colors and conditions in brackets', () => {
+    expect(formatCellValue(1.5, { type: 'number', format: '[Red]0.0' })).toBe('1.5')
+  })
+
+  it('treats elapsed time formats as date formats', () => {
+    expect(isDateFormat('[h]:mm')).toBe(true)
+  })
+})
+
+describe('formatContentInput', () => {
+  // onCellEdit だけを受け取る場合に渡す文字列は、入力した形に戻る
+  it.each(['2024/1/5', '2024/1/5 9:30', '9:30', '50%', '12.5%', '¥1,000', '1,234', '1234', 'abc', '=A1*2', ''])(
+    'returns %j as it was typed',
+    (input) => {
+      const content = parseCellInput(input)
+      expect(formatContentInput(content)).toBe(input)
+      expect(parseCellInput(formatContentInput(content))).toEqual(content)
+    }
+  )
+
+  it('keeps text cells as they are', () => {
+    expect(formatContentInput({ value: '0001', type: 'text' })).toBe('0001')
+  })
+})
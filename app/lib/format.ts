@@ -0,0 +1,589 @@
+import type { CellContent, CellData } from '../types/spreadsheet'
+import { displayValue, formatNumber, isFormulaError, parseLiteral, type ScalarValue } from './formula/values'
+
+// 表示形式の既定のロケール
+export const DEFAULT_LOCALE = 'ja-JP'
+
+// type: 'date' で表示形式の指定がない場合の表示形式
+export const DEFAULT_DATE_FORMAT = 'yyyy/m/d'
+
+export type CellAlignment = 'left' | 'center' | 'right'
+
+type CellFormatting = Pick<CellData, 'type' | 'format'>
+
+// 日付・時刻はExcelと同じく 1899/12/30 を 0 とするシリアル値で扱う
+// （1900/3/1 より前の日付についてはExcelの1900年うるう年の不具合を再現しない）
+const MS_PER_DAY = 86400000
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30)
+// 9999/12/31（これを超える値は日付として表示しない）
+const MAX_DATE_SERIAL = 2958465
+
+export function dateToSerial(
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): number {
+  return (Date.UTC(year, month - 1, day, hours, minutes, seconds) - SERIAL_EPOCH) / MS_PER_DAY
+}
+
+// シリアル値を UTC の日時に変換（秒未満は丸める）
+export function serialToDate(serial: number): Date {
+  return new Date(SERIAL_EPOCH + Math.round(serial * 86400) * 1000)
+}
+
+type DatePart =
+  | 'year2' | 'year4'
+  | 'month' | 'month2' | 'monthShort' | 'monthLong'
+  | 'day' | 'day2' | 'weekdayShort' | 'weekdayLong'
+  | 'hour' | 'hour2' | 'minute' | 'minute2' | 'second' | 'second2'
+  | 'ampm' | 'ap'
+  // [h] / [m] / [s] の経過時間（24時間・60分・60秒を超えても繰り上げない）
+  | 'elapsedHours' | 'elapsedHours2' | 'elapsedMinutes' | 'elapsedMinutes2' | 'elapsedSeconds' | 'elapsedSeconds2'
+
+type FormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'number' }
+  | { type: 'text' }
+  | { type: 'date'; part: DatePart }
+
+interface NumberPattern {
+  // 整数部の 0 の数（最小桁数）
+  integerDigits: number
+  fractionMin: number
+  fractionMax: number
+  grouping: boolean
+  // 指数表示（0.00E+00）の指数部の桁数
+  exponentDigits: number | null
+  // % は 100 倍、数値の末尾の , は 1/1000
+  scale: number
+}
+
+interface FormatSection {
+  kind: 'general' | 'number' | 'date' | 'text'
+  tokens: FormatToken[]
+  number: NumberPattern
+  // AM/PM の指定がある場合は12時間表記
+  hour12: boolean
+}
+
+const DATE_TOKEN_PATTERN = /^(y+|m+|d+|h+|s+|a{3,4})/i
+const ELAPSED_TOKEN_PATTERN = /^(h+|m+|s+)$/i
+
+function parseElapsedToken(token: string): DatePart {
+  const short = token.length === 1
+  switch (token[0].toLowerCase()) {
+    case 'h': return short ? 'elapsedHours' : 'elapsedHours2'
+    case 'm': return short ? 'elapsedMinutes' : 'elapsedMinutes2'
+    default: return short ? 'elapsedSeconds' : 'elapsedSeconds2'
+  }
+}
+
+function parseDateToken(token: string): DatePart {
+  const length = token.length
+  switch (token[0].toLowerCase()) {
+    case 'y':
+      return length <= 2 ? 'year2' : 'year4'
+    case 'm':
+      return length === 1 ? 'month' : length === 2 ? 'month2' : length === 3 ? 'monthShort' : 'monthLong'
+    case 'd':
+      return length === 1 ? 'day' : length === 2 ? 'day2' : length === 3 ? 'weekdayShort' : 'weekdayLong'
+    case 'h':
+      return length === 1 ? 'hour' : 'hour2'
+    case 's':
+      return length === 1 ? 'second' : 'second2'
+    default:
+      // aaa / aaaa（日本語の曜日）
+      return length === 3 ? 'weekdayShort' : 'weekdayLong'
+  }
+}
+
+// m / mm は時の直後または秒の直前にある場合は「分」を表す
+function resolveMinutes(tokens: FormatToken[]) {
+  const dateTokens = tokens.filter((token): token is Extract<FormatToken, { type: 'date' }> => token.type === 'date')
+  dateTokens.forEach((token, i) => {
+    if (token.part !== 'month' && token.part !== 'month2') return
+    const prev = dateTokens[i - 1]?.part
+    const next = dateTokens[i + 1]?.part
+    const isMinute =
+      prev === 'hour' || prev === 'hour2' || prev === 'elapsedHours' || prev === 'elapsedHours2' ||
+      next === 'second' || next === 'second2'
+    if (isMinute) {
+      token.part = token.part === 'month' ? 'minute' : 'minute2'
+    }
+  })
+}
+
+// 数値の書式（0, #, ?, カンマ, 小数点, 指数）を読み取り、読み終えた位置を返す
+function parseNumberPattern(code: string, start: number, pattern: NumberPattern): number {
+  let i = start
+  let inFraction = false
+  let pendingCommas = 0
+
+  while (i < code.length) {
+    const char = code[i]
+    if (char === '0' || char === '#' || char === '?') {
+      if (pendingCommas > 0) {
+        pattern.grouping = true
+        pendingCommas = 0
+      }
+      if (pattern.exponentDigits !== null) {
+        pattern.exponentDigits++
+      } else if (inFraction) {
+        pattern.fractionMax++
+        if (char === '0') pattern.fractionMin++
+      } else if (char === '0') {
+        pattern.integerDigits++
+      }
+    } else if (char === ',') {
+      pendingCommas++
+    } else if (char === '.' && !inFraction && pattern.exponentDigits === null) {
+      inFraction = true
+    } else if ((char === 'E' || char === 'e') && /[+-]/.test(code[i + 1] ?? '')) {
+      pattern.exponentDigits = 0
+      i++
+    } else {
+      break
+    }
+    i++
+  }
+
+  // 数値の末尾のカンマは千単位の表示
+  pattern.scale /= Math.pow(1000, pendingCommas)
+  return i
+}
+
+function parseSection(code: string): FormatSection {
+  const tokens: FormatToken[] = []
+  const number: NumberPattern = {
+    integerDigits: 0,
+    fractionMin: 0,
+    fractionMax: 0,
+    grouping: false,
+    exponentDigits: null,
+    scale: 1,
+  }
+  let hour12 = false
+  let isGeneral = false
+
+  const pushLiteral = (text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last?.type === 'literal') {
+      last.text += text
+    } else if (text) {
+      tokens.push({ type: 'literal', text })
+    }
+  }
+
+  let i = 0
+  while (i < code.length) {
+    const char = code[i]
+    const rest = code.slice(i)
+    const lower = rest.toLowerCase()
+
+    if (char === '"') {
+      const end = code.indexOf('"', i + 1)
+      pushLiteral(code.slice(i + 1, end === -1 ? undefined : end))
+      i = end === -1 ? code.length : end + 1
+    } else if (char === '\\') {
+      pushLiteral(code[i + 1] ?? '')
+      i += 2
+    } else if (char === '_') {
+      // 次の文字の幅の空白
+      pushLiteral(' ')
+      i += 2
+    } else if (char === '*') {
+      // 繰り返しによる幅合わせは行わない
+      i += 2
+    } else if (char === '[') {
+      // [h]:mm などの経過時間と [$¥-411] の通貨記号を表示し、[Red] などの色・条件は無視する
+      const end = code.indexOf(']', i)
+      const content = code.slice(i + 1, end === -1 ? undefined : end)
+      const currency = /^\$([^-]*)/.exec(content)
+      if (ELAPSED_TOKEN_PATTERN.test(content)) {
+        tokens.push({ type: 'date', part: parseElapsedToken(content) })
+      } else if (currency) {
+        pushLiteral(currency[1])
+      }
+      i = end === -1 ? code.length : end + 1
+    } else if (lower.startsWith('general')) {
+      tokens.push({ type: 'number' })
+      isGeneral = true
+      i += 'general'.length
+    } else if (lower.startsWith('am/pm')) {
+      tokens.push({ type: 'date', part: 'ampm' })
+      hour12 = true
+      i += 'am/pm'.length
+    } else if (lower.startsWith('a/p')) {
+      tokens.push({ type: 'date', part: 'ap' })
+      hour12 = true
+      i += 'a/p'.length
+    } else if (char === '@') {
+      tokens.push({ type: 'text' })
+      i++
+    } else if ('0#?'.includes(char) || (char === '.' && /[0#?]/.test(code[i + 1] ?? ''))) {
+      if (!tokens.some(token => token.type === 'number')) {
+        tokens.push({ type: 'number' })
+      }
+      i = parseNumberPattern(code, i, number)
+    } else if (char === '%') {
+      number.scale *= 100
+      pushLiteral('%')
+      i++
+    } else {
+      const dateToken = DATE_TOKEN_PATTERN.exec(rest)
+      if (dateToken) {
+        tokens.push({ type: 'date', part: parseDateToken(dateToken[1]) })
+        i += dateToken[1].length
+      } else {
+        pushLiteral(char)
+        i++
+      }
+    }
+  }
+
+  resolveMinutes(tokens)
+
+  const kind = tokens.some(token => token.type === 'date')
+    ? 'date'
+    : isGeneral
+      ? 'general'
+      : tokens.some(token => token.type === 'number')
+        ? 'number'
+        : tokens.some(token => token.type === 'text')
+          ? 'text'
+          : 'number'
+
+  return { kind, tokens, number, hour12 }
+}
+
+// ; で区切られたセクション（正;負;ゼロ;文字列）に分割（引用符内の ; は区切りとみなさない）
+function splitSections(code: string): string[] {
+  const sections: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i]
+    if (char === '"') quoted = !quoted
+    if (char === '\\' && !quoted) {
+      current += char + (code[i + 1] ?? '')
+      i++
+    } else if (char === ';' && !quoted) {
+      sections.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  sections.push(current)
+  return sections
+}
+
+// 解析済みの表示形式のキャッシュ（同じ表示形式を多くのセルで共有するため）
+const formatCache = new Map<string, FormatSection[]>()
+
+function parseFormat(code: string): FormatSection[] {
+  let sections = formatCache.get(code)
+  if (!sections) {
+    sections = splitSections(code).map(parseSection)
+    formatCache.set(code, sections)
+  }
+  return sections
+}
+
+// 表示形式に日付・時刻の部分が含まれるかどうか（ファイルの読み込み時に日付のセルを判別する）
+export function isDateFormat(code: string): boolean {
+  return parseFormat(code).some(section => section.kind === 'date')
+}
+
+const numberFormatCache = new Map<string, Intl.NumberFormat>()
+const dateTimeFormatCache = new Map<string, Intl.DateTimeFormat>()
+
+function getNumberFormat(locale: string, pattern: NumberPattern): Intl.NumberFormat {
+  const key = `${locale}|${pattern.integerDigits}|${pattern.fractionMin}|${pattern.fractionMax}|${pattern.grouping}`
+  let format = numberFormatCache.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      minimumIntegerDigits: Math.max(1, pattern.integerDigits),
+      minimumFractionDigits: pattern.fractionMin,
+      maximumFractionDigits: pattern.fractionMax,
+      useGrouping: pattern.grouping,
+    })
+    numberFormatCache.set(key, format)
+  }
+  return format
+}
+
+function getDateTimeFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = dateTimeFormatCache.get(key)
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' })
+    dateTimeFormatCache.set(key, format)
+  }
+  return format
+}
+
+// 符号を除いた数値を書式に従って表示
+function formatNumberPart(value: number, pattern: NumberPattern, locale: string): string {
+  if (pattern.exponentDigits !== null) {
+    const [mantissa, exponent] = value.toExponential(pattern.fractionMax).split('e')
+    const exp = Number(exponent)
+    return `${mantissa}E${exp < 0 ? '-' : '+'}${String(Math.abs(exp)).padStart(pattern.exponentDigits, '0')}`
+  }
+
+  const formatted = getNumberFormat(locale, pattern).format(value)
+  // 整数部が # のみの場合（#.## など）は 1 未満の先頭の 0 を表示しない
+  if (pattern.integerDigits === 0 && value < 1) return formatted.replace(/^0/, '')
+  return formatted
+}
+
+function formatDatePart(part: DatePart, date: Date, hour12: boolean, locale: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const hours = date.getUTCHours()
+  const displayHours = hour12 ? hours % 12 || 12 : hours
+  const elapsedSeconds = Math.round((date.getTime() - SERIAL_EPOCH) / 1000)
+
+  switch (part) {
+    case 'year2': return pad(date.getUTCFullYear() % 100)
+    case 'year4': return String(date.getUTCFullYear())
+    case 'month': return String(date.getUTCMonth() + 1)
+    case 'month2': return pad(date.getUTCMonth() + 1)
+    case 'monthShort': return getDateTimeFormat(locale, { month: 'short' }).format(date)
+    case 'monthLong': return getDateTimeFormat(locale, { month: 'long' }).format(date)
+    case 'day': return String(date.getUTCDate())
+    case 'day2': return pad(date.getUTCDate())
+    case 'weekdayShort': return getDateTimeFormat(locale, { weekday: 'short' }).format(date)
+    case 'weekdayLong': return getDateTimeFormat(locale, { weekday: 'long' }).format(date)
+    case 'hour': return String(displayHours)
+    case 'hour2': return pad(displayHours)
+    case 'minute': return String(date.getUTCMinutes())
+    case 'minute2': return pad(date.getUTCMinutes())
+    case 'second': return String(date.getUTCSeconds())
+    case 'second2': return pad(date.getUTCSeconds())
+    case 'ampm': return hours < 12 ? 'AM' : 'PM'
+    case 'ap': return hours < 12 ? 'A' : 'P'
+    case 'elapsedHours': return String(Math.floor(elapsedSeconds / 3600))
+    case 'elapsedHours2': return pad(Math.floor(elapsedSeconds / 3600))
+    case 'elapsedMinutes': return String(Math.floor(elapsedSeconds / 60))
+    case 'elapsedMinutes2': return pad(Math.floor(elapsedSeconds / 60))
+    case 'elapsedSeconds': return String(elapsedSeconds)
+    case 'elapsedSeconds2': return pad(elapsedSeconds)
+  }
+}
+
+function renderSection(section: FormatSection, value: number | string, locale: string): string {
+  const date = section.kind === 'date' && typeof value === 'number' ? serialToDate(value) : null
+
+  return section.tokens.map(token => {
+    switch (token.type) {
+      case 'literal':
+        return token.text
+      case 'text':
+        return typeof value === 'string' ? value : formatNumber(value)
+      case 'number':
+        if (typeof value === 'string') return value
+        return section.kind === 'general'
+          ? formatNumber(value)
+          : formatNumberPart(value * section.number.scale, section.number, locale)
+      case 'date':
+        return date ? formatDatePart(token.part, date, section.hour12, locale) : ''
+    }
+  }).join('')
+}
+
+function formatNumberValue(value: number, sections: FormatSection[], locale: string): string {
+  const [positive, negative, zero] = sections
+  let section = positive
+  let sign = ''
+  let target = value
+
+  if (value < 0 && negative && negative.kind !== 'text') {
+    // 負数用のセクションでは符号を付けない
+    section = negative
+    target = -value
+  } else if (value === 0 && zero && zero.kind !== 'text') {
+    section = zero
+  } else if (value < 0) {
+    sign = '-'
+    target = -value
+  }
+
+  if (section.kind === 'text') return formatNumber(value)
+  if (section.kind === 'date' && (value < 0 || value > MAX_DATE_SERIAL)) return formatNumber(value)
+  if (section.kind === 'date') return renderSection(section, value, locale)
+  return sign + renderSection(section, target, locale)
+}
+
+// type: 'date' のセルに文字列で入っている日付はシリアル値として扱う
+function toFormattableValue(value: ScalarValue, cell: CellFormatting | undefined): ScalarValue {
+  if (cell?.type === 'date' && typeof value === 'string') {
+    return parseDateInput(value.normalize('NFKC').trim())?.serial ?? value
+  }
+  return value
+}
+
+// 計算済みの値をセルの type・format に従って表示用の文字列に変換
+export function formatCellValue(
+  value: ScalarValue,
+  cell?: CellFormatting,
+  locale: string = DEFAULT_LOCALE
+): string {
+  if (value === null || typeof value === 'boolean' || isFormulaError(value)) {
+    return displayValue(value)
+  }
+  if (cell?.type === 'text') return displayValue(value)
+
+  const target = toFormattableValue(value, cell)
+  const format = cell?.format ?? (cell?.type === 'date' ? DEFAULT_DATE_FORMAT : '')
+  if (!format || format.toLowerCase() === 'general') return displayValue(target)
+
+  const sections = parseFormat(format)
+  if (typeof target === 'string') {
+    // 文字列は4番目のセクションか @ を含むセクションで表示
+    const textSection = sections[3] ?? sections.find(section => section.kind === 'text')
+    return textSection ? renderSection(textSection, target, locale) : target
+  }
+  return formatNumberValue(target as number, sections, locale)
+}
+
+// 数値は右揃え、文字列は左揃え、論理値とエラーは中央揃え
+export function getCellAlignment(value: ScalarValue, cell?: CellFormatting): CellAlignment {
+  if (cell?.type === 'text') return 'left'
+  if (typeof value === 'boolean' || isFormulaError(value)) return 'center'
+  return typeof toFormattableValue(value, cell) === 'number' ? 'right' : 'left'
+}
+
+// 数値の入力（1,234 / -1.5 / 50% / ¥1,000 / 1e3）
+const NUMBER_INPUT_PATTERN = /^([+-])?([¥$€£])?(\d{1,3}(?:,\d{3})+|\d+)?(?:\.(\d+))?(?:[eE]([+-]?\d+))?(%)?$/
+
+function parseNumberInput(text: string): CellContent | null {
+  const match = NUMBER_INPUT_PATTERN.exec(text)
+  if (!match) return null
+
+  const [, sign = '', currency, integer = '', fraction, exponent, percent] = match
+  if (integer === '' && fraction === undefined) return null
+  if (currency && percent) return null
+
+  const number = Number(
+    `${sign}${integer.replace(/,/g, '') || '0'}${fraction !== undefined ? `.${fraction}` : ''}${exponent !== undefined ? `e${exponent}` : ''}`
+  )
+  if (!Number.isFinite(number)) return null
+
+  // 入力した小数点以下の桁数を表示形式に引き継ぐ
+  const decimals = fraction ? `.${'0'.repeat(fraction.length)}` : ''
+  if (percent) {
+    return { value: formatNumber(number / 100), type: 'number', format: `0${decimals}%` }
+  }
+  if (currency) {
+    return { value: formatNumber(number), type: 'number', format: `${currency}#,##0${decimals}` }
+  }
+  if (integer.includes(',')) {
+    return { value: formatNumber(number), type: 'number', format: `#,##0${decimals}` }
+  }
+  if (exponent !== undefined) {
+    return { value: formatNumber(number), type: 'number', format: '0.00E+00' }
+  }
+  return { value: formatNumber(number), type: 'number' }
+}
+
+interface DateInput {
+  serial: number
+  format: string
+}
+
+function toDateInput(
+  [year, month, day, hours = 0, minutes = 0, seconds = 0]: number[],
+  format: string
+): DateInput | null {
+  if (hours > 23 || minutes > 59 || seconds > 59) return null
+  const date = new Date(Date.UTC(year, month - 1, day))
+  // 2/30 のような存在しない日付は日付とみなさない
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return { serial: dateToSerial(year, month, day, hours, minutes, seconds), format }
+}
+
+// 日付・時刻の入力（2024/1/5, 2024-01-05 9:30, 2024年1月5日, 1/5, 9:30）
+function parseDateInput(text: string): DateInput | null {
+  const toNumbers = (values: (string | undefined)[]) => values.map(value => Number(value ?? 0))
+  const currentYear = new Date().getFullYear()
+  let match: RegExpExecArray | null
+
+  if ((match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(text))) {
+    const time = match[4] === undefined ? '' : match[6] === undefined ? ' h:mm' : ' h:mm:ss'
+    return toDateInput(toNumbers(match.slice(1)), `yyyy/m/d${time}`)
+  }
+  if ((match = /^(\d{4})年(\d{1,2})月(\d{1,2})日$/.exec(text))) {
+    return toDateInput(toNumbers(match.slice(1)), 'yyyy"年"m"月"d"日"')
+  }
+  if ((match = /^(\d{1,2})[/-](\d{1,2})$/.exec(text))) {
+    return toDateInput([currentYear, ...toNumbers(match.slice(1))], 'm/d')
+  }
+  if ((match = /^(\d{1,2})月(\d{1,2})日$/.exec(text))) {
+    return toDateInput([currentYear, ...toNumbers(match.slice(1))], 'm"月"d"日"')
+  }
+  if ((match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text))) {
+    const [hours, minutes, seconds] = toNumbers(match.slice(1))
+    if (hours > 23 || minutes > 59 || seconds > 59) return null
+    return {
+      serial: (hours * 3600 + minutes * 60 + seconds) / 86400,
+      format: match[3] === undefined ? 'h:mm' : 'h:mm:ss',
+    }
+  }
+  return null
+}
+
+// 入力された文字列から数値・パーセント・日付を推測してセルの内容にする
+// （type: 'text' のセルと ' で始まる入力は文字列のまま扱う）
+export function parseCellInput(input: string, cell?: CellFormatting): CellContent {
+  if (cell?.type === 'text') return { value: input }
+  if (input.startsWith("'")) return { value: input.slice(1), type: 'text' }
+
+  // 全角の数字・記号（１２３、％、￥）は半角として扱う
+  const text = input.normalize('NFKC').trim()
+  if (text === '' || text.startsWith('=')) return { value: input }
+
+  const number = parseNumberInput(text)
+  if (number) return number
+
+  const date = parseDateInput(text)
+  if (date) return { value: formatNumber(date.serial), type: 'date', format: date.format }
+
+  return { value: input }
+}
+
+// 編集開始時にエディタに表示する文字列（日付やパーセントは入力し直せる形にする）
+export function formatCellInput(cell: CellData | undefined): string {
+  if (!cell) return ''
+  const text = String(cell.value ?? '')
+  if (cell.type === 'text') return text
+
+  const value = parseLiteral(cell.value)
+  if (typeof value !== 'number') return text
+
+  const section = cell.format ? parseFormat(cell.format)[0] : null
+  if (cell.type === 'date' || section?.kind === 'date') {
+    if (value < 0 || value > MAX_DATE_SERIAL) return formatNumber(value)
+    const hasTime = !Number.isInteger(value)
+    const format = value < 1 && hasTime ? 'h:mm:ss' : hasTime ? 'yyyy/m/d h:mm:ss' : 'yyyy/m/d'
+    return formatCellValue(value, { format })
+  }
+  if (section?.kind === 'number' && section.number.scale === 100) {
+    return `${formatNumber(value * 100)}%`
+  }
+  return formatNumber(value)
+}
+
+// 入力から推測したセルの内容を、入力した形の文字列に戻す（onCellEdit だけで値を受け取る場合に使う）
+// 日付・パーセント・通貨などは表示形式で表示した文字列にして、parseCellInput で同じ内容に戻せるようにする
+export function formatContentInput(content: CellContent): string {
+  const { value, type, format } = content
+  if (type === 'text' || !format || value === '' || value.startsWith('=')) return value
+  const literal = parseLiteral(value)
+  return typeof literal === 'number' ? formatCellValue(literal, { type, format }) : value
+}
@@ -0,0 +1,361 @@
+import type { CellPosition } from '../../types/spreadsheet'
+import { MAX_COLUMN_COUNT } from '../address'
+import { parseFormula, collectReferences, type FormulaNode } from './parser'
+import { evaluateFormula, type EvaluationContext } from './evaluator'
+import {
+  ERRORS,
+  parseLiteral,
+  toScalar,
+  type ScalarValue,
+} from './values'
+
+export type CellInput = string | number | null | undefined
+
+export interface CellInputChange extends CellPosition {
+  input: CellInput
+}
+
+interface RangeBounds {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+// 他のシートへの参照（シート名は大文字にそろえる）
+interface ExternalBounds extends RangeBounds {
+  sheet: string
+}
+
+const toBounds = (start: CellPosition, end: CellPosition): RangeBounds => ({
+  top: Math.min(start.row, end.row),
+  bottom: Math.max(start.row, end.row),
+  left: Math.min(start.col, end.col),
+  right: Math.max(start.col, end.col),
+})
+
+const containsPosition = (bounds: RangeBounds, { row, col }: CellPosition) =>
+  row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right
+
+interface CellEntry {
+  input: CellInput
+  // 数式セルの場合のみ構文木を持つ（構文エラー時はnull）
+  formula: FormulaNode | null
+  isFormula: boolean
+  value: ScalarValue
+  precedentCells: number[]
+  precedentRanges: RangeBounds[]
+  precedentExternals: ExternalBounds[]
+}
+
+export interface FormulaEngine {
+  // 入力値を更新し、値が再計算されたセルの位置を返す
+  setCells: (changes: CellInputChange[]) => CellPosition[]
+  getValue: (row: number, col: number) => ScalarValue
+  getInput: (row: number, col: number) => CellInput
+  // シートのサイズ変更（範囲外参照が #REF! になるため全数式を再計算する）
+  setDimensions: (rowCount: number, columnCount: number) => CellPosition[]
+  // セルに書き込まずに数式を評価する（条件付き書式・入力規則の数式などに使う。先頭の '=' は省略可）
+  // getOverride が値を返すセルは、計算済みの値の代わりにその値を使う（確定前の入力の検証などに使う）
+  evaluate: (formula: string, getOverride?: (row: number, col: number) => ScalarValue | undefined) => ScalarValue
+  // シート名の変更（このシートの名前の付いた参照はシート名のない参照と同じく扱う）
+  setSheetName: (sheetName: string | undefined) => CellPosition[]
+  // セルを直接参照しているこのシートの数式セル
+  getDependentCells: (row: number, col: number) => CellPosition[]
+  // 他のシートのセルを参照している数式セル（positions 省略時はシート全体）
+  getReferencingCells: (sheetName: string, positions?: CellPosition[]) => CellPosition[]
+  // 他のシートの値が変わったときに、数式セルを1つだけ計算し直す（依存するセルの再計算は呼び出し側で行う）
+  evaluateCell: (row: number, col: number) => void
+  // シートをまたぐ循環参照の数式セルを #CIRC! にする
+  markCircular: (row: number, col: number) => void
+  // 他のシートの数式からこのシートを参照するための評価コンテキスト
+  context: EvaluationContext
+}
+
+// セル位置を数値キーに変換（列数の上限を基数にする）
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+const fromKey = (key: number): CellPosition => ({
+  row: Math.floor(key / MAX_COLUMN_COUNT),
+  col: key % MAX_COLUMN_COUNT,
+})
+
+export function isFormulaInput(input: CellInput): input is string {
+  return typeof input === 'string' && input.startsWith('=') && input.length > 1
+}
+
+export function createFormulaEngine(options: {
+  rowCount: number
+  columnCount: number
+  // 他のシートへの参照（Sheet2!A1）の解決
+  resolveSheet?: EvaluationContext['resolveSheet']
+  // このシートの名前（Sheet1!A1 のように自分自身を参照する数式の循環参照を検出する）
+  sheetName?: string
+}): FormulaEngine {
+  let { rowCount, columnCount } = options
+  let sheetName = options.sheetName?.toUpperCase()
+  const isOwnSheet = (name: string) => name.toUpperCase() === sheetName
+  const cells = new Map<number, CellEntry>()
+  // 参照されているセル → そのセルを参照する数式セル
+  const cellDependents = new Map<number, Set<number>>()
+  // 範囲参照を持つ数式セル → 参照範囲
+  const rangeDependents = new Map<number, RangeBounds[]>()
+  // 他のシートを参照する数式セル → 参照先
+  const externalDependents = new Map<number, ExternalBounds[]>()
+
+  const context: EvaluationContext = {
+    get rowCount() { return rowCount },
+    get columnCount() { return columnCount },
+    getValue: (row, col) => cells.get(toKey(row, col))?.value ?? null,
+    resolveSheet: (name) => isOwnSheet(name) ? context : options.resolveSheet?.(name) ?? null,
+  }
+
+  const unlinkPrecedents = (key: number, entry: CellEntry) => {
+    for (const precedent of entry.precedentCells) {
+      const dependents = cellDependents.get(precedent)
+      dependents?.delete(key)
+      if (dependents?.size === 0) cellDependents.delete(precedent)
+    }
+    rangeDependents.delete(key)
+    externalDependents.delete(key)
+  }
+
+  const linkPrecedents = (key: number, entry: CellEntry) => {
+    for (const precedent of entry.precedentCells) {
+      let dependents = cellDependents.get(precedent)
+      if (!dependents) {
+        dependents = new Set()
+        cellDependents.set(precedent, dependents)
+      }
+      dependents.add(key)
+    }
+    if (entry.precedentRanges.length > 0) {
+      rangeDependents.set(key, entry.precedentRanges)
+    }
+    if (entry.precedentExternals.length > 0) {
+      externalDependents.set(key, entry.precedentExternals)
+    }
+  }
+
+  const createEntry = (input: CellInput): CellEntry => {
+    if (!isFormulaInput(input)) {
+      return {
+        input,
+        formula: null,
+        isFormula: false,
+        value: parseLiteral(input),
+        precedentCells: [],
+        precedentRanges: [],
+        precedentExternals: [],
+      }
+    }
+
+    try {
+      const formula = parseFormula(input.slice(1))
+      const { cells: refs, ranges, external } = collectReferences(formula)
+      // このシートの名前の付いた参照はシート名のない参照として依存関係を記録する
+      const own = external.filter(({ sheet }) => isOwnSheet(sheet))
+      return {
+        input,
+        formula,
+        isFormula: true,
+        value: null,
+        precedentCells: refs.map(ref => toKey(ref.row, ref.col)),
+        precedentRanges: [...ranges, ...own].map(({ start, end }) => toBounds(start, end)),
+        precedentExternals: external.filter(({ sheet }) => !isOwnSheet(sheet)).map(({ sheet, start, end }) => ({
+          sheet: sheet.toUpperCase(),
+          ...toBounds(start, end),
+        })),
+      }
+    } catch {
+      // 構文エラーの数式は #ERROR! を表示する
+      return {
+        input,
+        formula: null,
+        isFormula: true,
+        value: ERRORS['#ERROR!'],
+        precedentCells: [],
+        precedentRanges: [],
+        precedentExternals: [],
+      }
+    }
+  }
+
+  // 指定セルの値を直接参照している数式セルを列挙
+  const getDependents = (key: number): Set<number> => {
+    const result = new Set(cellDependents.get(key))
+    const { row, col } = fromKey(key)
+    rangeDependents.forEach((ranges, dependent) => {
+      if (ranges.some(r => containsPosition(r, { row, col }))) {
+        result.add(dependent)
+      }
+    })
+    return result
+  }
+
+  const evaluateEntry = (entry: CellEntry) => {
+    if (!entry.formula) return
+    try {
+      const result = toScalar(evaluateFormula(entry.formula, context))
+      // 空セルのみを参照する数式は 0 を表示する
+      entry.value = result === null ? 0 : result
+    } catch {
+      entry.value = ERRORS['#ERROR!']
+    }
+  }
+
+  // 変更されたセルから依存関係をたどり、影響を受けるセルだけをトポロジカル順に再計算する
+  const recalculate = (changedKeys: Iterable<number>): CellPosition[] => {
+    const inDegree = new Map<number, number>()
+    const edges = new Map<number, number[]>()
+    const queue: number[] = []
+
+    for (const key of changedKeys) {
+      if (!inDegree.has(key)) {
+        inDegree.set(key, 0)
+        queue.push(key)
+      }
+    }
+
+    // 影響範囲の探索と依存辺の記録
+    for (let i = 0; i < queue.length; i++) {
+      const key = queue[i]
+      const dependents = [...getDependents(key)]
+      edges.set(key, dependents)
+      for (const dependent of dependents) {
+        if (!inDegree.has(dependent)) {
+          inDegree.set(dependent, 0)
+          queue.push(dependent)
+        }
+        inDegree.set(dependent, inDegree.get(dependent)! + 1)
+      }
+    }
+
+    // Kahnのアルゴリズムで評価
+    const ready = [...inDegree].filter(([, degree]) => degree === 0).map(([key]) => key)
+    const evaluated = new Set<number>()
+    while (ready.length > 0) {
+      const key = ready.pop()!
+      evaluated.add(key)
+      const entry = cells.get(key)
+      if (entry?.isFormula) evaluateEntry(entry)
+
+      for (const dependent of edges.get(key) ?? []) {
+        const degree = inDegree.get(dependent)! - 1
+        inDegree.set(dependent, degree)
+        if (degree === 0) ready.push(dependent)
+      }
+    }
+
+    // 評価できなかったセルは循環参照（またはその下流）
+    for (const key of inDegree.keys()) {
+      if (evaluated.has(key)) continue
+      const entry = cells.get(key)
+      if (entry?.isFormula) entry.value = ERRORS['#CIRC!']
+    }
+
+    return [...inDegree.keys()].map(fromKey)
+  }
+
+  const setCells = (changes: CellInputChange[]) => {
+    const changedKeys: number[] = []
+
+    for (const { row, col, input } of changes) {
+      const key = toKey(row, col)
+      const previous = cells.get(key)
+      if (previous && previous.input === input) continue
+      if (!previous && (input === null || input === undefined || input === '')) continue
+
+      if (previous) unlinkPrecedents(key, previous)
+
+      if (input === null || input === undefined || input === '') {
+        cells.delete(key)
+      } else {
+        const entry = createEntry(input)
+        cells.set(key, entry)
+        linkPrecedents(key, entry)
+      }
+      changedKeys.push(key)
+    }
+
+    return changedKeys.length > 0 ? recalculate(changedKeys) : []
+  }
+
+  const setDimensions = (nextRowCount: number, nextColumnCount: number) => {
+    if (nextRowCount === rowCount && nextColumnCount === columnCount) return []
+    rowCount = nextRowCount
+    columnCount = nextColumnCount
+    const formulaKeys = [...cells].filter(([, entry]) => entry.isFormula).map(([key]) => key)
+    return recalculate(formulaKeys)
+  }
+
+  const evaluate: FormulaEngine['evaluate'] = (formula, getOverride) => {
+    const evaluationContext: EvaluationContext = getOverride
+      ? {
+          get rowCount() { return rowCount },
+          get columnCount() { return columnCount },
+          getValue: (row, col) => {
+            const value = getOverride(row, col)
+            return value !== undefined ? value : context.getValue(row, col)
+          },
+          resolveSheet: context.resolveSheet,
+        }
+      : context
+    try {
+      return toScalar(evaluateFormula(parseFormula(formula.replace(/^=/, '')), evaluationContext))
+    } catch {
+      return ERRORS['#ERROR!']
+    }
+  }
+
+  const setSheetName = (name: string | undefined) => {
+    if (name?.toUpperCase() === sheetName) return []
+    sheetName = name?.toUpperCase()
+    // シート名の付いた参照を、このシートへの参照か他のシートへの参照かで分け直す
+    const formulaKeys: number[] = []
+    cells.forEach((previous, key) => {
+      if (!previous.isFormula) return
+      unlinkPrecedents(key, previous)
+      const entry = createEntry(previous.input)
+      cells.set(key, entry)
+      linkPrecedents(key, entry)
+      formulaKeys.push(key)
+    })
+    return formulaKeys.length > 0 ? recalculate(formulaKeys) : []
+  }
+
+  const getReferencingCells = (name: string, positions?: CellPosition[]) => {
+    const sheet = name.toUpperCase()
+    const result: CellPosition[] = []
+    externalDependents.forEach((externals, key) => {
+      const matches = externals.some(bounds =>
+        bounds.sheet === sheet && (!positions || positions.some(position => containsPosition(bounds, position)))
+      )
+      if (matches) result.push(fromKey(key))
+    })
+    return result
+  }
+
+  const evaluateCell = (row: number, col: number) => {
+    const entry = cells.get(toKey(row, col))
+    if (entry?.isFormula) evaluateEntry(entry)
+  }
+
+  const markCircular = (row: number, col: number) => {
+    const entry = cells.get(toKey(row, col))
+    if (entry?.isFormula) entry.value = ERRORS['#CIRC!']
+  }
+
+  return {
+    setCells,
+    getValue: (row, col) => cells.get(toKey(row, col))?.value ?? null,
+    getInput: (row, col) => cells.get(toKey(row, col))?.input,
+    setDimensions,
+    evaluate,
+    setSheetName,
+    getDependentCells: (row, col) => [...getDependents(toKey(row, col))].map(fromKey),
+    getReferencingCells,
+    evaluateCell,
+    markCircular,
+    context,
+  }
+}
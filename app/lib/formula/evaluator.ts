@@ -0,0 +1,142 @@
+import type { BinaryOperator, FormulaNode } from './parser'
+import type { CellAddress } from '../address'
+import { FORMULA_FUNCTIONS } from './functions'
+import {
+  ERRORS,
+  compareValues,
+  isFormulaError,
+  toNumber,
+  toScalar,
+  toText,
+  type FormulaValue,
+  type ScalarValue,
+} from './values'
+
+export interface EvaluationContext {
+  rowCount: number
+  columnCount: number
+  // 参照先セルの計算済みの値を返す
+  getValue: (row: number, col: number) => ScalarValue
+  // シート名から他のシートの評価コンテキストを返す（見つからない場合は null）
+  resolveSheet?: (sheetName: string) => EvaluationContext | null
+}
+
+// 参照先のシートの評価コンテキスト（シート名のない参照は同じシート）
+function getReferenceContext(sheet: string | undefined, context: EvaluationContext): EvaluationContext | null {
+  if (sheet === undefined) return context
+  return context.resolveSheet?.(sheet) ?? null
+}
+
+function isOutOfBounds(ref: CellAddress, context: EvaluationContext): boolean {
+  return ref.row >= context.rowCount || ref.col >= context.columnCount
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftValue: FormulaValue,
+  rightValue: FormulaValue
+): ScalarValue {
+  const left = toScalar(leftValue)
+  const right = toScalar(rightValue)
+  if (isFormulaError(left)) return left
+  if (isFormulaError(right)) return right
+
+  if (operator === '&') {
+    return (toText(left) as string) + (toText(right) as string)
+  }
+
+  if (['=', '<>', '<', '>', '<=', '>='].includes(operator)) {
+    const diff = compareValues(left, right) as number
+    switch (operator) {
+      case '=': return diff === 0
+      case '<>': return diff !== 0
+      case '<': return diff < 0
+      case '>': return diff > 0
+      case '<=': return diff <= 0
+      default: return diff >= 0
+    }
+  }
+
+  const a = toNumber(left)
+  if (isFormulaError(a)) return a
+  const b = toNumber(right)
+  if (isFormulaError(b)) return b
+
+  let result: number
+  switch (operator) {
+    case '+':
+      result = a + b
+      break
+    case '-':
+      result = a - b
+      break
+    case '*':
+      result = a * b
+      break
+    case '/':
+      if (b === 0) return ERRORS['#DIV/0!']
+      result = a / b
+      break
+    default:
+      result = Math.pow(a, b)
+  }
+  return Number.isFinite(result) ? result : ERRORS['#NUM!']
+}
+
+export function evaluateFormula(node: FormulaNode, context: EvaluationContext): FormulaValue {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value
+    case 'error':
+      return ERRORS[node.code]
+    case 'empty':
+      return null
+    case 'name':
+      // 名前付き範囲は未対応
+      return ERRORS['#NAME?']
+    case 'ref': {
+      const target = getReferenceContext(node.sheet, context)
+      if (!target || isOutOfBounds(node.ref, target)) return ERRORS['#REF!']
+      return target.getValue(node.ref.row, node.ref.col)
+    }
+    case 'range': {
+      const target = getReferenceContext(node.sheet, context)
+      if (!target || isOutOfBounds(node.start, target) || isOutOfBounds(node.end, target)) return ERRORS['#REF!']
+      const top = Math.min(node.start.row, node.end.row)
+      const bottom = Math.max(node.start.row, node.end.row)
+      const left = Math.min(node.start.col, node.end.col)
+      const right = Math.max(node.start.col, node.end.col)
+      const values: ScalarValue[][] = []
+      for (let row = top; row <= bottom; row++) {
+        const rowValues: ScalarValue[] = []
+        for (let col = left; col <= right; col++) {
+          rowValues.push(target.getValue(row, col))
+        }
+        values.push(rowValues)
+      }
+      return { kind: 'range', values }
+    }
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.name]
+      if (!fn) return ERRORS['#NAME?']
+      return fn(node.args.map(arg => () => evaluateFormula(arg, context)))
+    }
+    case 'unary': {
+      const value = toNumber(toScalar(evaluateFormula(node.operand, context)))
+      if (isFormulaError(value)) return value
+      return node.operator === '-' ? -value : value
+    }
+    case 'percent': {
+      const value = toNumber(toScalar(evaluateFormula(node.operand, context)))
+      return isFormulaError(value) ? value : value / 100
+    }
+    case 'binary':
+      return evaluateBinary(
+        node.operator,
+        evaluateFormula(node.left, context),
+        evaluateFormula(node.right, context)
+      )
+  }
+}
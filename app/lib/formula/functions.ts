@@ -0,0 +1,338 @@
+import {
+  ERRORS,
+  compareValues,
+  isFormulaError,
+  isRangeValue,
+  parseLiteral,
+  toBoolean,
+  toNumber,
+  toScalar,
+  toText,
+  type FormulaError,
+  type FormulaValue,
+  type ScalarValue,
+} from './values'
+
+// 引数は必要になるまで評価しない（IFなどで未使用の分岐のエラーを出さないため）
+export type FormulaArgument = () => FormulaValue
+
+export type FormulaFunction = (args: FormulaArgument[]) => FormulaValue
+
+// 範囲引数はそのまま、スカラー引数は1要素の配列として展開
+function flatten(value: FormulaValue): ScalarValue[] {
+  return isRangeValue(value) ? value.values.flat() : [value]
+}
+
+// SUMやAVERAGEの数値収集:
+// 範囲内の文字列・真偽値・空セルは無視し、直接指定された引数は数値に変換する
+function collectNumbers(args: FormulaArgument[]): number[] | FormulaError {
+  const numbers: number[] = []
+  for (const arg of args) {
+    const value = arg()
+    if (isRangeValue(value)) {
+      for (const item of value.values.flat()) {
+        if (isFormulaError(item)) return item
+        if (typeof item === 'number') numbers.push(item)
+      }
+    } else {
+      if (value === null) continue
+      const number = toNumber(value)
+      if (isFormulaError(number)) return number
+      numbers.push(number)
+    }
+  }
+  return numbers
+}
+
+function scalarArg(arg: FormulaArgument | undefined): ScalarValue {
+  return arg ? toScalar(arg()) : null
+}
+
+function numberArg(arg: FormulaArgument | undefined, fallback?: number): number | FormulaError {
+  if (!arg) return fallback ?? ERRORS['#VALUE!']
+  return toNumber(scalarArg(arg))
+}
+
+function textArg(arg: FormulaArgument | undefined): string | FormulaError {
+  return toText(scalarArg(arg))
+}
+
+// 引数の数を検証し、範囲外なら #VALUE! を返す
+function withArity(min: number, max: number, fn: FormulaFunction): FormulaFunction {
+  return (args) => {
+    if (args.length < min || args.length > max) return ERRORS['#VALUE!']
+    return fn(args)
+  }
+}
+
+function roundTo(value: number, digits: number, mode: 'round' | 'up' | 'down'): number {
+  const factor = Math.pow(10, Math.trunc(digits))
+  // 0.5の丸めで誤差が出ないよう、一度15桁に揃えてから処理する
+  const scaled = Number((Math.abs(value) * factor).toPrecision(15))
+  const rounded = mode === 'round' ? Math.round(scaled) : mode === 'up' ? Math.ceil(scaled) : Math.floor(scaled)
+  return Math.sign(value) * rounded / factor
+}
+
+function roundFunction(mode: 'round' | 'up' | 'down'): FormulaFunction {
+  return withArity(1, 2, ([value, digits]) => {
+    const number = numberArg(value)
+    if (isFormulaError(number)) return number
+    const places = numberArg(digits, 0)
+    if (isFormulaError(places)) return places
+    return roundTo(number, places, mode)
+  })
+}
+
+// COUNTIF/SUMIF の条件（">5", "<>abc", "abc*" など）を判定関数に変換
+function parseCriteria(criteria: ScalarValue): (value: ScalarValue) => boolean {
+  if (typeof criteria !== 'string') {
+    return (value) => compareValues(value, criteria) === 0 && value !== null
+  }
+
+  const match = /^(<=|>=|<>|=|<|>)?([\s\S]*)$/.exec(criteria)!
+  const operator = match[1] ?? '='
+  const operand = parseLiteral(match[2])
+
+  // ワイルドカード（* と ?）を含む文字列の一致判定
+  if (typeof operand === 'string' && (operator === '=' || operator === '<>') && /[*?]/.test(operand)) {
+    const pattern = new RegExp(
+      '^' + operand.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$',
+      'i'
+    )
+    return (value) => {
+      const matched = typeof value === 'string' && pattern.test(value)
+      return operator === '=' ? matched : !matched
+    }
+  }
+
+  return (value) => {
+    if (isFormulaError(value)) return false
+    if (operand === null) {
+      return operator === '=' ? value === null || value === '' : value !== null && value !== ''
+    }
+    // 数値条件は数値セルのみ、文字列条件は文字列セルのみを対象にする
+    if (operator !== '<>' && typeof operand !== typeof value) return false
+    const diff = compareValues(value, operand)
+    if (isFormulaError(diff)) return false
+    switch (operator) {
+      case '=': return diff === 0
+      case '<>': return diff !== 0
+      case '<': return diff < 0
+      case '>': return diff > 0
+      case '<=': return diff <= 0
+      case '>=': return diff >= 0
+    }
+    return false
+  }
+}
+
+function conditionalAggregate(mode: 'count' | 'sum' | 'average'): FormulaFunction {
+  return withArity(2, mode === 'count' ? 2 : 3, ([rangeArg, criteriaArg, valuesArg]) => {
+    const range = rangeArg()
+    if (isFormulaError(range)) return range
+    const criteria = scalarArg(criteriaArg)
+    if (isFormulaError(criteria)) return criteria
+    const test = parseCriteria(criteria)
+
+    const candidates = flatten(range)
+    const values = valuesArg ? flatten(valuesArg()) : candidates
+
+    let count = 0
+    let sum = 0
+    candidates.forEach((candidate, index) => {
+      if (!test(candidate)) return
+      count++
+      const value = values[index]
+      if (typeof value === 'number') sum += value
+    })
+
+    if (mode === 'count') return count
+    if (mode === 'sum') return sum
+    return count === 0 ? ERRORS['#DIV/0!'] : sum / count
+  })
+}
+
+function textFunction(fn: (text: string) => FormulaValue): FormulaFunction {
+  return withArity(1, 1, ([arg]) => {
+    const text = textArg(arg)
+    return isFormulaError(text) ? text : fn(text)
+  })
+}
+
+function logicalFold(initial: boolean, combine: (acc: boolean, value: boolean) => boolean): FormulaFunction {
+  return (args) => {
+    if (args.length === 0) return ERRORS['#VALUE!']
+    let result = initial
+    for (const arg of args) {
+      const value = arg()
+      for (const item of flatten(value)) {
+        // 範囲内の空セル・文字列は無視する
+        if (item === null || (typeof item === 'string' && isRangeValue(value))) continue
+        const bool = toBoolean(item)
+        if (isFormulaError(bool)) return bool
+        result = combine(result, bool)
+      }
+    }
+    return result
+  }
+}
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  // 集計
+  SUM: (args) => {
+    const numbers = collectNumbers(args)
+    return isFormulaError(numbers) ? numbers : numbers.reduce((a, b) => a + b, 0)
+  },
+  AVERAGE: (args) => {
+    const numbers = collectNumbers(args)
+    if (isFormulaError(numbers)) return numbers
+    if (numbers.length === 0) return ERRORS['#DIV/0!']
+    return numbers.reduce((a, b) => a + b, 0) / numbers.length
+  },
+  MIN: (args) => {
+    const numbers = collectNumbers(args)
+    if (isFormulaError(numbers)) return numbers
+    return numbers.length === 0 ? 0 : numbers.reduce((a, b) => Math.min(a, b))
+  },
+  MAX: (args) => {
+    const numbers = collectNumbers(args)
+    if (isFormulaError(numbers)) return numbers
+    return numbers.length === 0 ? 0 : numbers.reduce((a, b) => Math.max(a, b))
+  },
+  PRODUCT: (args) => {
+    const numbers = collectNumbers(args)
+    return isFormulaError(numbers) ? numbers : numbers.reduce((a, b) => a * b, 1)
+  },
+  COUNT: (args) => {
+    let count = 0
+    for (const arg of args) {
+      const value = arg()
+      for (const item of flatten(value)) {
+        if (typeof item === 'number') count++
+        // 直接指定された数値文字列・真偽値も数える
+        else if (!isRangeValue(value) && item !== null && !isFormulaError(toNumber(item))) count++
+      }
+    }
+    return count
+  },
+  COUNTA: (args) => {
+    let count = 0
+    for (const arg of args) {
+      for (const item of flatten(arg())) {
+        if (item !== null) count++
+      }
+    }
+    return count
+  },
+  COUNTBLANK: withArity(1, 1, ([arg]) => {
+    return flatten(arg()).filter(item => item === null || item === '').length
+  }),
+  COUNTIF: conditionalAggregate('count'),
+  SUMIF: conditionalAggregate('sum'),
+  AVERAGEIF: conditionalAggregate('average'),
+
+  // 論理
+  IF: withArity(1, 3, ([condition, whenTrue, whenFalse]) => {
+    const bool = toBoolean(scalarArg(condition))
+    if (isFormulaError(bool)) return bool
+    if (bool) return whenTrue ? whenTrue() : true
+    return whenFalse ? whenFalse() : false
+  }),
+  IFERROR: withArity(2, 2, ([value, fallback]) => {
+    const result = value()
+    return isFormulaError(toScalar(result)) ? fallback() : result
+  }),
+  AND: logicalFold(true, (acc, value) => acc && value),
+  OR: logicalFold(false, (acc, value) => acc || value),
+  NOT: withArity(1, 1, ([arg]) => {
+    const bool = toBoolean(scalarArg(arg))
+    return isFormulaError(bool) ? bool : !bool
+  }),
+
+  // 数値
+  ROUND: roundFunction('round'),
+  ROUNDUP: roundFunction('up'),
+  ROUNDDOWN: roundFunction('down'),
+  INT: withArity(1, 1, ([arg]) => {
+    const number = numberArg(arg)
+    return isFormulaError(number) ? number : Math.floor(number)
+  }),
+  ABS: withArity(1, 1, ([arg]) => {
+    const number = numberArg(arg)
+    return isFormulaError(number) ? number : Math.abs(number)
+  }),
+  SQRT: withArity(1, 1, ([arg]) => {
+    const number = numberArg(arg)
+    if (isFormulaError(number)) return number
+    return number < 0 ? ERRORS['#NUM!'] : Math.sqrt(number)
+  }),
+  POWER: withArity(2, 2, ([base, exponent]) => {
+    const b = numberArg(base)
+    if (isFormulaError(b)) return b
+    const e = numberArg(exponent)
+    if (isFormulaError(e)) return e
+    const result = Math.pow(b, e)
+    return Number.isFinite(result) ? result : ERRORS['#NUM!']
+  }),
+  MOD: withArity(2, 2, ([dividend, divisor]) => {
+    const a = numberArg(dividend)
+    if (isFormulaError(a)) return a
+    const b = numberArg(divisor)
+    if (isFormulaError(b)) return b
+    if (b === 0) return ERRORS['#DIV/0!']
+    // Excelと同様に結果の符号は除数に合わせる
+    return a - b * Math.floor(a / b)
+  }),
+
+  // 文字列
+  CONCAT: (args) => {
+    let result = ''
+    for (const arg of args) {
+      for (const item of flatten(arg())) {
+        const text = toText(item)
+        if (isFormulaError(text)) return text
+        result += text
+      }
+    }
+    return result
+  },
+  CONCATENATE: (args) => {
+    let result = ''
+    for (const arg of args) {
+      const text = textArg(arg)
+      if (isFormulaError(text)) return text
+      result += text
+    }
+    return result
+  },
+  LEN: textFunction(text => text.length),
+  UPPER: textFunction(text => text.toUpperCase()),
+  LOWER: textFunction(text => text.toLowerCase()),
+  TRIM: textFunction(text => text.trim().replace(/ {2,}/g, ' ')),
+  LEFT: withArity(1, 2, ([textValue, count]) => {
+    const text = textArg(textValue)
+    if (isFormulaError(text)) return text
+    const n = numberArg(count, 1)
+    if (isFormulaError(n)) return n
+    return n < 0 ? ERRORS['#VALUE!'] : text.slice(0, Math.trunc(n))
+  }),
+  RIGHT: withArity(1, 2, ([textValue, count]) => {
+    const text = textArg(textValue)
+    if (isFormulaError(text)) return text
+    const n = numberArg(count, 1)
+    if (isFormulaError(n)) return n
+    if (n < 0) return ERRORS['#VALUE!']
+    return Math.trunc(n) === 0 ? '' : text.slice(-Math.trunc(n))
+  }),
+  MID: withArity(3, 3, ([textValue, start, count]) => {
+    const text = textArg(textValue)
+    if (isFormulaError(text)) return text
+    const s = numberArg(start)
+    if (isFormulaError(s)) return s
+    const n = numberArg(count)
+    if (isFormulaError(n)) return n
+    if (s < 1 || n < 0) return ERRORS['#VALUE!']
+    const from = Math.trunc(s) - 1
+    return text.slice(from, from + Math.trunc(n))
+  }),
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { createFormulaEngine, type CellInputChange } from './engine'
+import { createFormulaLinks } from './links'
+import { ERRORS } from './values'
+
+// リンクに登録したシートの数式エンジン（変更は useFormulaEngine と同じく notifyChange で伝える）
+function createWorkbook(sheetNames: string[]) {
+  const links = createFormulaLinks()
+  const engines = Object.fromEntries(sheetNames.map(name => {
+    const engine = createFormulaEngine({
+      rowCount: 100,
+      columnCount: 26,
+      resolveSheet: links.resolveSheet,
+      sheetName: name,
+    })
+    links.register(name, engine, () => {})
+    return [name, engine]
+  }))
+  const setCells = (sheetName: string, changes: CellInputChange[]) => {
+    const recalculated = engines[sheetName].setCells(changes)
+    links.notifyChange(sheetName, [...changes, ...recalculated])
+  }
+  return { engines, setCells }
+}
+
+describe('createFormulaLinks', () => {
+  it('propagates changes across sheets', () => {
+    const { engines, setCells } = createWorkbook(['Sheet1', 'Sheet2', 'Sheet3'])
+    setCells('Sheet3', [{ row: 0, col: 0, input: '=Sheet2!A1*2' }])
+    setCells('Sheet2', [{ row: 0, col: 0, input: '=Sheet1!A1+Sheet1!A2' }])
+    setCells('Sheet1', [{ row: 0, col: 0, input: 1 }, { row: 1, col: 0, input: 2 }])
+    expect(engines.Sheet2.getValue(0, 0)).toBe(3)
+    expect(engines.Sheet3.getValue(0, 0)).toBe(6)
+  })
+
+  it('evaluates cells reached through several paths once their inputs are ready', () => {
+    const { engines, setCells } = createWorkbook(['Sheet1', 'Sheet2', 'Sheet3'])
+    setCells('Sheet3', [{ row: 0, col: 0, input: '=Sheet1!A1+1' }])
+    setCells('Sheet2', [{ row: 0, col: 0, input: '=Sheet1!A1+Sheet3!A1' }])
+    setCells('Sheet1', [{ row: 0, col: 0, input: 10 }])
+    expect(engines.Sheet2.getValue(0, 0)).toBe(21)
+  })
+
+  it('marks circular references across sheets as #CIRC!', () => {
+    const { engines, setCells } = createWorkbook(['Sheet1', 'Sheet2'])
+    setCells('Sheet1', [{ row: 0, col: 0, input: '=Sheet2!A1+1' }, { row: 0, col: 1, input: '=A1*2' }])
+    setCells('Sheet2', [{ row: 0, col: 0, input: '=Sheet1!A1+1' }])
+    expect(engines.Sheet1.getValue(0, 0)).toBe(ERRORS['#CIRC!'])
+    expect(engines.Sheet2.getValue(0, 0)).toBe(ERRORS['#CIRC!'])
+    expect(engines.Sheet1.getValue(0, 1)).toBe(ERRORS['#CIRC!'])
+
+    // 循環を解消すると計算し直す
+    setCells('Sheet2', [{ row: 0, col: 0, input: 5 }])
+    expect(engines.Sheet1.getValue(0, 0)).toBe(6)
+    expect(engines.Sheet1.getValue(0, 1)).toBe(12)
+  })
+
+  it('treats references to the same sheet by name as local references', () => {
+    const { engines, setCells } = createWorkbook(['Sheet1'])
+    setCells('Sheet1', [{ row: 1, col: 1, input: '=Sheet1!B2' }])
+    expect(engines.Sheet1.getValue(1, 1)).toBe(ERRORS['#CIRC!'])
+
+    setCells('Sheet1', [{ row: 0, col: 0, input: '=sheet1!A2+1' }, { row: 1, col: 0, input: 4 }])
+    expect(engines.Sheet1.getValue(0, 0)).toBe(5)
+  })
+
+  it('reclassifies references when the sheet is renamed', () => {
+    const engine = createFormulaEngine({ rowCount: 10, columnCount: 10, sheetName: 'Old' })
+    engine.setCells([{ row: 0, col: 0, input: '=New!A1' }])
+    expect(engine.getValue(0, 0)).toBe(ERRORS['#REF!'])
+    engine.setSheetName('New')
+    expect(engine.getValue(0, 0)).toBe(ERRORS['#CIRC!'])
+  })
+})
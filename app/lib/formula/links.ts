@@ -0,0 +1,121 @@
+import type { CellPosition } from '../../types/spreadsheet'
+import type { EvaluationContext } from './evaluator'
+import type { FormulaEngine } from './engine'
+
+// 再計算されたセルを通知する（シートの表示の更新に使う）
+type RecalculateListener = (positions: CellPosition[]) => void
+
+export interface FormulaLinks {
+  // シート名（大文字・小文字を区別しない）から評価コンテキストを返す
+  resolveSheet: (sheetName: string) => EvaluationContext | null
+  // シートの数式エンジンを登録し、登録を解除する関数を返す
+  register: (sheetName: string, engine: FormulaEngine, onRecalculate: RecalculateListener) => () => void
+  // シートの値が変わったことを通知し、そのシートを参照する数式を再計算する（positions 省略時はシート全体）
+  notifyChange: (sheetName: string, positions?: CellPosition[]) => void
+}
+
+interface LinkedSheet {
+  name: string
+  engine: FormulaEngine
+  onRecalculate: RecalculateListener
+}
+
+// 再計算するシートのセル
+interface LinkedCell extends CellPosition {
+  sheet: LinkedSheet
+}
+
+const toId = ({ sheet, row, col }: LinkedCell) => `${sheet.name.toUpperCase()}!${row}:${col}`
+
+// ブック内のシートの数式エンジンをつなぎ、Sheet2!A1 などの参照を解決する
+export function createFormulaLinks(): FormulaLinks {
+  const sheets = new Map<string, LinkedSheet>()
+
+  const resolveSheet = (sheetName: string) => sheets.get(sheetName.toUpperCase())?.engine.context ?? null
+
+  // シートのセルを参照している他のシートの数式セル（positions 省略時はシート全体）
+  const getReferencingCells = (sheetName: string, positions?: CellPosition[]): LinkedCell[] => {
+    const result: LinkedCell[] = []
+    sheets.forEach(sheet => {
+      for (const position of sheet.engine.getReferencingCells(sheetName, positions)) {
+        result.push({ sheet, ...position })
+      }
+    })
+    return result
+  }
+
+  // セルを参照している数式セル（同じシートの数式と他のシートの数式）
+  const getDependents = (cell: LinkedCell): LinkedCell[] => [
+    ...cell.sheet.engine.getDependentCells(cell.row, cell.col).map(position => ({ sheet: cell.sheet, ...position })),
+    ...getReferencingCells(cell.sheet.name, [cell]),
+  ]
+
+  // ブック全体の依存関係をたどってトポロジカル順に再計算し、評価できなかったセル（循環参照とその下流）は #CIRC! にする
+  const recalculate = (changed: LinkedCell[]) => {
+    const cells = new Map<string, LinkedCell>()
+    const inDegree = new Map<string, number>()
+    const edges = new Map<string, string[]>()
+    const queue: string[] = []
+    const add = (cell: LinkedCell) => {
+      const id = toId(cell)
+      if (inDegree.has(id)) return id
+      cells.set(id, cell)
+      inDegree.set(id, 0)
+      queue.push(id)
+      return id
+    }
+
+    changed.forEach(add)
+    // 影響範囲の探索と依存辺の記録
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i]
+      const dependents = getDependents(cells.get(id)!).map(add)
+      edges.set(id, dependents)
+      for (const dependent of dependents) inDegree.set(dependent, inDegree.get(dependent)! + 1)
+    }
+
+    // Kahnのアルゴリズムで評価
+    const ready = [...inDegree].filter(([, degree]) => degree === 0).map(([id]) => id)
+    const evaluated = new Set<string>()
+    while (ready.length > 0) {
+      const id = ready.pop()!
+      evaluated.add(id)
+      const { sheet, row, col } = cells.get(id)!
+      sheet.engine.evaluateCell(row, col)
+      for (const dependent of edges.get(id) ?? []) {
+        const degree = inDegree.get(dependent)! - 1
+        inDegree.set(dependent, degree)
+        if (degree === 0) ready.push(dependent)
+      }
+    }
+
+    const recalculated = new Map<LinkedSheet, CellPosition[]>()
+    cells.forEach((cell, id) => {
+      if (!evaluated.has(id)) cell.sheet.engine.markCircular(cell.row, cell.col)
+      const positions = recalculated.get(cell.sheet) ?? []
+      positions.push({ row: cell.row, col: cell.col })
+      recalculated.set(cell.sheet, positions)
+    })
+    recalculated.forEach((positions, sheet) => sheet.onRecalculate(positions))
+  }
+
+  const notifyChange = (sheetName: string, positions?: CellPosition[]) => {
+    const referencing = getReferencingCells(sheetName, positions)
+    if (referencing.length > 0) recalculate(referencing)
+  }
+
+  const register = (sheetName: string, engine: FormulaEngine, onRecalculate: RecalculateListener) => {
+    const key = sheetName.toUpperCase()
+    const sheet = { name: sheetName, engine, onRecalculate }
+    sheets.set(key, sheet)
+    // このシートを参照していた数式（#REF! だったもの）を計算し直す
+    notifyChange(sheetName)
+    return () => {
+      if (sheets.get(key) !== sheet) return
+      sheets.delete(key)
+      notifyChange(sheetName)
+    }
+  }
+
+  return { resolveSheet, register, notifyChange }
+}
@@ -0,0 +1,294 @@
+import { isErrorCode, type FormulaErrorCode } from './values'
+import { parseCellAddress, type CellAddress } from '../address'
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>='
+
+// 数式の構文木（sheet は他のシートへの参照のシート名）
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'empty' }
+  | { type: 'ref'; ref: CellAddress; sheet?: string }
+  | { type: 'range'; start: CellAddress; end: CellAddress; sheet?: string }
+  | { type: 'name'; name: string }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+  | { type: 'unary'; operator: '+' | '-'; operand: FormulaNode }
+  | { type: 'percent'; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'ref'; ref: CellAddress; sheet?: string }
+  | { type: 'name'; name: string }
+  | { type: 'operator'; value: string }
+  | { type: 'eof' }
+
+const OPERATORS = ['<=', '>=', '<>', '=', '<', '>', '+', '-', '*', '/', '^', '&', '%', '(', ')', ',', ':']
+// 数式の参照を書き換える処理でも同じ規則で字句を切り出す
+export const NUMBER_PATTERN = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/
+export const IDENTIFIER_PATTERN = /^[$A-Za-z_][A-Za-z0-9_.$]*/
+export const ERROR_PATTERN = /^#[A-Za-z0-9/]+[!?]?/
+// シート名付きの参照（Sheet2!A1、'My Sheet'!A1）のシート名と '!'
+export const SHEET_PREFIX_PATTERN = /^(?:'((?:[^']|'')+)'|([A-Za-z_\u3040-\u30ff\u4e00-\u9fff][\w\u3040-\u30ff\u4e00-\u9fff]*))!/
+
+// SHEET_PREFIX_PATTERN に一致した部分のシート名（'' はエスケープされた ' ）
+export function getSheetPrefixName(match: RegExpExecArray): string {
+  return match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2]
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < source.length) {
+    const char = source[pos]
+    const rest = source.slice(pos)
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    // 文字列リテラル（"" はエスケープされた " ）
+    if (char === '"') {
+      let value = ''
+      pos++
+      while (true) {
+        if (pos >= source.length) throw new Error('Unterminated string literal')
+        if (source[pos] === '"') {
+          if (source[pos + 1] === '"') {
+            value += '"'
+            pos += 2
+            continue
+          }
+          pos++
+          break
+        }
+        value += source[pos++]
+      }
+      tokens.push({ type: 'string', value })
+      continue
+    }
+
+    // シート名の後には必ずセル参照が続く
+    const sheetMatch = SHEET_PREFIX_PATTERN.exec(rest)
+    if (sheetMatch) {
+      const addressMatch = IDENTIFIER_PATTERN.exec(rest.slice(sheetMatch[0].length))
+      const ref = addressMatch && parseCellAddress(addressMatch[0])
+      if (!addressMatch || !ref) throw new Error('Invalid sheet reference')
+      tokens.push({ type: 'ref', ref, sheet: getSheetPrefixName(sheetMatch) })
+      pos += sheetMatch[0].length + addressMatch[0].length
+      continue
+    }
+
+    const numberMatch = NUMBER_PATTERN.exec(rest)
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: Number(numberMatch[0]) })
+      pos += numberMatch[0].length
+      continue
+    }
+
+    const errorMatch = ERROR_PATTERN.exec(rest)
+    if (errorMatch && isErrorCode(errorMatch[0])) {
+      tokens.push({ type: 'error', code: errorMatch[0].toUpperCase() as FormulaErrorCode })
+      pos += errorMatch[0].length
+      continue
+    }
+
+    const identifierMatch = IDENTIFIER_PATTERN.exec(rest)
+    if (identifierMatch) {
+      const text = identifierMatch[0]
+      pos += text.length
+      // LOG10( のように参照と同じ形の関数名があるため、直後の '(' で判別する
+      const isCall = /^\s*\(/.test(source.slice(pos))
+      const ref = isCall ? null : parseCellAddress(text)
+      tokens.push(ref ? { type: 'ref', ref } : { type: 'name', name: text.toUpperCase() })
+      continue
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator })
+      pos += operator.length
+      continue
+    }
+
+    throw new Error(`Unexpected character: ${char}`)
+  }
+
+  tokens.push({ type: 'eof' })
+  return tokens
+}
+
+// 演算子の優先順位（大きいほど強く結合する）
+const BINARY_PRECEDENCE: Record<BinaryOperator, number> = {
+  '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+  '&': 2,
+  '+': 3, '-': 3,
+  '*': 4, '/': 4,
+  '^': 5,
+}
+
+function isBinaryOperator(value: string): value is BinaryOperator {
+  return value in BINARY_PRECEDENCE
+}
+
+// '=' を除いた数式本体を構文木に変換する（構文エラーは例外を投げる）
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const next = () => tokens[index++]
+  const isOperator = (value: string) => {
+    const token = peek()
+    return token.type === 'operator' && token.value === value
+  }
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new Error(`Expected '${value}'`)
+    index++
+  }
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parseUnary()
+    while (true) {
+      const token = peek()
+      if (token.type !== 'operator' || !isBinaryOperator(token.value)) break
+      const precedence = BINARY_PRECEDENCE[token.value]
+      if (precedence < minPrecedence) break
+      index++
+      // すべて左結合
+      const right = parseExpression(precedence + 1)
+      left = { type: 'binary', operator: token.value, left, right }
+    }
+    return left
+  }
+
+  // Excelと同様に単項マイナスは累乗より強く結合する（-2^2 = 4）
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-') || isOperator('+')) {
+      const operator = (next() as { value: '+' | '-' }).value
+      return { type: 'unary', operator, operand: parseUnary() }
+    }
+    return parsePostfix()
+  }
+
+  const parsePostfix = (): FormulaNode => {
+    let node = parsePrimary()
+    while (isOperator('%')) {
+      index++
+      node = { type: 'percent', operand: node }
+    }
+    return node
+  }
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next()
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value }
+      case 'string':
+        return { type: 'string', value: token.value }
+      case 'error':
+        return { type: 'error', code: token.code }
+      case 'ref': {
+        if (isOperator(':')) {
+          index++
+          const end = next()
+          // Sheet2!A1:B2 の終点はシート名を省略する（書く場合は始点と同じシート）
+          if (end.type !== 'ref' || (end.sheet !== undefined && end.sheet.toUpperCase() !== token.sheet?.toUpperCase())) {
+            throw new Error('Invalid range reference')
+          }
+          return { type: 'range', start: token.ref, end: end.ref, sheet: token.sheet }
+        }
+        return { type: 'ref', ref: token.ref, sheet: token.sheet }
+      }
+      case 'name': {
+        if (isOperator('(')) {
+          index++
+          const args: FormulaNode[] = []
+          if (!isOperator(')')) {
+            while (true) {
+              // 省略された引数（IF(A1,,1) など）は空値として扱う
+              if (isOperator(',') || isOperator(')')) {
+                args.push({ type: 'empty' })
+              } else {
+                args.push(parseExpression(1))
+              }
+              if (!isOperator(',')) break
+              index++
+            }
+          }
+          expect(')')
+          return { type: 'call', name: token.name, args }
+        }
+        if (token.name === 'TRUE' || token.name === 'FALSE') {
+          return { type: 'boolean', value: token.name === 'TRUE' }
+        }
+        return { type: 'name', name: token.name }
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseExpression(1)
+          expect(')')
+          return inner
+        }
+        throw new Error(`Unexpected operator: ${token.value}`)
+      case 'eof':
+        throw new Error('Unexpected end of formula')
+    }
+  }
+
+  const root = parseExpression(1)
+  if (peek().type !== 'eof') throw new Error('Unexpected token after formula')
+  return root
+}
+
+// 他のシートのセル・範囲への参照
+export interface ExternalReference {
+  sheet: string
+  start: CellAddress
+  end: CellAddress
+}
+
+// 構文木が参照するセルと範囲を収集（依存関係グラフの構築に使う。他のシートへの参照は external）
+export function collectReferences(node: FormulaNode): {
+  cells: CellAddress[]
+  ranges: Array<{ start: CellAddress; end: CellAddress }>
+  external: ExternalReference[]
+} {
+  const cells: CellAddress[] = []
+  const ranges: Array<{ start: CellAddress; end: CellAddress }> = []
+  const external: ExternalReference[] = []
+
+  const visit = (current: FormulaNode) => {
+    switch (current.type) {
+      case 'ref':
+        if (current.sheet !== undefined) external.push({ sheet: current.sheet, start: current.ref, end: current.ref })
+        else cells.push(current.ref)
+        break
+      case 'range':
+        if (current.sheet !== undefined) external.push({ sheet: current.sheet, start: current.start, end: current.end })
+        else ranges.push({ start: current.start, end: current.end })
+        break
+      case 'call':
+        current.args.forEach(visit)
+        break
+      case 'unary':
+      case 'percent':
+        visit(current.operand)
+        break
+      case 'binary':
+        visit(current.left)
+        visit(current.right)
+        break
+    }
+  }
+
+  visit(node)
+  return { cells, ranges, external }
+}
@@ -0,0 +1,126 @@
+import {
+  ERROR_PATTERN,
+  IDENTIFIER_PATTERN,
+  NUMBER_PATTERN,
+  SHEET_PREFIX_PATTERN,
+  getSheetPrefixName,
+} from './parser'
+import {
+  MAX_COLUMN_COUNT,
+  MAX_ROW_COUNT,
+  formatCellAddress,
+  parseCellAddress,
+  quoteSheetName,
+  type CellAddress,
+} from '../address'
+
+// 数式中の参照（単一セルの場合は start と end が同じ。sheet は他のシートへの参照のシート名）
+export interface FormulaReference {
+  start: CellAddress
+  end: CellAddress
+  sheet?: string
+}
+
+// 参照を書き換える関数（null を返した参照は #REF! になる）
+export type ReferenceTransform = (reference: FormulaReference) => FormulaReference | null
+
+const RANGE_END_PATTERN = /^:([$A-Za-z][A-Za-z0-9$]*)/
+
+function formatAddress(address: CellAddress): string {
+  return formatCellAddress(address, address)
+}
+
+// 数式の文字列・関数名などはそのままに、セル参照と範囲参照だけを書き換える
+// （構文解析はせず字句単位で置き換えるため、構文エラーのある数式もそのまま残る）
+export function transformFormulaReferences(formula: string, transform: ReferenceTransform): string {
+  let result = ''
+  let pos = 0
+
+  while (pos < formula.length) {
+    const char = formula[pos]
+    const rest = formula.slice(pos)
+
+    // 文字列リテラルは閉じる " まで読み飛ばす（"" はエスケープされた " ）
+    if (char === '"') {
+      let end = pos + 1
+      while (end < formula.length) {
+        if (formula[end] === '"') {
+          if (formula[end + 1] !== '"') break
+          end++
+        }
+        end++
+      }
+      result += formula.slice(pos, end + 1)
+      pos = end + 1
+      continue
+    }
+
+    const literal = NUMBER_PATTERN.exec(rest) ?? ERROR_PATTERN.exec(rest)
+    if (literal) {
+      result += literal[0]
+      pos += literal[0].length
+      continue
+    }
+
+    // シート名付きの参照はシート名ごと書き換える
+    const sheetPrefix = SHEET_PREFIX_PATTERN.exec(rest)
+    const identifier = IDENTIFIER_PATTERN.exec(sheetPrefix ? rest.slice(sheetPrefix[0].length) : rest)
+    if (identifier) {
+      const prefix = sheetPrefix?.[0] ?? ''
+      const text = identifier[0]
+      pos += prefix.length + text.length
+      const start = /^\s*\(/.test(formula.slice(pos)) ? null : parseCellAddress(text)
+      if (!start) {
+        result += prefix + text
+        continue
+      }
+
+      // A1:B2 は範囲全体を1つの参照として書き換える
+      const rangeEnd = RANGE_END_PATTERN.exec(formula.slice(pos))
+      const end = rangeEnd ? parseCellAddress(rangeEnd[1]) : null
+      if (rangeEnd && end) pos += rangeEnd[0].length
+
+      const sheet = sheetPrefix ? getSheetPrefixName(sheetPrefix) : undefined
+      const transformed = transform({ start, end: end ?? start, sheet })
+      if (!transformed) {
+        result += '#REF!'
+        continue
+      }
+      if (transformed.sheet !== undefined) result += `${quoteSheetName(transformed.sheet)}!`
+      result += end
+        ? `${formatAddress(transformed.start)}:${formatAddress(transformed.end)}`
+        : formatAddress(transformed.start)
+      continue
+    }
+
+    result += char
+    pos++
+  }
+
+  return result
+}
+
+// 相対参照を移動量だけずらす（シートの外に出る参照は #REF!）
+export function shiftFormulaReferences(formula: string, rowOffset: number, colOffset: number): string {
+  const shift = (address: CellAddress): CellAddress | null => {
+    const row = address.rowAbsolute ? address.row : address.row + rowOffset
+    const col = address.colAbsolute ? address.col : address.col + colOffset
+    if (row < 0 || row >= MAX_ROW_COUNT || col < 0 || col >= MAX_COLUMN_COUNT) return null
+    return { ...address, row, col }
+  }
+
+  return transformFormulaReferences(formula, ({ start, end, sheet }) => {
+    const shiftedStart = shift(start)
+    const shiftedEnd = shift(end)
+    return shiftedStart && shiftedEnd ? { start: shiftedStart, end: shiftedEnd, sheet } : null
+  })
+}
+
+// シート名の変更に合わせて、そのシートへの参照のシート名を書き換える（newName が null の場合は #REF!）
+export function renameSheetReferences(formula: string, oldName: string, newName: string | null): string {
+  const target = oldName.toUpperCase()
+  return transformFormulaReferences(formula, reference => {
+    if (reference.sheet?.toUpperCase() !== target) return reference
+    return newName === null ? null : { ...reference, sheet: newName }
+  })
+}
@@ -0,0 +1,150 @@
+// 数式のエラーコード
+export type FormulaErrorCode =
+  | '#REF!'
+  | '#DIV/0!'
+  | '#NAME?'
+  | '#VALUE!'
+  | '#CIRC!'
+  | '#N/A'
+  | '#NUM!'
+  | '#ERROR!'
+
+export interface FormulaError {
+  kind: 'error'
+  code: FormulaErrorCode
+}
+
+// セル1つ分の計算結果（nullは空セル）
+export type ScalarValue = number | string | boolean | null | FormulaError
+
+// 範囲参照の計算結果
+export interface RangeValue {
+  kind: 'range'
+  values: ScalarValue[][]
+}
+
+export type FormulaValue = ScalarValue | RangeValue
+
+const ERROR_CODES: FormulaErrorCode[] = [
+  '#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#CIRC!', '#N/A', '#NUM!', '#ERROR!'
+]
+
+// エラー値はコードごとに1つのインスタンスを共有する
+export const ERRORS = Object.fromEntries(
+  ERROR_CODES.map(code => [code, Object.freeze({ kind: 'error', code })])
+) as Record<FormulaErrorCode, FormulaError>
+
+export function isFormulaError(value: unknown): value is FormulaError {
+  return typeof value === 'object' && value !== null && (value as FormulaError).kind === 'error'
+}
+
+export function isRangeValue(value: FormulaValue): value is RangeValue {
+  return typeof value === 'object' && value !== null && value.kind === 'range'
+}
+
+export function isErrorCode(code: string): code is FormulaErrorCode {
+  return (ERROR_CODES as string[]).includes(code.toUpperCase())
+}
+
+// 浮動小数点の誤差を表示に出さないよう15桁に丸める
+export function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value)
+  return String(Number(value.toPrecision(15)))
+}
+
+// 範囲をスカラーとして使う場合は単一セルのみ許可
+export function toScalar(value: FormulaValue): ScalarValue {
+  if (!isRangeValue(value)) return value
+  if (value.values.length === 1 && value.values[0].length === 1) {
+    return value.values[0][0]
+  }
+  return ERRORS['#VALUE!']
+}
+
+export function toNumber(value: ScalarValue): number | FormulaError {
+  if (value === null) return 0
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if (trimmed === '') return ERRORS['#VALUE!']
+    const parsed = Number(trimmed)
+    return Number.isNaN(parsed) ? ERRORS['#VALUE!'] : parsed
+  }
+  return value
+}
+
+export function toText(value: ScalarValue): string | FormulaError {
+  if (value === null) return ''
+  if (typeof value === 'number') return formatNumber(value)
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'string') return value
+  return value
+}
+
+export function toBoolean(value: ScalarValue): boolean | FormulaError {
+  if (value === null) return false
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+  if (typeof value === 'string') {
+    const upper = value.trim().toUpperCase()
+    if (upper === 'TRUE') return true
+    if (upper === 'FALSE') return false
+    return ERRORS['#VALUE!']
+  }
+  return value
+}
+
+// 比較の順序: 数値 < 文字列 < 真偽値（文字列は大文字小文字を区別しない）
+function typeRank(value: number | string | boolean): number {
+  if (typeof value === 'number') return 0
+  if (typeof value === 'string') return 1
+  return 2
+}
+
+export function compareValues(left: ScalarValue, right: ScalarValue): number | FormulaError {
+  if (isFormulaError(left)) return left
+  if (isFormulaError(right)) return right
+
+  // 空セルは相手の型に合わせて 0 / '' / FALSE として扱う
+  const normalize = (value: ScalarValue, other: ScalarValue) => {
+    if (value !== null) return value as number | string | boolean
+    if (typeof other === 'string') return ''
+    if (typeof other === 'boolean') return false
+    return 0
+  }
+  const a = normalize(left, right)
+  const b = normalize(right, left)
+
+  const rankDiff = typeRank(a) - typeRank(b)
+  if (rankDiff !== 0) return rankDiff
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    const la = a.toLowerCase()
+    const lb = b.toLowerCase()
+    return la < lb ? -1 : la > lb ? 1 : 0
+  }
+  const na = Number(a)
+  const nb = Number(b)
+  return na < nb ? -1 : na > nb ? 1 : 0
+}
+
+// セルの入力値（'='で始まらないもの）を計算用の値に変換
+export function parseLiteral(input: string | number | null | undefined): ScalarValue {
+  if (input === null || input === undefined || input === '') return null
+  if (typeof input === 'number') return input
+
+  const trimmed = input.trim()
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed)
+  const upper = trimmed.toUpperCase()
+  if (upper === 'TRUE') return true
+  if (upper === 'FALSE') return false
+  if (isErrorCode(upper)) return ERRORS[upper as FormulaErrorCode]
+  return input
+}
+
+// 計算結果をセルに表示する文字列に変換
+export function displayValue(value: ScalarValue): string {
+  if (isFormulaError(value)) return value.code
+  return toText(value) as string
+}
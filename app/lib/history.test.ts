@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { renameSheetReferences } from './formula/transform'
+import { invertOperations, rewriteOperationFormulas, type HistoryOperation } from './history'
+
+describe('rewriteOperationFormulas', () => {
+  it('rewrites formulas recorded in cell changes', () => {
+    const operations: HistoryOperation[] = [
+      {
+        type: 'cells',
+        changes: [
+          { row: 0, col: 0, before: { value: '=Sheet2!A1' }, after: { value: '=Sheet2!A1*2' } },
+          { row: 1, col: 0, before: { value: 'Sheet2!A1' }, after: { value: '' } },
+        ],
+      },
+      { type: 'resizeColumn', index: 0, before: 80, after: 120 },
+    ]
+    const rewritten = rewriteOperationFormulas(operations, formula => renameSheetReferences(formula, 'Sheet2', 'Data'))
+
+    // 取り消しでも新しいシート名の数式に戻る
+    const [undo] = invertOperations(rewritten).filter(operation => operation.type === 'cells')
+    expect(undo).toMatchObject({
+      changes: [
+        { after: { value: '=Data!A1' } },
+        { after: { value: 'Sheet2!A1' } },
+      ],
+    })
+    expect(rewritten[1]).toBe(operations[1])
+  })
+})
+
+describe('linked formula operations', () => {
+  const operation: HistoryOperation = {
+    type: 'linkedFormulas',
+    changes: [{ sheetId: 'sheet-2', row: 0, col: 0, before: '=Sheet1!A2', after: '=#REF!' }],
+  }
+
+  it('swaps the formulas of other sheets when undone', () => {
+    expect(invertOperations([operation])).toEqual([{
+      type: 'linkedFormulas',
+      changes: [{ sheetId: 'sheet-2', row: 0, col: 0, before: '=#REF!', after: '=Sheet1!A2' }],
+    }])
+  })
+
+  it('rewrites the recorded formulas when the sheet is renamed', () => {
+    const [rewritten] = rewriteOperationFormulas([operation], formula => renameSheetReferences(formula, 'Sheet1', 'Data'))
+    expect(rewritten).toMatchObject({ changes: [{ before: '=Data!A2', after: '=#REF!' }] })
+  })
+})
@@ -0,0 +1,177 @@
+import type { CellContent, CellPosition, CellRange } from '../types/spreadsheet'
+import type { ConditionalFormat } from './conditional'
+import type { AxisStyles } from './sheet'
+import type { SizeOverrides } from './sizes'
+import type { DataValidation } from './validation'
+import { invertStructureChange, type StructureAxis, type StructureChange } from './structure'
+import { isFormulaInput } from './formula/engine'
+
+// 1セル分の変更（前後の内容を持つことで取り消し可能にする）
+export interface CellValueChange extends CellPosition {
+  before: CellContent
+  after: CellContent
+}
+
+// 他のシートの1セル分の数式の変更（このシートの行・列の挿入・削除でずれた参照。ブックが適用する）
+export interface LinkedFormulaChange extends CellPosition {
+  sheetId: string
+  before: string
+  after: string
+}
+
+// 取り消し可能な操作
+export type HistoryOperation =
+  | { type: 'cells'; changes: CellValueChange[] }
+  | { type: 'resizeColumn'; index: number; before: number; after: number }
+  | { type: 'resizeRow'; index: number; before: number; after: number }
+  // sizes は挿入・削除する行・列の列幅・行高（index からの相対位置。挿入時に戻す）
+  | { type: 'structure'; change: StructureChange; sizes: SizeOverrides }
+  // 結合範囲の一覧全体を置き換える
+  | { type: 'merges'; before: CellRange[]; after: CellRange[] }
+  // 行・列全体の書式をすべて置き換える
+  | { type: 'axisStyles'; axis: StructureAxis; before: AxisStyles; after: AxisStyles }
+  // 条件付き書式のルールの一覧全体を置き換える
+  | { type: 'conditionalFormats'; before: ConditionalFormat[]; after: ConditionalFormat[] }
+  // 入力規則の一覧全体を置き換える
+  | { type: 'dataValidations'; before: DataValidation[]; after: DataValidation[] }
+  | { type: 'linkedFormulas'; changes: LinkedFormulaChange[] }
+
+export interface SelectionSnapshot {
+  selectedCell: CellPosition | null
+  selectionRange: CellRange | null
+}
+
+// 履歴に記録する操作の種類（ツールバーの表示などに使う）
+export type HistoryAction =
+  | 'edit'
+  | 'paste'
+  | 'cut'
+  | 'clear'
+  | 'fill'
+  | 'sort'
+  | 'replace'
+  | 'import'
+  | 'resizeColumn'
+  | 'resizeRow'
+  | 'insertRows'
+  | 'deleteRows'
+  | 'insertColumns'
+  | 'deleteColumns'
+  | 'merge'
+  | 'unmerge'
+  | 'style'
+  | 'conditionalFormat'
+  | 'dataValidation'
+
+export interface HistoryEntry {
+  action: HistoryAction
+  operations: HistoryOperation[]
+  // 取り消し時・やり直し時に復元する選択状態
+  selectionBefore: SelectionSnapshot
+  selectionAfter: SelectionSnapshot
+}
+
+// ツールバーなど外部からボタンの状態を判断するための履歴の状態
+export interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+  undoAction: HistoryAction | null
+  redoAction: HistoryAction | null
+  undoCount: number
+  redoCount: number
+}
+
+export function invertOperation(operation: HistoryOperation): HistoryOperation {
+  switch (operation.type) {
+    case 'cells':
+      return {
+        type: 'cells',
+        changes: operation.changes.map(change => ({
+          ...change,
+          before: change.after,
+          after: change.before,
+        })),
+      }
+    case 'resizeColumn':
+    case 'resizeRow':
+      return { ...operation, before: operation.after, after: operation.before }
+    case 'structure':
+      return { ...operation, change: invertStructureChange(operation.change) }
+    case 'merges':
+      return { ...operation, before: operation.after, after: operation.before }
+    case 'axisStyles':
+      return { ...operation, before: operation.after, after: operation.before }
+    case 'conditionalFormats':
+      return { ...operation, before: operation.after, after: operation.before }
+    case 'dataValidations':
+      return { ...operation, before: operation.after, after: operation.before }
+    case 'linkedFormulas':
+      return {
+        ...operation,
+        changes: operation.changes.map(change => ({ ...change, before: change.after, after: change.before })),
+      }
+  }
+}
+
+// 操作に含まれるセルの数式を書き換える（シート名の変更などで書き換えた数式を、取り消しで元に戻さないようにする）
+export function rewriteOperationFormulas(
+  operations: HistoryOperation[],
+  rewrite: (formula: string) => string
+): HistoryOperation[] {
+  const rewriteContent = (content: CellContent): CellContent =>
+    isFormulaInput(content.value) ? { ...content, value: rewrite(content.value) } : content
+  return operations.map(operation => {
+    switch (operation.type) {
+      case 'cells':
+        return {
+          ...operation,
+          changes: operation.changes.map(change => ({
+            ...change,
+            before: rewriteContent(change.before),
+            after: rewriteContent(change.after),
+          })),
+        }
+      case 'linkedFormulas':
+        return {
+          ...operation,
+          changes: operation.changes.map(change => ({
+            ...change,
+            before: rewrite(change.before),
+            after: rewrite(change.after),
+          })),
+        }
+      default:
+        return operation
+    }
+  })
+}
+
+// 操作を取り消すための逆操作（複数の操作は逆順に適用する）
+export function invertOperations(operations: HistoryOperation[]): HistoryOperation[] {
+  return operations.map(invertOperation).reverse()
+}
+
+// やり直し後に選択する範囲（変更されたセル全体を囲む範囲）
+export function getOperationsSelection(operations: HistoryOperation[]): SelectionSnapshot | null {
+  let top = Infinity
+  let bottom = -Infinity
+  let left = Infinity
+  let right = -Infinity
+
+  for (const operation of operations) {
+    if (operation.type !== 'cells') continue
+    for (const { row, col } of operation.changes) {
+      top = Math.min(top, row)
+      bottom = Math.max(bottom, row)
+      left = Math.min(left, col)
+      right = Math.max(right, col)
+    }
+  }
+
+  if (top === Infinity) return null
+  const start = { row: top, col: left }
+  return {
+    selectedCell: start,
+    selectionRange: { start, end: { row: bottom, col: right } },
+  }
+}
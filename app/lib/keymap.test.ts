@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { createKeymap, findCommand, isNavigationCommand, normalizeKeyCombo, parseDirectionalCommand } from './keymap'
+
+const key = (key: string, modifiers: { ctrl?: boolean; meta?: boolean; alt?: boolean; shift?: boolean } = {}) => ({
+  key,
+  ctrlKey: modifiers.ctrl ?? false,
+  metaKey: modifiers.meta ?? false,
+  altKey: modifiers.alt ?? false,
+  shiftKey: modifiers.shift ?? false,
+})
+
+describe('normalizeKeyCombo', () => {
+  it('orders modifiers, treats Cmd as Ctrl and upper-cases single keys', () => {
+    expect(normalizeKeyCombo('shift+cmd+z')).toBe('Ctrl+Shift+Z')
+    expect(normalizeKeyCombo('Option+Control+ArrowUp')).toBe('Ctrl+Alt+ArrowUp')
+    expect(normalizeKeyCombo('Shift+ ')).toBe('Shift+Space')
+  })
+
+  it('reads a trailing + as the key', () => {
+    expect(normalizeKeyCombo('Ctrl++')).toBe('Ctrl++')
+    expect(normalizeKeyCombo('ctrl+shift++')).toBe('Ctrl+Shift++')
+  })
+})
+
+describe('createKeymap and findCommand', () => {
+  it('finds the default commands', () => {
+    const keymap = createKeymap()
+    expect(findCommand(keymap, key('ArrowUp', { ctrl: true, shift: true }))).toBe('extendToEdgeUp')
+    expect(findCommand(keymap, key('z', { meta: true }))).toBe('undo')
+    expect(findCommand(keymap, key(' ', { shift: true }))).toBe('selectRow')
+    expect(findCommand(keymap, key('x'))).toBeNull()
+  })
+
+  it('also looks up symbols without Shift', () => {
+    // 日本語配列では Shift+; で + を入力する
+    expect(findCommand(createKeymap(), key('+', { ctrl: true, shift: true }))).toBe('insert')
+    // 英字は Shift の有無を区別する
+    expect(findCommand(createKeymap(), key('B', { ctrl: true, shift: true }))).toBeNull()
+  })
+
+  it('applies overrides and removes commands mapped to null', () => {
+    const keymap = createKeymap({ 'cmd+d': 'delete', 'Ctrl+Y': null })
+    expect(findCommand(keymap, key('d', { ctrl: true }))).toBe('delete')
+    expect(findCommand(keymap, key('y', { ctrl: true }))).toBeNull()
+    expect(findCommand(keymap, key('z', { ctrl: true, shift: true }))).toBe('redo')
+  })
+})
+
+describe('navigation commands', () => {
+  it('splits directional commands', () => {
+    expect(parseDirectionalCommand('extendToEdgeLeft')).toEqual({ extend: true, unit: 'edge', direction: 'Left' })
+    expect(parseDirectionalCommand('movePageDown')).toEqual({ extend: false, unit: 'page', direction: 'Down' })
+    expect(parseDirectionalCommand('selectAll')).toBeNull()
+  })
+
+  it('tells navigation from other commands', () => {
+    expect(isNavigationCommand('moveUp')).toBe(true)
+    expect(isNavigationCommand('nextRow')).toBe(true)
+    expect(isNavigationCommand('undo')).toBe(false)
+  })
+})
@@ -0,0 +1,220 @@
+// グリッドのキー操作とコマンドの対応（Excel と同じキーを既定にする）
+
+type Direction = 'Up' | 'Down' | 'Left' | 'Right'
+
+// 選択の移動（extend は選択範囲を広げる。ToEdge はデータのある領域の端、Page は表示領域1画面分）
+export type NavigationCommand =
+  | `move${Direction}`
+  | `extend${Direction}`
+  | `moveToEdge${Direction}`
+  | `extendToEdge${Direction}`
+  | `movePage${Direction}`
+  | `extendPage${Direction}`
+  | 'moveToRowStart'
+  | 'extendToRowStart'
+  | 'moveToRowEnd'
+  | 'extendToRowEnd'
+  | 'moveToFirstCell'
+  | 'extendToFirstCell'
+  | 'moveToLastCell'
+  | 'extendToLastCell'
+  // 選択範囲の中を折り返して移動する（Tab は右、Enter は下）
+  | 'nextCell'
+  | 'previousCell'
+  | 'nextRow'
+  | 'previousRow'
+  // 選択範囲の行全体・列全体・シート全体を選択する
+  | 'selectRow'
+  | 'selectColumn'
+  | 'selectAll'
+
+export type SpreadsheetCommand =
+  | NavigationCommand
+  | 'undo'
+  | 'redo'
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'find'
+  | 'replace'
+  // 行・列の挿入・削除（列全体を選択している場合は列、それ以外は選択範囲の行）
+  | 'insert'
+  | 'delete'
+  // アクティブセルの編集を開始する（clearAndEdit は値を消して開始する）
+  | 'edit'
+  | 'clearAndEdit'
+  | 'clearContents'
+  // 入力規則の一覧・右クリックメニューを開く
+  | 'openList'
+  | 'openContextMenu'
+
+// キーの組み合わせ（'Ctrl+Shift+ArrowUp' など）からコマンドへの対応。null は既定の割り当てを外す
+export type Keymap = Record<string, SpreadsheetCommand | null>
+
+export const DEFAULT_KEYMAP: Keymap = {
+  ArrowUp: 'moveUp',
+  ArrowDown: 'moveDown',
+  ArrowLeft: 'moveLeft',
+  ArrowRight: 'moveRight',
+  'Shift+ArrowUp': 'extendUp',
+  'Shift+ArrowDown': 'extendDown',
+  'Shift+ArrowLeft': 'extendLeft',
+  'Shift+ArrowRight': 'extendRight',
+  'Ctrl+ArrowUp': 'moveToEdgeUp',
+  'Ctrl+ArrowDown': 'moveToEdgeDown',
+  'Ctrl+ArrowLeft': 'moveToEdgeLeft',
+  'Ctrl+ArrowRight': 'moveToEdgeRight',
+  'Ctrl+Shift+ArrowUp': 'extendToEdgeUp',
+  'Ctrl+Shift+ArrowDown': 'extendToEdgeDown',
+  'Ctrl+Shift+ArrowLeft': 'extendToEdgeLeft',
+  'Ctrl+Shift+ArrowRight': 'extendToEdgeRight',
+  PageUp: 'movePageUp',
+  PageDown: 'movePageDown',
+  'Alt+PageUp': 'movePageLeft',
+  'Alt+PageDown': 'movePageRight',
+  'Shift+PageUp': 'extendPageUp',
+  'Shift+PageDown': 'extendPageDown',
+  'Alt+Shift+PageUp': 'extendPageLeft',
+  'Alt+Shift+PageDown': 'extendPageRight',
+  Home: 'moveToRowStart',
+  'Shift+Home': 'extendToRowStart',
+  End: 'moveToRowEnd',
+  'Shift+End': 'extendToRowEnd',
+  'Ctrl+Home': 'moveToFirstCell',
+  'Ctrl+Shift+Home': 'extendToFirstCell',
+  'Ctrl+End': 'moveToLastCell',
+  'Ctrl+Shift+End': 'extendToLastCell',
+  Tab: 'nextCell',
+  'Shift+Tab': 'previousCell',
+  Enter: 'nextRow',
+  'Shift+Enter': 'previousRow',
+  'Shift+Space': 'selectRow',
+  'Ctrl+Space': 'selectColumn',
+  'Ctrl+A': 'selectAll',
+  'Ctrl+Shift+Space': 'selectAll',
+  'Ctrl+Z': 'undo',
+  'Ctrl+Y': 'redo',
+  'Ctrl+Shift+Z': 'redo',
+  'Ctrl+B': 'bold',
+  'Ctrl+I': 'italic',
+  'Ctrl+U': 'underline',
+  'Ctrl+F': 'find',
+  'Ctrl+H': 'replace',
+  'Ctrl++': 'insert',
+  'Ctrl+Shift+=': 'insert',
+  'Ctrl+-': 'delete',
+  F2: 'edit',
+  Backspace: 'clearAndEdit',
+  Delete: 'clearContents',
+  'Alt+ArrowDown': 'openList',
+  'Shift+F10': 'openContextMenu',
+  ContextMenu: 'openContextMenu',
+}
+
+const NAVIGATION_PATTERN = /^(move|extend)(ToEdge|Page)?(Up|Down|Left|Right)$/
+
+// 方向のある移動のコマンドを分解する（それ以外のコマンドは null）
+export function parseDirectionalCommand(command: NavigationCommand): {
+  extend: boolean
+  unit: 'cell' | 'edge' | 'page'
+  direction: Direction
+} | null {
+  const match = NAVIGATION_PATTERN.exec(command)
+  if (!match) return null
+  return {
+    extend: match[1] === 'extend',
+    unit: match[2] === 'ToEdge' ? 'edge' : match[2] === 'Page' ? 'page' : 'cell',
+    direction: match[3] as Direction,
+  }
+}
+
+// 方向のない移動・選択のコマンド
+const NAVIGATION_COMMANDS = new Set<string>([
+  'moveToRowStart',
+  'extendToRowStart',
+  'moveToRowEnd',
+  'extendToRowEnd',
+  'moveToFirstCell',
+  'extendToFirstCell',
+  'moveToLastCell',
+  'extendToLastCell',
+  'nextCell',
+  'previousCell',
+  'nextRow',
+  'previousRow',
+  'selectRow',
+  'selectColumn',
+  'selectAll',
+])
+
+export function isNavigationCommand(command: SpreadsheetCommand): command is NavigationCommand {
+  return NAVIGATION_PATTERN.test(command) || NAVIGATION_COMMANDS.has(command)
+}
+
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift'] as const
+
+const MODIFIER_ALIASES: Record<string, typeof MODIFIER_ORDER[number]> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  cmd: 'Ctrl',
+  meta: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+}
+
+// 1文字のキーは大文字、空白は Space にそろえる
+function normalizeKey(key: string): string {
+  if (key === ' ' || key.toLowerCase() === 'space') return 'Space'
+  return key.length === 1 ? key.toUpperCase() : key
+}
+
+function formatKeyCombo(modifiers: Set<string>, key: string): string {
+  return [...MODIFIER_ORDER.filter(modifier => modifiers.has(modifier)), normalizeKey(key)].join('+')
+}
+
+// 修飾キーの表記と順序をそろえる（Cmd は Ctrl として扱う。'Ctrl++' の末尾の + はキー）
+export function normalizeKeyCombo(combo: string): string {
+  const parts = combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo.split('+')
+  const key = parts.pop() ?? ''
+  const modifiers = new Set(parts.map(part => MODIFIER_ALIASES[part.toLowerCase()] ?? part))
+  return formatKeyCombo(modifiers, key)
+}
+
+// 既定の割り当てに上書きを重ねて、正規化したキーの組み合わせから引けるようにする
+export function createKeymap(overrides?: Keymap): Map<string, SpreadsheetCommand> {
+  const keymap = new Map<string, SpreadsheetCommand>()
+  for (const source of [DEFAULT_KEYMAP, overrides ?? {}]) {
+    for (const [combo, command] of Object.entries(source)) {
+      const key = normalizeKeyCombo(combo)
+      if (command) keymap.set(key, command)
+      else keymap.delete(key)
+    }
+  }
+  return keymap
+}
+
+interface KeyInput {
+  key: string
+  ctrlKey: boolean
+  metaKey: boolean
+  altKey: boolean
+  shiftKey: boolean
+}
+
+// キー入力に割り当てられたコマンド
+// 英字以外の記号は Shift で入力する文字が変わるため、Shift を除いた組み合わせでも探す（Ctrl++ など）
+export function findCommand(keymap: Map<string, SpreadsheetCommand>, e: KeyInput): SpreadsheetCommand | null {
+  const modifiers = new Set<string>()
+  if (e.ctrlKey || e.metaKey) modifiers.add('Ctrl')
+  if (e.altKey) modifiers.add('Alt')
+  if (e.shiftKey) modifiers.add('Shift')
+
+  const command = keymap.get(formatKeyCombo(modifiers, e.key))
+  if (command) return command
+  if (e.shiftKey && e.key.length === 1 && e.key.toLowerCase() === e.key.toUpperCase() && e.key !== ' ') {
+    modifiers.delete('Shift')
+    return keymap.get(formatKeyCombo(modifiers, e.key)) ?? null
+  }
+  return null
+}
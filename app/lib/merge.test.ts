@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { addMerge, createMergeIndex, getMergeAnchor, removeMerges } from './merge'
+
+const range = (top: number, left: number, bottom: number, right: number) => ({
+  start: { row: top, col: left },
+  end: { row: bottom, col: right },
+})
+
+describe('createMergeIndex', () => {
+  it('normalizes merges and ignores single cells', () => {
+    const index = createMergeIndex([range(2, 2, 1, 1), range(5, 5, 5, 5)])
+    expect(index.merges).toEqual([range(1, 1, 2, 2)])
+    expect(index.getMerge(2, 1)).toEqual({ top: 1, bottom: 2, left: 1, right: 2 })
+    expect(index.getMerge(5, 5)).toBeNull()
+    expect(getMergeAnchor(index, { row: 2, col: 2 })).toEqual({ row: 1, col: 1 })
+    expect(getMergeAnchor(index, { row: 0, col: 0 })).toEqual({ row: 0, col: 0 })
+  })
+
+  it('expands ranges over chained merges and keeps their direction', () => {
+    // A1:B1 を選ぶと B1:B2 を含むように広がり、広げた範囲がかかる A2:A3 も含むように広がる
+    const index = createMergeIndex([range(0, 1, 1, 1), range(1, 0, 2, 0)])
+    expect(index.expandRange(range(0, 0, 0, 1))).toEqual(range(0, 0, 2, 1))
+    expect(index.expandRange({ start: { row: 0, col: 1 }, end: { row: 0, col: 0 } })).toEqual({
+      start: { row: 0, col: 1 },
+      end: { row: 2, col: 0 },
+    })
+  })
+})
+
+describe('addMerge and removeMerges', () => {
+  it('replaces overlapping merges', () => {
+    const merges = [range(0, 0, 1, 1), range(5, 0, 6, 0)]
+    expect(addMerge(merges, range(1, 3, 0, 1))).toEqual([range(5, 0, 6, 0), range(0, 1, 1, 3)])
+    // 1セルの範囲は結合しないが、重なる結合は解除する
+    expect(addMerge(merges, range(1, 1, 1, 1))).toEqual([range(5, 0, 6, 0)])
+  })
+
+  it('removes every merge overlapping the range', () => {
+    const merges = [range(0, 0, 1, 1), range(5, 0, 6, 0)]
+    expect(removeMerges(merges, range(1, 0, 5, 0))).toEqual([])
+    expect(removeMerges(merges, range(3, 3, 3, 3))).toEqual(merges)
+  })
+})
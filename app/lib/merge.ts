@@ -0,0 +1,79 @@
+import type { CellPosition, CellRange } from '../types/spreadsheet'
+import { normalizeRange, rangesOverlap, type RangeBounds } from './range'
+
+export interface MergeIndex {
+  // 正規化した結合範囲（開始セルが左上）
+  merges: CellRange[]
+  // セルを含む結合範囲
+  getMerge: (row: number, col: number) => RangeBounds | null
+  // 一部だけ含まれる結合範囲をすべて含むように広げた範囲（start・end の向きは保つ）
+  expandRange: (range: CellRange) => CellRange
+}
+
+const boundsToRange = ({ top, bottom, left, right }: RangeBounds): CellRange => ({
+  start: { row: top, col: left },
+  end: { row: bottom, col: right },
+})
+
+const isSingleCell = ({ top, bottom, left, right }: RangeBounds) => top === bottom && left === right
+
+// 行ごとに結合範囲を引けるようにする（1セルだけの範囲は結合として扱わない）
+export function createMergeIndex(merges: CellRange[]): MergeIndex {
+  const bounds = merges.map(normalizeRange).filter(merge => !isSingleCell(merge))
+  const rows = new Map<number, RangeBounds[]>()
+  for (const merge of bounds) {
+    for (let row = merge.top; row <= merge.bottom; row++) {
+      const rowMerges = rows.get(row)
+      if (rowMerges) rowMerges.push(merge)
+      else rows.set(row, [merge])
+    }
+  }
+
+  const getMerge = (row: number, col: number) =>
+    rows.get(row)?.find(merge => col >= merge.left && col <= merge.right) ?? null
+
+  const expandRange = (range: CellRange): CellRange => {
+    if (bounds.length === 0) return range
+    const area = normalizeRange(range)
+    // 広げた範囲がさらに別の結合範囲にかかる場合があるため、変わらなくなるまで繰り返す
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const merge of bounds) {
+        if (!rangesOverlap(area, merge)) continue
+        if (merge.top < area.top) { area.top = merge.top; changed = true }
+        if (merge.bottom > area.bottom) { area.bottom = merge.bottom; changed = true }
+        if (merge.left < area.left) { area.left = merge.left; changed = true }
+        if (merge.right > area.right) { area.right = merge.right; changed = true }
+      }
+    }
+
+    const isDown = range.start.row <= range.end.row
+    const isRight = range.start.col <= range.end.col
+    return {
+      start: { row: isDown ? area.top : area.bottom, col: isRight ? area.left : area.right },
+      end: { row: isDown ? area.bottom : area.top, col: isRight ? area.right : area.left },
+    }
+  }
+
+  return { merges: bounds.map(boundsToRange), getMerge, expandRange }
+}
+
+// 結合範囲の左上のセル（結合されていない場合はそのセル）
+export function getMergeAnchor(index: MergeIndex, position: CellPosition): CellPosition {
+  const merge = index.getMerge(position.row, position.col)
+  return merge ? { row: merge.top, col: merge.left } : position
+}
+
+// 範囲を結合する（重なる既存の結合範囲は取り除く）
+export function addMerge(merges: CellRange[], range: CellRange): CellRange[] {
+  const area = normalizeRange(range)
+  const rest = merges.filter(merge => !rangesOverlap(normalizeRange(merge), area))
+  return isSingleCell(area) ? rest : [...rest, boundsToRange(area)]
+}
+
+// 範囲に重なる結合をすべて解除する
+export function removeMerges(merges: CellRange[], range: CellRange): CellRange[] {
+  const area = normalizeRange(range)
+  return merges.filter(merge => !rangesOverlap(normalizeRange(merge), area))
+}
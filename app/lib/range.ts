@@ -0,0 +1,36 @@
+import type { CellPosition, CellRange } from '../types/spreadsheet'
+
+// 選択範囲の上下左右（start/endの向きに依存しない形）
+export interface RangeBounds {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+export function normalizeRange(range: CellRange): RangeBounds {
+  return {
+    top: Math.min(range.start.row, range.end.row),
+    bottom: Math.max(range.start.row, range.end.row),
+    left: Math.min(range.start.col, range.end.col),
+    right: Math.max(range.start.col, range.end.col),
+  }
+}
+
+export function isPositionInRange(position: CellPosition, range: CellRange): boolean {
+  const { top, bottom, left, right } = normalizeRange(range)
+  return position.row >= top && position.row <= bottom && position.col >= left && position.col <= right
+}
+
+// 範囲どうしが重なるかどうか
+export function rangesOverlap(a: RangeBounds, b: RangeBounds): boolean {
+  return a.top <= b.bottom && b.top <= a.bottom && a.left <= b.right && b.left <= a.right
+}
+
+// 位置をシートの範囲内に収める
+export function clampPosition(position: CellPosition, rowCount: number, columnCount: number): CellPosition {
+  return {
+    row: Math.min(Math.max(position.row, 0), rowCount - 1),
+    col: Math.min(Math.max(position.col, 0), columnCount - 1),
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+  compareSearchPositions,
+  createSearchPattern,
+  DEFAULT_SEARCH_OPTIONS,
+  findNextMatchIndex,
+  matchesSearch,
+  replaceSearchMatches,
+} from './search'
+
+const pattern = (query: string, options: Partial<typeof DEFAULT_SEARCH_OPTIONS> = {}) =>
+  createSearchPattern(query, { ...DEFAULT_SEARCH_OPTIONS, ...options })!
+
+describe('createSearchPattern', () => {
+  it('matches literal text without case sensitivity by default', () => {
+    expect(matchesSearch(pattern('a.b'), 'xA.Bx')).toBe(true)
+    expect(matchesSearch(pattern('a.b'), 'axb')).toBe(false)
+    expect(matchesSearch(pattern('a.b', { matchCase: true }), 'A.B')).toBe(false)
+  })
+
+  it('matches the whole cell and regular expressions', () => {
+    expect(matchesSearch(pattern('abc', { wholeCell: true }), 'abcd')).toBe(false)
+    expect(matchesSearch(pattern('a|b', { regex: true, wholeCell: true }), 'b')).toBe(true)
+  })
+
+  it('returns null for empty queries and invalid regular expressions', () => {
+    expect(createSearchPattern('', DEFAULT_SEARCH_OPTIONS)).toBeNull()
+    expect(createSearchPattern('(', { ...DEFAULT_SEARCH_OPTIONS, regex: true })).toBeNull()
+  })
+
+  it('can be reused for consecutive matches', () => {
+    const global = pattern('a')
+    expect(matchesSearch(global, 'a')).toBe(true)
+    expect(matchesSearch(global, 'a')).toBe(true)
+  })
+})
+
+describe('replaceSearchMatches', () => {
+  it('replaces every match and expands groups only for regular expressions', () => {
+    expect(replaceSearchMatches(pattern('a'), 'Banana', '$1', false)).toBe('B$1n$1n$1')
+    expect(replaceSearchMatches(pattern('(\\d+)円', { regex: true }), '100円と20円', '¥$1', true)).toBe('¥100と¥20')
+  })
+})
+
+describe('findNextMatchIndex', () => {
+  const matches = [{ row: 0, col: 3 }, { row: 1, col: 0 }, { row: 1, col: 2 }].sort(compareSearchPositions)
+
+  it('finds the next match in row order and wraps around', () => {
+    expect(findNextMatchIndex(matches, null)).toBe(0)
+    expect(findNextMatchIndex(matches, { row: 0, col: 5 })).toBe(1)
+    expect(findNextMatchIndex(matches, { row: 1, col: 2 })).toBe(0)
+  })
+
+  it('finds the previous match when searching backward', () => {
+    expect(findNextMatchIndex(matches, null, true)).toBe(2)
+    expect(findNextMatchIndex(matches, { row: 1, col: 0 }, true)).toBe(0)
+    expect(findNextMatchIndex(matches, { row: 0, col: 3 }, true)).toBe(2)
+    expect(findNextMatchIndex([], { row: 0, col: 0 })).toBe(-1)
+  })
+})
@@ -0,0 +1,67 @@
+import type { CellPosition } from '../types/spreadsheet'
+
+// 表示されている値（数式は計算結果）と、入力した内容（数式そのもの）のどちらを検索するか
+export type SearchTarget = 'values' | 'formulas'
+
+export interface SearchOptions {
+  matchCase: boolean
+  // セルの内容全体が一致する場合のみ
+  wholeCell: boolean
+  regex: boolean
+  lookIn: SearchTarget
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  matchCase: false,
+  wholeCell: false,
+  regex: false,
+  lookIn: 'values',
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// 検索語から正規表現を作る（空の検索語や正しくない正規表現の場合は null）
+export function createSearchPattern(query: string, options: SearchOptions): RegExp | null {
+  if (query === '') return null
+  const source = options.regex ? query : escapeRegExp(query)
+  try {
+    return new RegExp(options.wholeCell ? `^(?:${source})$` : source, options.matchCase ? 'g' : 'gi')
+  } catch {
+    return null
+  }
+}
+
+export function matchesSearch(pattern: RegExp, text: string): boolean {
+  pattern.lastIndex = 0
+  return pattern.test(text)
+}
+
+// 一致した部分をすべて置き換える（正規表現の場合は $1 などで一致した部分を参照できる）
+export function replaceSearchMatches(pattern: RegExp, text: string, replacement: string, regex: boolean): string {
+  pattern.lastIndex = 0
+  return regex ? text.replace(pattern, replacement) : text.replace(pattern, () => replacement)
+}
+
+// 行ごとに左から右へ進む順（Excel の「行単位」の検索順）
+export function compareSearchPositions(a: CellPosition, b: CellPosition): number {
+  return a.row - b.row || a.col - b.col
+}
+
+// 現在の位置の次（backward の場合は前）にある一致の番号（端を越えた場合は反対側から探す）
+export function findNextMatchIndex(
+  matches: CellPosition[],
+  position: CellPosition | null,
+  backward = false
+): number {
+  if (matches.length === 0) return -1
+  if (!position) return backward ? matches.length - 1 : 0
+
+  if (backward) {
+    for (let i = matches.length - 1; i >= 0; i--) {
+      if (compareSearchPositions(matches[i], position) < 0) return i
+    }
+    return matches.length - 1
+  }
+  const index = matches.findIndex(match => compareSearchPositions(match, position) > 0)
+  return index < 0 ? 0 : index
+}
@@ -0,0 +1,216 @@
+import type { CellChange, CellData, CellPosition, CellRange, CellStyle } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT, MAX_ROW_COUNT } from './address'
+import type { StructureAxis } from './structure'
+
+// 1セル分の変更（削除されたセルの after、新しく作られたセルの before は undefined）
+export interface SheetCellChange extends CellPosition {
+  before: CellData | undefined
+  after: CellData | undefined
+}
+
+export type SheetListener = (changes: SheetCellChange[]) => void
+
+// 行・列全体の書式（index → 書式）
+export type AxisStyles = Record<number, CellStyle>
+
+export interface SheetModel {
+  readonly rowCount: number
+  readonly columnCount: number
+  // 値を持つセルの数
+  readonly cellCount: number
+  // 変更が通知されるたびに増える番号
+  readonly version: number
+  getCell: (row: number, col: number) => CellData | undefined
+  // セルを置き換える（undefined の場合は削除）
+  setCell: (row: number, col: number, cell: CellData | undefined) => void
+  // グリッドからの変更（値と推測された type・format）を既存のセルに反映
+  applyChanges: (changes: CellChange[]) => void
+  // 処理中の変更をまとめて1回だけ通知する
+  batch: (update: () => void) => void
+  subscribe: (listener: SheetListener) => () => void
+  // 値を持つセルを行・列の順に列挙
+  forEachCell: (callback: (cell: CellData, row: number, col: number) => void) => void
+  // 値を持つセルを囲む最小の範囲
+  getUsedRange: () => CellRange | null
+  // 大きさを変更する（範囲外になるセルは削除する）
+  resize: (rowCount: number, columnCount: number) => void
+  // 行・列全体の書式（セルごとの書式を持たないセルに適用する）
+  getAxisStyles: (axis: StructureAxis) => AxisStyles
+  setAxisStyles: (axis: StructureAxis, styles: AxisStyles) => void
+  // セルに適用される書式（セルの書式、行の書式、列の書式の順に優先する）
+  getCellStyle: (row: number, col: number) => CellStyle | undefined
+}
+
+interface SheetModelOptions {
+  rowCount?: number
+  columnCount?: number
+  // 配列形式のデータから初期化する
+  data?: CellData[][]
+}
+
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+
+// 値も書式も持たないセルは保持しない
+function isEmptyCell(cell: CellData): boolean {
+  return (
+    cell.value === '' &&
+    cell.type === undefined &&
+    cell.format === undefined &&
+    cell.style === undefined &&
+    cell.editable === undefined
+  )
+}
+
+// 使われているセルだけを行ごとの Map に保持する疎なシート
+export function createSheetModel({
+  rowCount = MAX_ROW_COUNT,
+  columnCount = MAX_COLUMN_COUNT,
+  data,
+}: SheetModelOptions = {}): SheetModel {
+  const rows = new Map<number, Map<number, CellData>>()
+  const axisStyles: Record<StructureAxis, AxisStyles> = { row: {}, column: {} }
+  const listeners = new Set<SheetListener>()
+  let cellCount = 0
+  let version = 0
+  let batchDepth = 0
+  // バッチ中の変更（同じセルへの複数回の変更は最初の before と最後の after にまとめる）
+  const pending = new Map<number, SheetCellChange>()
+
+  const isInBounds = (row: number, col: number) =>
+    row >= 0 && row < rowCount && col >= 0 && col < columnCount
+
+  const flush = () => {
+    if (pending.size === 0) return
+    const changes = [...pending.values()].filter(change => change.before !== change.after)
+    pending.clear()
+    if (changes.length === 0) return
+    version++
+    listeners.forEach(listener => listener(changes))
+  }
+
+  const batch = (update: () => void) => {
+    batchDepth++
+    try {
+      update()
+    } finally {
+      batchDepth--
+      if (batchDepth === 0) flush()
+    }
+  }
+
+  const getCell = (row: number, col: number) => rows.get(row)?.get(col)
+
+  const writeCell = (row: number, col: number, cell: CellData | undefined) => {
+    if (!isInBounds(row, col)) return
+    const before = getCell(row, col)
+    const after = cell && !isEmptyCell(cell) ? cell : undefined
+    if (before === after) return
+
+    if (after) {
+      let rowCells = rows.get(row)
+      if (!rowCells) {
+        rowCells = new Map()
+        rows.set(row, rowCells)
+      }
+      rowCells.set(col, after)
+      if (!before) cellCount++
+    } else {
+      const rowCells = rows.get(row)!
+      rowCells.delete(col)
+      if (rowCells.size === 0) rows.delete(row)
+      cellCount--
+    }
+
+    const key = toKey(row, col)
+    const previous = pending.get(key)
+    pending.set(key, { row, col, before: previous ? previous.before : before, after })
+  }
+
+  const setCell = (row: number, col: number, cell: CellData | undefined) => {
+    batch(() => writeCell(row, col, cell))
+  }
+
+  const applyChanges = (changes: CellChange[]) => {
+    batch(() => {
+      for (const { row, col, ...content } of changes) {
+        writeCell(row, col, { ...getCell(row, col), ...content })
+      }
+    })
+  }
+
+  const forEachCell = (callback: (cell: CellData, row: number, col: number) => void) => {
+    const rowIndexes = [...rows.keys()].sort((a, b) => a - b)
+    for (const row of rowIndexes) {
+      const rowCells = rows.get(row)!
+      const colIndexes = [...rowCells.keys()].sort((a, b) => a - b)
+      for (const col of colIndexes) {
+        callback(rowCells.get(col)!, row, col)
+      }
+    }
+  }
+
+  const getUsedRange = (): CellRange | null => {
+    if (rows.size === 0) return null
+    let top = Infinity
+    let bottom = -Infinity
+    let left = Infinity
+    let right = -Infinity
+    rows.forEach((rowCells, row) => {
+      top = Math.min(top, row)
+      bottom = Math.max(bottom, row)
+      rowCells.forEach((_, col) => {
+        left = Math.min(left, col)
+        right = Math.max(right, col)
+      })
+    })
+    return { start: { row: top, col: left }, end: { row: bottom, col: right } }
+  }
+
+  const resize = (nextRowCount: number, nextColumnCount: number) => {
+    batch(() => {
+      const removed: CellPosition[] = []
+      forEachCell((_, row, col) => {
+        if (row >= nextRowCount || col >= nextColumnCount) removed.push({ row, col })
+      })
+      removed.forEach(({ row, col }) => writeCell(row, col, undefined))
+      rowCount = Math.min(MAX_ROW_COUNT, nextRowCount)
+      columnCount = Math.min(MAX_COLUMN_COUNT, nextColumnCount)
+    })
+  }
+
+  const getCellStyle = (row: number, col: number) =>
+    getCell(row, col)?.style ?? axisStyles.row[row] ?? axisStyles.column[col]
+
+  data?.forEach((rowData, row) => {
+    rowData?.forEach((cell, col) => {
+      if (cell) writeCell(row, col, cell)
+    })
+  })
+  // 初期データは通知しない
+  pending.clear()
+
+  return {
+    get rowCount() { return rowCount },
+    get columnCount() { return columnCount },
+    get cellCount() { return cellCount },
+    get version() { return version },
+    getCell,
+    setCell,
+    applyChanges,
+    batch,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    forEachCell,
+    getUsedRange,
+    resize,
+    getAxisStyles: (axis) => axisStyles[axis],
+    setAxisStyles: (axis, styles) => {
+      axisStyles[axis] = { ...styles }
+    },
+    getCellStyle,
+  }
+}
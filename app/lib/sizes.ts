@@ -0,0 +1,53 @@
+// インデックスごとのサイズ指定（指定のないインデックスはデフォルトサイズ）
+export type SizeOverrides = Record<number, number>
+
+export interface SizeMap {
+  getSize: (index: number) => number
+  // 指定インデックスの開始位置（ピクセル）
+  getOffset: (index: number) => number
+  // 指定位置にあるインデックス（0 〜 count - 1 に丸める）
+  getIndexAt: (offset: number, count: number) => number
+}
+
+// 疎なサイズ指定から位置計算用のマップを作る
+// 指定されたインデックスのみを保持するため、100万行でもメモリを消費しない
+export function createSizeMap(defaultSize: number, overrides: SizeOverrides = {}): SizeMap {
+  const indices = Object.keys(overrides)
+    .map(Number)
+    .sort((a, b) => a - b)
+
+  // deltaPrefix[i] = indices[0..i) のデフォルトサイズとの差分の合計
+  const deltaPrefix = [0]
+  for (const index of indices) {
+    deltaPrefix.push(deltaPrefix[deltaPrefix.length - 1] + overrides[index] - defaultSize)
+  }
+
+  const getSize = (index: number) => overrides[index] ?? defaultSize
+
+  const getOffset = (index: number) => {
+    // index より前にあるサイズ指定の数を二分探索
+    let lo = 0
+    let hi = indices.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (indices[mid] < index) lo = mid + 1
+      else hi = mid
+    }
+    return index * defaultSize + deltaPrefix[lo]
+  }
+
+  const getIndexAt = (offset: number, count: number) => {
+    if (count <= 0) return 0
+    // getOffset(i) <= offset となる最大の i を二分探索
+    let lo = 0
+    let hi = count - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (getOffset(mid) <= offset) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  return { getSize, getOffset, getIndexAt }
+}
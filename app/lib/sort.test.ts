@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { CellData } from '../types/spreadsheet'
+import { ERRORS, type ScalarValue } from './formula/values'
+import { compareSortValues, createSortChanges, getSortedRowOrder } from './sort'
+
+const range = (top: number, bottom: number, right = 0) => ({ start: { row: top, col: 0 }, end: { row: bottom, col: right } })
+
+describe('compareSortValues', () => {
+  it('orders numbers, text, booleans and errors like Excel', () => {
+    const values: ScalarValue[] = [ERRORS['#N/A'], true, 'b', 2, 'a', 1]
+    expect([...values].sort((a, b) => compareSortValues(a, b, 'asc'))).toEqual([1, 2, 'a', 'b', true, ERRORS['#N/A']])
+    expect([...values].sort((a, b) => compareSortValues(a, b, 'desc'))).toEqual([ERRORS['#N/A'], true, 'b', 'a', 2, 1])
+  })
+
+  it('puts blanks last in both directions', () => {
+    const values: ScalarValue[] = [null, 2, '', 1]
+    expect([...values].sort((a, b) => compareSortValues(a, b, 'asc')).slice(0, 2)).toEqual([1, 2])
+    expect([...values].sort((a, b) => compareSortValues(a, b, 'desc')).slice(0, 2)).toEqual([2, 1])
+  })
+
+  it('compares digits in text as numbers and ignores case and kana differences', () => {
+    expect(compareSortValues('item2', 'item10', 'asc')).toBeLessThan(0)
+    expect(compareSortValues('abc', 'ABC', 'asc')).toBe(0)
+    expect(compareSortValues('あいう', 'アイウ', 'asc')).toBe(0)
+  })
+})
+
+describe('getSortedRowOrder', () => {
+  const values: ScalarValue[][] = [
+    ['b', 2],
+    ['a', 3],
+    ['b', 1],
+    ['a', 3],
+  ]
+  const getValue = (row: number, col: number) => values[row][col]
+
+  it('sorts by keys in priority order and keeps the order of equal rows', () => {
+    const keys = [{ col: 0, direction: 'asc' as const }, { col: 1, direction: 'desc' as const }]
+    expect(getSortedRowOrder(range(0, 3, 1), keys, getValue)).toEqual([1, 3, 0, 2])
+  })
+
+  it('sorts only the rows in the range', () => {
+    expect(getSortedRowOrder(range(1, 2, 1), [{ col: 1, direction: 'asc' }], getValue)).toEqual([2, 1])
+  })
+})
+
+describe('createSortChanges', () => {
+  it('moves cells to their new rows and shifts relative references', () => {
+    const cells: Record<string, CellData> = {
+      '0,0': { value: '=B1*2' },
+      '1,0': { value: '5', type: 'number', style: { bold: true } },
+    }
+    const getCell = (row: number, col: number) => cells[`${row},${col}`]
+    expect(createSortChanges(range(0, 1), [1, 0], getCell)).toEqual([
+      { row: 0, col: 0, value: '5', type: 'number', format: undefined, style: { bold: true } },
+      { row: 1, col: 0, value: '=B2*2', type: undefined, format: undefined, style: undefined },
+    ])
+  })
+
+  it('skips rows that stay in place', () => {
+    expect(createSortChanges(range(0, 2), [0, 2, 1], () => undefined).map(change => change.row)).toEqual([1, 2])
+  })
+})
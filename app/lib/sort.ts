@@ -0,0 +1,108 @@
+import type { CellChange, CellData, CellRange } from '../types/spreadsheet'
+import { normalizeRange } from './range'
+import { DEFAULT_LOCALE } from './format'
+import { isFormulaInput } from './formula/engine'
+import { shiftFormulaReferences } from './formula/transform'
+import { isFormulaError, type ScalarValue } from './formula/values'
+
+export type SortDirection = 'asc' | 'desc'
+
+// 並べ替えの条件（先頭ほど優先される）
+export interface SortKey {
+  col: number
+  direction: SortDirection
+}
+
+const collatorCache = new Map<string, Intl.Collator>()
+
+// 数字を数値として比較し、大文字・小文字やひらがな・カタカナの違いは区別しない
+export function getCollator(locale: string = DEFAULT_LOCALE): Intl.Collator {
+  let collator = collatorCache.get(locale)
+  if (!collator) {
+    collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base' })
+    collatorCache.set(locale, collator)
+  }
+  return collator
+}
+
+const isBlank = (value: ScalarValue) => value === null || value === ''
+
+// Excelと同じ型の順序（数値・日付 → 文字列 → 論理値 → エラー）
+function typeRank(value: ScalarValue): number {
+  if (typeof value === 'number') return 0
+  if (typeof value === 'string') return 1
+  if (typeof value === 'boolean') return 2
+  return 3
+}
+
+// 計算済みの値を比較する（空白は並べ替えの向きにかかわらず最後）
+export function compareSortValues(
+  a: ScalarValue,
+  b: ScalarValue,
+  direction: SortDirection,
+  locale: string = DEFAULT_LOCALE
+): number {
+  if (isBlank(a) || isBlank(b)) return Number(isBlank(a)) - Number(isBlank(b))
+
+  const sign = direction === 'asc' ? 1 : -1
+  const rankDiff = typeRank(a) - typeRank(b)
+  if (rankDiff !== 0) return rankDiff * sign
+
+  if (typeof a === 'number' && typeof b === 'number') return (a - b) * sign
+  if (typeof a === 'string' && typeof b === 'string') return getCollator(locale).compare(a, b) * sign
+  if (typeof a === 'boolean' && typeof b === 'boolean') return (Number(a) - Number(b)) * sign
+  if (isFormulaError(a) && isFormulaError(b)) return 0
+  return 0
+}
+
+// 並べ替え後の各行に移す元の行番号（同じ値の行は元の順序を保つ）
+export function getSortedRowOrder(
+  range: CellRange,
+  keys: SortKey[],
+  getValue: (row: number, col: number) => ScalarValue,
+  locale: string = DEFAULT_LOCALE
+): number[] {
+  const { top, bottom } = normalizeRange(range)
+  const rows = Array.from({ length: bottom - top + 1 }, (_, i) => top + i)
+  // 比較のたびに数式を評価しないよう、並べ替えに使う値を先に取り出す
+  const values = new Map(rows.map(row => [row, keys.map(key => getValue(row, key.col))]))
+
+  return rows.sort((a, b) => {
+    const valuesA = values.get(a)!
+    const valuesB = values.get(b)!
+    for (let i = 0; i < keys.length; i++) {
+      const diff = compareSortValues(valuesA[i], valuesB[i], keys[i].direction, locale)
+      if (diff !== 0) return diff
+    }
+    return a - b
+  })
+}
+
+// 行の並べ替えをセルの変更にする（数式の相対参照は移動先の行に合わせてずらす）
+export function createSortChanges(
+  range: CellRange,
+  order: number[],
+  getCell: (row: number, col: number) => CellData | undefined
+): CellChange[] {
+  const { top, left, right } = normalizeRange(range)
+  const changes: CellChange[] = []
+
+  order.forEach((sourceRow, i) => {
+    const row = top + i
+    if (sourceRow === row) return
+    for (let col = left; col <= right; col++) {
+      const cell = getCell(sourceRow, col)
+      const value = String(cell?.value ?? '')
+      changes.push({
+        row,
+        col,
+        value: isFormulaInput(value) ? shiftFormulaReferences(value, row - sourceRow, 0) : value,
+        type: cell?.type,
+        format: cell?.format,
+        style: cell?.style,
+      })
+    }
+  })
+
+  return changes
+}
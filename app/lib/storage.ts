@@ -0,0 +1,100 @@
+// ブックの文書をブラウザの IndexedDB に保存する
+// 一覧の表示で本文を読み込まないよう、本文（documents）と一覧用の情報（summaries）を分けて持つ
+
+const DB_NAME = 'spreadsheet'
+const DB_VERSION = 1
+const DOCUMENTS_STORE = 'documents'
+const SUMMARIES_STORE = 'summaries'
+
+export interface DocumentSummary {
+  id: string
+  title: string
+  // 最後に保存した日時と開いた日時（ミリ秒）
+  updatedAt: number
+  openedAt: number
+}
+
+interface StoredDocument {
+  id: string
+  // serializeWorkbook で書き出した JSON
+  content: string
+}
+
+let nextId = 0
+export const createDocumentId = () => `doc-${Date.now().toString(36)}-${nextId++}`
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' })
+      if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch(error => {
+    // 次の呼び出しで開き直せるようにする
+    databasePromise = null
+    throw error
+  })
+  return databasePromise
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted'))
+  })
+}
+
+// 本文と一覧用の情報を1つのトランザクションで書き込む
+export async function saveDocument(id: string, title: string, content: string): Promise<DocumentSummary> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, SUMMARIES_STORE], 'readwrite')
+  const now = Date.now()
+  const summary: DocumentSummary = { id, title, updatedAt: now, openedAt: now }
+  transaction.objectStore(DOCUMENTS_STORE).put({ id, content } satisfies StoredDocument)
+  transaction.objectStore(SUMMARIES_STORE).put(summary)
+  await transactionComplete(transaction)
+  return summary
+}
+
+// 文書の本文（見つからない場合は null）。開いた日時を更新して最近の文書の先頭にする
+export async function loadDocument(id: string): Promise<string | null> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, SUMMARIES_STORE], 'readwrite')
+  const stored = await requestResult<StoredDocument | undefined>(transaction.objectStore(DOCUMENTS_STORE).get(id))
+  const summaries = transaction.objectStore(SUMMARIES_STORE)
+  const summary = await requestResult<DocumentSummary | undefined>(summaries.get(id))
+  if (summary) summaries.put({ ...summary, openedAt: Date.now() })
+  await transactionComplete(transaction)
+  return stored?.content ?? null
+}
+
+// 最近開いた順の文書の一覧
+export async function listRecentDocuments(limit = 10): Promise<DocumentSummary[]> {
+  const db = await openDatabase()
+  const summaries = await requestResult<DocumentSummary[]>(
+    db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).getAll()
+  )
+  return summaries.sort((a, b) => b.openedAt - a.openedAt).slice(0, limit)
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, SUMMARIES_STORE], 'readwrite')
+  transaction.objectStore(DOCUMENTS_STORE).delete(id)
+  transaction.objectStore(SUMMARIES_STORE).delete(id)
+  await transactionComplete(transaction)
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import type { CellData } from '../types/spreadsheet'
+import { createStructureCellChanges, shiftCellPosition, type StructureChange } from './structure'
+
+const cellsOf = (cells: Array<[number, number, CellData]>) =>
+  (callback: (cell: CellData, row: number, col: number) => void) =>
+    cells.forEach(([row, col, cell]) => callback(cell, row, col))
+
+describe('createStructureCellChanges', () => {
+  it('moves the editable lock with the cell', () => {
+    const change: StructureChange = { type: 'insert', axis: 'row', index: 0, count: 1 }
+    const changes = createStructureCellChanges(change, cellsOf([[0, 0, { value: 'a', editable: false }]]), 10, 10)
+    expect(changes).toContainEqual(expect.objectContaining({ row: 0, col: 0, value: '', editable: undefined }))
+    expect(changes).toContainEqual(expect.objectContaining({ row: 1, col: 0, value: 'a', editable: false }))
+  })
+
+  it('adjusts formulas of moved cells', () => {
+    const change: StructureChange = { type: 'delete', axis: 'column', index: 0, count: 1 }
+    const changes = createStructureCellChanges(change, cellsOf([[0, 2, { value: '=C1+A1' }]]), 10, 9)
+    expect(changes).toContainEqual(expect.objectContaining({ row: 0, col: 1, value: '=B1+#REF!' }))
+  })
+})
+
+describe('shiftCellPosition', () => {
+  it('returns null for deleted cells and cells pushed off the sheet', () => {
+    expect(shiftCellPosition({ row: 2, col: 0 }, { type: 'delete', axis: 'row', index: 1, count: 2 }, 8, 10)).toBeNull()
+    expect(shiftCellPosition({ row: 9, col: 0 }, { type: 'insert', axis: 'row', index: 0, count: 1 }, 10, 10)).toBeNull()
+    expect(shiftCellPosition({ row: 5, col: 3 }, { type: 'delete', axis: 'row', index: 1, count: 2 }, 8, 10))
+      .toEqual({ row: 3, col: 3 })
+  })
+})
@@ -0,0 +1,192 @@
+import type { CellChange, CellData, CellPosition, CellRange } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT } from './address'
+import type { SizeOverrides } from './sizes'
+import { isFormulaInput } from './formula/engine'
+import { transformFormulaReferences } from './formula/transform'
+
+export type StructureAxis = 'row' | 'column'
+
+// 行・列の挿入と削除（index から count 本）
+export interface StructureChange {
+  type: 'insert' | 'delete'
+  axis: StructureAxis
+  index: number
+  count: number
+}
+
+// 挿入と削除を入れ替えた、変更を元に戻すための変更
+export function invertStructureChange(change: StructureChange): StructureChange {
+  return { ...change, type: change.type === 'insert' ? 'delete' : 'insert' }
+}
+
+// 変更後のインデックス（削除された場合は null）
+export function shiftIndex(index: number, change: StructureChange): number | null {
+  if (index < change.index) return index
+  if (change.type === 'insert') return index + change.count
+  if (index < change.index + change.count) return null
+  return index - change.count
+}
+
+// 範囲の両端をずらす（挿入位置をまたぐ範囲は広がり、一部が削除された範囲は縮む。
+// 全体が削除された場合は null）
+export function shiftSpan(start: number, end: number, change: StructureChange): [number, number] | null {
+  const first = Math.min(start, end)
+  const last = Math.max(start, end)
+  if (change.type === 'insert') {
+    return [
+      first < change.index ? first : first + change.count,
+      last < change.index ? last : last + change.count,
+    ]
+  }
+
+  const deletedEnd = change.index + change.count
+  if (first >= change.index && last < deletedEnd) return null
+  return [
+    first < change.index ? first : Math.max(change.index, first - change.count),
+    last < change.index ? last : (last < deletedEnd ? change.index - 1 : last - change.count),
+  ]
+}
+
+export function shiftCellRange(range: CellRange, change: StructureChange): CellRange | null {
+  const key = change.axis === 'row' ? 'row' : 'col'
+  const span = shiftSpan(range.start[key], range.end[key], change)
+  if (!span) return null
+  return {
+    start: { ...range.start, [key]: span[0] },
+    end: { ...range.end, [key]: span[1] },
+  }
+}
+
+// 行・列ごとの値をずらす（削除した行・列の値は捨てる）
+export function shiftIndexedValues<T>(values: Record<number, T>, change: StructureChange): Record<number, T> {
+  const result: Record<number, T> = {}
+  for (const [key, value] of Object.entries(values)) {
+    const index = shiftIndex(Number(key), change)
+    if (index !== null) result[index] = value
+  }
+  return result
+}
+
+// 列幅・行高の指定をずらす（挿入した行・列は既定のサイズ、削除した行・列の指定は捨てる）
+export function shiftSizeOverrides(overrides: SizeOverrides, change: StructureChange): SizeOverrides {
+  return shiftIndexedValues(overrides, change)
+}
+
+// 挿入・削除後の列幅・行高の指定（挿入した行・列には sizes の指定を戻す）
+export function applyStructureToSizes(
+  overrides: SizeOverrides,
+  change: StructureChange,
+  sizes: SizeOverrides = {}
+): SizeOverrides {
+  const result = shiftSizeOverrides(overrides, change)
+  if (change.type === 'insert') {
+    for (const [offset, size] of Object.entries(sizes)) {
+      result[change.index + Number(offset)] = size
+    }
+  }
+  return result
+}
+
+// 削除する範囲の列幅・行高の指定（index からの相対位置。削除を取り消すときに戻す）
+export function pickSizeOverrides(overrides: SizeOverrides, change: StructureChange): SizeOverrides {
+  const result: SizeOverrides = {}
+  for (let i = 0; i < change.count; i++) {
+    const size = overrides[change.index + i]
+    if (size !== undefined) result[i] = size
+  }
+  return result
+}
+
+// 数式の参照を挿入・削除に合わせて書き換える（絶対参照も移動し、削除されたセルへの参照は #REF!）
+// sheetName は変更したシートの名前で、その名前の付いた参照も書き換える
+// external の場合は他のシートの数式として、シート名のない参照は書き換えない
+export function adjustFormulaReferences(
+  formula: string,
+  change: StructureChange,
+  sheetName?: string,
+  external = false
+): string {
+  const target = sheetName?.toUpperCase()
+  const key = change.axis === 'row' ? 'row' : 'col'
+  return transformFormulaReferences(formula, (reference) => {
+    const { start, end, sheet } = reference
+    // 変更したシートへの参照だけをずらす
+    const isChangedSheet = sheet === undefined ? !external : sheet.toUpperCase() === target
+    if (!isChangedSheet) return reference
+    const span = shiftSpan(start[key], end[key], change)
+    if (!span) return null
+    // 範囲を書いた順（A2:A1 など）を保つ
+    const [first, last] = start[key] <= end[key] ? span : [span[1], span[0]]
+    return {
+      start: { ...start, [key]: first },
+      end: { ...end, [key]: last },
+      sheet,
+    }
+  })
+}
+
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+
+const EMPTY_CONTENT = { value: '', type: undefined, format: undefined, style: undefined, editable: undefined }
+
+// 挿入・削除後のセルの位置（削除される場合と、変更後の大きさからはみ出す場合は null）
+export function shiftCellPosition(
+  position: CellPosition,
+  change: StructureChange,
+  rowCount: number,
+  columnCount: number
+): CellPosition | null {
+  const row = change.axis === 'row' ? shiftIndex(position.row, change) : position.row
+  const col = change.axis === 'column' ? shiftIndex(position.col, change) : position.col
+  if (row === null || col === null || row >= rowCount || col >= columnCount) return null
+  return { row, col }
+}
+
+// 挿入・削除によるセルの変更（移動するセル、空になるセル、参照を書き換える数式）
+// rowCount・columnCount は変更後の大きさで、はみ出すセルは捨てる（sheetName はこのシートの名前）
+export function createStructureCellChanges(
+  change: StructureChange,
+  forEachCell: (callback: (cell: CellData, row: number, col: number) => void) => void,
+  rowCount: number,
+  columnCount: number,
+  sheetName?: string
+): CellChange[] {
+  const before = new Map<number, CellChange>()
+  const after = new Map<number, CellChange>()
+
+  forEachCell((cell, row, col) => {
+    const value = String(cell.value ?? '')
+    const { type, format, style, editable } = cell
+    before.set(toKey(row, col), { row, col, value, type, format, style, editable })
+
+    const next = shiftCellPosition({ row, col }, change, rowCount, columnCount)
+    if (!next) return
+    after.set(toKey(next.row, next.col), {
+      ...next,
+      value: isFormulaInput(value) ? adjustFormulaReferences(value, change, sheetName) : value,
+      type,
+      format,
+      style,
+      editable,
+    })
+  })
+
+  const changes: CellChange[] = []
+  // 移動先にならなかった位置は空にする
+  before.forEach((content, key) => {
+    if (!after.has(key)) changes.push({ ...content, ...EMPTY_CONTENT })
+  })
+  after.forEach((content, key) => {
+    const previous = before.get(key)
+    if (
+      previous?.value !== content.value ||
+      previous.type !== content.type ||
+      previous.format !== content.format ||
+      previous.style !== content.style ||
+      previous.editable !== content.editable
+    ) {
+      changes.push(content)
+    }
+  })
+  return changes
+}
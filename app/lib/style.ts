@@ -0,0 +1,93 @@
+import type { CellBorder, CellStyle } from '../types/spreadsheet'
+import type { RangeBounds } from './range'
+
+// 変更する書式の項目（null の項目は解除し、含まれない項目は変更しない）
+export type CellStylePatch = { [K in keyof CellStyle]?: CellStyle[K] | null }
+
+// 罫線を引く位置（outside は範囲の外枠、none はすべての罫線を消す）
+export type BorderPreset = 'all' | 'outside' | 'top' | 'bottom' | 'left' | 'right' | 'none'
+
+export const DEFAULT_BORDER: CellBorder = { style: 'thin' }
+
+// 書式を同じ内容の文字列にするときの項目の順序
+const STYLE_KEYS = [
+  'bold',
+  'italic',
+  'underline',
+  'strikethrough',
+  'fontSize',
+  'color',
+  'fill',
+  'horizontalAlign',
+  'verticalAlign',
+  'wrap',
+  'borderTop',
+  'borderRight',
+  'borderBottom',
+  'borderLeft',
+] as const satisfies readonly (keyof CellStyle)[]
+
+export const BORDER_KEYS = ['borderTop', 'borderRight', 'borderBottom', 'borderLeft'] as const
+
+// 同じ内容の書式は1つのオブジェクトを共有する（列全体に書式を設定してもセルごとに作らない）
+const styleCache = new Map<string, CellStyle>()
+
+// 書式の内容に対応する共有のオブジェクト（項目がない場合は undefined）
+// false・null・undefined の項目は指定なしとして扱う
+export function internStyle(style: CellStyle | CellStylePatch | undefined): CellStyle | undefined {
+  if (!style) return undefined
+  const normalized: Record<string, unknown> = {}
+  for (const key of STYLE_KEYS) {
+    const value = style[key]
+    if (value === undefined || value === null || value === false) continue
+    normalized[key] = typeof value === 'object'
+      ? (value.color ? { style: value.style, color: value.color } : { style: value.style })
+      : value
+  }
+
+  const cacheKey = JSON.stringify(normalized)
+  if (cacheKey === '{}') return undefined
+  let shared = styleCache.get(cacheKey)
+  if (!shared) {
+    shared = Object.freeze(normalized) as CellStyle
+    styleCache.set(cacheKey, shared)
+  }
+  return shared
+}
+
+// 書式の一部を変更した共有のオブジェクト
+export function applyStylePatch(style: CellStyle | undefined, patch: CellStylePatch): CellStyle | undefined {
+  return internStyle({ ...style, ...patch })
+}
+
+// 範囲の中のセルに引く罫線（border が null の場合は消す）
+export function getBorderPatch(
+  preset: BorderPreset,
+  bounds: RangeBounds,
+  row: number,
+  col: number,
+  border: CellBorder | null = DEFAULT_BORDER
+): CellStylePatch {
+  switch (preset) {
+    case 'all':
+      return { borderTop: border, borderRight: border, borderBottom: border, borderLeft: border }
+    case 'none':
+      return { borderTop: null, borderRight: null, borderBottom: null, borderLeft: null }
+    case 'outside': {
+      const patch: CellStylePatch = {}
+      if (row === bounds.top) patch.borderTop = border
+      if (row === bounds.bottom) patch.borderBottom = border
+      if (col === bounds.left) patch.borderLeft = border
+      if (col === bounds.right) patch.borderRight = border
+      return patch
+    }
+    case 'top':
+      return row === bounds.top ? { borderTop: border } : {}
+    case 'bottom':
+      return row === bounds.bottom ? { borderBottom: border } : {}
+    case 'left':
+      return col === bounds.left ? { borderLeft: border } : {}
+    case 'right':
+      return col === bounds.right ? { borderRight: border } : {}
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { createFormulaEngine } from './formula/engine'
+import {
+  findDataValidation,
+  findInvalidChange,
+  isValidInput,
+  shiftDataValidations,
+  type DataValidation,
+  type ValidationCriteria,
+} from './validation'
+
+const range = (top: number, left: number, bottom: number, right: number) => ({
+  start: { row: top, col: left },
+  end: { row: bottom, col: right },
+})
+
+const validation = (criteria: ValidationCriteria, options: Partial<DataValidation> = {}): DataValidation => ({
+  id: criteria.type,
+  range: range(0, 0, 9, 0),
+  criteria,
+  errorStyle: 'stop',
+  ...options,
+})
+
+const engine = createFormulaEngine({ rowCount: 100, columnCount: 26 })
+engine.setCells([
+  { row: 0, col: 1, input: 10 },
+  { row: 1, col: 1, input: 20 },
+])
+
+// 入力された文字列を計算後の値とあわせて検証する
+const check = (target: DataValidation, text: string, value: number | string = text, row = 0) =>
+  isValidInput(target, { value, text }, row, 0, engine.evaluate)
+
+describe('findDataValidation', () => {
+  it('returns the first validation whose range contains the cell', () => {
+    const first = validation({ type: 'formula', formula: '=TRUE' }, { id: 'first', range: range(0, 0, 1, 1) })
+    const second = validation({ type: 'formula', formula: '=TRUE' }, { id: 'second' })
+    expect(findDataValidation([first, second], 1, 0)).toBe(first)
+    expect(findDataValidation([first, second], 5, 0)).toBe(second)
+    expect(findDataValidation([first, second], 0, 2)).toBeNull()
+  })
+})
+
+describe('isValidInput', () => {
+  it('accepts list values with the same value', () => {
+    const list = validation({ type: 'list', values: ['Yes', ' No ', '1'] })
+    expect(check(list, 'yes')).toBe(true)
+    expect(check(list, 'No')).toBe(true)
+    expect(check(list, '1', 1)).toBe(true)
+    expect(check(list, 'Maybe')).toBe(false)
+  })
+
+  it('compares numbers with values and formulas relative to the cell', () => {
+    const number = validation({ type: 'number', operator: 'lessThanOrEqual', value: '=B1', integer: true })
+    expect(check(number, '10', 10)).toBe(true)
+    expect(check(number, '15', 15)).toBe(false)
+    // 2行目のセルは B2 と比較する
+    expect(check(number, '15', 15, 1)).toBe(true)
+    expect(check(number, '1.5', 1.5)).toBe(false)
+    expect(check(number, 'abc')).toBe(false)
+  })
+
+  it('reads date criteria as dates', () => {
+    const date = validation({ type: 'date', operator: 'between', value: '2024/1/1', value2: '2024/12/31' })
+    expect(check(date, '2024/1/5', 45296)).toBe(true)
+    expect(check(date, '2025/1/1', 45658)).toBe(false)
+  })
+
+  it('checks the length of the text and formulas', () => {
+    expect(check(validation({ type: 'textLength', operator: 'lessThan', value: '4' }), 'abc')).toBe(true)
+    expect(check(validation({ type: 'formula', formula: '=B1>5' }), 'x')).toBe(true)
+    expect(check(validation({ type: 'formula', formula: '=B1>15' }), 'x')).toBe(false)
+  })
+
+  it('allows blanks unless allowBlank is false', () => {
+    const list = validation({ type: 'list', values: ['a'] })
+    expect(check(list, '')).toBe(true)
+    expect(check({ ...list, allowBlank: false }, '')).toBe(false)
+  })
+})
+
+describe('findInvalidChange', () => {
+  const stop = validation({ type: 'number', operator: 'greaterThan', value: '0' }, { range: range(0, 0, 0, 0) })
+  const warning = validation({ type: 'number', operator: 'greaterThan', value: '0' }, {
+    range: range(1, 0, 1, 0),
+    errorStyle: 'warning',
+  })
+
+  it('prefers stop failures to warnings', () => {
+    const changes = [{ row: 1, col: 0, value: '-1' }, { row: 0, col: 0, value: '-1' }]
+    expect(findInvalidChange([stop, warning], changes, engine.evaluate)).toEqual({ change: changes[1], validation: stop })
+    expect(findInvalidChange([stop, warning], changes.slice(0, 1), engine.evaluate)).toEqual({
+      change: changes[0],
+      validation: warning,
+    })
+    expect(findInvalidChange([stop, warning], [{ row: 0, col: 0, value: '1' }], engine.evaluate)).toBeNull()
+  })
+
+  it('evaluates criteria with the other pending values', () => {
+    // A1 は同時に変更する C1 より小さい値
+    const lessThanC1 = validation({ type: 'number', operator: 'lessThan', value: '=C1' }, { range: range(0, 0, 0, 0) })
+    const changes = [{ row: 0, col: 0, value: '5' }, { row: 0, col: 2, value: '10' }]
+    expect(findInvalidChange([lessThanC1], changes, engine.evaluate)).toBeNull()
+  })
+})
+
+describe('shiftDataValidations', () => {
+  it('moves ranges and references and drops deleted validations', () => {
+    const validations = [
+      validation({ type: 'number', operator: 'equal', value: '=$B$3', value2: '5' }, { range: range(2, 0, 4, 0) }),
+      validation({ type: 'list', values: ['a'] }, { range: range(0, 0, 0, 0) }),
+    ]
+    expect(shiftDataValidations(validations, { type: 'delete', axis: 'row', index: 0, count: 1 })).toEqual([{
+      ...validations[0],
+      range: range(1, 0, 3, 0),
+      criteria: { type: 'number', operator: 'equal', value: '=$B$2', value2: '5' },
+    }])
+  })
+})
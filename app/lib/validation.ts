@@ -0,0 +1,168 @@
+import type { CellChange, CellRange } from '../types/spreadsheet'
+import { MAX_COLUMN_COUNT } from './address'
+import { matchesComparison, type ComparisonOperator } from './conditional'
+import { isFormulaInput, type FormulaEngine } from './formula/engine'
+import { shiftFormulaReferences } from './formula/transform'
+import { compareValues, parseLiteral, toBoolean, type ScalarValue } from './formula/values'
+import { parseCellInput } from './format'
+import { normalizeRange } from './range'
+import { adjustFormulaReferences, shiftCellRange, type StructureChange } from './structure'
+
+// 入力できる値の条件
+// value・formula の参照は範囲の左上のセルに対するもので、相対参照は各セルの位置に合わせてずれる
+export type ValidationCriteria =
+  // 一覧のいずれかの値（showDropdown が false でなければ、選択したセルに一覧から選ぶボタンを表示する）
+  | { type: 'list'; values: string[]; showDropdown?: boolean }
+  // 数値（'=' で始まる値は数式の結果と比較する。integer の場合は整数のみ）
+  | { type: 'number'; operator: ComparisonOperator; value: string; value2?: string; integer?: boolean }
+  // 日付（value は 2024/1/5 などの日付または数式）
+  | { type: 'date'; operator: ComparisonOperator; value: string; value2?: string }
+  // 入力した文字列の長さ
+  | { type: 'textLength'; operator: ComparisonOperator; value: string; value2?: string }
+  // 数式（'=' で始まる）の結果が TRUE になる値
+  | { type: 'formula'; formula: string }
+
+// 条件に合わない値の扱い（stop は入力を拒否し、warning は確認してから入力する）
+export type ValidationErrorStyle = 'stop' | 'warning'
+
+export interface DataValidation {
+  id: string
+  range: CellRange
+  criteria: ValidationCriteria
+  errorStyle: ValidationErrorStyle
+  // 空の値を許可する（省略時は true）
+  allowBlank?: boolean
+  // セルを選択したときに表示する入力時メッセージ
+  inputTitle?: string
+  inputMessage?: string
+  // 条件に合わない値を入力したときのメッセージ（省略時は既定の文言）
+  errorTitle?: string
+  errorMessage?: string
+}
+
+// 検証する値（value は計算後の値、text は入力された文字列）
+export interface ValidationInput {
+  value: ScalarValue
+  text: string
+}
+
+// 条件に合わない変更とその入力規則
+export interface ValidationFailure {
+  change: CellChange
+  validation: DataValidation
+}
+
+type Evaluate = FormulaEngine['evaluate']
+
+const toKey = (row: number, col: number) => row * MAX_COLUMN_COUNT + col
+
+// セルに適用される入力規則（範囲が重なる場合は一覧の先にあるもの）
+export function findDataValidation(validations: DataValidation[], row: number, col: number): DataValidation | null {
+  return validations.find(({ range }) => {
+    const { top, bottom, left, right } = normalizeRange(range)
+    return row >= top && row <= bottom && col >= left && col <= right
+  }) ?? null
+}
+
+// 値が入力規則の条件を満たすか
+// evaluate には確定前の値を反映した数式の評価を渡す
+export function isValidInput(
+  validation: DataValidation,
+  input: ValidationInput,
+  row: number,
+  col: number,
+  evaluate: (formula: string) => ScalarValue
+): boolean {
+  if (input.text === '') return validation.allowBlank !== false
+
+  const { criteria } = validation
+  const { top, left } = normalizeRange(validation.range)
+  const evaluateAt = (formula: string) => evaluate(shiftFormulaReferences(formula, row - top, col - left))
+  // 比較する値（日付の条件では日付の入力をシリアル値にする）
+  const getCriterion = (text: string | undefined): ScalarValue => {
+    if (isFormulaInput(text)) return evaluateAt(text)
+    if (criteria.type === 'date' && text !== undefined) return parseLiteral(parseCellInput(text).value)
+    return parseLiteral(text)
+  }
+
+  switch (criteria.type) {
+    case 'list':
+      return criteria.values.some(item => compareValues(parseLiteral(item.trim()), input.value) === 0)
+    case 'number':
+    case 'date':
+      if (typeof input.value !== 'number') return false
+      if (criteria.type === 'number' && criteria.integer && !Number.isInteger(input.value)) return false
+      return matchesComparison(input.value, criteria.operator, getCriterion(criteria.value), getCriterion(criteria.value2))
+    case 'textLength':
+      return matchesComparison(
+        input.text.length,
+        criteria.operator,
+        getCriterion(criteria.value),
+        getCriterion(criteria.value2)
+      )
+    case 'formula':
+      return toBoolean(evaluateAt(criteria.formula)) === true
+  }
+}
+
+// 変更後のセルの値（数式は確定前の値で評価できないため、現在の値で計算する）
+function getChangeValue(change: CellChange, evaluate: Evaluate): ScalarValue {
+  if (change.type === 'text') return change.value
+  return isFormulaInput(change.value) ? evaluate(change.value) : parseLiteral(change.value)
+}
+
+// 入力規則に合わない変更（拒否する規則を優先して1つ返す。すべて満たす場合は null）
+// 条件の数式は、同時に変更するセルの値を変更後の値として評価する
+export function findInvalidChange(
+  validations: DataValidation[],
+  changes: CellChange[],
+  evaluate: Evaluate
+): ValidationFailure | null {
+  if (validations.length === 0) return null
+
+  const pending = new Map(changes.map(change => [toKey(change.row, change.col), change]))
+  const getOverride = (row: number, col: number) => {
+    const change = pending.get(toKey(row, col))
+    return change && !isFormulaInput(change.value) ? getChangeValue(change, evaluate) : undefined
+  }
+  const evaluatePending = (formula: string) => evaluate(formula, getOverride)
+
+  let warning: ValidationFailure | null = null
+  for (const change of changes) {
+    const validation = findDataValidation(validations, change.row, change.col)
+    if (!validation) continue
+    const input = { value: getChangeValue(change, evaluate), text: change.value }
+    if (isValidInput(validation, input, change.row, change.col, evaluatePending)) continue
+    if (validation.errorStyle === 'stop') return { change, validation }
+    warning ??= { change, validation }
+  }
+  return warning
+}
+
+// 行・列の挿入・削除に合わせて範囲と数式の参照をずらす（範囲がすべて削除された規則は除く）
+export function shiftDataValidations(validations: DataValidation[], change: StructureChange): DataValidation[] {
+  const adjust = (text: string) => isFormulaInput(text) ? adjustFormulaReferences(text, change) : text
+  return validations.flatMap(validation => {
+    const range = shiftCellRange(validation.range, change)
+    if (!range) return []
+    const { criteria } = validation
+    switch (criteria.type) {
+      case 'number':
+      case 'date':
+      case 'textLength':
+        return [{
+          ...validation,
+          range,
+          criteria: {
+            ...criteria,
+            value: adjust(criteria.value),
+            value2: criteria.value2 === undefined ? undefined : adjust(criteria.value2),
+          },
+        }]
+      case 'formula':
+        return [{ ...validation, range, criteria: { ...criteria, formula: adjustFormulaReferences(criteria.formula, change) } }]
+      default:
+        return [{ ...validation, range }]
+    }
+  })
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import type { StructureChange } from './structure'
+import {
+  applyFormulaChanges,
+  createWorkbookSheet,
+  getSheetReferenceChanges,
+  removeSheetFromFormulas,
+} from './workbook'
+import type { LinkedFormulaChange } from './history'
+
+const invert = (changes: LinkedFormulaChange[]) =>
+  changes.map(change => ({ ...change, before: change.after, after: change.before }))
+
+describe('getSheetReferenceChanges', () => {
+  it('restores references deleted with rows when the changes are inverted', () => {
+    const sheet1 = createWorkbookSheet('Sheet1')
+    const sheet2 = createWorkbookSheet('Sheet2')
+    sheet1.model.setCell(0, 0, { value: '=A2' })
+    sheet2.model.setCell(0, 0, { value: '=Sheet1!A2' })
+    sheet2.model.setCell(1, 0, { value: '=Sheet1!A3*2' })
+    const sheets = [sheet1, sheet2]
+
+    const change: StructureChange = { type: 'delete', axis: 'row', index: 1, count: 1 }
+    const changes = getSheetReferenceChanges(sheets, 'Sheet1', change)
+    applyFormulaChanges(sheets, changes)
+    expect(sheet2.model.getCell(0, 0)?.value).toBe('=#REF!')
+    expect(sheet2.model.getCell(1, 0)?.value).toBe('=Sheet1!A2*2')
+    // 変更したシートの数式はそのシートで書き換える
+    expect(sheet1.model.getCell(0, 0)?.value).toBe('=A2')
+
+    applyFormulaChanges(sheets, invert(changes))
+    expect(sheet2.model.getCell(0, 0)?.value).toBe('=Sheet1!A2')
+    expect(sheet2.model.getCell(1, 0)?.value).toBe('=Sheet1!A3*2')
+  })
+})
+
+describe('applyFormulaChanges', () => {
+  it('leaves cells that were edited after the change', () => {
+    const sheet = createWorkbookSheet('Sheet2')
+    sheet.model.setCell(0, 0, { value: '=Sheet1!#REF!' })
+    sheet.model.setCell(1, 0, { value: '=1+1' })
+    applyFormulaChanges([sheet], [
+      { sheetId: sheet.id, row: 0, col: 0, before: '=Sheet1!#REF!', after: '=Sheet1!A2' },
+      { sheetId: sheet.id, row: 1, col: 0, before: '=Sheet1!#REF!', after: '=Sheet1!A2' },
+    ])
+    expect(sheet.model.getCell(0, 0)?.value).toBe('=Sheet1!A2')
+    expect(sheet.model.getCell(1, 0)?.value).toBe('=1+1')
+  })
+})
+
+describe('removeSheetFromFormulas', () => {
+  it('returns the changes that restore references to the deleted sheet', () => {
+    const sheet = createWorkbookSheet('Sheet1')
+    sheet.model.setCell(0, 0, { value: '=Data!A1+1' })
+    const changes = removeSheetFromFormulas([sheet], 'Data')
+    expect(sheet.model.getCell(0, 0)?.value).toBe('=#REF!+1')
+
+    applyFormulaChanges([sheet], invert(changes))
+    expect(sheet.model.getCell(0, 0)?.value).toBe('=Data!A1+1')
+  })
+})
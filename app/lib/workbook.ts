@@ -0,0 +1,206 @@
+import type { CellPosition, CellRange } from '../types/spreadsheet'
+import type { ConditionalFormat } from './conditional'
+import { isFormulaInput } from './formula/engine'
+import { renameSheetReferences } from './formula/transform'
+import type { LinkedFormulaChange } from './history'
+import { createSheetModel, type SheetModel } from './sheet'
+import type { SizeOverrides } from './sizes'
+import { adjustFormulaReferences, type StructureChange } from './structure'
+import type { DataValidation } from './validation'
+
+// シートを追加・複製したときに引き継ぐ、モデル以外の状態
+export interface SheetState {
+  columnWidths?: SizeOverrides
+  rowHeights?: SizeOverrides
+  frozenRowCount?: number
+  frozenColumnCount?: number
+  merges?: CellRange[]
+  conditionalFormats?: ConditionalFormat[]
+  dataValidations?: DataValidation[]
+}
+
+export interface WorkbookSheet {
+  id: string
+  // 数式から参照するシート名（大文字・小文字を区別せずに一意）
+  name: string
+  // タブの色（CSS の色）
+  color?: string
+  model: SheetModel
+  // 表示を始めるときの状態（表示中の状態はシートのグリッドが持つ）
+  initialState?: SheetState
+}
+
+// シート名の最大の長さ（Excel と同じ）
+export const MAX_SHEET_NAME_LENGTH = 31
+
+const INVALID_SHEET_NAME_PATTERN = /[:\\/?*[\]]/
+
+let nextId = 0
+const createId = () => `sheet-${Date.now().toString(36)}-${nextId++}`
+
+export function createWorkbookSheet(
+  name: string,
+  options: { model?: SheetModel; color?: string; initialState?: SheetState } = {}
+): WorkbookSheet {
+  return {
+    id: createId(),
+    name,
+    color: options.color,
+    model: options.model ?? createSheetModel(),
+    initialState: options.initialState,
+  }
+}
+
+const isNameTaken = (sheets: WorkbookSheet[], name: string, exceptId?: string) =>
+  sheets.some(sheet => sheet.id !== exceptId && sheet.name.toUpperCase() === name.toUpperCase())
+
+// 追加するシートの名前（Sheet1、Sheet2 … のうち使われていないもの）
+export function getNextSheetName(sheets: WorkbookSheet[]): string {
+  let index = sheets.length + 1
+  while (isNameTaken(sheets, `Sheet${index}`)) index++
+  return `Sheet${index}`
+}
+
+// 複製したシートの名前（"Sheet1 (2)" など。長すぎる場合は元の名前を切り詰める）
+export function getDuplicateSheetName(sheets: WorkbookSheet[], name: string): string {
+  const base = name.replace(/ \(\d+\)$/, '')
+  for (let index = 2; ; index++) {
+    const suffix = ` (${index})`
+    const candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix
+    if (!isNameTaken(sheets, candidate)) return candidate
+  }
+}
+
+// シート名として使えない場合はその理由を返す（exceptId は名前を変更するシート）
+export function validateSheetName(sheets: WorkbookSheet[], name: string, exceptId?: string): string | null {
+  if (name.trim() === '') return 'シート名を入力してください。'
+  if (name.length > MAX_SHEET_NAME_LENGTH) return `シート名は ${MAX_SHEET_NAME_LENGTH} 文字以内で入力してください。`
+  if (INVALID_SHEET_NAME_PATTERN.test(name)) return 'シート名に : \\ / ? * [ ] は使えません。'
+  if (name.startsWith("'") || name.endsWith("'")) return "シート名の先頭と末尾に ' は使えません。"
+  if (isNameTaken(sheets, name, exceptId)) return 'この名前は既に使われています。'
+  return null
+}
+
+// セルと行・列の書式を写したモデル
+export function cloneSheetModel(model: SheetModel): SheetModel {
+  const clone = createSheetModel({ rowCount: model.rowCount, columnCount: model.columnCount })
+  clone.batch(() => {
+    model.forEachCell((cell, row, col) => clone.setCell(row, col, { ...cell }))
+  })
+  clone.setAxisStyles('row', { ...model.getAxisStyles('row') })
+  clone.setAxisStyles('column', { ...model.getAxisStyles('column') })
+  return clone
+}
+
+// from の位置のシートを to の位置に移す
+export function moveSheet(sheets: WorkbookSheet[], from: number, to: number): WorkbookSheet[] {
+  const next = [...sheets]
+  const [sheet] = next.splice(from, 1)
+  next.splice(to, 0, sheet)
+  return next
+}
+
+// 数式を書き換える関数（position はセルの数式の場合に渡し、取り消し履歴の数式の場合は渡さない）
+export type FormulaRewrite = (formula: string, position?: CellPosition) => string
+
+// シートの数式を書き換える処理（グリッドを表示しているシートは取り消し履歴の数式もあわせて書き換える）
+export type SheetFormulaRewriter = (sheet: WorkbookSheet, rewrite: FormulaRewrite) => void
+
+// モデルの数式を書き換える（書き換えても変わらないセルはそのまま）
+export const rewriteModelFormulas: SheetFormulaRewriter = ({ model }, rewrite) => {
+  const changes: Array<{ row: number; col: number; value: string }> = []
+  model.forEachCell((cell, row, col) => {
+    if (!isFormulaInput(cell.value)) return
+    const value = rewrite(cell.value, { row, col })
+    if (value !== cell.value) changes.push({ row, col, value })
+  })
+  if (changes.length > 0) model.applyChanges(changes)
+}
+
+// 取り消し履歴の数式だけを書き換える（セルの数式は applyFormulaChanges で変更する）
+const historyOnly = (rewrite: (formula: string) => string): FormulaRewrite =>
+  (formula, position) => position ? formula : rewrite(formula)
+
+// シート名の変更を数式に反映する（newName が null の場合はシートの削除として #REF! にする）
+export function renameSheetInFormulas(
+  sheets: WorkbookSheet[],
+  oldName: string,
+  newName: string | null,
+  rewriteSheet: SheetFormulaRewriter = rewriteModelFormulas
+) {
+  sheets.forEach(sheet => rewriteSheet(sheet, formula => renameSheetReferences(formula, oldName, newName)))
+}
+
+// 数式を書き換えた場合のセルごとの変更（適用する前に集めておき、逆にして元に戻せるようにする）
+export function collectFormulaChanges(
+  sheets: WorkbookSheet[],
+  rewrite: (formula: string) => string
+): LinkedFormulaChange[] {
+  const changes: LinkedFormulaChange[] = []
+  sheets.forEach(sheet => sheet.model.forEachCell((cell, row, col) => {
+    if (!isFormulaInput(cell.value)) return
+    const after = rewrite(cell.value)
+    if (after !== cell.value) changes.push({ sheetId: sheet.id, row, col, before: cell.value, after })
+  }))
+  return changes
+}
+
+// セルごとの数式の変更を適用する（その後に別の内容に変わったセルはそのままにする）
+export function applyFormulaChanges(
+  sheets: WorkbookSheet[],
+  changes: LinkedFormulaChange[],
+  rewriteSheet: SheetFormulaRewriter = rewriteModelFormulas
+) {
+  sheets.forEach(sheet => {
+    const cellChanges = new Map(changes
+      .filter(change => change.sheetId === sheet.id)
+      .map(change => [`${change.row}:${change.col}`, change]))
+    if (cellChanges.size === 0) return
+    rewriteSheet(sheet, (formula, position) => {
+      const change = position && cellChanges.get(`${position.row}:${position.col}`)
+      return change && change.before === formula ? change.after : formula
+    })
+  })
+}
+
+// シートの削除を他のシートの数式に反映して #REF! にする（戻り値はシートを元に戻すときに逆にして適用する）
+export function removeSheetFromFormulas(
+  sheets: WorkbookSheet[],
+  name: string,
+  rewriteSheet: SheetFormulaRewriter = rewriteModelFormulas
+): LinkedFormulaChange[] {
+  const rewrite = (formula: string) => renameSheetReferences(formula, name, null)
+  const changes = collectFormulaChanges(sheets, rewrite)
+  applyFormulaChanges(sheets, changes, rewriteSheet)
+  sheets.forEach(sheet => rewriteSheet(sheet, historyOnly(rewrite)))
+  return changes
+}
+
+// シートの行・列の挿入・削除でずれる、他のシートのセルの数式のそのシートへの参照
+// （挿入・削除したシートの取り消し履歴に記録し、取り消し・やり直しで正確に戻せるようにする）
+export function getSheetReferenceChanges(
+  sheets: WorkbookSheet[],
+  sheetName: string,
+  change: StructureChange
+): LinkedFormulaChange[] {
+  return collectFormulaChanges(
+    sheets.filter(sheet => sheet.name.toUpperCase() !== sheetName.toUpperCase()),
+    formula => adjustFormulaReferences(formula, change, sheetName, true)
+  )
+}
+
+// シートの行・列の挿入・削除を、他のシートの取り消し履歴の数式のそのシートへの参照に反映する
+// （取り消し・やり直しでも呼ぶ。セルの数式は getSheetReferenceChanges の変更で書き換える）
+export function adjustSheetReferences(
+  sheets: WorkbookSheet[],
+  sheetName: string,
+  change: StructureChange,
+  rewriteSheet: SheetFormulaRewriter = rewriteModelFormulas
+) {
+  sheets
+    .filter(sheet => sheet.name.toUpperCase() !== sheetName.toUpperCase())
+    .forEach(sheet => rewriteSheet(
+      sheet,
+      historyOnly(formula => adjustFormulaReferences(formula, change, sheetName, true))
+    ))
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { createSheetModel } from './sheet'
+import { readXlsx, writeXlsx, type XlsxSheet } from './xlsx'
+
+const createSheet = (name: string, sheet: Partial<XlsxSheet> = {}): XlsxSheet => ({
+  name,
+  model: createSheetModel(),
+  columnWidths: {},
+  rowHeights: {},
+  merges: [],
+  frozenRowCount: 0,
+  frozenColumnCount: 0,
+  ...sheet,
+})
+
+// 書き出したファイルを読み込み直す
+const roundTrip = async (sheets: XlsxSheet[]) => (await readXlsx(await writeXlsx({ sheets }))).sheets
+
+describe('readXlsx and writeXlsx', () => {
+  it('round-trips values, formulas and dates', async () => {
+    const model = createSheetModel()
+    model.setCell(0, 0, { value: 'こんにちは' })
+    model.setCell(0, 1, { value: '1.5', type: 'number' })
+    model.setCell(0, 2, { value: '001', type: 'text' })
+    model.setCell(1, 0, { value: 'TRUE' })
+    model.setCell(1, 1, { value: '=SUM(B1,1)' })
+    model.setCell(1, 2, { value: '45296', type: 'date', format: 'yyyy/m/d' })
+
+    const [sheet] = await roundTrip([createSheet('データ', {
+      model,
+      getFormulaValue: () => 2.5,
+    })])
+    expect(sheet.name).toBe('データ')
+    expect(sheet.model.getCell(0, 0)).toMatchObject({ value: 'こんにちは' })
+    expect(sheet.model.getCell(0, 1)).toMatchObject({ value: '1.5', type: 'number' })
+    expect(sheet.model.getCell(0, 2)).toMatchObject({ value: '001', type: 'text', format: '@' })
+    expect(sheet.model.getCell(1, 0)).toMatchObject({ value: 'TRUE' })
+    expect(sheet.model.getCell(1, 1)).toMatchObject({ value: '=SUM(B1,1)' })
+    expect(sheet.model.getCell(1, 2)).toMatchObject({ value: '45296', type: 'date', format: 'yyyy/m/d' })
+  })
+
+  it('round-trips styles, merges, frozen panes and sizes', async () => {
+    const model = createSheetModel()
+    const style = {
+      bold: true,
+      color: '#ff0000',
+      fill: '#ffff00',
+      horizontalAlign: 'center' as const,
+      borderBottom: { style: 'double' as const, color: '#0000ff' },
+    }
+    model.setCell(0, 0, { value: '見出し', style })
+    // 値のないセルの書式も残す
+    model.setCell(3, 3, { value: '', style: { italic: true } })
+
+    const [sheet] = await roundTrip([createSheet('Sheet1', {
+      model,
+      columnWidths: { 1: 100 },
+      rowHeights: { 2: 30 },
+      merges: [{ start: { row: 0, col: 0 }, end: { row: 1, col: 2 } }],
+      frozenRowCount: 1,
+      frozenColumnCount: 2,
+    })])
+    expect(sheet.model.getCell(0, 0)?.style).toEqual(style)
+    expect(sheet.model.getCell(3, 3)?.style).toEqual({ italic: true })
+    expect(sheet.merges).toEqual([{ start: { row: 0, col: 0 }, end: { row: 1, col: 2 } }])
+    expect(sheet.frozenRowCount).toBe(1)
+    expect(sheet.frozenColumnCount).toBe(2)
+    expect(sheet.columnWidths).toEqual({ 1: 100 })
+    expect(sheet.rowHeights).toEqual({ 2: 30 })
+  })
+
+  it('keeps the order of sheets', async () => {
+    const sheets = await roundTrip([createSheet('A'), createSheet('B & C'), createSheet('D')])
+    expect(sheets.map(sheet => sheet.name)).toEqual(['A', 'B & C', 'D'])
+  })
+
+  it('rejects files without a workbook', async () => {
+    await expect(readXlsx(new Uint8Array([1, 2, 3]))).rejects.toThrow()
+  })
+})
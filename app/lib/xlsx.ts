@@ -0,0 +1,784 @@
+import type { BorderLineStyle, CellBorder, CellData, CellRange, CellStyle } from '../types/spreadsheet'
+import type { SizeOverrides } from './sizes'
+import { createSheetModel, type AxisStyles, type SheetModel } from './sheet'
+import { BORDER_KEYS, internStyle } from './style'
+import { formatCellAddress, parseCellAddress, parseRangeAddress, toCellRange } from './address'
+import { DEFAULT_DATE_FORMAT, dateToSerial, isDateFormat } from './format'
+import { isFormulaInput } from './formula/engine'
+import { shiftFormulaReferences } from './formula/transform'
+import { formatNumber, isFormulaError, parseLiteral, type ScalarValue } from './formula/values'
+import { childElement, childElements, escapeXml, parseXml, textContent, type XmlElement } from './xml'
+import { readZip, writeZip } from './zip'
+
+// ブックの1シート分（サイズはピクセル単位）
+export interface XlsxSheet {
+  name: string
+  model: SheetModel
+  columnWidths: SizeOverrides
+  rowHeights: SizeOverrides
+  // 指定のない列・行のサイズ
+  defaultColumnWidth?: number
+  defaultRowHeight?: number
+  merges: CellRange[]
+  frozenRowCount: number
+  frozenColumnCount: number
+  // 書き出し時に数式の計算結果も保存する（省略時は Excel が開いたときに再計算する）
+  getFormulaValue?: (row: number, col: number) => ScalarValue
+}
+
+export interface XlsxWorkbook {
+  sheets: XlsxSheet[]
+}
+
+const MAIN_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const PACKAGE_RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+// Excel の標準フォント（Calibri 11pt）の数字の幅と、既定の列幅・行高
+const MAX_DIGIT_WIDTH = 7
+const EXCEL_DEFAULT_COLUMN_WIDTH = 64
+const EXCEL_DEFAULT_ROW_HEIGHT = 20
+
+// 組み込みの表示形式（14・22 は日本語環境での表示に合わせる）
+const BUILTIN_FORMATS: Record<number, string> = {
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'yyyy/m/d',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'yyyy/m/d h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@',
+}
+// 独自の表示形式に割り当てる番号の開始値
+const FIRST_CUSTOM_FORMAT_ID = 164
+
+const DEFAULT_FONT_SIZE = 11
+// 罫線の種類（読み込み時は近い種類に置き換える）
+const BORDER_LINE_STYLES: Record<string, BorderLineStyle> = {
+  hair: 'thin',
+  thin: 'thin',
+  medium: 'medium',
+  thick: 'thick',
+  dashed: 'dashed',
+  mediumDashed: 'dashed',
+  dashDot: 'dashed',
+  mediumDashDot: 'dashed',
+  dashDotDot: 'dashed',
+  mediumDashDotDot: 'dashed',
+  slantDashDot: 'dashed',
+  dotted: 'dotted',
+  double: 'double',
+}
+// 書式の罫線と <border> の子要素（書き出す順序）
+const BORDER_ELEMENTS = [
+  ['borderLeft', 'left'],
+  ['borderRight', 'right'],
+  ['borderTop', 'top'],
+  ['borderBottom', 'bottom'],
+] as const satisfies readonly [typeof BORDER_KEYS[number], string][]
+
+// 色の変換（ARGB の rgb 属性と CSS の #rrggbb）
+const argbToColor = (argb: string | undefined) =>
+  argb && /^[0-9a-f]{6,8}$/i.test(argb) ? `#${argb.slice(-6).toLowerCase()}` : undefined
+const colorToArgb = (color: string) => {
+  const hex = color.replace(/^#/, '')
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex
+  return `FF${full.toUpperCase()}`
+}
+
+// 列幅の単位（文字数）とピクセルの変換
+const columnWidthToPixels = (width: number) => Math.round(width * MAX_DIGIT_WIDTH)
+const pixelsToColumnWidth = (pixels: number) => Math.trunc((pixels / MAX_DIGIT_WIDTH) * 256) / 256
+// 行高の単位（ポイント）とピクセルの変換
+const pointsToPixels = (points: number) => Math.round((points * 4) / 3)
+const pixelsToPoints = (pixels: number) => (pixels * 3) / 4
+
+// --- 読み込み ---
+
+// ファイル内のパスを解決する（相対パスは基準のフォルダから）
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = base.split('/').slice(0, -1)
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop()
+    else if (part !== '.') parts.push(part)
+  }
+  return parts.join('/')
+}
+
+// リレーションシップの ID → 参照先のパス
+function readRelationships(files: Map<string, string>, path: string): Map<string, { type: string; target: string }> {
+  const relsPath = resolvePath(path, `_rels/${path.split('/').pop()}.rels`)
+  const relationships = new Map<string, { type: string; target: string }>()
+  const source = files.get(relsPath)
+  if (!source) return relationships
+  for (const rel of childElements(parseXml(source), 'Relationship')) {
+    relationships.set(rel.attributes.Id, {
+      type: rel.attributes.Type ?? '',
+      target: resolvePath(path, rel.attributes.Target ?? ''),
+    })
+  }
+  return relationships
+}
+
+// 文字列（書式付きの文字列は各部分をつなげ、ふりがなの rPh は除く）
+function readStringItem(item: XmlElement): string {
+  return childElements(item)
+    .map(child => {
+      if (child.name === 't') return textContent(child)
+      if (child.name === 'r') return childElements(child, 't').map(textContent).join('')
+      return ''
+    })
+    .join('')
+}
+
+function readSharedStrings(source: string | undefined): string[] {
+  if (!source) return []
+  return childElements(parseXml(source), 'si').map(readStringItem)
+}
+
+// セルの書式番号ごとの表示形式（標準の場合は undefined）と書式
+interface CellXf {
+  format?: string
+  style?: CellStyle
+}
+
+// 標準のフォント（先頭のフォント）との違いを書式にする
+function readFont(font: XmlElement, defaultSize: number): CellStyle {
+  const style: CellStyle = {}
+  const isOn = (name: string) => {
+    const element = childElement(font, name)
+    return !!element && element.attributes.val !== '0' && element.attributes.val !== 'false'
+  }
+  if (isOn('b')) style.bold = true
+  if (isOn('i')) style.italic = true
+  if (isOn('strike')) style.strikethrough = true
+  const u = childElement(font, 'u')
+  if (u && u.attributes.val !== 'none') style.underline = true
+  const size = Number(childElement(font, 'sz')?.attributes.val ?? defaultSize)
+  if (size !== defaultSize) style.fontSize = size
+  // テーマやインデックスで指定された色は読み込まない
+  const color = argbToColor(childElement(font, 'color')?.attributes.rgb)
+  if (color) style.color = color
+  return style
+}
+
+function readFill(fill: XmlElement): CellStyle {
+  const patternFill = childElement(fill, 'patternFill')
+  if (patternFill?.attributes.patternType !== 'solid') return {}
+  const color = argbToColor(childElement(patternFill, 'fgColor')?.attributes.rgb)
+  return color ? { fill: color } : {}
+}
+
+function readBorder(border: XmlElement): CellStyle {
+  const style: CellStyle = {}
+  for (const [key, name] of BORDER_ELEMENTS) {
+    const side = childElement(border, name)
+    const lineStyle = side && BORDER_LINE_STYLES[side.attributes.style ?? '']
+    if (!side || !lineStyle) continue
+    const color = argbToColor(childElement(side, 'color')?.attributes.rgb)
+    style[key] = color ? { style: lineStyle, color } : { style: lineStyle }
+  }
+  return style
+}
+
+function readAlignment(xf: XmlElement): CellStyle {
+  const alignment = childElement(xf, 'alignment')
+  if (!alignment) return {}
+  const style: CellStyle = {}
+  const { horizontal, vertical, wrapText } = alignment.attributes
+  if (horizontal === 'left' || horizontal === 'center' || horizontal === 'right') style.horizontalAlign = horizontal
+  if (vertical === 'top' || vertical === 'bottom') style.verticalAlign = vertical
+  if (vertical === 'center') style.verticalAlign = 'middle'
+  if (wrapText === '1' || wrapText === 'true') style.wrap = true
+  return style
+}
+
+// セルの書式番号 → 表示形式と書式
+function readCellXfs(source: string | undefined): CellXf[] {
+  if (!source) return []
+  const styleSheet = parseXml(source)
+  const customFormats = new Map<number, string>()
+  const numFmts = childElement(styleSheet, 'numFmts')
+  if (numFmts) {
+    for (const numFmt of childElements(numFmts, 'numFmt')) {
+      customFormats.set(Number(numFmt.attributes.numFmtId), numFmt.attributes.formatCode)
+    }
+  }
+
+  const fontsElement = childElement(styleSheet, 'fonts')
+  const fontElements = fontsElement ? childElements(fontsElement, 'font') : []
+  const defaultFontSize = fontElements[0] && childElement(fontElements[0], 'sz')?.attributes.val
+  const defaultSize = defaultFontSize ? Number(defaultFontSize) : DEFAULT_FONT_SIZE
+  const fonts = fontElements.map(font => readFont(font, defaultSize))
+  const fillsElement = childElement(styleSheet, 'fills')
+  const fills = fillsElement ? childElements(fillsElement, 'fill').map(readFill) : []
+  const bordersElement = childElement(styleSheet, 'borders')
+  const borders = bordersElement ? childElements(bordersElement, 'border').map(readBorder) : []
+
+  const cellXfs = childElement(styleSheet, 'cellXfs')
+  if (!cellXfs) return []
+  return childElements(cellXfs, 'xf').map(xf => {
+    const id = Number(xf.attributes.numFmtId ?? 0)
+    const format = customFormats.get(id) ?? BUILTIN_FORMATS[id]
+    const style = internStyle({
+      ...fonts[Number(xf.attributes.fontId ?? 0)],
+      ...fills[Number(xf.attributes.fillId ?? 0)],
+      ...borders[Number(xf.attributes.borderId ?? 0)],
+      ...readAlignment(xf),
+    })
+    return {
+      format: format && format.toLowerCase() !== 'general' ? format : undefined,
+      style,
+    }
+  })
+}
+
+interface SheetReadContext {
+  sharedStrings: string[]
+  cellXfs: CellXf[]
+}
+
+// 数値として読むと別の値になる文字列は text として扱う
+function toTextCell(value: string, format: string | undefined): CellData {
+  const needsTextType = format === '@' || typeof parseLiteral(value) !== 'string' || isFormulaInput(value)
+  return needsTextType ? { value, type: 'text', format } : { value, format }
+}
+
+function readCell(
+  c: XmlElement,
+  row: number,
+  col: number,
+  context: SheetReadContext,
+  sharedFormulas: Map<string, { formula: string; row: number; col: number }>
+): CellData | undefined {
+  const format = context.cellXfs[Number(c.attributes.s ?? 0)]?.format
+  const type = c.attributes.t ?? 'n'
+  const v = childElement(c, 'v')
+  const raw = v ? textContent(v) : ''
+
+  // 共有数式は最初のセルの数式を参照の位置だけずらして使う
+  const f = childElement(c, 'f')
+  let formula = f ? textContent(f) : ''
+  if (f?.attributes.t === 'shared' && f.attributes.si !== undefined) {
+    const shared = sharedFormulas.get(f.attributes.si)
+    if (formula) {
+      sharedFormulas.set(f.attributes.si, { formula, row, col })
+    } else if (shared) {
+      formula = shiftFormulaReferences(shared.formula, row - shared.row, col - shared.col)
+    }
+  }
+  if (formula) {
+    const cellType = format === '@' ? 'text' : format && isDateFormat(format) ? 'date' : undefined
+    return { value: `=${formula}`, type: cellType, format }
+  }
+
+  switch (type) {
+    case 's':
+      return toTextCell(context.sharedStrings[Number(raw)] ?? '', format)
+    case 'inlineStr': {
+      const is = childElement(c, 'is')
+      return is ? toTextCell(readStringItem(is), format) : undefined
+    }
+    case 'str':
+      return toTextCell(raw, format)
+    case 'b':
+      return { value: raw === '1' ? 'TRUE' : 'FALSE', format }
+    case 'e':
+      return { value: raw, format }
+    case 'd': {
+      const date = new Date(raw)
+      if (Number.isNaN(date.getTime())) return toTextCell(raw, format)
+      const serial = dateToSerial(
+        date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+        date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()
+      )
+      return { value: formatNumber(serial), type: 'date', format: format ?? DEFAULT_DATE_FORMAT }
+    }
+    default:
+      if (raw === '') return undefined
+      return {
+        value: formatNumber(Number(raw)),
+        type: format && isDateFormat(format) ? 'date' : 'number',
+        format,
+      }
+  }
+}
+
+function readSheet(name: string, source: string, context: SheetReadContext): XlsxSheet {
+  const worksheet = parseXml(source)
+  const model = createSheetModel()
+  const sharedFormulas = new Map<string, { formula: string; row: number; col: number }>()
+
+  const formatPr = childElement(worksheet, 'sheetFormatPr')
+  const defaultColumnWidth = formatPr?.attributes.defaultColWidth
+    ? columnWidthToPixels(Number(formatPr.attributes.defaultColWidth))
+    : EXCEL_DEFAULT_COLUMN_WIDTH
+  const defaultRowHeight = formatPr?.attributes.defaultRowHeight
+    ? pointsToPixels(Number(formatPr.attributes.defaultRowHeight))
+    : EXCEL_DEFAULT_ROW_HEIGHT
+
+  const columnWidths: SizeOverrides = {}
+  const columnStyles: AxisStyles = {}
+  const cols = childElement(worksheet, 'cols')
+  for (const col of cols ? childElements(cols, 'col') : []) {
+    const width = col.attributes.width ? columnWidthToPixels(Number(col.attributes.width)) : defaultColumnWidth
+    const style = col.attributes.style ? context.cellXfs[Number(col.attributes.style)]?.style : undefined
+    for (let index = Number(col.attributes.min) - 1; index < Number(col.attributes.max); index++) {
+      if (width !== defaultColumnWidth) columnWidths[index] = width
+      if (style) columnStyles[index] = style
+    }
+  }
+
+  const rowHeights: SizeOverrides = {}
+  const rowStyles: AxisStyles = {}
+  const sheetData = childElement(worksheet, 'sheetData')
+  model.batch(() => {
+    let rowIndex = -1
+    for (const rowElement of sheetData ? childElements(sheetData, 'row') : []) {
+      // 行番号・セル番地が省略されている場合は直前の次の位置
+      rowIndex = rowElement.attributes.r ? Number(rowElement.attributes.r) - 1 : rowIndex + 1
+      if (rowElement.attributes.customHeight === '1' && rowElement.attributes.ht) {
+        rowHeights[rowIndex] = pointsToPixels(Number(rowElement.attributes.ht))
+      }
+      const rowStyle = rowElement.attributes.customFormat === '1' && rowElement.attributes.s
+        ? context.cellXfs[Number(rowElement.attributes.s)]?.style
+        : undefined
+      if (rowStyle) rowStyles[rowIndex] = rowStyle
+
+      let colIndex = -1
+      for (const c of childElements(rowElement, 'c')) {
+        const address = c.attributes.r ? parseCellAddress(c.attributes.r) : null
+        colIndex = address ? address.col : colIndex + 1
+        const cell = readCell(c, rowIndex, colIndex, context, sharedFormulas)
+        // 値のないセルも書式があれば読み込む
+        const style = context.cellXfs[Number(c.attributes.s ?? 0)]?.style
+        if (cell || style) model.setCell(rowIndex, colIndex, { ...(cell ?? { value: '' }), style })
+      }
+    }
+  })
+  model.setAxisStyles('row', rowStyles)
+  model.setAxisStyles('column', columnStyles)
+
+  const merges: CellRange[] = []
+  const mergeCells = childElement(worksheet, 'mergeCells')
+  for (const mergeCell of mergeCells ? childElements(mergeCells, 'mergeCell') : []) {
+    const address = parseRangeAddress(mergeCell.attributes.ref ?? '')
+    if (address) merges.push(toCellRange(address))
+  }
+
+  let frozenRowCount = 0
+  let frozenColumnCount = 0
+  const sheetViews = childElement(worksheet, 'sheetViews')
+  const sheetView = sheetViews && childElement(sheetViews, 'sheetView')
+  const pane = sheetView && childElement(sheetView, 'pane')
+  if (pane && (pane.attributes.state === 'frozen' || pane.attributes.state === 'frozenSplit')) {
+    frozenRowCount = Number(pane.attributes.ySplit ?? 0)
+    frozenColumnCount = Number(pane.attributes.xSplit ?? 0)
+  }
+
+  return {
+    name,
+    model,
+    columnWidths,
+    rowHeights,
+    defaultColumnWidth,
+    defaultRowHeight,
+    merges,
+    frozenRowCount,
+    frozenColumnCount,
+  }
+}
+
+// .xlsx ファイルの内容を読み込む
+export async function readXlsx(data: ArrayBuffer | Uint8Array): Promise<XlsxWorkbook> {
+  const entries = readZip(data instanceof Uint8Array ? data : new Uint8Array(data))
+  const decoder = new TextDecoder()
+  const files = new Map<string, string>()
+  entries.forEach((bytes, path) => {
+    if (path.endsWith('.xml') || path.endsWith('.rels')) files.set(path, decoder.decode(bytes))
+  })
+
+  const rootRelationships = readRelationships(files, '')
+  const workbookPath = [...rootRelationships.values()]
+    .find(rel => rel.type.endsWith('/officeDocument'))?.target ?? 'xl/workbook.xml'
+  const workbookSource = files.get(workbookPath)
+  if (!workbookSource) throw new Error('The file does not contain a workbook')
+
+  const relationships = readRelationships(files, workbookPath)
+  const findPart = (type: string) =>
+    [...relationships.values()].find(rel => rel.type.endsWith(`/${type}`))?.target
+  const sharedStringsPath = findPart('sharedStrings')
+  const stylesPath = findPart('styles')
+  const context: SheetReadContext = {
+    sharedStrings: readSharedStrings(sharedStringsPath ? files.get(sharedStringsPath) : undefined),
+    cellXfs: readCellXfs(stylesPath ? files.get(stylesPath) : undefined),
+  }
+
+  const sheetsElement = childElement(parseXml(workbookSource), 'sheets')
+  const sheets: XlsxSheet[] = []
+  for (const sheet of sheetsElement ? childElements(sheetsElement, 'sheet') : []) {
+    const path = relationships.get(sheet.attributes.id)?.target
+    const source = path ? files.get(path) : undefined
+    if (source) sheets.push(readSheet(sheet.attributes.name, source, context))
+  }
+  return { sheets }
+}
+
+// --- 書き出し ---
+
+// 同じ内容の要素は1つにまとめ、番号で参照する表
+function createXmlTable(initial: string[]) {
+  const items = [...initial]
+  const indexes = new Map(items.map((xml, index) => [xml, index]))
+  const getIndex = (xml: string) => {
+    let index = indexes.get(xml)
+    if (index === undefined) {
+      index = items.length
+      items.push(xml)
+      indexes.set(xml, index)
+    }
+    return index
+  }
+  return { items, getIndex }
+}
+
+const fontXml = (style: CellStyle | undefined) =>
+  '<font>' +
+  (style?.bold ? '<b/>' : '') +
+  (style?.italic ? '<i/>' : '') +
+  (style?.strikethrough ? '<strike/>' : '') +
+  (style?.underline ? '<u/>' : '') +
+  `<sz val="${style?.fontSize ?? DEFAULT_FONT_SIZE}"/>` +
+  (style?.color ? `<color rgb="${colorToArgb(style.color)}"/>` : '') +
+  '<name val="Calibri"/><family val="2"/></font>'
+
+const fillXml = (color: string) =>
+  `<fill><patternFill patternType="solid"><fgColor rgb="${colorToArgb(color)}"/><bgColor indexed="64"/></patternFill></fill>`
+
+const borderSideXml = (name: string, border: CellBorder | undefined) =>
+  border
+    ? `<${name} style="${border.style}"><color rgb="${colorToArgb(border.color ?? '#000000')}"/></${name}>`
+    : `<${name}/>`
+
+const borderXml = (style: CellStyle | undefined) =>
+  `<border>${BORDER_ELEMENTS.map(([key, name]) => borderSideXml(name, style?.[key])).join('')}<diagonal/></border>`
+
+const alignmentXml = (style: CellStyle | undefined) => {
+  const attributes = [
+    style?.horizontalAlign && `horizontal="${style.horizontalAlign}"`,
+    style?.verticalAlign && `vertical="${style.verticalAlign === 'middle' ? 'center' : style.verticalAlign}"`,
+    style?.wrap && 'wrapText="1"',
+  ].filter(Boolean)
+  return attributes.length > 0 ? `<alignment ${attributes.join(' ')}/>` : ''
+}
+
+// 表示形式と書式の組み合わせごとにセルの書式（cellXfs）を1つ作る
+function createStyleRegistry() {
+  const formatIds = new Map<string, number>()
+  const customFormats: { id: number; code: string }[] = []
+  const builtinIds = new Map(Object.entries(BUILTIN_FORMATS).map(([id, code]) => [code, Number(id)]))
+  const fonts = createXmlTable([fontXml(undefined)])
+  const fills = createXmlTable([
+    '<fill><patternFill patternType="none"/></fill>',
+    '<fill><patternFill patternType="gray125"/></fill>',
+  ])
+  const borders = createXmlTable([borderXml(undefined)])
+  const xfs = createXmlTable(['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'])
+
+  const getFormatId = (code: string) => {
+    if (code.toLowerCase() === 'general') return 0
+    let id = builtinIds.get(code) ?? formatIds.get(code)
+    if (id === undefined) {
+      id = FIRST_CUSTOM_FORMAT_ID + customFormats.length
+      customFormats.push({ id, code })
+      formatIds.set(code, id)
+    }
+    return id
+  }
+
+  const getStyleIndex = (format: string | undefined, style?: CellStyle): number => {
+    const numFmtId = format ? getFormatId(format) : 0
+    const fontId = fonts.getIndex(fontXml(style))
+    const fillId = style?.fill ? fills.getIndex(fillXml(style.fill)) : 0
+    const borderId = borders.getIndex(borderXml(style))
+    const alignment = alignmentXml(style)
+    const applyAttributes = [
+      numFmtId && 'applyNumberFormat="1"',
+      fontId && 'applyFont="1"',
+      fillId && 'applyFill="1"',
+      borderId && 'applyBorder="1"',
+      alignment && 'applyAlignment="1"',
+    ].filter(Boolean).map(attribute => ` ${attribute}`).join('')
+    const xml = `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"` +
+      applyAttributes +
+      (alignment ? `>${alignment}</xf>` : '/>')
+    return xfs.getIndex(xml)
+  }
+
+  const toXml = () => {
+    const numFmts = customFormats.length > 0
+      ? `<numFmts count="${customFormats.length}">${customFormats
+        .map(({ id, code }) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`)
+        .join('')}</numFmts>`
+      : ''
+    return `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NAMESPACE}">${numFmts}` +
+      `<fonts count="${fonts.items.length}">${fonts.items.join('')}</fonts>` +
+      `<fills count="${fills.items.length}">${fills.items.join('')}</fills>` +
+      `<borders count="${borders.items.length}">${borders.items.join('')}</borders>` +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${xfs.items.length}">${xfs.items.join('')}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>'
+  }
+
+  return { getStyleIndex, toXml }
+}
+
+// 共有文字列の表（同じ文字列は1つにまとめる）
+function createSharedStrings() {
+  const indexes = new Map<string, number>()
+  const strings: string[] = []
+
+  const getIndex = (text: string) => {
+    let index = indexes.get(text)
+    if (index === undefined) {
+      index = strings.length
+      strings.push(text)
+      indexes.set(text, index)
+    }
+    return index
+  }
+
+  const toXml = () => {
+    const items = strings
+      .map(text => `<si><t${/^\s|\s$/.test(text) ? ' xml:space="preserve"' : ''}>${escapeXml(text)}</t></si>`)
+      .join('')
+    return `${XML_DECLARATION}<sst xmlns="${MAIN_NAMESPACE}" count="${strings.length}" uniqueCount="${strings.length}">${items}</sst>`
+  }
+
+  return { getIndex, toXml, get count() { return strings.length } }
+}
+
+type StyleRegistry = ReturnType<typeof createStyleRegistry>
+type SharedStrings = ReturnType<typeof createSharedStrings>
+
+// 数式の計算結果を <v> として書き出す
+function formulaValueXml(value: ScalarValue | undefined): { type: string; value: string } | null {
+  if (value === null || value === undefined) return null
+  if (isFormulaError(value)) return { type: 'e', value: value.code }
+  if (typeof value === 'boolean') return { type: 'b', value: value ? '1' : '0' }
+  if (typeof value === 'number') return { type: '', value: formatNumber(value) }
+  return { type: 'str', value }
+}
+
+function cellXml(
+  cell: CellData,
+  row: number,
+  col: number,
+  sheet: XlsxSheet,
+  styles: StyleRegistry,
+  sharedStrings: SharedStrings
+): string {
+  const ref = formatCellAddress({ row, col })
+  const value = String(cell.value)
+  const format = cell.format ?? (cell.type === 'date' ? DEFAULT_DATE_FORMAT : cell.type === 'text' ? '@' : undefined)
+  const style = styles.getStyleIndex(format, cell.style)
+  const styleAttribute = style ? ` s="${style}"` : ''
+  // 書式だけのセル
+  if (value === '') return `<c r="${ref}"${styleAttribute}/>`
+
+  if (isFormulaInput(value)) {
+    const result = formulaValueXml(sheet.getFormulaValue?.(row, col))
+    const typeAttribute = result?.type ? ` t="${result.type}"` : ''
+    const valueXml = result ? `<v>${escapeXml(result.value)}</v>` : ''
+    return `<c r="${ref}"${styleAttribute}${typeAttribute}><f>${escapeXml(value.slice(1))}</f>${valueXml}</c>`
+  }
+
+  const literal = cell.type === 'text' ? value : parseLiteral(cell.value)
+  if (typeof literal === 'number') {
+    return `<c r="${ref}"${styleAttribute}><v>${formatNumber(literal)}</v></c>`
+  }
+  if (typeof literal === 'boolean') {
+    return `<c r="${ref}"${styleAttribute} t="b"><v>${literal ? 1 : 0}</v></c>`
+  }
+  if (isFormulaError(literal)) {
+    return `<c r="${ref}"${styleAttribute} t="e"><v>${literal.code}</v></c>`
+  }
+  return `<c r="${ref}"${styleAttribute} t="s"><v>${sharedStrings.getIndex(value)}</v></c>`
+}
+
+function sheetXml(sheet: XlsxSheet, isFirst: boolean, styles: StyleRegistry, sharedStrings: SharedStrings): string {
+  const defaultColumnWidth = sheet.defaultColumnWidth ?? EXCEL_DEFAULT_COLUMN_WIDTH
+  const defaultRowHeight = sheet.defaultRowHeight ?? EXCEL_DEFAULT_ROW_HEIGHT
+  const parts: string[] = [
+    XML_DECLARATION,
+    `<worksheet xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">`,
+  ]
+
+  const usedRange = sheet.model.getUsedRange()
+  if (usedRange) {
+    parts.push(`<dimension ref="${formatCellAddress(usedRange.start)}:${formatCellAddress(usedRange.end)}"/>`)
+  }
+
+  // ウィンドウ枠の固定
+  const { frozenRowCount: rows, frozenColumnCount: columns } = sheet
+  let pane = ''
+  if (rows > 0 || columns > 0) {
+    const activePane = rows > 0 && columns > 0 ? 'bottomRight' : rows > 0 ? 'bottomLeft' : 'topRight'
+    pane = `<pane${columns > 0 ? ` xSplit="${columns}"` : ''}${rows > 0 ? ` ySplit="${rows}"` : ''}` +
+      ` topLeftCell="${formatCellAddress({ row: rows, col: columns })}" activePane="${activePane}" state="frozen"/>`
+  }
+  parts.push(`<sheetViews><sheetView${isFirst ? ' tabSelected="1"' : ''} workbookViewId="0">${pane}</sheetView></sheetViews>`)
+  parts.push(
+    `<sheetFormatPr defaultColWidth="${pixelsToColumnWidth(defaultColumnWidth)}"` +
+    ` defaultRowHeight="${pixelsToPoints(defaultRowHeight)}"` +
+    `${defaultRowHeight !== EXCEL_DEFAULT_ROW_HEIGHT ? ' customHeight="1"' : ''}/>`
+  )
+
+  // 同じ幅と書式が続く列はまとめる
+  const columnStyles = sheet.model.getAxisStyles('column')
+  const columnIndexes = [...new Set([...Object.keys(sheet.columnWidths), ...Object.keys(columnStyles)].map(Number))]
+    .sort((a, b) => a - b)
+  if (columnIndexes.length > 0) {
+    const cols: string[] = []
+    let start = columnIndexes[0]
+    for (let i = 1; i <= columnIndexes.length; i++) {
+      const index = columnIndexes[i]
+      const previous = columnIndexes[i - 1]
+      if (
+        index === previous + 1 &&
+        sheet.columnWidths[index] === sheet.columnWidths[start] &&
+        columnStyles[index] === columnStyles[start]
+      ) continue
+      const width = sheet.columnWidths[start]
+      const style = columnStyles[start] ? styles.getStyleIndex(undefined, columnStyles[start]) : 0
+      cols.push(
+        `<col min="${start + 1}" max="${previous + 1}" width="${pixelsToColumnWidth(width ?? defaultColumnWidth)}"` +
+        `${style ? ` style="${style}"` : ''}${width !== undefined ? ' customWidth="1"' : ''}/>`
+      )
+      start = index
+    }
+    parts.push(`<cols>${cols.join('')}</cols>`)
+  }
+
+  // セルのある行と高さを変えた行を行番号の順に書き出す
+  const rowCells = new Map<number, string[]>()
+  sheet.model.forEachCell((cell, row, col) => {
+    let cells = rowCells.get(row)
+    if (!cells) {
+      cells = []
+      rowCells.set(row, cells)
+    }
+    cells.push(cellXml(cell, row, col, sheet, styles, sharedStrings))
+  })
+  const rowStyles = sheet.model.getAxisStyles('row')
+  const rowIndexes = [...new Set([
+    ...rowCells.keys(),
+    ...Object.keys(sheet.rowHeights).map(Number),
+    ...Object.keys(rowStyles).map(Number),
+  ])].sort((a, b) => a - b)
+
+  parts.push('<sheetData>')
+  for (const row of rowIndexes) {
+    const height = sheet.rowHeights[row]
+    const heightAttributes = height !== undefined ? ` ht="${pixelsToPoints(height)}" customHeight="1"` : ''
+    const style = rowStyles[row] ? styles.getStyleIndex(undefined, rowStyles[row]) : 0
+    const styleAttributes = style ? ` s="${style}" customFormat="1"` : ''
+    parts.push(`<row r="${row + 1}"${styleAttributes}${heightAttributes}>${rowCells.get(row)?.join('') ?? ''}</row>`)
+  }
+  parts.push('</sheetData>')
+
+  if (sheet.merges.length > 0) {
+    const mergeCells = sheet.merges
+      .map(({ start, end }) => `<mergeCell ref="${formatCellAddress(start)}:${formatCellAddress(end)}"/>`)
+      .join('')
+    parts.push(`<mergeCells count="${sheet.merges.length}">${mergeCells}</mergeCells>`)
+  }
+
+  parts.push('</worksheet>')
+  return parts.join('')
+}
+
+// .xlsx ファイルの内容を作る
+export async function writeXlsx(workbook: XlsxWorkbook): Promise<Uint8Array<ArrayBuffer>> {
+  const styles = createStyleRegistry()
+  const sharedStrings = createSharedStrings()
+  const encoder = new TextEncoder()
+  const sheets = workbook.sheets.length > 0
+    ? workbook.sheets
+    : [{ name: 'Sheet1', model: createSheetModel(), columnWidths: {}, rowHeights: {}, merges: [], frozenRowCount: 0, frozenColumnCount: 0 }]
+
+  const sheetFiles = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    data: encoder.encode(sheetXml(sheet, index === 0, styles, sharedStrings)),
+  }))
+
+  const sheetCount = sheets.length
+  const workbookXml = `${XML_DECLARATION}<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">` +
+    '<bookViews><workbookView/></bookViews><sheets>' +
+    sheets.map((sheet, index) =>
+      `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    ).join('') +
+    // 計算結果を保存していない数式があるため、開いたときにすべて再計算させる
+    '</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>'
+
+  const workbookRelsXml = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+    sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheetCount + 1}" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rId${sheetCount + 2}" Type="${RELATIONSHIP_NAMESPACE}/sharedStrings" Target="sharedStrings.xml"/>` +
+    '</Relationships>'
+
+  const rootRelsXml = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>'
+
+  const contentTypesXml = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '<Override PartName="/xl/sharedStrings.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/>' +
+    '</Types>'
+
+  return writeZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypesXml) },
+    { name: '_rels/.rels', data: encoder.encode(rootRelsXml) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbookXml) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRelsXml) },
+    ...sheetFiles,
+    { name: 'xl/styles.xml', data: encoder.encode(styles.toXml()) },
+    { name: 'xl/sharedStrings.xml', data: encoder.encode(sharedStrings.toXml()) },
+  ])
+}
+
+// ダウンロード用のファイルを作る
+export function createXlsxBlob(data: Uint8Array<ArrayBuffer>): Blob {
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
@@ -0,0 +1,126 @@
+// XLSX の読み書きに使う最小限の XML（DOMParser のない Node でも動くように自前で解析する）
+
+export interface XmlElement {
+  // 名前空間の接頭辞を除いた名前（x:row → row）
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    return NAMED_ENTITIES[entity] ?? match
+  })
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // XML 1.0 で使えない制御文字は取り除く
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1)
+
+// タグの終わりの > の位置（属性値の中の > は無視する）
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null
+  for (let i = start; i < source.length; i++) {
+    const char = source[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '>') {
+      return i
+    }
+  }
+  return -1
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+
+// ルート要素を返す（宣言・コメント・処理命令は読み飛ばす）
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  let pos = 0
+
+  while (pos < source.length) {
+    const tagStart = source.indexOf('<', pos)
+    const text = source.slice(pos, tagStart < 0 ? source.length : tagStart)
+    if (text && stack.length > 1) stack[stack.length - 1].children.push(decodeEntities(text))
+    if (tagStart < 0) break
+
+    if (source.startsWith('<!--', tagStart)) {
+      pos = source.indexOf('-->', tagStart) + 3
+    } else if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart)
+      stack[stack.length - 1].children.push(source.slice(tagStart + 9, end))
+      pos = end + 3
+    } else if (source.startsWith('<?', tagStart) || source.startsWith('<!', tagStart)) {
+      pos = source.indexOf('>', tagStart) + 1
+    } else if (source[tagStart + 1] === '/') {
+      const end = source.indexOf('>', tagStart)
+      if (stack.length > 1) stack.pop()
+      pos = end + 1
+    } else {
+      const end = findTagEnd(source, tagStart)
+      if (end < 0) throw new Error('Unterminated XML tag')
+      const selfClosing = source[end - 1] === '/'
+      const body = source.slice(tagStart + 1, selfClosing ? end - 1 : end)
+      const nameEnd = body.search(/\s|$/)
+      const element: XmlElement = {
+        name: localName(body.slice(0, nameEnd)),
+        attributes: {},
+        children: [],
+      }
+      for (const match of body.slice(nameEnd).matchAll(ATTRIBUTE_PATTERN)) {
+        element.attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4])
+      }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) stack.push(element)
+      pos = end + 1
+    }
+    if (pos <= tagStart) throw new Error('Malformed XML')
+  }
+
+  const element = root.children.find((child): child is XmlElement => typeof child !== 'string')
+  if (!element) throw new Error('XML has no root element')
+  return element
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (name === undefined || child.name === name)
+  )
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(
+    (child): child is XmlElement => typeof child !== 'string' && child.name === name
+  )
+}
+
+// 子孫のテキストをつなげた文字列
+export function textContent(element: XmlElement): string {
+  return element.children
+    .map(child => (typeof child === 'string' ? child : textContent(child)))
+    .join('')
+}
@@ -0,0 +1,42 @@
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { crc32, inflateRaw, readZip, writeZip } from './zip'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926)
+    expect(crc32(new Uint8Array())).toBe(0)
+  })
+})
+
+describe('inflateRaw', () => {
+  it('expands data compressed with fixed and dynamic Huffman codes', () => {
+    const short = encoder.encode('abcabcabc')
+    const long = encoder.encode(Array.from({ length: 2000 }, (_, i) => `<c r="A${i}"><v>${i * 7}</v></c>`).join(''))
+    expect(inflateRaw(deflateRawSync(short))).toEqual(short)
+    // 目安より大きく展開される場合も途中で広げる
+    expect(inflateRaw(deflateRawSync(long), 16)).toEqual(long)
+  })
+})
+
+describe('readZip and writeZip', () => {
+  it('round-trips compressed and stored entries', async () => {
+    const xml = encoder.encode('<row>'.repeat(1000))
+    // 圧縮しても小さくならない内容は無圧縮で格納する
+    const binary = new Uint8Array([0, 255, 1, 254])
+    const entries = readZip(await writeZip([
+      { name: 'xl/worksheets/sheet1.xml', data: xml },
+      { name: 'データ.bin', data: binary },
+    ]))
+    expect([...entries.keys()]).toEqual(['xl/worksheets/sheet1.xml', 'データ.bin'])
+    expect(decoder.decode(entries.get('xl/worksheets/sheet1.xml'))).toBe('<row>'.repeat(1000))
+    expect(entries.get('データ.bin')).toEqual(binary)
+  })
+
+  it('rejects data that is not a zip file', () => {
+    expect(() => readZip(encoder.encode('not a zip file at all, just text'))).toThrow('Not a zip file')
+  })
+})
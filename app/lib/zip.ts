@@ -0,0 +1,355 @@
+// XLSX の読み書きに使う ZIP（外部ライブラリを使わず、ブラウザと Node の両方で動く）
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+// ファイル名を UTF-8 で格納していることを示すフラグ
+const UTF8_FLAG = 0x0800
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  crcTable = table
+  return table
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// --- 展開（RFC 1951） ---
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+]
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+// 符号長ごとの符号の数と、符号順に並べたシンボル
+interface Huffman {
+  counts: Uint16Array
+  symbols: Uint16Array
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16)
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++
+  counts[0] = 0
+
+  const offsets = new Uint16Array(16)
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1]
+
+  const symbols = new Uint16Array(lengths.length)
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i
+  }
+  return { counts, symbols }
+}
+
+let fixedTables: { literal: Huffman; distance: Huffman } | null = null
+
+function getFixedTables() {
+  if (fixedTables) return fixedTables
+  const lengths = new Uint8Array(288)
+  lengths.fill(8, 0, 144)
+  lengths.fill(9, 144, 256)
+  lengths.fill(7, 256, 280)
+  lengths.fill(8, 280, 288)
+  fixedTables = { literal: buildHuffman(lengths), distance: buildHuffman(new Uint8Array(30).fill(5)) }
+  return fixedTables
+}
+
+// 生の deflate データを展開する（size は展開後の大きさの目安）
+export function inflateRaw(data: Uint8Array, size = data.length * 4): Uint8Array {
+  let output = new Uint8Array(Math.max(size, 1024))
+  let outPos = 0
+  let inPos = 0
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const ensure = (extra: number) => {
+    if (outPos + extra <= output.length) return
+    const grown = new Uint8Array(Math.max(output.length * 2, outPos + extra))
+    grown.set(output)
+    output = grown
+  }
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (inPos >= data.length) throw new Error('Unexpected end of deflate data')
+      bitBuffer |= data[inPos++] << bitCount
+      bitCount += 8
+    }
+    const value = bitBuffer & ((1 << count) - 1)
+    bitBuffer >>>= count
+    bitCount -= count
+    return value
+  }
+
+  const decode = ({ counts, symbols }: Huffman): number => {
+    let code = 0
+    let first = 0
+    let index = 0
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1)
+      const count = counts[len]
+      if (code - first < count) return symbols[index + code - first]
+      index += count
+      first = (first + count) << 1
+      code <<= 1
+    }
+    throw new Error('Invalid Huffman code')
+  }
+
+  const inflateBlock = (literal: Huffman, distance: Huffman) => {
+    while (true) {
+      const symbol = decode(literal)
+      if (symbol < 256) {
+        ensure(1)
+        output[outPos++] = symbol
+      } else if (symbol === 256) {
+        return
+      } else {
+        const lengthIndex = symbol - 257
+        const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex])
+        const distanceIndex = decode(distance)
+        const back = DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex])
+        if (back > outPos) throw new Error('Invalid deflate distance')
+        ensure(length)
+        for (let i = 0; i < length; i++, outPos++) {
+          output[outPos] = output[outPos - back]
+        }
+      }
+    }
+  }
+
+  const readDynamicTables = () => {
+    const literalCount = bits(5) + 257
+    const distanceCount = bits(5) + 1
+    const codeLengthCount = bits(4) + 4
+
+    const codeLengths = new Uint8Array(19)
+    for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3)
+    const codeLengthTable = buildHuffman(codeLengths)
+
+    const lengths = new Uint8Array(literalCount + distanceCount)
+    for (let i = 0; i < lengths.length;) {
+      const symbol = decode(codeLengthTable)
+      if (symbol < 16) {
+        lengths[i++] = symbol
+        continue
+      }
+      let repeat: number
+      let value = 0
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid code length repeat')
+        value = lengths[i - 1]
+        repeat = 3 + bits(2)
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3)
+      } else {
+        repeat = 11 + bits(7)
+      }
+      if (i + repeat > lengths.length) throw new Error('Invalid code lengths')
+      lengths.fill(value, i, i + repeat)
+      i += repeat
+    }
+
+    return {
+      literal: buildHuffman(lengths.subarray(0, literalCount)),
+      distance: buildHuffman(lengths.subarray(literalCount)),
+    }
+  }
+
+  let isFinal = false
+  while (!isFinal) {
+    isFinal = bits(1) === 1
+    const type = bits(2)
+    if (type === 0) {
+      // 無圧縮のブロックはバイト境界から始まる
+      bitBuffer = 0
+      bitCount = 0
+      const length = data[inPos] | (data[inPos + 1] << 8)
+      inPos += 4
+      ensure(length)
+      output.set(data.subarray(inPos, inPos + length), outPos)
+      inPos += length
+      outPos += length
+    } else if (type === 1) {
+      const { literal, distance } = getFixedTables()
+      inflateBlock(literal, distance)
+    } else if (type === 2) {
+      const { literal, distance } = readDynamicTables()
+      inflateBlock(literal, distance)
+    } else {
+      throw new Error('Invalid deflate block type')
+    }
+  }
+
+  return output.subarray(0, outPos)
+}
+
+// --- 読み込み ---
+
+// ZIP のファイル名とその内容（ZIP64 には対応しない）
+export function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+
+  // 末尾のコメント（最大 64KB）を考慮して中央ディレクトリの終端を探す
+  let endOffset = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) throw new Error('Not a zip file')
+
+  const entryCount = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const entries = new Map<string, Uint8Array>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Invalid zip central directory')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const uncompressedSize = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) throw new Error('Invalid zip entry')
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORE) {
+      entries.set(name, data)
+    } else if (method === METHOD_DEFLATE) {
+      entries.set(name, inflateRaw(data, uncompressedSize))
+    } else {
+      throw new Error(`Unsupported zip compression method: ${method}`)
+    }
+  }
+
+  return entries
+}
+
+// --- 書き出し ---
+
+// 実行環境の CompressionStream で圧縮する（使えない場合は null）
+async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  } catch {
+    return null
+  }
+}
+
+// MS-DOS 形式の日時
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// 圧縮できない環境では無圧縮で格納する
+export async function writeZip(entries: ZipEntry[]): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(new Date())
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = new Uint8Array(entry.data)
+    const crc = crc32(data)
+    const deflated = await deflateRaw(data)
+    const useDeflate = deflated !== null && deflated.length < data.length
+    const stored = useDeflate ? deflated : data
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORE
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(6, UTF8_FLAG, true)
+    localView.setUint16(8, method, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, stored.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, UTF8_FLAG, true)
+    centralView.setUint16(10, method, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, stored.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, stored)
+    centralParts.push(central)
+    offset += local.length + stored.length
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const result = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of [...localParts, ...centralParts, end]) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
@@ -1,12 +1,224 @@
-import Image from "next/image";
-import Spreadsheet from './components/Spreadsheet';
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { CellRange, CellStyle, ConditionalFormat, HistoryState } from './components/Spreadsheet'
+import Workbook, { type WorkbookHandle, type WorkbookSheet } from './components/Workbook'
+import FormatToolbar from './components/FormatToolbar'
+import ConditionalFormatManager from './components/ConditionalFormatManager'
+import DocumentBar from './components/DocumentBar'
+import { useAutosave } from './hooks/useAutosave'
+import { readCsvFile } from './lib/csv'
+import { captureWorkbook, createDocumentSheets, parseWorkbookDocument } from './lib/document'
+import { createDocumentId, listRecentDocuments, loadDocument, type DocumentSummary } from './lib/storage'
+import { createWorkbookSheet } from './lib/workbook'
+
+// 開いているブック
+interface OpenDocument {
+  id: string
+  title: string
+  sheets: WorkbookSheet[]
+  activeSheetId: string
+}
+
+const DEFAULT_TITLE = '無題のブック'
+
+function createDocument(): OpenDocument {
+  const sheet = createWorkbookSheet('Sheet1')
+  return { id: createDocumentId(), title: DEFAULT_TITLE, sheets: [sheet], activeSheetId: sheet.id }
+}
+
+// 保存したブックを読み込む（見つからない場合は null）
+async function readDocument(id: string): Promise<OpenDocument | null> {
+  const content = await loadDocument(id)
+  if (content === null) return null
+  const document = parseWorkbookDocument(content)
+  const sheets = createDocumentSheets(document)
+  return {
+    id,
+    title: document.title,
+    sheets,
+    activeSheetId: (sheets[document.activeSheet] ?? sheets[0]).id,
+  }
+}
 
 export default function Home() {
+  // シートごとのモデルはブックが持つ（編集はグリッドがモデルに直接反映する）
+  const workbookRef = useRef<WorkbookHandle>(null)
+  // 保存したブックを読み込むまでは null
+  const [openDocument, setOpenDocument] = useState<OpenDocument | null>(null)
+  const [recentDocuments, setRecentDocuments] = useState<DocumentSummary[]>([])
+  // 変更を購読するシートの一覧（シートの追加・削除に合わせて更新する）
+  const [sheets, setSheets] = useState<WorkbookSheet[]>([])
+  const [activeSheetId, setActiveSheetId] = useState<string>()
+  // 表示中のシートのアクティブセルの書式（選択や履歴が変わるたびにツールバーの表示を更新する）
+  const [activeStyle, setActiveStyle] = useState<CellStyle>()
+
+  // 表示中のシートの条件付き書式のルール（変更はシートのグリッドの履歴に記録して取り消せるようにする）
+  const [conditionalFormats, setConditionalFormats] = useState<ConditionalFormat[]>([])
+  const [isConditionalFormatOpen, setConditionalFormatOpen] = useState(false)
+  // 新しいルールの範囲の初期値にする選択範囲
+  const [selection, setSelection] = useState<CellRange | null>(null)
+
+  const { status, scheduleSave, flush } = useAutosave({
+    documentId: openDocument?.id ?? null,
+    capture: () => {
+      const workbook = workbookRef.current
+      if (!workbook || !openDocument) return null
+      const sheets = workbook.getSheets()
+      const activeId = workbook.getActiveSheet()?.id
+      return captureWorkbook(
+        openDocument.title,
+        sheets.map(sheet => ({ sheet, state: workbook.getSheetState(sheet.id) ?? {} })),
+        Math.max(0, sheets.findIndex(sheet => sheet.id === activeId))
+      )
+    },
+    onSave: (summary) => {
+      setRecentDocuments(documents => [summary, ...documents.filter(document => document.id !== summary.id)])
+    },
+  })
+
+  const showDocument = (document: OpenDocument) => {
+    setOpenDocument(document)
+    setSheets(document.sheets)
+    setActiveSheetId(document.activeSheetId)
+  }
+
+  // 最後に開いていたブックを読み込む（読み込めない場合は新しいブックにする）
+  useEffect(() => {
+    let isCancelled = false
+    listRecentDocuments()
+      .then(async (documents) => {
+        if (!isCancelled) setRecentDocuments(documents)
+        return documents[0] ? readDocument(documents[0].id) : null
+      })
+      .catch(() => null)
+      .then(document => {
+        if (!isCancelled) showDocument(document ?? createDocument())
+      })
+    return () => {
+      isCancelled = true
+    }
+  }, [])
+
+  // セルの変更はモデルから受け取る
+  useEffect(() => {
+    const unsubscribes = sheets.map(sheet => sheet.model.subscribe(() => scheduleSave()))
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+  }, [sheets, scheduleSave])
+
+  // 待っている保存を済ませてから別のブックに切り替える
+  const switchDocument = async (load: () => Promise<OpenDocument | null>) => {
+    await flush()
+    const document = await load().catch(() => null)
+    if (document) showDocument(document)
+  }
+
+  const getSpreadsheet = () => workbookRef.current?.getSpreadsheet()
+
+  const updateActiveStyle = useCallback(() => {
+    setActiveStyle(workbookRef.current?.getSpreadsheet()?.getCellStyle())
+  }, [])
+
+  // シートを切り替えたら、ツールバーと条件付き書式のパネルをそのシートに合わせる
+  // （追加したシートのグリッドが ref から引けるように描画後に読む）
+  useEffect(() => {
+    if (!activeSheetId) return
+    const spreadsheet = workbookRef.current?.getSpreadsheet(activeSheetId)
+    setConditionalFormats(spreadsheet?.getConditionalFormats() ?? [])
+    setSelection(spreadsheet?.getSelection() ?? null)
+    updateActiveStyle()
+  }, [activeSheetId, updateActiveStyle])
+
+  // 表示中のシートの変更だけをツールバーとパネルに反映する
+  // （グリッドはハンドラが変わるたびに選択範囲などを通知し直すため、シートごとに同じハンドラを渡す）
+  const sheetHandlersRef = useRef(new Map<string, ReturnType<typeof createSheetHandlers>>())
+  const createSheetHandlers = (id: string) => {
+    const isActive = () => id === workbookRef.current?.getActiveSheet()?.id
+    return {
+      onConditionalFormatsChange: (formats: ConditionalFormat[]) => {
+        if (isActive()) setConditionalFormats(formats)
+      },
+      onSelectionChange: (range: CellRange | null) => {
+        if (!isActive()) return
+        setSelection(range)
+        updateActiveStyle()
+      },
+      onHistoryChange: (state: HistoryState) => {
+        if (isActive()) updateActiveStyle()
+        // 書式・列幅・結合などの変更も保存する（表示したときの空の履歴は除く）
+        if (state.undoCount > 0 || state.redoCount > 0) scheduleSave()
+      },
+      onFreezePanesChange: () => scheduleSave(),
+    }
+  }
+  const sheetProps = (sheet: WorkbookSheet) => {
+    let handlers = sheetHandlersRef.current.get(sheet.id)
+    if (!handlers) {
+      handlers = createSheetHandlers(sheet.id)
+      sheetHandlersRef.current.set(sheet.id, handlers)
+    }
+    return handlers
+  }
+
   return (
     <div className="w-full h-screen">
       <main className="h-full flex flex-col">
-        <div className="flex-1">
-          <Spreadsheet />
+        {openDocument && (
+          <DocumentBar
+            title={openDocument.title}
+            status={status}
+            recentDocuments={recentDocuments}
+            documentId={openDocument.id}
+            onTitleChange={(title) => {
+              setOpenDocument({ ...openDocument, title })
+              scheduleSave()
+            }}
+            onNew={() => switchDocument(async () => createDocument())}
+            onOpen={(id) => switchDocument(() => readDocument(id))}
+            onImportCsv={(file) => {
+              readCsvFile(file)
+                .then(text => getSpreadsheet()?.importCsv(text))
+                .catch(() => {})
+            }}
+          />
+        )}
+        <FormatToolbar
+          style={activeStyle}
+          onStyleChange={(patch) => getSpreadsheet()?.setStyle(patch)}
+          onBordersChange={(preset) => getSpreadsheet()?.setBorders(preset)}
+          onConditionalFormatClick={() => setConditionalFormatOpen(open => !open)}
+        />
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 min-w-0">
+            {openDocument && (
+              <Workbook
+                key={openDocument.id}
+                ref={workbookRef}
+                initialSheets={openDocument.sheets}
+                initialActiveSheetId={openDocument.activeSheetId}
+                onSheetsChange={(next) => {
+                  setSheets(next)
+                  scheduleSave()
+                }}
+                onActiveSheetChange={(id) => {
+                  setActiveSheetId(id)
+                  scheduleSave()
+                }}
+                sheetProps={sheetProps}
+              />
+            )}
+          </div>
+          {isConditionalFormatOpen && (
+            <ConditionalFormatManager
+              formats={conditionalFormats}
+              defaultRange={selection}
+              onChange={(formats) => getSpreadsheet()?.setConditionalFormats(formats)}
+              onClose={() => {
+                setConditionalFormatOpen(false)
+                getSpreadsheet()?.focus()
+              }}
+            />
+          )}
         </div>
       </main>
     </div>
@@ -42,6 +42,34 @@ export const cellStyles = {
   selectedBorder: 'border-2 border-blue-400 -m-[1px] z-[1]'
 } as const
 
+// セル内の文字の揃え（値の型に応じて切り替える）
+export const cellAlignStyles = {
+  left: 'justify-start',
+  center: 'justify-center',
+  right: 'justify-end'
+} as const
+
+// セルの書式（罫線は選択範囲の枠線と重ならないように、セルの内側に重ねた要素に描く）
+export const cellFormatStyles = {
+  borders: 'absolute inset-0 pointer-events-none',
+  // 塗りつぶしたセルを選択したときに重ねる色
+  selectedFill: 'bg-blue-500/15',
+  wrap: 'whitespace-normal break-all',
+  // 条件付き書式のデータバー（文字が読めるように半透明にする）とアイコン（セルの左端）
+  dataBar: 'absolute left-0 top-0.5 bottom-0.5 opacity-40 pointer-events-none',
+  icon: 'absolute left-1 pointer-events-none'
+} as const
+
+// 罫線の種類ごとの CSS の太さと線種
+export const borderLineStyles = {
+  thin: '1px solid',
+  medium: '2px solid',
+  thick: '3px solid',
+  dashed: '1px dashed',
+  dotted: '1px dotted',
+  double: '3px double'
+} as const
+
 // ヘッダーの基本スタイル
 export const headerStyles = {
   base: 'flex items-center justify-center font-semibold select-none cursor-pointer bg-gray-100',
@@ -50,12 +78,172 @@ export const headerStyles = {
   border: 'border-r border-b border-gray-200'
 } as const
 
+// 列幅・行高変更用ハンドルのスタイル
+export const resizeHandleStyles = {
+  column: 'absolute top-0 -right-[3px] w-[6px] h-full cursor-col-resize z-[1] hover:bg-blue-400',
+  row: 'absolute left-0 -bottom-[3px] h-[6px] w-full cursor-row-resize z-[1] hover:bg-blue-400'
+} as const
+
+// フィルハンドルとフィル先の範囲のスタイル
+export const fillHandleStyles = {
+  handle: 'absolute right-0 bottom-0 w-[6px] h-[6px] bg-blue-500 border border-white cursor-crosshair z-[2]',
+  preview: 'border-dashed border-gray-500'
+} as const
+
+// ウィンドウ枠の固定位置を示す線のスタイル
+export const freezeLineStyles = {
+  row: 'absolute left-0 h-px bg-gray-400 pointer-events-none',
+  column: 'absolute top-0 w-px bg-gray-400 pointer-events-none'
+} as const
+
+// 列ヘッダーの並べ替え・フィルターのボタンと、絞り込み中の行ヘッダーのスタイル
+export const filterStyles = {
+  button: 'absolute right-1 top-1/2 -translate-y-1/2 w-4 h-4 flex items-center justify-center rounded-sm text-[10px] text-gray-500 bg-white border border-gray-300 opacity-0 group-hover:opacity-100 hover:bg-gray-100 z-[2]',
+  activeButton: 'opacity-100 text-blue-600 border-blue-400',
+  filteredRowHeader: 'text-blue-600',
+  // 直後の行が非表示になっている行
+  hiddenRowsBelow: 'border-b-2 border-b-blue-300'
+} as const
+
+// 列ヘッダーのメニューのスタイル
+export const columnMenuStyles = {
+  container: 'absolute w-64 py-1 bg-white border border-gray-300 rounded shadow-lg text-sm font-normal cursor-default',
+  item: 'w-full px-3 py-1 text-left hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent',
+  separator: 'my-1 border-t border-gray-200',
+  section: 'px-3 py-1 flex flex-col gap-1',
+  input: 'w-full px-1 py-0.5 border border-gray-300 rounded-sm outline-none focus:border-blue-500',
+  valueList: 'max-h-48 overflow-y-auto border border-gray-200 rounded-sm',
+  valueItem: 'flex items-center gap-2 px-2 py-0.5 whitespace-nowrap hover:bg-gray-50',
+  footer: 'flex justify-end gap-2 px-3 py-2',
+  button: 'px-2 py-0.5 border border-gray-300 rounded-sm hover:bg-gray-100',
+  primaryButton: 'px-2 py-0.5 border border-blue-600 rounded-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50'
+} as const
+
+// 検索・置換パネルと検索で一致したセルのスタイル
+export const searchStyles = {
+  panel: 'absolute top-1 right-6 w-96 p-2 flex flex-col gap-1 bg-white border border-gray-300 rounded shadow-lg text-sm cursor-default',
+  row: 'flex items-center gap-1',
+  input: 'flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded-sm outline-none focus:border-blue-500',
+  invalidInput: 'border-red-500 focus:border-red-500',
+  iconButton: 'w-6 h-6 shrink-0 flex items-center justify-center rounded-sm hover:bg-gray-100',
+  button: 'px-2 py-0.5 shrink-0 border border-gray-300 rounded-sm hover:bg-gray-100',
+  options: 'flex flex-wrap items-center gap-x-3 gap-y-1 pl-7 text-xs',
+  option: 'flex items-center gap-1',
+  select: 'px-1 py-0.5 border border-gray-300 rounded-sm outline-none',
+  status: 'pl-7 text-xs text-gray-500',
+  error: 'text-red-600',
+  match: 'bg-yellow-100'
+} as const
+
+// 入力規則のスタイル
+export const validationStyles = {
+  dialog: 'absolute left-1/2 top-1/4 -translate-x-1/2 w-80 p-3 flex flex-col gap-2 bg-white border border-gray-300 rounded shadow-lg text-sm cursor-default',
+  title: 'flex items-center gap-2 font-bold',
+  stopIcon: 'text-red-600',
+  warningIcon: 'text-yellow-500',
+  message: 'whitespace-pre-wrap',
+  actions: 'flex justify-end gap-1',
+  button: 'px-3 py-0.5 border border-gray-300 rounded-sm hover:bg-gray-100 focus:border-blue-500 outline-none',
+  // 入力時メッセージ（セルの右下に表示する）
+  hint: 'absolute max-w-64 px-2 py-1 bg-yellow-50 border border-gray-400 shadow text-xs whitespace-pre-wrap pointer-events-none',
+  hintTitle: 'font-bold',
+  // 一覧から選ぶボタン（アクティブセルの右端）
+  dropdownButton: 'absolute right-0 top-0 bottom-0 w-4 flex items-center justify-center bg-gray-100 border-l border-gray-300 text-[10px] text-gray-600 hover:bg-gray-200',
+  // 無効なデータを囲む円
+  invalidCircle: 'absolute inset-0 border-2 border-red-500 rounded-[50%] pointer-events-none'
+} as const
+
+// コンテキストメニューのスタイル
+export const contextMenuStyles = {
+  container: 'absolute min-w-48 py-1 bg-white border border-gray-300 rounded shadow-lg text-sm font-normal outline-none cursor-default',
+  item: 'w-full flex items-center justify-between gap-4 px-3 py-1 text-left disabled:text-gray-400',
+  activeItem: 'bg-gray-100',
+  shortcut: 'text-xs text-gray-500',
+  separator: 'my-1 border-t border-gray-200'
+} as const
+
+// 書式ツールバーのスタイル
+export const toolbarStyles = {
+  container: 'flex flex-wrap items-center gap-1 px-2 py-1 bg-gray-50 border-b border-gray-300 text-sm select-none',
+  group: 'flex items-center gap-0.5',
+  separator: 'w-px h-5 mx-1 bg-gray-300',
+  button: 'min-w-7 h-7 px-1 flex items-center justify-center rounded-sm hover:bg-gray-200',
+  activeButton: 'bg-blue-100 text-blue-700 hover:bg-blue-200',
+  select: 'h-7 px-1 border border-gray-300 rounded-sm bg-white outline-none',
+  colorLabel: 'relative min-w-7 h-7 px-1 flex flex-col items-center justify-center rounded-sm cursor-pointer hover:bg-gray-200',
+  colorSwatch: 'w-5 h-1',
+  colorInput: 'absolute inset-0 opacity-0 cursor-pointer'
+} as const
+
+// 条件付き書式のルール管理パネルのスタイル
+export const conditionalFormatStyles = {
+  panel: 'w-80 flex flex-col gap-2 p-2 bg-white border-l border-gray-300 text-sm overflow-y-auto',
+  header: 'flex items-center justify-between font-bold',
+  list: 'flex flex-col border border-gray-200 rounded-sm',
+  empty: 'px-2 py-3 text-center text-gray-500',
+  item: 'flex items-center gap-1 px-1 py-1 border-b border-gray-200 last:border-b-0',
+  activeItem: 'bg-blue-50',
+  preview: 'w-10 h-5 shrink-0 flex items-center justify-center border border-gray-200 text-xs',
+  description: 'flex-1 min-w-0 truncate',
+  range: 'text-xs text-gray-500',
+  form: 'flex flex-col gap-2 p-2 border border-gray-200 rounded-sm',
+  row: 'flex flex-wrap items-center gap-2',
+  field: 'flex items-center gap-1',
+  input: 'flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded-sm outline-none focus:border-blue-500',
+  invalidInput: 'border-red-500 focus:border-red-500',
+  number: 'w-16 px-1 py-0.5 border border-gray-300 rounded-sm outline-none focus:border-blue-500',
+  select: 'px-1 py-0.5 border border-gray-300 rounded-sm bg-white outline-none',
+  color: 'w-8 h-6 p-0 border border-gray-300 rounded-sm cursor-pointer',
+  actions: 'flex justify-end gap-1',
+  iconButton: 'w-6 h-6 shrink-0 flex items-center justify-center rounded-sm hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent',
+  button: 'px-2 py-0.5 border border-gray-300 rounded-sm hover:bg-gray-100',
+  primaryButton: 'px-2 py-0.5 rounded-sm bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300'
+} as const
+
+// ブック（複数のシートとシート見出し）のスタイル
+export const workbookStyles = {
+  container: 'h-full flex flex-col',
+  sheets: 'relative flex-1 min-h-0',
+  sheet: 'absolute inset-0',
+  hiddenSheet: 'invisible',
+  tabBar: 'relative flex items-stretch h-8 bg-gray-100 border-t border-gray-300 text-sm select-none',
+  addButton: 'w-8 shrink-0 flex items-center justify-center text-gray-600 hover:bg-gray-200',
+  tabList: 'flex items-stretch min-w-0 overflow-x-auto',
+  tab: 'relative max-w-48 shrink-0 flex items-center px-3 border-r border-gray-300 cursor-pointer whitespace-nowrap hover:bg-gray-200',
+  activeTab: 'bg-white text-green-700 font-bold hover:bg-white',
+  draggingTab: 'opacity-50',
+  tabName: 'truncate',
+  // タブの色（下端の帯）
+  tabColor: 'absolute left-0 right-0 bottom-0 h-1',
+  // ドラッグで移す位置
+  dropIndicator: 'absolute top-0 bottom-0 w-0.5 -ml-px bg-green-700 pointer-events-none',
+  renameInput: 'w-28 px-1 border border-green-700 rounded-sm outline-none font-normal',
+  invalidRenameInput: 'border-red-500',
+  colorInput: 'absolute w-0 h-0 opacity-0 pointer-events-none',
+  // シート見出しの右クリックメニュー（見出しの上に開く）
+  tabMenu: '-translate-y-full'
+} as const
+
+// 文書の名前・保存の状態を表示するバーのスタイル
+export const documentStyles = {
+  bar: 'relative flex items-center gap-2 px-2 py-1 bg-white border-b border-gray-300 text-sm',
+  titleInput: 'w-56 px-1 py-0.5 border border-transparent rounded-sm outline-none hover:border-gray-300 focus:border-blue-500',
+  button: 'px-2 py-0.5 rounded-sm hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent',
+  status: 'ml-auto text-xs text-gray-500',
+  errorStatus: 'text-red-600'
+} as const
+
 // コーナーセルの基本スタイル
 export const cornerStyles = {
   base: 'bg-gray-100 border-r border-b border-gray-200 cursor-pointer',
   hover: 'hover:bg-gray-200'
 } as const
 
+// セルエディタのスタイル
+export const editorStyles = {
+  input: 'absolute inset-0 w-full h-full px-1 bg-white outline-none border-2 border-blue-500 z-[2]'
+} as const
+
 // グリッドの基本スタイル
 export const gridStyles = {
   container: 'relative outline-none',
@@ -73,7 +261,8 @@ export const layoutStyles = {
   zIndex: {
     corner: 20,
     header: 10,
-    cell: 1
+    cell: 1,
+    menu: 30
   },
   overflow: {
     hidden: {
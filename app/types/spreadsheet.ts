@@ -0,0 +1,64 @@
+export interface CellPosition {
+  row: number
+  col: number
+}
+
+export interface CellRange {
+  start: CellPosition
+  end: CellPosition
+}
+
+// 罫線の種類
+export type BorderLineStyle = 'thin' | 'medium' | 'thick' | 'dashed' | 'dotted' | 'double'
+
+export interface CellBorder {
+  style: BorderLineStyle
+  // CSS の色（#rrggbb。省略時は黒）
+  color?: string
+}
+
+export type HorizontalAlignment = 'left' | 'center' | 'right'
+export type VerticalAlignment = 'top' | 'middle' | 'bottom'
+
+// セルの書式（同じ内容の書式は internStyle で1つのオブジェクトを共有する）
+export interface CellStyle {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strikethrough?: boolean
+  // ポイント単位
+  fontSize?: number
+  // 文字色と塗りつぶしの色（CSS の色 #rrggbb）
+  color?: string
+  fill?: string
+  // 省略時は値の型に応じて揃える
+  horizontalAlign?: HorizontalAlignment
+  verticalAlign?: VerticalAlignment
+  wrap?: boolean
+  borderTop?: CellBorder
+  borderRight?: CellBorder
+  borderBottom?: CellBorder
+  borderLeft?: CellBorder
+}
+
+// セルの値や状態を表す型
+export interface CellData {
+  value: string | number
+  type?: 'text' | 'number' | 'date'
+  format?: string
+  style?: CellStyle
+  editable?: boolean
+}
+
+// 入力から決まるセルの内容（type・format・style・editable のキーがない場合は既存の設定を変更しない）
+export interface CellContent {
+  value: string
+  type?: CellData['type']
+  format?: string
+  style?: CellStyle
+  // 行・列の挿入・削除でセルと一緒に移動する
+  editable?: boolean
+}
+
+// セルの値の変更（貼り付けなど複数セルの変更をまとめて通知する）
+export interface CellChange extends CellPosition, CellContent {}